@@ -1,18 +1,40 @@
 import { notFound } from "next/navigation";
-import { getAgency, getRoutes, getStops } from "../../../src/db";
+import {
+  getAgency,
+  getRoutes,
+  getServiceAlerts,
+  getStops,
+  getTranslator,
+} from "../../../src/db";
 import type { RoutesData, StopsData } from "../../../src/db";
+import { getLanguagePreferences } from "../../../src/request-language";
+import {
+  translateAgency,
+  translateRoute,
+  translateStop,
+} from "../../../src/translations";
+import AlertBanner from "../../../src/components/AlertBanner";
 import styles from "./page.module.css";
 
 export const dynamic = "force-dynamic";
 
 export async function generateMetadata({
   params,
+  searchParams,
 }: {
   params: Promise<{ agency_id: string }>;
+  searchParams: Promise<{ lang?: string }>;
 }) {
   const { agency_id } = await params;
-  const agency = await getAgency(agency_id);
-  if (!agency) return { title: "Agency Not Found" };
+  const found = await getAgency(agency_id);
+  if (!found) return { title: "Agency Not Found" };
+  const agency = translateAgency(
+    await getTranslator(
+      found.feed_version_id,
+      await getLanguagePreferences((await searchParams).lang),
+    ),
+    found,
+  );
   return {
     title: `${agency.agency_name} (${agency_id}) - Transit Directory`,
     description: `View active routes and stops for ${agency.agency_name}.`,
@@ -92,28 +114,39 @@ export default async function AgencyPage({
   searchParams,
 }: {
   params: Promise<{ agency_id: string }>;
-  searchParams: Promise<{ view?: string }>;
+  searchParams: Promise<{ view?: string; lang?: string }>;
 }) {
   const { agency_id } = await params;
-  const { view: viewParam } = await searchParams;
-  const agency = await getAgency(agency_id);
+  const { view: viewParam, lang } = await searchParams;
+  const found = await getAgency(agency_id);
 
-  if (!agency) {
+  if (!found) {
     notFound();
   }
 
+  const preferences = await getLanguagePreferences(lang);
+  const t = await getTranslator(found.feed_version_id, preferences);
+  const agency = translateAgency(t, found);
+
   const { agency_name, feed_version_id, agency_pk } = agency;
   const view = viewParam === "stops" ? "stops" : "routes";
 
+  const alerts = await getServiceAlerts(
+    { agencyId: agency_id },
+    preferences[0],
+  );
+
   let routes: RoutesData[] = [];
   let stops: StopsData[] = [];
 
   if (view === "routes") {
-    routes = await getRoutes({ feed_version_id, agency_pk });
-  } else {
-    stops = (await getStops({ feed_version_id, is_parent: true })).sort(
-      (a, b) => a.stop_name.localeCompare(b.stop_name),
+    routes = (await getRoutes({ feed_version_id, agency_pk })).map((route) =>
+      translateRoute(t, route),
     );
+  } else {
+    stops = (await getStops({ feed_version_id, is_parent: true }))
+      .map((stop) => translateStop(t, stop))
+      .sort((a, b) => a.stop_name.localeCompare(b.stop_name));
   }
 
   return (
@@ -127,6 +160,8 @@ export default async function AgencyPage({
         </h1>
       </div>
 
+      <AlertBanner alerts={alerts} />
+
       <div className={styles.viewToggle}>
         <a
           href={`/a/${agency_id}`}
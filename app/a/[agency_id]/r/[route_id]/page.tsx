@@ -1,11 +1,33 @@
 import { notFound } from "next/navigation";
-import { DateTime } from "luxon";
 import {
   getAgency,
   getRoute,
+  getRouteBookingRules,
+  getRouteFareSummary,
   getRouteStops,
-  getDepartures,
+  getShape,
+  getRouteVehicles,
+  getServiceAlerts,
+  getTranslator,
+  getUpcomingDepartures,
+  placeVehiclesOnRoute,
+  routeVehicleKey,
 } from "../../../../../src/db";
+import { getLanguagePreferences } from "../../../../../src/request-language";
+import { placeStopsOnShape } from "../../../../../src/shape-geometry";
+import {
+  translateAgency,
+  translateRoute,
+  translateStop,
+} from "../../../../../src/translations";
+import AlertBanner from "../../../../../src/components/AlertBanner";
+import BookingInfo from "../../../../../src/components/BookingInfo";
+import RouteFares from "../../../../../src/components/RouteFares";
+import ShapeMap, {
+  type ShapeMapStop,
+} from "../../../../../src/components/ShapeMap";
+import AccessibilityIcons from "../../../../../src/components/AccessibilityIcons";
+import VehicleBadge from "../../../../../src/components/VehicleBadge";
 import DepartureTime from "../../../../../src/components/DepartureTime";
 import styles from "./page.module.css";
 
@@ -13,14 +35,22 @@ export const dynamic = "force-dynamic";
 
 export async function generateMetadata({
   params,
+  searchParams,
 }: {
   params: Promise<{ agency_id: string; route_id: string }>;
+  searchParams: Promise<{ lang?: string }>;
 }) {
   const { agency_id, route_id } = await params;
-  const agency = await getAgency(agency_id);
-  if (!agency) return { title: "Not Found" };
-  const route = await getRoute(route_id, agency.feed_version_id);
-  if (!route) return { title: "Route Not Found" };
+  const found = await getAgency(agency_id);
+  if (!found) return { title: "Not Found" };
+  const t = await getTranslator(
+    found.feed_version_id,
+    await getLanguagePreferences((await searchParams).lang),
+  );
+  const agency = translateAgency(t, found);
+  const untranslated = await getRoute(route_id, agency.feed_version_id);
+  if (!untranslated) return { title: "Route Not Found" };
+  const route = translateRoute(t, untranslated);
   const title = `${route.route_short_name} ${route.route_long_name ? "- " + route.route_long_name : ""} - ${agency.agency_name}`;
   return {
     title,
@@ -30,44 +60,63 @@ export async function generateMetadata({
 
 export default async function RoutePage({
   params,
+  searchParams,
 }: {
   params: Promise<{ agency_id: string; route_id: string }>;
+  searchParams: Promise<{ accessible?: string; lang?: string }>;
 }) {
   const { agency_id, route_id } = await params;
-  const agency = await getAgency(agency_id);
-  if (!agency) notFound();
+  const { accessible, lang } = await searchParams;
+  const accessibleOnly = accessible === "1";
+  const found = await getAgency(agency_id);
+  if (!found) notFound();
+  const preferences = await getLanguagePreferences(lang);
+  const t = await getTranslator(found.feed_version_id, preferences);
+  const agency = translateAgency(t, found);
   const { agency_name, feed_version_id, agency_timezone } = agency;
 
-  const route = await getRoute(route_id, feed_version_id);
-  if (!route) notFound();
-
-  const routeStops = await getRouteStops(route.route_pk);
-
-  const now = DateTime.now().setZone(agency_timezone);
-  const midnight = now.startOf("day");
-  const currentSeconds = Math.floor(now.diff(midnight, "seconds").seconds);
-  const endSeconds = currentSeconds + 4 * 60 * 60;
-  const todayNoon = midnight.set({ hour: 12 }).toSeconds()!;
-  const days = [
-    "sunday",
-    "monday",
-    "tuesday",
-    "wednesday",
-    "thursday",
-    "friday",
-    "saturday",
+  const untranslatedRoute = await getRoute(route_id, feed_version_id);
+  if (!untranslatedRoute) notFound();
+  const route = translateRoute(t, untranslatedRoute);
+
+  // Directions are named after a representative trip's headsign, which only
+  // a field_value translation can match (the trip_id is not read).
+  const routeStops = (await getRouteStops(route.route_pk)).map((stop) => ({
+    ...translateStop(t, stop),
+    trip_headsign: t.text("trips", "trip_headsign", "", stop.trip_headsign),
+  }));
+
+  // Each direction's representative trip brings its own shape.
+  const shapeIds = [
+    ...new Set(
+      routeStops.flatMap((s) => (s.shape_id !== null ? [s.shape_id] : [])),
+    ),
   ];
-  const todayColumn = days[now.weekday % 7];
-
-  const departures = await getDepartures({
-    feed_version_id,
-    route_pk: route.route_pk,
-    currentSeconds,
-    endSeconds,
-    todayNoon,
-    todayColumn,
-    limit: 1000,
-  });
+
+  const [{ departures }, alerts, bookingRules, fares, shapes] =
+    await Promise.all([
+      getUpcomingDepartures({
+        feed_version_id,
+        route_pk: route.route_pk,
+        timezone: agency_timezone,
+        windowSeconds: 4 * 60 * 60,
+        limit: 1000,
+        wheelchairAccessibleOnly: accessibleOnly,
+      }),
+      getServiceAlerts(
+        { agencyId: agency_id, routeIds: [route_id] },
+        preferences[0],
+      ),
+      getRouteBookingRules(route.route_pk, feed_version_id),
+      getRouteFareSummary(route_id, feed_version_id),
+      Promise.all(shapeIds.map((id) => getShape(id, feed_version_id))),
+    ]);
+  const shapeById = new Map(shapeIds.map((id, i) => [id, shapes[i]]));
+
+  const vehicles = await getRouteVehicles(agency_id, route_id, [
+    ...new Set(departures.map((d) => d.trip_id)),
+  ]);
+  const vehiclesAtStop = placeVehiclesOnRoute(vehicles, routeStops);
 
   const directionIds = [
     ...new Set(routeStops.map((s) => s.direction_id)),
@@ -81,10 +130,30 @@ export default async function RoutePage({
       stops: stops.map((stop) => ({
         ...stop,
         departures: departures.filter((d) => d.stop_id === stop.stop_id),
+        vehicles:
+          vehiclesAtStop.get(routeVehicleKey(dirId, stop.stop_id)) ?? [],
       })),
     };
   });
 
+  // Stops served in both directions get one marker, placed on the first
+  // direction's shape.
+  const mapStops = new Map<string, ShapeMapStop>();
+  for (const dirId of directionIds) {
+    const stops = routeStops.filter((s) => s.direction_id === dirId);
+    const shape = shapeById.get(stops[0]?.shape_id ?? "") ?? [];
+    placeStopsOnShape(shape, stops).forEach((point, i) => {
+      const stop = stops[i];
+      if (mapStops.has(stop.stop_id)) return;
+      mapStops.set(stop.stop_id, {
+        key: stop.stop_id,
+        name: stop.stop_name,
+        href: `/a/${agency_id}/s/${stop.stop_id}`,
+        ...point,
+      });
+    });
+  }
+
   const bgColor = route.route_color ? `#${route.route_color}` : "#eee";
   const textColor = route.route_text_color
     ? `#${route.route_text_color}`
@@ -125,9 +194,32 @@ export default async function RoutePage({
               </a>
             </p>
           )}
+          <p>
+            <a
+              href={
+                accessibleOnly
+                  ? `/a/${agency_id}/r/${route_id}`
+                  : `/a/${agency_id}/r/${route_id}?accessible=1`
+              }
+            >
+              {accessibleOnly
+                ? "Show all trips"
+                : "Wheelchair accessible trips only"}
+            </a>
+          </p>
         </div>
       </div>
 
+      <AlertBanner alerts={alerts} />
+      <BookingInfo rules={bookingRules} />
+      <RouteFares fares={fares} />
+
+      <ShapeMap
+        lines={shapes}
+        stops={[...mapStops.values()]}
+        color={route.route_color ? `#${route.route_color}` : "#666"}
+      />
+
       <div>
         {stopsByDirection.map((direction) => (
           <section
@@ -146,22 +238,38 @@ export default async function RoutePage({
                     >
                       {stop.stop_name}
                     </a>
+                    {stop.vehicles.map((vehicle, i) => (
+                      <div
+                        key={vehicle.vehicleId ?? i}
+                        className={styles.vehicle}
+                      >
+                        <VehicleBadge vehicle={vehicle} />
+                      </div>
+                    ))}
                   </div>
                   <div className={styles.stopTimes}>
                     {stop.departures.length > 0 ? (
-                      stop.departures
-                        .slice(0, 3)
-                        .map((dep, i) => (
+                      stop.departures.slice(0, 3).map((dep, i) => (
+                        <span key={i} className={styles.departure}>
                           <DepartureTime
-                            key={i}
                             departureTime={dep.departure_time}
                             delay={dep.delay}
                             timezone={stop.stop_timezone || agency_timezone}
                             agencyId={agency_id}
                             tripId={dep.trip_id}
                             stopSequence={dep.stop_sequence}
+                            serviceDate={dep.service_date}
+                            skipped={dep.skipped}
+                            headwaySecs={dep.headway_secs}
+                            pickupWindowEnd={dep.pickup_window_end}
+                          />
+                          <AccessibilityIcons
+                            wheelchairAccessible={dep.wheelchair_accessible}
+                            bikesAllowed={dep.bikes_allowed}
+                            wheelchairBoarding={dep.wheelchair_boarding}
                           />
-                        ))
+                        </span>
+                      ))
                     ) : (
                       <span className={styles.noTimes}>No upcoming times</span>
                     )}
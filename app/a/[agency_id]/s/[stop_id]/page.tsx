@@ -1,26 +1,51 @@
 import { notFound } from "next/navigation";
-import { DateTime } from "luxon";
 import {
   getAgency,
+  getBookingRules,
   getStop,
   getStops,
-  getDepartures,
+  getNextService,
+  getServiceAlerts,
+  getStationLayout,
+  getTranslator,
+  getUpcomingDepartures,
 } from "../../../../../src/db";
+import { inheritWheelchairBoarding } from "../../../../../src/db-queries";
+import { describeNextService } from "../../../../../src/service-day";
+import { getLanguagePreferences } from "../../../../../src/request-language";
+import { isPlatform } from "../../../../../src/station-pathways";
+import {
+  translateAgency,
+  translateStop,
+  translateTrip,
+} from "../../../../../src/translations";
+import AccessibilityIcons from "../../../../../src/components/AccessibilityIcons";
+import AlertBanner from "../../../../../src/components/AlertBanner";
+import BookingInfo from "../../../../../src/components/BookingInfo";
 import DepartureTime from "../../../../../src/components/DepartureTime";
+import StationLevels from "../../../../../src/components/StationLevels";
 import styles from "./page.module.css";
 
 export const dynamic = "force-dynamic";
 
 export async function generateMetadata({
   params,
+  searchParams,
 }: {
   params: Promise<{ agency_id: string; stop_id: string }>;
+  searchParams: Promise<{ lang?: string }>;
 }) {
   const { agency_id, stop_id } = await params;
-  const agency = await getAgency(agency_id);
-  if (!agency) return { title: "Not Found" };
-  const stop = await getStop(stop_id, agency.feed_version_id);
-  if (!stop) return { title: "Stop Not Found" };
+  const found = await getAgency(agency_id);
+  if (!found) return { title: "Not Found" };
+  const t = await getTranslator(
+    found.feed_version_id,
+    await getLanguagePreferences((await searchParams).lang),
+  );
+  const agency = translateAgency(t, found);
+  const untranslated = await getStop(stop_id, agency.feed_version_id);
+  if (!untranslated) return { title: "Stop Not Found" };
+  const stop = translateStop(t, untranslated);
   return {
     title: `${stop.stop_name} (${stop_id}) - ${agency.agency_name}`,
     description: `Upcoming departures for ${stop.stop_name} by ${agency.agency_name}.`,
@@ -29,60 +54,125 @@ export async function generateMetadata({
 
 export default async function StopPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ agency_id: string; stop_id: string }>;
+  searchParams: Promise<{ accessible?: string; lang?: string }>;
 }) {
   const { agency_id, stop_id } = await params;
-  const agency = await getAgency(agency_id);
-  if (!agency) notFound();
+  const { accessible, lang } = await searchParams;
+  const accessibleOnly = accessible === "1";
+  const found = await getAgency(agency_id);
+  if (!found) notFound();
+  const preferences = await getLanguagePreferences(lang);
+  const t = await getTranslator(found.feed_version_id, preferences);
+  const agency = translateAgency(t, found);
   const { agency_name, feed_version_id, agency_timezone } = agency;
 
-  const parentStop = await getStop(stop_id, feed_version_id);
-  if (!parentStop) notFound();
+  const untranslatedStop = await getStop(stop_id, feed_version_id);
+  if (!untranslatedStop) notFound();
+  const parentStop = translateStop(t, untranslatedStop);
 
-  const childrenStops = await getStops({
-    feed_version_id,
-    parent_station_pk: parentStop.stop_pk,
-  });
+  const childrenStops = (
+    await getStops({
+      feed_version_id,
+      parent_station_pk: parentStop.stop_pk,
+    })
+  ).map((stop) => translateStop(t, stop));
 
-  let targetStops = childrenStops.length > 0 ? childrenStops : [parentStop];
+  // Departures are listed per platform; entrances and other station nodes
+  // appear in the station view below.
+  const platforms = childrenStops.filter(isPlatform);
+  let targetStops = platforms.length > 0 ? platforms : [parentStop];
   targetStops.sort((a, b) => a.stop_name.localeCompare(b.stop_name));
 
   const stopPks = targetStops.map((s) => s.stop_pk);
 
-  const now = DateTime.now().setZone(agency_timezone);
-  const midnight = now.startOf("day");
-  const currentSeconds = Math.floor(now.diff(midnight, "seconds").seconds);
-  const endSeconds = currentSeconds + 2 * 60 * 60;
-  const todayNoon = midnight.set({ hour: 12 }).toSeconds()!;
-  const days = [
-    "sunday",
-    "monday",
-    "tuesday",
-    "wednesday",
-    "thursday",
-    "friday",
-    "saturday",
-  ];
-  const todayColumn = days[now.weekday % 7];
-
   let departures: any[] = [];
   if (stopPks.length > 0) {
-    departures = await getDepartures({
+    ({ departures } = await getUpcomingDepartures({
       feed_version_id,
       stopPks,
-      currentSeconds,
-      endSeconds,
-      todayNoon,
-      todayColumn,
+      timezone: agency_timezone,
+      windowSeconds: 2 * 60 * 60,
       limit: 300,
-    });
+      wheelchairAccessibleOnly: accessibleOnly,
+    }));
+    departures = departures.map((d) => translateTrip(t, d));
   }
 
-  const stopsWithDepartures = targetStops.map((stop) => ({
-    ...stop,
-    departures: departures.filter((d: any) => d.stop_pk === stop.stop_pk),
-  }));
+  // Route-wide alerts matter to riders at every stop the route serves, so the
+  // routes departing here are in scope alongside the station and its
+  // platforms and entrances. On-demand departures say how to book them.
+  const [alerts, bookingRules, station] = await Promise.all([
+    getServiceAlerts(
+      {
+        agencyId: agency_id,
+        stopIds: [parentStop.stop_id, ...childrenStops.map((s) => s.stop_id)],
+        routeIds: [
+          ...new Set(departures.map((d: any) => d.route_id as string)),
+        ],
+      },
+      preferences[0],
+    ),
+    getBookingRules(feed_version_id, [
+      ...new Set(
+        departures.flatMap((d: any) =>
+          d.booking_rule_id ? [d.booking_rule_id as string] : [],
+        ),
+      ),
+    ]),
+    childrenStops.length > 0
+      ? getStationLayout(parentStop.stop_pk, feed_version_id).then(
+          (layout) =>
+            layout && {
+              ...layout,
+              levels: layout.levels.map((level) => ({
+                ...level,
+                nodes: level.nodes.map((node) => translateStop(t, node)),
+              })),
+            },
+        )
+      : Promise.resolve(null),
+  ]);
+
+  // Platforms with nothing in the window say when service resumes instead.
+  const stopsWithDepartures = await Promise.all(
+    targetStops.map(async (stop) => {
+      const stopDepartures = departures.filter(
+        (d: any) => d.stop_pk === stop.stop_pk,
+      );
+      let nextService: string | null = null;
+      if (stopDepartures.length === 0) {
+        const next = await getNextService({
+          feed_version_id,
+          stopPks: [stop.stop_pk],
+          timezone: agency_timezone,
+          limit: 1,
+          wheelchairAccessibleOnly: accessibleOnly,
+        });
+        if (next && next.departures.length > 0) {
+          nextService = describeNextService(
+            next.serviceDay,
+            next.departures[0].departure_time,
+            stop.stop_timezone || agency_timezone,
+          );
+        }
+      }
+      // Platforms without a wheelchair_boarding of their own take the
+      // station's.
+      const wheelchairBoarding =
+        stop.stop_pk === parentStop.stop_pk
+          ? (stop.wheelchair_boarding ?? 0)
+          : inheritWheelchairBoarding(stop, parentStop);
+      return {
+        ...stop,
+        departures: stopDepartures,
+        nextService,
+        wheelchairBoarding,
+      };
+    }),
+  );
 
   return (
     <main className={styles.main}>
@@ -92,14 +182,45 @@ export default async function StopPage({
         </a>
         <h1 className={styles.title}>{parentStop.stop_name}</h1>
         <p className={styles.subtitle}>Stop ID: {stop_id}</p>
+        <a
+          href={`/plan?from=${encodeURIComponent(`stop:${agency_id}:${stop_id}`)}`}
+          className={styles.planLink}
+        >
+          Plan a trip from here
+        </a>
+        <a
+          href={
+            accessibleOnly
+              ? `/a/${agency_id}/s/${stop_id}`
+              : `/a/${agency_id}/s/${stop_id}?accessible=1`
+          }
+          className={styles.filterLink}
+        >
+          {accessibleOnly
+            ? "Show all trips"
+            : "Wheelchair accessible trips only"}
+        </a>
       </div>
 
+      <AlertBanner alerts={alerts} />
+      <BookingInfo rules={bookingRules} />
+
       <div className={styles.stopsGrid}>
         {stopsWithDepartures.map((stop) => (
           <div key={stop.stop_pk} className={styles.stopCard}>
             <h2>
               {stop.stop_name}{" "}
               <span className={styles.stopSubId}>({stop.stop_id})</span>
+              {stop.wheelchairBoarding === 1 && (
+                <span className={styles.boardingNote}>
+                  &#9855; Wheelchair boarding
+                </span>
+              )}
+              {stop.wheelchairBoarding === 2 && (
+                <span className={styles.boardingNote}>
+                  No wheelchair boarding
+                </span>
+              )}
             </h2>
             <div className={styles.departuresList}>
               {stop.departures.length > 0 ? (
@@ -112,7 +233,10 @@ export default async function StopPage({
                     : "#000";
 
                   return (
-                    <div key={i} className={styles.departureRow}>
+                    <div
+                      key={i}
+                      className={`${styles.departureRow} ${dep.skipped ? styles.skippedRow : ""}`}
+                    >
                       <a
                         href={`/a/${agency_id}/r/${dep.route_id}`}
                         className={styles.routeBadgeLink}
@@ -134,6 +258,11 @@ export default async function StopPage({
                       >
                         {dep.trip_headsign}
                       </a>
+                      <AccessibilityIcons
+                        wheelchairAccessible={dep.wheelchair_accessible}
+                        bikesAllowed={dep.bikes_allowed}
+                        wheelchairBoarding={dep.wheelchair_boarding}
+                      />
                       <DepartureTime
                         departureTime={dep.departure_time}
                         delay={dep.delay}
@@ -141,19 +270,37 @@ export default async function StopPage({
                         agencyId={agency_id}
                         tripId={dep.trip_id}
                         stopSequence={dep.stop_sequence}
+                        serviceDate={dep.service_date}
+                        skipped={dep.skipped}
+                        headwaySecs={dep.headway_secs}
+                        pickupWindowEnd={dep.pickup_window_end}
                       />
                     </div>
                   );
                 })
               ) : (
                 <div className={styles.noDepartures}>
-                  No upcoming departures in the next 2 hours.
+                  {accessibleOnly
+                    ? "No wheelchair accessible departures in the next 2 hours."
+                    : "No upcoming departures in the next 2 hours."}
+                  {stop.nextService && (
+                    <div className={styles.nextService}>
+                      Next service: {stop.nextService}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
           </div>
         ))}
       </div>
+
+      {station && (
+        <StationLevels
+          levels={station.levels}
+          stepFreeRoutes={station.stepFreeRoutes}
+        />
+      )}
     </main>
   );
 }
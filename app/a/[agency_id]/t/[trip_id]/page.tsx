@@ -2,29 +2,55 @@ import { notFound } from "next/navigation";
 import { DateTime } from "luxon";
 import {
   getAgency,
+  getFareQuote,
   getTrip,
   getRouteByPk,
+  getShape,
   getTripStops,
+  getServiceAlerts,
+  getTripVehicle,
+  getTranslator,
+  locateVehicleOnTrip,
 } from "../../../../../src/db";
+import { getLanguagePreferences } from "../../../../../src/request-language";
+import { translateRoute, translateStop } from "../../../../../src/translations";
+import AlertBanner from "../../../../../src/components/AlertBanner";
+import ShapeMap from "../../../../../src/components/ShapeMap";
+import VehicleBadge from "../../../../../src/components/VehicleBadge";
 import DepartureTime from "../../../../../src/components/DepartureTime";
+import FareOptions from "../../../../../src/components/FareOptions";
 import StopHero from "../../../../../src/components/StopHero";
+import { fareLegTimes } from "../../../../../src/fare-engine";
+import { placeStopsOnShape } from "../../../../../src/shape-geometry";
+import { serviceDayOf, serviceDayOfDate } from "../../../../../src/service-day";
 import styles from "./page.module.css";
 
 export const dynamic = "force-dynamic";
 
 export async function generateMetadata({
   params,
+  searchParams,
 }: {
   params: Promise<{ agency_id: string; trip_id: string }>;
+  searchParams: Promise<{ lang?: string }>;
 }) {
   const { agency_id, trip_id } = await params;
   const agency = await getAgency(agency_id);
   if (!agency) return { title: "Not Found" };
   const trip = await getTrip(trip_id, agency.feed_version_id);
   if (!trip) return { title: "Trip Not Found" };
-  const route = await getRouteByPk(trip.route_pk);
-  const tripName = trip.trip_headsign || trip.trip_short_name || trip.trip_id;
-  const routeName = route?.route_short_name || "";
+  const [route, t] = await Promise.all([
+    getRouteByPk(trip.route_pk),
+    getTranslator(
+      agency.feed_version_id,
+      await getLanguagePreferences((await searchParams).lang),
+    ),
+  ]);
+  const tripName =
+    t.text("trips", "trip_headsign", trip.trip_id, trip.trip_headsign) ||
+    trip.trip_short_name ||
+    trip.trip_id;
+  const routeName = (route && translateRoute(t, route).route_short_name) || "";
   return {
     title: `Trip ${tripName} - ${routeName} - ${agency.agency_name}`,
     description: `Trip details for ${tripName} on route ${routeName} by ${agency.agency_name}.`,
@@ -36,10 +62,20 @@ export default async function TripPage({
   searchParams,
 }: {
   params: Promise<{ agency_id: string; trip_id: string }>;
-  searchParams: Promise<{ stop?: string }>;
+  searchParams: Promise<{
+    stop?: string;
+    to?: string;
+    lang?: string;
+    date?: string;
+  }>;
 }) {
   const { agency_id, trip_id } = await params;
-  const { stop: stopParam } = await searchParams;
+  const {
+    stop: stopParam,
+    to: toParam,
+    lang: langParam,
+    date: dateParam,
+  } = await searchParams;
   const selectedStopSequence = stopParam ? parseInt(stopParam, 10) : null;
 
   const agency = await getAgency(agency_id);
@@ -49,23 +85,94 @@ export default async function TripPage({
   const trip = await getTrip(trip_id, feed_version_id);
   if (!trip) notFound();
 
-  const route = await getRouteByPk(trip.route_pk);
+  const preferences = await getLanguagePreferences(langParam);
+  const t = await getTranslator(feed_version_id, preferences);
+  const tripHeadsign = t.text(
+    "trips",
+    "trip_headsign",
+    trip.trip_id,
+    trip.trip_headsign,
+  );
+  const untranslatedRoute = await getRouteByPk(trip.route_pk);
+  const route = untranslatedRoute && translateRoute(t, untranslatedRoute);
   const routeColor = route?.route_color ? `#${route.route_color}` : "#eee";
   const routeTextColor = route?.route_text_color
     ? `#${route.route_text_color}`
     : "#000";
 
+  // Departure links name the trip's service date, so a trip of yesterday's
+  // service running past midnight keeps its own times and predictions.
   const now = DateTime.now().setZone(agency_timezone);
-  const midnight = now.startOf("day");
-  const currentSeconds = Math.floor(now.diff(midnight, "seconds").seconds);
+  const requestedDay = dateParam
+    ? serviceDayOfDate(dateParam, agency_timezone)
+    : null;
+  const serviceDay = requestedDay ?? serviceDayOf(now);
+  const dateQuery = requestedDay ? `&date=${requestedDay.date}` : "";
+  const serviceDayStart = serviceDay.start;
+  const currentSeconds = Math.floor(now.toSeconds()) - serviceDayStart;
 
-  const stops = await getTripStops(trip.trip_pk, trip.trip_id);
+  const [stops, alerts, vehicle, shape] = await Promise.all([
+    getTripStops(trip, serviceDayStart).then((rows) =>
+      rows.map((stop) => translateStop(t, stop)),
+    ),
+    getServiceAlerts(
+      {
+        agencyId: agency_id,
+        routeIds: route ? [route.route_id] : [],
+        tripIds: [trip.trip_id],
+      },
+      preferences[0],
+    ),
+    getTripVehicle(agency_id, trip.trip_id),
+    trip.shape_id ? getShape(trip.shape_id, feed_version_id) : [],
+  ]);
+  const mapStops = placeStopsOnShape(shape, stops).map((point, i) => ({
+    key: String(stops[i].stop_sequence),
+    name: stops[i].stop_name,
+    href: `/a/${agency_id}/t/${trip.trip_id}?stop=${stops[i].stop_sequence}${dateQuery}`,
+    ...point,
+  }));
+
+  // With a live vehicle, rows before its current stop are behind it; without
+  // one, fall back to comparing predicted times against the clock.
+  const vehicleIndex = vehicle ? locateVehicleOnTrip(stops, vehicle) : -1;
 
   const selectedStop =
     selectedStopSequence !== null
       ? stops.find((s) => s.stop_sequence === selectedStopSequence)
       : null;
 
+  // "Fare from here to X": the rider picks X among the stops after the
+  // selected one, the last stop by default.
+  const fareStops = selectedStop
+    ? stops.filter((s) => s.stop_sequence > selectedStop.stop_sequence)
+    : [];
+  const fareTarget =
+    fareStops.find((s) => String(s.stop_sequence) === toParam) ??
+    fareStops[fareStops.length - 1];
+  const fareQuote =
+    selectedStop && fareTarget && route
+      ? await getFareQuote(
+          feed_version_id,
+          [
+            {
+              route_id: route.route_id,
+              from_stop_id: selectedStop.stop_id,
+              to_stop_id: fareTarget.stop_id,
+              ...fareLegTimes(selectedStop, fareTarget),
+              zone_ids: stops
+                .filter(
+                  (s) =>
+                    s.stop_sequence >= selectedStop.stop_sequence &&
+                    s.stop_sequence <= fareTarget.stop_sequence,
+                )
+                .map((s) => s.zone_id),
+            },
+          ],
+          serviceDay,
+        )
+      : null;
+
   return (
     <main className={styles.main}>
       {selectedStop && (
@@ -77,6 +184,7 @@ export default async function TripPage({
           departureSeconds={selectedStop.departure_time}
           delay={selectedStop.delay || 0}
           timezone={agency_timezone}
+          serviceDayStart={serviceDayStart}
         />
       )}
 
@@ -107,7 +215,7 @@ export default async function TripPage({
             {route?.route_short_name}
           </div>
           <h1 className={styles.title}>
-            {trip.trip_headsign || trip.trip_short_name || trip.trip_id}
+            {tripHeadsign || trip.trip_short_name || trip.trip_id}
           </h1>
         </div>
 
@@ -116,17 +224,83 @@ export default async function TripPage({
         </p>
       </div>
 
+      <AlertBanner alerts={alerts} />
+
+      {vehicle && vehicleIndex >= 0 && (
+        <div className={styles.vehicleSummary}>
+          <VehicleBadge
+            vehicle={vehicle}
+            stopName={stops[vehicleIndex].stop_name}
+          />
+        </div>
+      )}
+
+      {selectedStop && fareTarget && fareQuote && (
+        <section className={styles.fareSection}>
+          <form method="get" className={styles.fareForm}>
+            <input
+              type="hidden"
+              name="stop"
+              value={selectedStop.stop_sequence}
+            />
+            {langParam && <input type="hidden" name="lang" value={langParam} />}
+            {requestedDay && (
+              <input type="hidden" name="date" value={requestedDay.date} />
+            )}
+            <label>
+              Fare from {selectedStop.stop_name} to{" "}
+              <select
+                name="to"
+                defaultValue={fareTarget.stop_sequence}
+                className={styles.fareSelect}
+              >
+                {fareStops.map((stop) => (
+                  <option key={stop.stop_sequence} value={stop.stop_sequence}>
+                    {stop.stop_name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button type="submit" className={styles.fareButton}>
+              Show fare
+            </button>
+          </form>
+          <FareOptions options={fareQuote.options} />
+        </section>
+      )}
+
+      <ShapeMap
+        lines={[shape]}
+        stops={mapStops}
+        color={route?.route_color ? `#${route.route_color}` : "#666"}
+        highlightKey={
+          selectedStopSequence !== null ? String(selectedStopSequence) : null
+        }
+      />
+
       <div>
         <div className={styles.stopsList}>
-          {stops.map((stop) => {
-            const time = stop.departure_time || stop.arrival_time || 0;
+          {stops.map((stop, index) => {
+            const time =
+              stop.departure_time ||
+              stop.arrival_time ||
+              stop.end_pickup_drop_off_window ||
+              0;
             const delay = stop.delay || 0;
-            const isPast = time + delay < currentSeconds;
+            const arrivalDelay =
+              stop.arrival_time !== null && stop.predicted_arrival_time !== null
+                ? stop.predicted_arrival_time - stop.arrival_time
+                : stop.delay;
+            const isPast =
+              vehicleIndex >= 0
+                ? index < vehicleIndex
+                : time + delay < currentSeconds;
+            const vehicleHere = vehicle && index === vehicleIndex;
 
             return (
               <div
                 key={stop.stop_sequence}
-                className={`${styles.stopRow} ${isPast ? styles.pastStop : ""} ${stop.stop_sequence === selectedStopSequence ? styles.selectedStop : ""}`}
+                className={`${styles.stopRow} ${isPast ? styles.pastStop : ""} ${stop.stop_sequence === selectedStopSequence ? styles.selectedStop : ""} ${vehicleHere ? styles.vehicleStop : ""} ${stop.skipped ? styles.skippedStop : ""}`}
               >
                 <div className={styles.stopInfo}>
                   <a
@@ -135,15 +309,28 @@ export default async function TripPage({
                   >
                     {stop.stop_name}
                   </a>
+                  {vehicleHere && (
+                    <div className={styles.vehicle}>
+                      <VehicleBadge vehicle={vehicle} />
+                    </div>
+                  )}
                 </div>
                 <div className={styles.stopTimes}>
                   <DepartureTime
-                    departureTime={stop.arrival_time || 0}
-                    delay={stop.delay}
+                    departureTime={
+                      stop.arrival_time ??
+                      stop.start_pickup_drop_off_window ??
+                      0
+                    }
+                    delay={arrivalDelay}
                     timezone={agency_timezone}
                     agencyId={agency_id}
                     tripId={trip_id}
                     stopSequence={stop.stop_sequence}
+                    serviceDate={requestedDay?.date}
+                    serviceDayStart={serviceDayStart}
+                    skipped={stop.skipped}
+                    pickupWindowEnd={stop.end_pickup_drop_off_window}
                   />
                 </div>
               </div>
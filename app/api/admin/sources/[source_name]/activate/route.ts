@@ -0,0 +1,61 @@
+import { env } from "cloudflare:workers";
+import {
+  forceActivateFeedVersion,
+  getFeedSource,
+  getFeedVersion,
+  reselectFeedVersion,
+} from "../../../../../../src/feed-admin";
+import {
+  parseActivationRequest,
+  readJsonBody,
+  requireAdmin,
+} from "../../../../../../src/lib/api/admin";
+import { ApiError, apiErrorResponse } from "../../../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+// With a `feed_version_id`, makes that imported version live until the next
+// import (rollback pins instead); without one, re-runs the importer's daily
+// selection.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ source_name: string }> },
+) {
+  try {
+    requireAdmin(request, env.ADMIN_API_TOKEN);
+    const { source_name } = await params;
+    const source = await getFeedSource(source_name);
+    if (!source) throw new ApiError(404, `Unknown feed source: ${source_name}`);
+    const requested = parseActivationRequest(await readJsonBody(request));
+
+    if (requested === null) {
+      const choice = await reselectFeedVersion(source.feed_source_id);
+      if (choice.chosen === null) {
+        throw new ApiError(409, `${source_name} has no imported version`);
+      }
+      return Response.json({
+        feed_version_id: choice.chosen,
+        selected: true,
+        has_service_today: choice.serving,
+      });
+    }
+
+    const version = await getFeedVersion(source.feed_source_id, requested);
+    if (!version) {
+      throw new ApiError(
+        404,
+        `Feed version ${requested} does not belong to ${source_name}`,
+      );
+    }
+    if (version.imported_at === null) {
+      throw new ApiError(
+        409,
+        `Feed version ${requested} is not fully imported`,
+      );
+    }
+    await forceActivateFeedVersion(source.feed_source_id, requested);
+    return Response.json({ feed_version_id: requested, selected: false });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
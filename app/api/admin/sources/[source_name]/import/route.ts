@@ -0,0 +1,26 @@
+import { env } from "cloudflare:workers";
+import {
+  getFeedSource,
+  triggerFeedImport,
+} from "../../../../../../src/feed-admin";
+import { requireAdmin } from "../../../../../../src/lib/api/admin";
+import { ApiError, apiErrorResponse } from "../../../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ source_name: string }> },
+) {
+  try {
+    requireAdmin(request, env.ADMIN_API_TOKEN);
+    const { source_name } = await params;
+    if (!(await getFeedSource(source_name))) {
+      throw new ApiError(404, `Unknown feed source: ${source_name}`);
+    }
+    const instanceId = await triggerFeedImport(source_name);
+    return Response.json({ instance_id: instanceId }, { status: 202 });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
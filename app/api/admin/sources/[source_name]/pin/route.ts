@@ -0,0 +1,31 @@
+import { env } from "cloudflare:workers";
+import {
+  getFeedSource,
+  unpinFeedVersion,
+} from "../../../../../../src/feed-admin";
+import { requireAdmin } from "../../../../../../src/lib/api/admin";
+import { ApiError, apiErrorResponse } from "../../../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+// Clears a rollback's pin and re-runs the importer's selection, which
+// usually brings the newest serving version back.
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ source_name: string }> },
+) {
+  try {
+    requireAdmin(request, env.ADMIN_API_TOKEN);
+    const { source_name } = await params;
+    const source = await getFeedSource(source_name);
+    if (!source) throw new ApiError(404, `Unknown feed source: ${source_name}`);
+
+    const choice = await unpinFeedVersion(source.feed_source_id);
+    return Response.json({
+      feed_version_id: choice.chosen,
+      has_service_today: choice.serving,
+    });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
@@ -0,0 +1,59 @@
+import { env } from "cloudflare:workers";
+import {
+  getFeedSource,
+  getFeedVersion,
+  getRollbackTarget,
+  rollbackFeedVersion,
+} from "../../../../../../src/feed-admin";
+import {
+  parseActivationRequest,
+  readJsonBody,
+  requireAdmin,
+} from "../../../../../../src/lib/api/admin";
+import { ApiError, apiErrorResponse } from "../../../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+// Pins a retained version and makes it live: the `feed_version_id` given,
+// or the version that was live before the current one. Later imports keep
+// serving it until DELETE .../pin.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ source_name: string }> },
+) {
+  try {
+    requireAdmin(request, env.ADMIN_API_TOKEN);
+    const { source_name } = await params;
+    const source = await getFeedSource(source_name);
+    if (!source) throw new ApiError(404, `Unknown feed source: ${source_name}`);
+    const requested = parseActivationRequest(await readJsonBody(request));
+
+    const version =
+      requested === null
+        ? await getRollbackTarget(source.feed_source_id)
+        : await getFeedVersion(source.feed_source_id, requested);
+    if (!version) {
+      throw requested === null
+        ? new ApiError(409, `${source_name} has no earlier version to restore`)
+        : new ApiError(
+            404,
+            `Feed version ${requested} does not belong to ${source_name}`,
+          );
+    }
+    if (version.imported_at === null) {
+      throw new ApiError(
+        409,
+        `Feed version ${version.feed_version_id} is not fully imported`,
+      );
+    }
+
+    await rollbackFeedVersion(source.feed_source_id, version.feed_version_id);
+    return Response.json({
+      feed_version_id: version.feed_version_id,
+      version_label: version.version_label,
+      pinned: true,
+    });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
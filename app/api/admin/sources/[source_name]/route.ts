@@ -0,0 +1,52 @@
+import { env } from "cloudflare:workers";
+import {
+  getFeedSource,
+  getFeedVersions,
+  removeFeedSource,
+} from "../../../../../src/feed-admin";
+import {
+  requireAdmin,
+  serializeFeedSource,
+  serializeFeedVersion,
+} from "../../../../../src/lib/api/admin";
+import { ApiError, apiErrorResponse } from "../../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ source_name: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+  try {
+    requireAdmin(request, env.ADMIN_API_TOKEN);
+    const { source_name } = await params;
+    const source = await getFeedSource(source_name);
+    if (!source) throw new ApiError(404, `Unknown feed source: ${source_name}`);
+    const versions = await getFeedVersions(source.feed_source_id);
+    return Response.json({
+      data: {
+        ...serializeFeedSource(source),
+        versions: versions.map(serializeFeedVersion),
+      },
+    });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
+
+// Takes the source off the site and deletes its data in bounded passes:
+// 202 while data remains (repeat the request), 200 once the source is gone.
+export async function DELETE(request: Request, { params }: Params) {
+  try {
+    requireAdmin(request, env.ADMIN_API_TOKEN);
+    const { source_name } = await params;
+    const source = await getFeedSource(source_name);
+    if (!source) throw new ApiError(404, `Unknown feed source: ${source_name}`);
+    const { done, rowsDeleted } = await removeFeedSource(source.feed_source_id);
+    return Response.json(
+      { done, rows_deleted: rowsDeleted },
+      { status: done ? 200 : 202 },
+    );
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
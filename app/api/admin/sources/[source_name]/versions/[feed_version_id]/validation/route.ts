@@ -0,0 +1,47 @@
+import { env } from "cloudflare:workers";
+import {
+  getFeedSource,
+  getFeedVersion,
+  getValidationReport,
+} from "../../../../../../../../src/feed-admin";
+import {
+  parseFeedVersionId,
+  requireAdmin,
+  serializeValidationReport,
+} from "../../../../../../../../src/lib/api/admin";
+import {
+  ApiError,
+  apiErrorResponse,
+} from "../../../../../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+// The version's full validation report (src/feed-validation.ts).
+export async function GET(
+  request: Request,
+  {
+    params,
+  }: { params: Promise<{ source_name: string; feed_version_id: string }> },
+) {
+  try {
+    requireAdmin(request, env.ADMIN_API_TOKEN);
+    const { source_name, feed_version_id } = await params;
+    const source = await getFeedSource(source_name);
+    if (!source) throw new ApiError(404, `Unknown feed source: ${source_name}`);
+    const id = parseFeedVersionId(feed_version_id);
+    const version = await getFeedVersion(source.feed_source_id, id);
+    if (!version) {
+      throw new ApiError(
+        404,
+        `Feed version ${id} does not belong to ${source_name}`,
+      );
+    }
+    const report = await getValidationReport(id);
+    if (!report) {
+      throw new ApiError(404, `Feed version ${id} has not been validated`);
+    }
+    return Response.json({ data: serializeValidationReport(report) });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
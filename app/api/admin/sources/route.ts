@@ -0,0 +1,47 @@
+import { env } from "cloudflare:workers";
+import {
+  addFeedSource,
+  getFeedSource,
+  listFeedSources,
+} from "../../../../src/feed-admin";
+import {
+  parseFeedSourceInput,
+  readJsonBody,
+  requireAdmin,
+  serializeFeedSource,
+} from "../../../../src/lib/api/admin";
+import { ApiError, apiErrorResponse } from "../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    requireAdmin(request, env.ADMIN_API_TOKEN);
+    const sources = await listFeedSources();
+    return Response.json({ data: sources.map(serializeFeedSource) });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
+
+// Registers a source; its first import runs with the next cron or an
+// explicit POST to ./[source_name]/import.
+export async function POST(request: Request) {
+  try {
+    requireAdmin(request, env.ADMIN_API_TOKEN);
+    const source = parseFeedSourceInput(await readJsonBody(request));
+    if (!(await addFeedSource(source))) {
+      throw new ApiError(
+        409,
+        `Feed source already exists: ${source.source_name}`,
+      );
+    }
+    const created = await getFeedSource(source.source_name);
+    return Response.json(
+      { data: created && serializeFeedSource(created) },
+      { status: 201 },
+    );
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
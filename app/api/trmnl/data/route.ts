@@ -14,6 +14,9 @@ export async function GET(request: Request) {
     );
   }
 
-  const data = await getTrmnlData(agencyId, stopId);
+  const data = await getTrmnlData(agencyId, stopId, {
+    accessibleOnly: url.searchParams.get("accessible") === "1",
+    language: url.searchParams.get("lang") || undefined,
+  });
   return Response.json(data);
 }
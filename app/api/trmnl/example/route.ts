@@ -12,6 +12,8 @@ const SAMPLE_DATA: TrmnlStopData = {
   stopId: "70012",
   agencyName: "Caltrain",
   departureCount: 25,
+  alerts: [],
+  nextService: null,
   lastUpdated: new Date().toISOString(),
   departures: [
     {
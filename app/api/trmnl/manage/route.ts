@@ -37,6 +37,8 @@ export async function GET(request: Request) {
     h1 { font-size: 1.4rem; margin-bottom: 24px; }
     label { display: block; font-weight: 500; margin-bottom: 4px; font-size: 0.9em; }
     input { width: 100%; padding: 8px 10px; border: 1px solid #ccc; border-radius: 6px; font-size: 0.9em; margin-bottom: 16px; box-sizing: border-box; }
+    input[type="checkbox"] { width: auto; margin: 0 6px 0 0; }
+    .checkbox { display: flex; align-items: center; font-weight: 400; margin-bottom: 16px; }
     button { background: #000; color: #fff; border: none; padding: 10px 20px; border-radius: 6px; font-size: 0.9em; cursor: pointer; }
     button:hover { background: #333; }
     .success { background: #e6f9e6; border: 1px solid #4caf50; padding: 10px; border-radius: 6px; margin-bottom: 16px; font-size: 0.9em; }
@@ -54,10 +56,14 @@ export async function GET(request: Request) {
     <small>The agency identifier from the transit directory.</small>
     <label for="stop_id">Stop ID</label>
     <input type="text" id="stop_id" name="stop_id" value="${esc(config.stop_id)}" placeholder="e.g. 70261" required/>
-    <small>Find your stop ID on the transit directory website.</small>
+    <small>Look up your agency and stop ID with the <a href="/search" target="_blank">stop search</a>.</small>
     <label for="display_name">Display Name</label>
     <input type="text" id="display_name" name="display_name" value="${esc(config.display_name)}" placeholder="My Stop"/>
     <small>Custom label shown on your TRMNL screen.</small>
+    <label for="language">Language</label>
+    <input type="text" id="language" name="language" value="${esc(config.language ?? "")}" placeholder="e.g. es"/>
+    <small>Show stop and route names in this language when the agency translates them.</small>
+    <label class="checkbox"><input type="checkbox" name="accessible_only" value="1"${config.accessible_only ? " checked" : ""}/>Wheelchair accessible trips only</label>
     <button type="submit">Save</button>
   </form>
   ${config.plugin_setting_id ? `<p style="margin-top:24px;"><a href="https://trmnl.com/plugin_settings/${config.plugin_setting_id}?force_refresh=true">&larr; Back to TRMNL</a></p>` : ""}
@@ -85,6 +91,9 @@ export async function POST(request: Request) {
   config.agency_id = (form.get("agency_id") as string) || "";
   config.stop_id = (form.get("stop_id") as string) || "";
   config.display_name = (form.get("display_name") as string) || "My Stop";
+  config.accessible_only = form.get("accessible_only") === "1";
+  config.language =
+    ((form.get("language") as string) || "").trim() || undefined;
 
   await kv.put(`user:${uuid}`, JSON.stringify(config));
 
@@ -14,6 +14,8 @@ export async function POST(request: Request) {
   let agencyId = "";
   let stopId = "";
   let displayName = "";
+  let accessibleOnly = false;
+  let language: string | undefined;
 
   if (userUuid) {
     const kv = (env as any).TRMNL_USERS as KVNamespace;
@@ -23,6 +25,8 @@ export async function POST(request: Request) {
       agencyId = config.agency_id;
       stopId = config.stop_id;
       displayName = config.display_name;
+      accessibleOnly = config.accessible_only === true;
+      language = config.language;
     }
   }
 
@@ -33,6 +37,8 @@ export async function POST(request: Request) {
       agencyName: "",
       departures: [],
       departureCount: 0,
+      alerts: [],
+      nextService: null,
       lastUpdated: new Date().toISOString(),
     };
     return Response.json({
@@ -55,7 +61,11 @@ export async function POST(request: Request) {
     });
   }
 
-  const data = await getTrmnlData(agencyId, stopId, displayName || undefined);
+  const data = await getTrmnlData(agencyId, stopId, {
+    displayName: displayName || undefined,
+    accessibleOnly,
+    language,
+  });
 
   return Response.json({
     markup: renderLayout("full", data),
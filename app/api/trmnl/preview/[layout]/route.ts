@@ -33,7 +33,10 @@ export async function GET(
     });
   }
 
-  const data = await getTrmnlData(agencyId, stopId);
+  const data = await getTrmnlData(agencyId, stopId, {
+    accessibleOnly: url.searchParams.get("accessible") === "1",
+    language: url.searchParams.get("lang") || undefined,
+  });
   const device = url.searchParams.get("device");
   const screen = device === "x" ? SCREEN_X : undefined;
   const html = renderLayout(layout, data, screen);
@@ -0,0 +1,80 @@
+import {
+  getAgency,
+  getFareQuote,
+  getRouteByPk,
+  getTrip,
+  getTripStops,
+  type FareLegRequest,
+} from "../../../../../../src/db";
+import { fareLegTimes } from "../../../../../../src/fare-engine";
+import {
+  ApiError,
+  apiErrorResponse,
+  parseFareRequest,
+  parseServiceDay,
+} from "../../../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ agency_id: string }> },
+) {
+  try {
+    const { agency_id } = await params;
+
+    const agency = await getAgency(agency_id);
+    if (!agency) throw new ApiError(404, `Unknown agency: ${agency_id}`);
+    const { feed_version_id, agency_timezone } = agency;
+
+    const searchParams = new URL(request.url).searchParams;
+    const legParams = parseFareRequest(searchParams);
+    const day = parseServiceDay(searchParams, agency_timezone);
+
+    // Each leg's route and times come from its trip's stop times.
+    const legs: FareLegRequest[] = await Promise.all(
+      legParams.map(async (leg) => {
+        const trip = await getTrip(leg.trip_id, feed_version_id);
+        if (!trip) throw new ApiError(404, `Unknown trip: ${leg.trip_id}`);
+        const [route, stops] = await Promise.all([
+          getRouteByPk(trip.route_pk),
+          getTripStops(trip),
+        ]);
+        const fromIndex = stops.findIndex(
+          (s) => s.stop_id === leg.from_stop_id,
+        );
+        const toIndex = stops.findIndex(
+          (s, i) => i > fromIndex && s.stop_id === leg.to_stop_id,
+        );
+        if (!route || fromIndex < 0 || toIndex < 0) {
+          throw new ApiError(
+            400,
+            `Trip ${leg.trip_id} does not run from ${leg.from_stop_id} to ${leg.to_stop_id}`,
+          );
+        }
+        return {
+          route_id: route.route_id,
+          from_stop_id: leg.from_stop_id,
+          to_stop_id: leg.to_stop_id,
+          ...fareLegTimes(stops[fromIndex], stops[toIndex]),
+          zone_ids: stops.slice(fromIndex, toIndex + 1).map((s) => s.zone_id),
+        };
+      }),
+    );
+
+    const quote = await getFareQuote(feed_version_id, legs, day);
+
+    return Response.json({
+      data: quote?.options ?? [],
+      source: quote?.source ?? null,
+      date: day.date,
+      legs: legs.map((leg) => ({
+        ...leg,
+        departure_epoch: day.start + leg.departure_time,
+        arrival_epoch: day.start + leg.arrival_time,
+      })),
+    });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
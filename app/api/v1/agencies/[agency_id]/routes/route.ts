@@ -0,0 +1,30 @@
+import { getAgency, getRoutes } from "../../../../../../src/db";
+import {
+  ApiError,
+  apiErrorResponse,
+  paginate,
+  parsePage,
+} from "../../../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ agency_id: string }> },
+) {
+  try {
+    const { agency_id } = await params;
+    const page = parsePage(new URL(request.url).searchParams);
+
+    const agency = await getAgency(agency_id);
+    if (!agency) throw new ApiError(404, `Unknown agency: ${agency_id}`);
+
+    const routes = await getRoutes({
+      feed_version_id: agency.feed_version_id,
+      agency_pk: agency.agency_pk,
+    });
+    return Response.json(paginate(routes, page));
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  getAgency,
+  getNextService,
+  getStop,
+  getStops,
+  getUpcomingDepartures,
+} from "../../../../../../../../src/db";
+import {
+  ApiError,
+  NEXT_SERVICE_DEPARTURES,
+  apiErrorResponse,
+  parseDeparturesWindow,
+  withDepartureEpochs,
+} from "../../../../../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ agency_id: string; stop_id: string }> },
+) {
+  try {
+    const { agency_id, stop_id } = await params;
+
+    const agency = await getAgency(agency_id);
+    if (!agency) throw new ApiError(404, `Unknown agency: ${agency_id}`);
+    const { feed_version_id, agency_timezone } = agency;
+
+    const range = parseDeparturesWindow(
+      new URL(request.url).searchParams,
+      agency_timezone,
+    );
+
+    const stop = await getStop(stop_id, feed_version_id);
+    if (!stop) throw new ApiError(404, `Unknown stop: ${stop_id}`);
+
+    // A station's departures are its platforms' departures, as on the stop
+    // page.
+    const children = await getStops({
+      feed_version_id,
+      parent_station_pk: stop.stop_pk,
+    });
+    const targetStops = children.length > 0 ? children : [stop];
+
+    const stopPks = targetStops.map((s) => s.stop_pk);
+    const { serviceDay, departures } = await getUpcomingDepartures({
+      feed_version_id,
+      stopPks,
+      timezone: agency_timezone,
+      startSeconds: range.start,
+      windowSeconds: range.end - range.start,
+      limit: range.limit,
+      wheelchairAccessibleOnly: range.wheelchairAccessibleOnly,
+    });
+
+    // An empty window carries the first departures after it instead.
+    const next =
+      departures.length === 0
+        ? await getNextService({
+            feed_version_id,
+            stopPks,
+            timezone: agency_timezone,
+            startSeconds: range.end,
+            limit: NEXT_SERVICE_DEPARTURES,
+            wheelchairAccessibleOnly: range.wheelchairAccessibleOnly,
+          })
+        : null;
+
+    return Response.json({
+      data: withDepartureEpochs(departures, serviceDay.start),
+      window: {
+        start: range.start,
+        end: range.end,
+        timezone: range.timezone,
+      },
+      next_service: next && {
+        date: next.serviceDay.date,
+        data: withDepartureEpochs(next.departures, next.serviceDay.start),
+      },
+    });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
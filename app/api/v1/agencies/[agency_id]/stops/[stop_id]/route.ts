@@ -0,0 +1,31 @@
+import { getAgency, getStop, getStops } from "../../../../../../../src/db";
+import {
+  ApiError,
+  apiErrorResponse,
+} from "../../../../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ agency_id: string; stop_id: string }> },
+) {
+  try {
+    const { agency_id, stop_id } = await params;
+
+    const agency = await getAgency(agency_id);
+    if (!agency) throw new ApiError(404, `Unknown agency: ${agency_id}`);
+
+    const stop = await getStop(stop_id, agency.feed_version_id);
+    if (!stop) throw new ApiError(404, `Unknown stop: ${stop_id}`);
+
+    const children = await getStops({
+      feed_version_id: agency.feed_version_id,
+      parent_station_pk: stop.stop_pk,
+    });
+
+    return Response.json({ data: { ...stop, children } });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
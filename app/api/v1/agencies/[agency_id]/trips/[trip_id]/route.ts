@@ -0,0 +1,40 @@
+import { getAgency, getTrip, getTripStops } from "../../../../../../../src/db";
+import {
+  ApiError,
+  apiErrorResponse,
+  parseServiceDate,
+  withStopTimeEpochs,
+} from "../../../../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ agency_id: string; trip_id: string }> },
+) {
+  try {
+    const { agency_id, trip_id } = await params;
+
+    const agency = await getAgency(agency_id);
+    if (!agency) throw new ApiError(404, `Unknown agency: ${agency_id}`);
+
+    const serviceDayStart = parseServiceDate(
+      new URL(request.url).searchParams,
+      agency.agency_timezone,
+    );
+
+    const trip = await getTrip(trip_id, agency.feed_version_id);
+    if (!trip) throw new ApiError(404, `Unknown trip: ${trip_id}`);
+
+    const stops = await getTripStops(trip, serviceDayStart);
+
+    return Response.json({
+      data: {
+        ...trip,
+        stops: withStopTimeEpochs(stops, serviceDayStart),
+      },
+    });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
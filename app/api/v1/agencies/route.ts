@@ -0,0 +1,18 @@
+import { getAgencies } from "../../../../src/db";
+import {
+  apiErrorResponse,
+  paginate,
+  parsePage,
+} from "../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const page = parsePage(new URL(request.url).searchParams);
+    const agencies = await getAgencies();
+    return Response.json(paginate(agencies, page));
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
@@ -0,0 +1,28 @@
+import { getNearbyStops } from "../../../../src/db";
+import {
+  apiErrorResponse,
+  parseNearbyRequest,
+  withDepartureEpochs,
+} from "../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const nearby = parseNearbyRequest(new URL(request.url).searchParams);
+    const stops = await getNearbyStops(nearby);
+    return Response.json({
+      data: stops.map(({ serviceDay, departures, ...stop }) => ({
+        ...stop,
+        departures: withDepartureEpochs(departures, serviceDay.start),
+      })),
+      origin: {
+        lat: nearby.lat,
+        lon: nearby.lon,
+        radius: nearby.radiusMeters,
+      },
+    });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
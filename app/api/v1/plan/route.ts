@@ -0,0 +1,36 @@
+import { planJourney, resolvePlace } from "../../../../src/db";
+import {
+  ApiError,
+  apiErrorResponse,
+  parsePlanRequest,
+} from "../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const plan = parsePlanRequest(new URL(request.url).searchParams);
+    const [from, to] = await Promise.all([
+      resolvePlace(plan.from),
+      resolvePlace(plan.to),
+    ]);
+    if (!from) throw new ApiError(404, 'No stop matches "from"');
+    if (!to) throw new ApiError(404, 'No stop matches "to"');
+
+    const { timezone, itineraries } = await planJourney({
+      from,
+      to,
+      departAt: plan.departAt,
+      count: plan.count,
+    });
+    return Response.json({
+      data: itineraries,
+      from,
+      to,
+      depart: plan.departAt,
+      timezone,
+    });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
@@ -0,0 +1,17 @@
+import { searchStops } from "../../../../src/db";
+import {
+  apiErrorResponse,
+  parseSearchRequest,
+} from "../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const { q, limit } = parseSearchRequest(new URL(request.url).searchParams);
+    const results = await searchStops(q, limit);
+    return Response.json({ data: results, query: q });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
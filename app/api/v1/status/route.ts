@@ -0,0 +1,12 @@
+import { getImportStatus } from "../../../../src/db";
+import { apiErrorResponse } from "../../../../src/lib/api/v1";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return Response.json({ data: await getImportStatus() });
+  } catch (err) {
+    return apiErrorResponse(err);
+  }
+}
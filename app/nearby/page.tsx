@@ -0,0 +1,140 @@
+import { getNearbyStops, getTranslators } from "../../src/db";
+import AccessibilityIcons from "../../src/components/AccessibilityIcons";
+import DepartureTime from "../../src/components/DepartureTime";
+import LocateButton from "../../src/components/LocateButton";
+import {
+  DEFAULT_NEARBY_LIMIT,
+  DEFAULT_NEARBY_RADIUS_METERS,
+} from "../../src/nearby-queries";
+import { getLanguagePreferences } from "../../src/request-language";
+import {
+  translateAgency,
+  translateStop,
+  translateTrip,
+} from "../../src/translations";
+import styles from "./page.module.css";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata() {
+  return {
+    title: "Nearby Stops - Transit Directory",
+    description: "Transit stops closest to you, with upcoming departures.",
+  };
+}
+
+function parseCoordinate(raw: string | undefined, limit: number) {
+  if (!raw) return null;
+  const value = Number(raw);
+  return Number.isFinite(value) && Math.abs(value) <= limit ? value : null;
+}
+
+function formatDistance(meters: number): string {
+  return meters < 1000 ? `${meters} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+export default async function NearbyPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ lat?: string; lon?: string; lang?: string }>;
+}) {
+  const query = await searchParams;
+  const lat = parseCoordinate(query.lat, 90);
+  const lon = parseCoordinate(query.lon, 180);
+  const located = lat !== null && lon !== null;
+
+  const found = located
+    ? await getNearbyStops({
+        lat,
+        lon,
+        radiusMeters: DEFAULT_NEARBY_RADIUS_METERS,
+        limit: DEFAULT_NEARBY_LIMIT,
+      })
+    : [];
+  const translators = await getTranslators(
+    found.map((s) => s.feed_version_id),
+    await getLanguagePreferences(query.lang),
+  );
+  const stops = found.map((stop) => {
+    const t = translators.get(stop.feed_version_id)!;
+    return {
+      ...translateAgency(t, translateStop(t, stop)),
+      departures: stop.departures.map((d) => translateTrip(t, d)),
+    };
+  });
+
+  return (
+    <main className={styles.main}>
+      <a href="/" className={styles.backLink}>
+        &larr; All agencies
+      </a>
+      <h1 className={styles.title}>Nearby Stops</h1>
+      <LocateButton />
+
+      {located && stops.length === 0 && (
+        <p className={styles.empty}>
+          No stops within {formatDistance(DEFAULT_NEARBY_RADIUS_METERS)}.
+        </p>
+      )}
+
+      <div className={styles.stops}>
+        {stops.map((stop) => (
+          <div key={stop.stop_pk} className={styles.stopCard}>
+            <h2>
+              <a href={`/a/${stop.agency_id}/s/${stop.stop_id}`}>
+                {stop.stop_name || stop.stop_id}
+              </a>
+              <span className={styles.distance}>
+                {formatDistance(stop.distance_m)}
+              </span>
+            </h2>
+            <p className={styles.agency}>{stop.agency_name}</p>
+            {stop.departures.length > 0 ? (
+              <ul className={styles.departures}>
+                {stop.departures.map((dep, i) => (
+                  <li key={i}>
+                    <span
+                      className={styles.routeBadge}
+                      style={{
+                        backgroundColor: dep.route_color
+                          ? `#${dep.route_color}`
+                          : "#eee",
+                        color: dep.route_text_color
+                          ? `#${dep.route_text_color}`
+                          : "#000",
+                      }}
+                    >
+                      {dep.route_short_name || dep.route_long_name}
+                    </span>
+                    <span className={styles.headsign}>{dep.trip_headsign}</span>
+                    <AccessibilityIcons
+                      wheelchairAccessible={dep.wheelchair_accessible}
+                      bikesAllowed={dep.bikes_allowed}
+                      wheelchairBoarding={dep.wheelchair_boarding}
+                    />
+                    <DepartureTime
+                      departureTime={dep.departure_time}
+                      delay={dep.delay}
+                      timezone={stop.stop_timezone || stop.agency_timezone}
+                      agencyId={stop.agency_id}
+                      tripId={dep.trip_id}
+                      stopSequence={dep.stop_sequence}
+                      serviceDate={dep.service_date}
+                      skipped={dep.skipped}
+                      headwaySecs={dep.headway_secs}
+                      pickupWindowEnd={dep.pickup_window_end}
+                    />
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className={styles.empty}>
+                No upcoming departures in the next 2 hours.
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </main>
+  );
+}
@@ -1,4 +1,6 @@
-import { getAgencies } from "../src/db";
+import { getAgencies, getTranslators } from "../src/db";
+import { getLanguagePreferences } from "../src/request-language";
+import { translateAgency } from "../src/translations";
 import styles from "./page.module.css";
 
 export const dynamic = "force-dynamic";
@@ -10,12 +12,36 @@ export async function generateMetadata() {
   };
 }
 
-export default async function HomePage() {
-  const agencies = await getAgencies();
+export default async function HomePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ lang?: string }>;
+}) {
+  const found = await getAgencies();
+  const translators = await getTranslators(
+    found.map((a) => a.feed_version_id),
+    await getLanguagePreferences((await searchParams).lang),
+  );
+  const agencies = found.map((agency) =>
+    translateAgency(translators.get(agency.feed_version_id)!, agency),
+  );
 
   return (
     <main className={styles.main}>
       <h1 className={styles.title}>Transit Agencies</h1>
+      <form action="/search" method="get" className={styles.search}>
+        <input
+          type="search"
+          name="q"
+          placeholder="Find a stop by name, code or route"
+          aria-label="Find a stop"
+        />
+        <button type="submit">Search</button>
+      </form>
+      <p className={styles.nearby}>
+        <a href="/nearby">Stops near me</a> &middot;{" "}
+        <a href="/plan">Plan a trip</a>
+      </p>
       <ul className={styles.agencyList}>
         {agencies.map((agency) => (
           <li key={agency.agency_id}>
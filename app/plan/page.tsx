@@ -0,0 +1,270 @@
+import { DateTime } from "luxon";
+import {
+  getTranslators,
+  planJourney,
+  resolvePlace,
+  type ItineraryData,
+  type PlanEndpoint,
+  type PlanLegData,
+  type Translator,
+} from "../../src/db";
+import {
+  DEFAULT_ITINERARIES,
+  parsePlace,
+  type PlannerStop,
+} from "../../src/journey-planner";
+import { getLanguagePreferences } from "../../src/request-language";
+import { translateStop, translateTrip } from "../../src/translations";
+import styles from "./page.module.css";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const { from, to } = await searchParams;
+  return {
+    title:
+      from && to
+        ? `${from} to ${to} - Trip Planner`
+        : "Trip Planner - Transit Directory",
+    description: "Plan a trip across Bay Area transit agencies.",
+  };
+}
+
+function formatTime(epoch: number, timezone: string): string {
+  return DateTime.fromSeconds(epoch, { zone: timezone }).toFormat("h:mm a");
+}
+
+function formatMinutes(seconds: number): string {
+  return `${Math.max(1, Math.round(seconds / 60))} min`;
+}
+
+function stopLink(stop: { agency_id: string; stop_id: string }) {
+  return `/a/${stop.agency_id}/s/${stop.stop_id}`;
+}
+
+// Each leg in its own feed version's translations (rides and their stops
+// share a version).
+function translateLeg(
+  leg: PlanLegData,
+  translators: Map<number, Translator>,
+): PlanLegData {
+  const stop = (s: PlannerStop | null) =>
+    s && translateStop(translators.get(s.feed_version_id)!, s);
+  if (leg.mode === "walk") {
+    return {
+      ...leg,
+      from_stop: stop(leg.from_stop),
+      to_stop: stop(leg.to_stop),
+    };
+  }
+  return {
+    ...translateTrip(translators.get(leg.from_stop.feed_version_id)!, leg),
+    from_stop: stop(leg.from_stop)!,
+    to_stop: stop(leg.to_stop)!,
+  };
+}
+
+function LegItem({
+  leg,
+  to,
+  timezone,
+}: {
+  leg: PlanLegData;
+  to: PlanEndpoint;
+  timezone: string;
+}) {
+  if (leg.mode === "walk") {
+    return (
+      <li className={styles.walk}>
+        Walk {formatMinutes(leg.arrival - leg.departure)} to{" "}
+        {leg.to_stop ? (
+          <a href={stopLink(leg.to_stop)}>
+            {leg.to_stop.stop_name || leg.to_stop.stop_id}
+          </a>
+        ) : (
+          to.name
+        )}
+      </li>
+    );
+  }
+
+  const delayMin = Math.round(leg.delay / 60);
+  return (
+    <li className={styles.ride}>
+      {leg.wait_seconds >= 60 && (
+        <p className={styles.wait}>Wait {formatMinutes(leg.wait_seconds)}</p>
+      )}
+      <div className={styles.rideHeader}>
+        <span
+          className={styles.routeBadge}
+          style={{
+            backgroundColor: leg.route_color ? `#${leg.route_color}` : "#eee",
+            color: leg.route_text_color ? `#${leg.route_text_color}` : "#000",
+          }}
+        >
+          {leg.route_short_name || leg.route_long_name}
+        </span>
+        <a
+          href={`/a/${leg.agency_id}/t/${leg.trip_id}?stop=${leg.from_sequence}`}
+          className={styles.headsign}
+        >
+          {leg.trip_headsign || leg.route_long_name}
+        </a>
+        {delayMin !== 0 && (
+          <span className={delayMin > 0 ? styles.late : styles.early}>
+            {delayMin > 0 ? `+${delayMin}` : delayMin} min
+          </span>
+        )}
+      </div>
+      <p className={styles.stopLine}>
+        {formatTime(leg.departure, timezone)} from{" "}
+        <a href={stopLink(leg.from_stop)}>
+          {leg.from_stop.stop_name || leg.from_stop.stop_id}
+        </a>
+      </p>
+      <p className={styles.stopLine}>
+        {formatTime(leg.arrival, timezone)} at{" "}
+        <a href={stopLink(leg.to_stop)}>
+          {leg.to_stop.stop_name || leg.to_stop.stop_id}
+        </a>
+      </p>
+    </li>
+  );
+}
+
+function ItineraryCard({
+  itinerary,
+  to,
+  timezone,
+}: {
+  itinerary: ItineraryData;
+  to: PlanEndpoint;
+  timezone: string;
+}) {
+  const { departure, arrival, transfers, legs } = itinerary;
+  return (
+    <div className={styles.itinerary}>
+      <h2>
+        {formatTime(departure, timezone)} &rarr; {formatTime(arrival, timezone)}
+        <span className={styles.summary}>
+          {formatMinutes(arrival - departure)}
+          {transfers > 0 && (
+            <>
+              {" "}
+              &middot; {transfers} transfer{transfers === 1 ? "" : "s"}
+            </>
+          )}
+        </span>
+      </h2>
+      <ol className={styles.legs}>
+        {legs.map((leg, i) => (
+          <LegItem key={i} leg={leg} to={to} timezone={timezone} />
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export default async function PlanPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string; lang?: string }>;
+}) {
+  const query = await searchParams;
+  const fromText = (query.from ?? "").trim();
+  const toText = (query.to ?? "").trim();
+  const fromPlace = parsePlace(fromText);
+  const toPlace = parsePlace(toText);
+
+  const [from, to] = await Promise.all([
+    fromPlace ? resolvePlace(fromPlace) : null,
+    toPlace ? resolvePlace(toPlace) : null,
+  ]);
+  const found =
+    from && to
+      ? await planJourney({ from, to, count: DEFAULT_ITINERARIES })
+      : null;
+  const translators = await getTranslators(
+    (found?.itineraries ?? []).flatMap((it) =>
+      it.legs.flatMap((leg) =>
+        [leg.from_stop, leg.to_stop].flatMap((s) =>
+          s ? [s.feed_version_id] : [],
+        ),
+      ),
+    ),
+    await getLanguagePreferences(query.lang),
+  );
+  const plan = found && {
+    ...found,
+    itineraries: found.itineraries.map((it) => ({
+      ...it,
+      legs: it.legs.map((leg) => translateLeg(leg, translators)),
+    })),
+  };
+  const timezone = plan?.timezone ?? null;
+
+  return (
+    <main className={styles.main}>
+      <a href="/" className={styles.backLink}>
+        &larr; All agencies
+      </a>
+      <h1 className={styles.title}>Plan a Trip</h1>
+      <form action="/plan" method="get" className={styles.form}>
+        <input
+          type="text"
+          name="from"
+          defaultValue={fromText}
+          placeholder="From: stop name, stop code or lat,lon"
+          className={styles.input}
+          required
+        />
+        <input
+          type="text"
+          name="to"
+          defaultValue={toText}
+          placeholder="To: stop name, stop code or lat,lon"
+          className={styles.input}
+          required
+        />
+        <button type="submit" className={styles.button}>
+          Plan
+        </button>
+      </form>
+
+      {fromText && !from && (
+        <p className={styles.empty}>No stop matches &quot;{fromText}&quot;.</p>
+      )}
+      {toText && !to && (
+        <p className={styles.empty}>No stop matches &quot;{toText}&quot;.</p>
+      )}
+
+      {from && to && (
+        <>
+          <p className={styles.route}>
+            {from.name} &rarr; {to.name}
+          </p>
+          {!plan || !timezone || plan.itineraries.length === 0 ? (
+            <p className={styles.empty}>
+              No trips found in the next few hours.
+            </p>
+          ) : (
+            <div className={styles.itineraries}>
+              {plan.itineraries.map((itinerary, i) => (
+                <ItineraryCard
+                  key={i}
+                  itinerary={itinerary}
+                  to={to}
+                  timezone={timezone}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
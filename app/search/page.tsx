@@ -0,0 +1,106 @@
+import { getAgency, getTranslators, searchStops } from "../../src/db";
+import { getLanguagePreferences } from "../../src/request-language";
+import { translateStop } from "../../src/translations";
+import styles from "./page.module.css";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string }>;
+}) {
+  const { q } = await searchParams;
+  return {
+    title: q ? `"${q}" - Stop Search` : "Stop Search - Transit Directory",
+    description: "Find a transit stop by name, stop code or route.",
+  };
+}
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string; lang?: string }>;
+}) {
+  const { q, lang } = await searchParams;
+  const query = (q ?? "").trim();
+  const found = query ? await searchStops(query) : [];
+
+  // Results span agencies, each translated by its own feed version. Station
+  // names can only match field_value translations.
+  const agencies = await Promise.all(
+    [...new Set(found.map((s) => s.agency_id))].map(getAgency),
+  );
+  const versionOf = new Map(
+    agencies.flatMap((a) => (a ? [[a.agency_id, a.feed_version_id]] : [])),
+  );
+  const translators = await getTranslators(
+    [...versionOf.values()],
+    await getLanguagePreferences(lang),
+  );
+  const results = found.map((stop) => {
+    const t = translators.get(versionOf.get(stop.agency_id) ?? 0);
+    if (!t) return stop;
+    return {
+      ...translateStop(t, stop),
+      parent_name: t.text("stops", "stop_name", "", stop.parent_name),
+      agency_name: t.text(
+        "agency",
+        "agency_name",
+        stop.agency_id,
+        stop.agency_name,
+      ),
+    };
+  });
+
+  return (
+    <main className={styles.main}>
+      <a href="/" className={styles.backLink}>
+        &larr; All agencies
+      </a>
+      <h1 className={styles.title}>Find a Stop</h1>
+      <form action="/search" method="get" className={styles.form}>
+        <input
+          type="search"
+          name="q"
+          defaultValue={query}
+          placeholder="Stop name, stop code or route"
+          className={styles.input}
+          autoFocus
+        />
+        <button type="submit" className={styles.button}>
+          Search
+        </button>
+      </form>
+
+      {query && results.length === 0 && (
+        <p className={styles.empty}>No stops match &quot;{query}&quot;.</p>
+      )}
+
+      <ul className={styles.results}>
+        {results.map((stop) => (
+          <li key={stop.stop_pk}>
+            <a href={`/a/${stop.agency_id}/s/${stop.stop_id}`}>
+              <span className={styles.stopName}>
+                {stop.stop_name || stop.stop_id}
+                {stop.parent_name && (
+                  <span className={styles.parentName}>
+                    {" "}
+                    at {stop.parent_name}
+                  </span>
+                )}
+              </span>
+              <span className={styles.meta}>
+                {stop.agency_name} &middot; Agency ID {stop.agency_id} &middot;
+                Stop ID {stop.stop_id}
+                {stop.stop_code && stop.stop_code !== stop.stop_id
+                  ? ` (code ${stop.stop_code})`
+                  : ""}
+              </span>
+            </a>
+          </li>
+        ))}
+      </ul>
+    </main>
+  );
+}
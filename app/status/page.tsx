@@ -0,0 +1,114 @@
+import { DateTime } from "luxon";
+import { getImportStatus } from "../../src/db";
+import styles from "./page.module.css";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata() {
+  return {
+    title: "Import Status - Transit Directory",
+    description:
+      "Feed versions being served, feed health and recent GTFS import runs.",
+  };
+}
+
+function formatTime(seconds: number | null): string {
+  if (seconds === null) return "never";
+  return DateTime.fromSeconds(seconds, { zone: "utc" }).toFormat(
+    "yyyy-MM-dd HH:mm 'UTC'",
+  );
+}
+
+// Feed dates are stored as noon on the service date in the agency's zone,
+// which falls on the same date in UTC.
+function formatServiceDate(seconds: number | null): string {
+  if (seconds === null) return "?";
+  return DateTime.fromSeconds(seconds, { zone: "utc" }).toISODate() ?? "?";
+}
+
+export default async function StatusPage() {
+  const { sources, recent_failures } = await getImportStatus();
+
+  return (
+    <main className={styles.main}>
+      <a href="/" className={styles.backLink}>
+        &larr; All agencies
+      </a>
+      <h1 className={styles.title}>Import Status</h1>
+
+      {sources.length === 0 && (
+        <p className={styles.empty}>No feed sources are configured.</p>
+      )}
+
+      <div className={styles.sources}>
+        {sources.map((source) => (
+          <section key={source.source_name} className={styles.sourceCard}>
+            <h2>
+              {source.source_desc ?? source.source_name}
+              <span className={styles.sourceName}>{source.source_name}</span>
+            </h2>
+            <dl className={styles.facts}>
+              <dt>Active version</dt>
+              <dd>
+                {source.active_version
+                  ? `${source.active_version.version_label ?? source.active_version.feed_version_id} (service ${formatServiceDate(source.active_version.feed_start_date)} to ${formatServiceDate(source.active_version.feed_end_date)})`
+                  : "none"}
+              </dd>
+              <dt>Last successful import</dt>
+              <dd>{formatTime(source.last_success_at)}</dd>
+              {source.last_run && (
+                <>
+                  <dt>Last run</dt>
+                  <dd>
+                    <span
+                      className={
+                        source.last_run.status === "failed"
+                          ? styles.failed
+                          : undefined
+                      }
+                    >
+                      {source.last_run.status}
+                    </span>{" "}
+                    {formatTime(source.last_run.started_at)}
+                  </dd>
+                </>
+              )}
+              <dt>Health</dt>
+              <dd>
+                {source.health
+                  ? `checked ${formatTime(source.health.checked_at)}`
+                  : "not checked yet"}
+              </dd>
+            </dl>
+            {source.health && source.health.warnings.length > 0 && (
+              <ul className={styles.warnings}>
+                {source.health.warnings.map((warning) => (
+                  <li key={`${warning.kind}:${warning.date}`}>
+                    {warning.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        ))}
+      </div>
+
+      <h2 className={styles.heading}>Recent failures</h2>
+      {recent_failures.length === 0 ? (
+        <p className={styles.empty}>No failed imports.</p>
+      ) : (
+        <ul className={styles.failures}>
+          {recent_failures.map((run) => (
+            <li key={run.instance_id}>
+              <strong>{run.source_name}</strong> {formatTime(run.started_at)}
+              {run.last_step && (
+                <div className={styles.detail}>After: {run.last_step}</div>
+              )}
+              <div className={styles.error}>{run.error}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
+  );
+}
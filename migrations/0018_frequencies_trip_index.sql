@@ -0,0 +1,8 @@
+-- Migration number: 0018 	 2026-10-19T00:00:00.000Z
+
+-- Departure queries now check every candidate stop time's trip against
+-- `frequencies` (frequency-based trips are expanded from their windows
+-- instead of being listed at their template times), and the frequency query
+-- joins windows to trips. Without an index each of those lookups scans the
+-- whole table.
+CREATE INDEX IF NOT EXISTS idx_frequencies_trip ON frequencies(trip_pk);
@@ -0,0 +1,21 @@
+-- Migration number: 0019 	 2026-10-19T00:00:00.000Z
+
+-- Token index for stop search (/search and /api/v1/search).
+--
+-- Finding a stop used to mean browsing an agency's full stop list or already
+-- knowing its stop_id. Each row says "this stop matches this normalized
+-- token", built by Import511Workflow from stop names, codes and ids and the
+-- names of routes serving the stop (see src/search-queries.ts for the
+-- normalization). A plain table rather than FTS5 so versions are cleaned up
+-- with the same `feed_version_id = ?` deletes as every other table, and so
+-- the primary key below serves prefix lookups as range scans.
+--
+-- `source` is the field the token came from (0 = code/id, 1 = name,
+-- 2 = route name) and weights ranking.
+CREATE TABLE IF NOT EXISTS stop_search (
+    feed_version_id INTEGER NOT NULL REFERENCES feed_version(feed_version_id),
+    token           TEXT    NOT NULL,
+    stop_pk         INTEGER NOT NULL REFERENCES stops(stop_pk),
+    source          INTEGER NOT NULL,
+    PRIMARY KEY (feed_version_id, token, stop_pk)
+);
@@ -0,0 +1,38 @@
+-- Migration number: 0020 	 2026-10-19T00:00:00.000Z
+
+-- GTFS-Flex stop times served by a location group rather than a single stop.
+--
+-- A flex stop_times.txt row names a location_group_id instead of a stop_id
+-- and a pickup/drop-off window instead of arrival/departure times. Our
+-- stop_times.stop_pk is NOT NULL, so Import511Workflow used to drop these
+-- rows on the floor, and demand-responsive trips had no stops at all.
+-- Rebuilding stop_times (millions of rows) to relax the constraint is not
+-- worth it for a handful of flex rows per feed, so they live here instead
+-- and the departures queries read both tables (see
+-- buildFlexDeparturesQuery). Flex rows that do name a stop_id stay in
+-- stop_times with their window columns from migration 0004.
+--
+-- location_id rows (zones from locations.geojson) are still skipped: the
+-- GeoJSON file is not imported.
+CREATE TABLE IF NOT EXISTS flex_stop_times (
+    trip_pk                      INTEGER NOT NULL REFERENCES trips(trip_pk),
+    stop_sequence                INTEGER NOT NULL,
+    feed_version_id              INTEGER NOT NULL REFERENCES feed_version(feed_version_id),
+    location_group_id            TEXT    NOT NULL,
+    start_pickup_drop_off_window INTEGER NOT NULL,
+    end_pickup_drop_off_window   INTEGER NOT NULL,
+    pickup_type                  INTEGER,
+    drop_off_type                INTEGER,
+    pickup_booking_rule_id       TEXT,
+    drop_off_booking_rule_id     TEXT,
+    PRIMARY KEY (trip_pk, stop_sequence)
+);
+
+-- Departures at a stop go stop -> its location groups -> flex_stop_times.
+CREATE INDEX IF NOT EXISTS idx_flex_stop_times_group
+    ON flex_stop_times(feed_version_id, location_group_id);
+
+-- The primary key (feed_version_id, location_group_id, stop_id) only serves
+-- group -> stops; this serves stop -> groups.
+CREATE INDEX IF NOT EXISTS idx_location_group_stops_stop
+    ON location_group_stops(feed_version_id, stop_id);
@@ -0,0 +1,9 @@
+-- Migration number: 0021 	 2026-10-19T00:00:00.000Z
+
+-- Fares v1 lookups (src/legacy-fares.ts) read a version's fare_rules whole,
+-- and fare_rules had no index at all, so every read (and the per-version
+-- cleanup delete) scanned the rules of every version ever imported.
+-- fare_attributes is already covered by its UNIQUE(feed_version_id,
+-- fare_id) constraint.
+CREATE INDEX IF NOT EXISTS idx_fare_rules_version
+    ON fare_rules(feed_version_id);
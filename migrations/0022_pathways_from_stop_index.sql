@@ -0,0 +1,8 @@
+-- Migration number: 0022 	 2026-10-19T00:00:00.000Z
+
+-- Stop pages of stations now read the pathways leaving the station's nodes
+-- (src/station-pathways.ts). The only index on pathways was the UNIQUE
+-- (feed_version_id, pathway_id) constraint, which would have meant scanning
+-- every pathway of the version per page view.
+CREATE INDEX IF NOT EXISTS idx_pathways_from_stop
+    ON pathways(from_stop_pk);
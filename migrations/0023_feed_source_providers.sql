@@ -0,0 +1,14 @@
+-- Migration number: 0023 	 2026-10-19T00:00:00.000Z
+
+-- Feed sources name where their GTFS zip and GTFS-RT feeds come from
+-- (src/feed-sources.ts). Existing sources are 511.org operators, whose URLs
+-- are derived from source_name; any other GTFS zip is provider 'url'.
+ALTER TABLE feed_source ADD COLUMN provider TEXT NOT NULL DEFAULT '511'
+    CHECK (provider IN ('511', 'url'));
+ALTER TABLE feed_source ADD COLUMN feed_url TEXT;
+-- JSON object of request headers; values may name Worker secrets as
+-- {SECRET_NAME}.
+ALTER TABLE feed_source ADD COLUMN auth_headers TEXT;
+ALTER TABLE feed_source ADD COLUMN trip_updates_url TEXT;
+ALTER TABLE feed_source ADD COLUMN service_alerts_url TEXT;
+ALTER TABLE feed_source ADD COLUMN vehicle_positions_url TEXT;
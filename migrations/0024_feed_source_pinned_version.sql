@@ -0,0 +1,7 @@
+-- Migration number: 0024 	 2026-10-19T00:00:00.000Z
+
+-- An operator can pin a source to one of its imported versions (a rollback
+-- through the admin API). Version selection serves the pinned version while
+-- it exists and is fully imported, and retention cleanup never deletes it.
+ALTER TABLE feed_source ADD COLUMN pinned_feed_version_id INTEGER
+    REFERENCES feed_version(feed_version_id);
@@ -0,0 +1,30 @@
+-- Migration number: 0025 	 2026-10-19T00:00:00.000Z
+
+-- One row per Import511Workflow run (src/import-runs.ts), so a run that
+-- fails partway leaves more behind than a feed_version with imported_at
+-- NULL. Each completed step records its name and the rows its batched
+-- statements wrote; the run ends as 'imported', 'unchanged' (the zip
+-- matched an imported version) or 'failed' with the error message.
+--
+-- source_name and feed_version_id are deliberately not foreign keys: the
+-- history outlives sources removed through the admin API and versions
+-- deleted by retention cleanup.
+CREATE TABLE IF NOT EXISTS import_runs (
+    import_run_id   INTEGER PRIMARY KEY AUTOINCREMENT,
+    instance_id     TEXT    NOT NULL UNIQUE,
+    source_name     TEXT    NOT NULL,
+    feed_hash       TEXT,
+    feed_version_id INTEGER,
+    status          TEXT    NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'imported', 'unchanged', 'failed')),
+    started_at      INTEGER NOT NULL,
+    updated_at      INTEGER NOT NULL,
+    finished_at     INTEGER,
+    last_step       TEXT,
+    -- JSON object of step name -> rows written.
+    step_rows       TEXT    NOT NULL DEFAULT '{}',
+    error           TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_runs_source
+    ON import_runs(source_name, started_at);
@@ -0,0 +1,15 @@
+-- Migration number: 0026 	 2026-10-19T00:00:00.000Z
+
+-- The latest feed health check of each source (src/feed-health.ts): service
+-- coverage running out, dates with no service, and zips that stopped
+-- changing. Written after every import and by the daily cron; read by
+-- /status.
+CREATE TABLE IF NOT EXISTS feed_health (
+    feed_source_id INTEGER PRIMARY KEY REFERENCES feed_source(feed_source_id),
+    checked_at     INTEGER NOT NULL,
+    -- JSON array of FeedHealthWarning.
+    warnings       TEXT    NOT NULL DEFAULT '[]',
+    -- JSON array of warning keys already posted to the health webhook, so
+    -- each warning is sent once rather than on every check.
+    notified_keys  TEXT    NOT NULL DEFAULT '[]'
+);
@@ -0,0 +1,19 @@
+-- Migration number: 0027 	 2026-10-19T00:00:00.000Z
+
+-- The validation report of each imported version (src/feed-validation.ts).
+-- A blocked version failed at or above VALIDATION_BLOCK_SEVERITY and is
+-- never selected to be live unless an operator pins it.
+CREATE TABLE IF NOT EXISTS feed_validation (
+    feed_version_id INTEGER PRIMARY KEY REFERENCES feed_version(feed_version_id),
+    validated_at    INTEGER NOT NULL,
+    error_count     INTEGER NOT NULL DEFAULT 0,
+    warning_count   INTEGER NOT NULL DEFAULT 0,
+    blocked         INTEGER NOT NULL DEFAULT 0,
+    -- JSON array of ValidationIssue.
+    issues          TEXT    NOT NULL DEFAULT '[]'
+);
+
+-- The area a source's stops should lie in, as a JSON
+-- [west, south, east, north] array; validation warns about stops outside
+-- it. NULL checks coordinates against the whole globe only.
+ALTER TABLE feed_source ADD COLUMN bounds TEXT;
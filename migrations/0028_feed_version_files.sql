@@ -0,0 +1,13 @@
+-- Migration number: 0028 	 2026-10-19T00:00:00.000Z
+
+-- The SHA-256 and size of each file in a version's zip (src/feed-diff.ts).
+-- Import511Workflow compares them with the live version's to report which
+-- files a new zip changed and to skip parsing stop_times.txt and shapes.txt
+-- when they are unchanged (see migration 0029).
+CREATE TABLE IF NOT EXISTS feed_version_files (
+    feed_version_id INTEGER NOT NULL REFERENCES feed_version(feed_version_id),
+    file_name       TEXT    NOT NULL,
+    sha256          TEXT    NOT NULL,
+    size            INTEGER NOT NULL,
+    PRIMARY KEY (feed_version_id, file_name)
+);
@@ -0,0 +1,35 @@
+-- Migration number: 0029 	 2026-10-19T00:00:00.000Z
+
+-- Lets a source's feed versions share unchanged stop_times and shape points
+-- instead of each holding its own copy (see src/timetable-diff.ts). A feed
+-- that only changed its calendar used to rewrite millions of stop_times
+-- rows; now the new version's trips point at the rows already stored.
+--
+-- timetable_trip_pk is the trip whose stop_times rows a trip reads: its own
+-- trip_pk when its import wrote them, otherwise an earlier version's trip
+-- with identical stop_times. stop_times_hash digests those rows so the next
+-- import can tell which trips changed.
+ALTER TABLE trips ADD COLUMN timetable_trip_pk INTEGER REFERENCES trips(trip_pk);
+ALTER TABLE trips ADD COLUMN stop_times_hash TEXT;
+UPDATE trips SET timetable_trip_pk = trip_pk;
+CREATE INDEX IF NOT EXISTS idx_trips_timetable ON trips(timetable_trip_pk, feed_version_id);
+
+-- stop_times name a stop by its timetable_stop_pk, which a stop inherits by
+-- stop_id from the live version it was imported after (its own stop_pk for
+-- a new stop_id). Shared rows therefore resolve to the right stop in every
+-- version reading them.
+ALTER TABLE stops ADD COLUMN timetable_stop_pk INTEGER REFERENCES stops(stop_pk);
+UPDATE stops SET timetable_stop_pk = stop_pk;
+CREATE INDEX IF NOT EXISTS idx_stops_timetable ON stops(timetable_stop_pk, feed_version_id);
+
+-- Each version's shape_ids and the version whose shapes rows hold their
+-- points. Versions imported before this migration have no rows here and
+-- read their own points.
+CREATE TABLE IF NOT EXISTS version_shapes (
+    feed_version_id   INTEGER NOT NULL REFERENCES feed_version(feed_version_id),
+    shape_id          TEXT    NOT NULL,
+    points_version_id INTEGER NOT NULL REFERENCES feed_version(feed_version_id),
+    points_hash       TEXT    NOT NULL,
+    PRIMARY KEY (feed_version_id, shape_id)
+);
+CREATE INDEX IF NOT EXISTS idx_version_shapes_points ON version_shapes(points_version_id, shape_id);
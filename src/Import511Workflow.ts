@@ -2,34 +2,101 @@ import {
   WorkflowEntrypoint,
   type WorkflowEvent,
   type WorkflowStep,
+  type WorkflowStepConfig,
 } from "cloudflare:workers";
 import JSZip from "jszip";
 import { DateTime } from "luxon";
+import { buildCondemnedVersionsQuery } from "./cleanup-queries";
 import {
-  type VersionServiceDay,
-  buildVersionServiceDayQuery,
-  chooseActiveVersion,
-  dayColumnFor,
-} from "./activation-queries";
+  CSV_START,
+  type CsvRow,
+  readCsvChunk,
+  readCsvRows,
+} from "./csv-reader";
 import {
-  CLEANUP_BATCH_SIZE,
-  buildCondemnedVersionsQuery,
-  buildVersionCleanupStatements,
-} from "./cleanup-queries";
+  FEED_SOURCE_COLUMNS,
+  type FeedSourceConfig,
+  default511Source,
+  feedVersionLabel,
+  resolveStaticFeedRequest,
+} from "./feed-sources";
+import {
+  type FeedFile,
+  describeFeedDiff,
+  diffFeedFiles,
+  getLiveVersionFiles,
+  recordFeedVersionFiles,
+  sha256Hex,
+} from "./feed-diff";
+import { checkFeedHealth } from "./feed-health";
+import {
+  type StopTimesCarry,
+  type ValidationIssue,
+  blocksActivation,
+  buildValidationReport,
+  mergeValidationIssues,
+  parseBounds,
+  parseStrictGtfsTime,
+  parseValidationThreshold,
+  storeValidationReport,
+  validateParentStations,
+  validateStaticFiles,
+  validateStopTimesChunk,
+  validateStopsChunk,
+  validateTripsChunk,
+} from "./feed-validation";
+import {
+  activateFeedVersion,
+  chooseLiveVersion,
+  loadVersionShapes,
+  loadVersionTimetables,
+  runCleanupPass,
+} from "./feed-versions";
+import {
+  describeImportError,
+  finishImportRun,
+  noteImportRunVersion,
+  pruneImportRuns,
+  recordImportStep,
+  startImportRun,
+} from "./import-runs";
+import {
+  STOP_ROUTES_QUERY,
+  type SearchIndexRoute,
+  type SearchIndexStop,
+  type StopRoutePair,
+  buildStopSearchRows,
+} from "./search-queries";
+import {
+  CARRY_VERSION_SHAPES_SQL,
+  type LiveShape,
+  type LiveTimetable,
+  type RowDigests,
+  digestHash,
+  digestShapePoints,
+  digestStopTimes,
+  mergeRowDigests,
+  planShapePoints,
+  planSharedTimetables,
+  shapePointsToWrite,
+  stopTimesToWrite,
+} from "./timetable-diff";
 
 interface Env {
   gtfs_data: D1Database;
   gtfs_processing: R2Bucket;
   API_KEY_511: string;
+  HEALTH_WEBHOOK_URL?: string;
+  // "error" (default), "warning" or "off"; see src/feed-validation.ts.
+  VALIDATION_BLOCK_SEVERITY?: string;
   IMPORT_511_WORKFLOW: any;
 }
 
 interface Params {
+  // feed_source.source_name; see src/feed-sources.ts.
   id: string;
 }
 
-type CsvRow = Record<string, string>;
-
 type FileKey =
   | "agency"
   | "routes"
@@ -97,53 +164,6 @@ const GTFS_FILE_NAMES: Record<FileKey, string> = {
   levels: "levels.txt",
 };
 
-function splitCsvLine(line: string): string[] {
-  const fields: string[] = [];
-  let current = "";
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i += 1) {
-    const ch = line[i];
-    if (ch === '"') {
-      const next = line[i + 1];
-      if (inQuotes && next === '"') {
-        current += '"';
-        i += 1;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (ch === "," && !inQuotes) {
-      fields.push(current);
-      current = "";
-    } else {
-      current += ch;
-    }
-  }
-
-  fields.push(current);
-  return fields.map((f) => f.trim());
-}
-
-function parseCsv(text: string): CsvRow[] {
-  const lines = text
-    .replace(new RegExp(String.fromCharCode(13), "g"), "")
-    .split(String.fromCharCode(10))
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0);
-
-  if (!lines.length) return [];
-  const headers = splitCsvLine(lines[0]);
-
-  return lines.slice(1).map((line) => {
-    const values = splitCsvLine(line);
-    const row: CsvRow = {};
-    headers.forEach((h, idx) => {
-      row[h] = values[idx] ?? "";
-    });
-    return row;
-  });
-}
-
 function nullIfEmpty(value: string | undefined): string | null {
   if (value === undefined) return null;
   return value === "" ? null : value;
@@ -178,16 +198,6 @@ function parseGtfsDate(
   return dt.isValid ? Math.floor(dt.toSeconds()) : null;
 }
 
-function parseGtfsTime(timeStr: string | undefined | null): number | null {
-  if (!timeStr) return null;
-  const parts = timeStr.split(":");
-  if (parts.length < 2) return null;
-  const h = parseInt(parts[0]);
-  const m = parseInt(parts[1]);
-  const s = parts.length > 2 ? parseInt(parts[2]) : 0;
-  return h * 3600 + m * 60 + s;
-}
-
 /**
  * Executes a large set of D1 prepared statements in smaller batches
  * to avoid RangeError (invalid string length) and other RPC limits.
@@ -216,66 +226,130 @@ async function batchExecute(
   return results;
 }
 
-// Bounds how much delete work a single cleanup step performs; a version
-// with more rows than this continues in a fresh workflow step.
-const MAX_BATCHES_PER_CLEANUP_STEP = 40;
+export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
+  // Rows written by the running step's batched statements; see trackSteps.
+  private stepRows = 0;
 
-/**
- * Runs the FK-ordered cleanup statements for one feed version, stopping
- * after a bounded number of batches. Returns done=false when more work
- * remains; statements are idempotent, so resuming simply re-runs the list
- * (already-empty tables no-op).
- */
-async function runCleanupPass(
-  db: D1Database,
-  feedVersionId: number,
-): Promise<{ done: boolean; rowsDeleted: number }> {
-  let batchBudget = MAX_BATCHES_PER_CLEANUP_STEP;
-  let rowsDeleted = 0;
-
-  for (const statement of buildVersionCleanupStatements()) {
-    if (statement.batched) {
-      while (true) {
-        if (batchBudget === 0) return { done: false, rowsDeleted };
-        const result = await db
-          .prepare(statement.sql)
-          .bind(feedVersionId, CLEANUP_BATCH_SIZE)
-          .run();
-        batchBudget--;
-        const changes = result.meta.changes ?? 0;
-        rowsDeleted += changes;
-        if (changes < CLEANUP_BATCH_SIZE) break;
-      }
-    } else {
-      if (batchBudget === 0) return { done: false, rowsDeleted };
-      const result = await db.prepare(statement.sql).bind(feedVersionId).run();
-      batchBudget--;
-      rowsDeleted += result.meta.changes ?? 0;
+  async run(event: Readonly<WorkflowEvent<Params>>, step: WorkflowStep) {
+    console.log("Import511Workflow run started", event.payload);
+    const { id: sourceName } = event.payload;
+    const instanceId = event.instanceId;
+
+    await step.do(`[Import511] Record import run for ${sourceName}`, () =>
+      startImportRun(this.env.gtfs_data, instanceId, sourceName),
+    );
+
+    let outcome: "imported" | "unchanged";
+    try {
+      outcome = await this.importFeed(
+        this.trackSteps(step, instanceId),
+        sourceName,
+        instanceId,
+      );
+    } catch (err) {
+      // A step that exhausted its retries. Recorded outside a step: the run
+      // is over, so nothing replays this.
+      await finishImportRun(
+        this.env.gtfs_data,
+        instanceId,
+        "failed",
+        describeImportError(err),
+      ).catch((recordErr) =>
+        console.error("[Import511] Failed to record import failure", recordErr),
+      );
+      throw err;
     }
+
+    await step.do(`[Import511] Record import outcome for ${sourceName}`, () =>
+      finishImportRun(this.env.gtfs_data, instanceId, outcome),
+    );
   }
 
-  return { done: true, rowsDeleted };
-}
+  // Wraps step.do so each step, as it completes, records its name and the
+  // rows its batched statements wrote on the run's import_runs row. The
+  // record is part of the step, so a replayed step is not recorded twice.
+  private trackSteps(step: WorkflowStep, instanceId: string): WorkflowStep {
+    const tracked = async (
+      name: string,
+      configOrCallback: WorkflowStepConfig | (() => Promise<any>),
+      maybeCallback?: () => Promise<any>,
+    ) => {
+      const callback =
+        maybeCallback ?? (configOrCallback as () => Promise<any>);
+      const recorded = async () => {
+        this.stepRows = 0;
+        const result = await callback();
+        await recordImportStep(
+          this.env.gtfs_data,
+          instanceId,
+          name,
+          this.stepRows,
+        );
+        return result;
+      };
+      return maybeCallback
+        ? step.do(name, configOrCallback as WorkflowStepConfig, recorded)
+        : step.do(name, recorded);
+    };
+    return {
+      do: tracked as WorkflowStep["do"],
+      sleep: (name, duration) => step.sleep(name, duration),
+      sleepUntil: (name, timestamp) => step.sleepUntil(name, timestamp),
+      waitForEvent: (name, options) => step.waitForEvent(name, options),
+    };
+  }
 
-export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
-  async run(event: Readonly<WorkflowEvent<Params>>, step: WorkflowStep) {
-    console.log("Import511Workflow run started", event.payload);
-    const { id: operatorId } = event.payload;
-    const instanceId = event.instanceId;
+  private async batchExecute(
+    statements: D1PreparedStatement[],
+    chunkSize?: number,
+    concurrency?: number,
+  ): Promise<D1Result[]> {
+    const results = await batchExecute(
+      this.env.gtfs_data,
+      statements,
+      chunkSize,
+      concurrency,
+    );
+    for (const result of results) this.stepRows += result.meta.changes ?? 0;
+    return results;
+  }
+
+  // The import itself; returns whether it imported a new version or found
+  // the zip already imported.
+  private async importFeed(
+    step: WorkflowStep,
+    sourceName: string,
+    instanceId: string,
+  ): Promise<"imported" | "unchanged"> {
     const prefix = `imports/${instanceId}`;
 
-    const { hashHex, importedMatch } = await step.do(
-      `[Import511] Download and stage ${operatorId}`,
+    const {
+      versionLabel,
+      importedMatch,
+      files: stagedFiles,
+    } = await step.do(
+      `[Import511] Download and stage ${sourceName}`,
       {
         retries: { limit: 5, delay: "30 seconds", backoff: "exponential" },
         timeout: "10 minutes",
       },
       async () => {
-        console.log("Starting fetch for", operatorId);
-        const response = await fetch(
-          `https://api.511.org/transit/datafeeds?api_key=${this.env.API_KEY_511}&operator_id=${operatorId}`,
-          { headers: { Accept: "application/zip" } },
+        // Sources are configured ahead of time; an id nobody configured is a
+        // 511 operator, as every source was before providers existed.
+        const configured = await this.env.gtfs_data
+          .prepare(
+            `SELECT ${FEED_SOURCE_COLUMNS.join(", ")} FROM feed_source WHERE source_name = ?`,
+          )
+          .bind(sourceName)
+          .first<FeedSourceConfig>();
+        const source = configured ?? default511Source(sourceName);
+        const feed = resolveStaticFeedRequest(
+          source,
+          this.env as unknown as Record<string, unknown>,
         );
+
+        console.log("Starting fetch for", sourceName, source.provider);
+        const response = await fetch(feed.url, { headers: feed.headers });
         if (!response.ok) {
           throw new Error(
             `Failed to fetch: ${response.status} ${response.statusText}`,
@@ -285,11 +359,11 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
         const arrayBuffer = await response.arrayBuffer();
 
         // Calculate SHA-256 hash to detect same content
-        const hashBuffer = await crypto.subtle.digest("SHA-256", arrayBuffer);
-        const hashArray = Array.from(new Uint8Array(hashBuffer));
-        const hashHex = hashArray
-          .map((b) => b.toString(16).padStart(2, "0"))
-          .join("");
+        const hashHex = await sha256Hex(arrayBuffer);
+        const versionLabel = feedVersionLabel(source, hashHex);
+        await noteImportRunVersion(this.env.gtfs_data, instanceId, {
+          feedHash: hashHex,
+        });
 
         // If this exact content has already been imported in full, skip the
         // unzip and R2 staging entirely; the run reduces to re-checking which
@@ -306,7 +380,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
              JOIN feed_source fs ON fv.feed_source_id = fs.feed_source_id
              WHERE fs.source_name = ? AND fv.version_label = ?`,
           )
-          .bind(operatorId, `511-${operatorId}-${hashHex}`)
+          .bind(sourceName, versionLabel)
           .first<{
             feed_version_id: number;
             feed_source_id: number;
@@ -316,81 +390,107 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
         if (existing && existing.imported_at !== null) {
           console.log("Feed already imported, skipping unzip. hash:", hashHex);
           return {
-            hashHex,
+            versionLabel,
             importedMatch: {
               feedVersionId: existing.feed_version_id,
               feedSourceId: existing.feed_source_id,
             },
+            files: [],
           };
         }
 
         const zip = await JSZip.loadAsync(arrayBuffer);
+        const files: FeedFile[] = [];
 
         for (const [name, file] of Object.entries(zip.files)) {
           if (file.dir) continue;
           const fileName = name.split("/").pop();
           if (fileName) {
-            const content = await file.async("uint8array");
+            const content = await file.async("arraybuffer");
             await this.env.gtfs_processing.put(
               `${prefix}/${fileName.toLowerCase()}`,
               content,
             );
+            files.push({
+              file_name: fileName.toLowerCase(),
+              sha256: await sha256Hex(content),
+              size: content.byteLength,
+            });
           }
         }
         console.log("Finished unzip, hash:", hashHex);
-        return { hashHex, importedMatch: null };
+        return { versionLabel, importedMatch: null, files };
       },
     );
 
     if (importedMatch) {
+      // Versions imported before stop search existed get their index the
+      // first time their unchanged feed comes around again.
+      const indexed = await step.do(
+        `[Import511] Check stop search index for ${sourceName}`,
+        async () => {
+          const row = await this.env.gtfs_data
+            .prepare(
+              "SELECT 1 AS found FROM stop_search WHERE feed_version_id = ? LIMIT 1",
+            )
+            .bind(importedMatch.feedVersionId)
+            .first<{ found: number }>();
+          return row !== null;
+        },
+      );
+      if (!indexed) {
+        await this.buildStopSearchIndex(
+          step,
+          sourceName,
+          importedMatch.feedVersionId,
+        );
+      }
+
       // Nothing new to import, but which version should be live can still
       // change without the feed changing: a version published ahead of its
       // service window becomes servable the day that window opens.
       await this.activateBestVersion(
         step,
-        operatorId,
+        sourceName,
         importedMatch.feedSourceId,
       );
       await this.runRetentionCleanup(
         step,
-        operatorId,
+        sourceName,
         importedMatch.feedSourceId,
       );
-      return;
+      await this.checkHealth(step, sourceName, importedMatch.feedSourceId);
+      return "unchanged";
     }
 
-    const getFileRows = async (key: FileKey): Promise<CsvRow[]> => {
-      const fileName = GTFS_FILE_NAMES[key].toLowerCase();
-      const object = await this.env.gtfs_processing.get(
-        `${prefix}/${fileName}`,
+    const getFileRows = (key: FileKey): Promise<CsvRow[]> =>
+      readCsvRows(
+        this.env.gtfs_processing,
+        `${prefix}/${GTFS_FILE_NAMES[key].toLowerCase()}`,
       );
-      if (!object) return [];
-      const content = await object.text();
-      return parseCsv(content);
-    };
 
     const {
       feedVersionId,
       feedSourceId,
       feedInfo,
       isNewVersion,
+      reimport,
       agencyTimezone,
     } = await step.do(
-      `[Import511] Initialize feed version for ${operatorId}`,
+      `[Import511] Initialize feed version for ${sourceName}`,
       async () => {
         console.log("Initializing feed version...");
         const agencyRows = await getFileRows("agency");
         const feedInfoRows = await getFileRows("feed_info");
         const feedInfo = feedInfoRows[0] || null;
 
-        const sourceName = operatorId;
         const sourceDesc = agencyRows[0]?.agency_name ?? sourceName;
         const defaultLang =
           feedInfo?.feed_lang ?? agencyRows[0]?.agency_lang ?? null;
 
         const agencyTimezone = agencyRows[0]?.agency_timezone;
         if (!agencyTimezone) {
-          throw new Error(`Agency timezone is missing for ${operatorId}`);
+          throw new Error(`Agency timezone is missing for ${sourceName}`);
         }
 
         // Ensure feed source
@@ -418,7 +518,6 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
         const feedSourceId = sourceRow.feed_source_id;
 
         // Try to insert the feed version based on content hash
-        const versionLabel = `511-${operatorId}-${hashHex}`;
         const feedStartDate = parseGtfsDate(
           feedInfo?.feed_start_date,
           agencyTimezone,
@@ -445,14 +544,16 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
           | number
           | undefined;
         let isNewVersion = false;
+        let reimport = false;
 
         if (feedVersionId) {
           isNewVersion = true;
         } else {
           // The version row exists but is not active (the active case
           // short-circuits before unzip), meaning a previous import of
-          // this content crashed partway. Re-import in full into the
-          // same version id; the delete batch below clears partial rows.
+          // this content crashed partway or retention cleanup has begun
+          // deleting it. Re-import in full into the same version id once
+          // the steps below have cleared its remaining rows.
           const existing = await this.env.gtfs_data
             .prepare(
               "SELECT feed_version_id FROM feed_version WHERE feed_source_id = ? AND version_label = ?",
@@ -464,123 +565,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             throw new Error("Failed to find existing feed_version_id");
           feedVersionId = existing.feed_version_id;
           isNewVersion = true;
-        }
-
-        if (isNewVersion) {
-          await this.env.gtfs_data.batch([
-            // Re-importing makes the version incomplete again until the
-            // "Mark import complete" step below, so it cannot be selected as
-            // the live version mid-import.
-            this.env.gtfs_data
-              .prepare(
-                "UPDATE feed_version SET imported_at = NULL WHERE feed_version_id = ?",
-              )
-              .bind(feedVersionId),
-            // Delete static data
-            this.env.gtfs_data
-              .prepare(
-                "DELETE FROM stop_times WHERE trip_pk IN (SELECT trip_pk FROM trips WHERE feed_version_id = ?)",
-              )
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare(
-                "DELETE FROM frequencies WHERE trip_pk IN (SELECT trip_pk FROM trips WHERE feed_version_id = ?)",
-              )
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM attributions WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM trips WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM transfers WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM pathways WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM stops WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM fare_attributes WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM fare_rules WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM routes WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM agency WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM feed_info WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM calendar WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM calendar_dates WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM shapes WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM levels WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM areas WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM stop_areas WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM networks WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM route_networks WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM timeframes WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM rider_categories WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM fare_media WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM fare_products WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM fare_leg_rules WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare(
-                "DELETE FROM fare_leg_join_rules WHERE feed_version_id = ?",
-              )
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare(
-                "DELETE FROM fare_transfer_rules WHERE feed_version_id = ?",
-              )
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM location_groups WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare(
-                "DELETE FROM location_group_stops WHERE feed_version_id = ?",
-              )
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM booking_rules WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-            this.env.gtfs_data
-              .prepare("DELETE FROM translations WHERE feed_version_id = ?")
-              .bind(feedVersionId),
-          ]);
+          reimport = true;
         }
 
         // The version stays incomplete (imported_at NULL) until every import
@@ -588,19 +573,71 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
         // end decides it is the right one to serve. Pages keep serving the
         // previous version until then, and a crashed import can never become
         // the live version.
+        await noteImportRunVersion(this.env.gtfs_data, instanceId, {
+          feedVersionId,
+        });
         return {
           feedVersionId,
           feedSourceId,
           feedInfo,
           isNewVersion,
+          reimport,
           agencyTimezone,
         };
       },
     );
 
+    if (reimport) {
+      // The cleanup passes clear imported_at first, so the version cannot be
+      // selected as live until the "Mark import complete" step below. Rows
+      // other versions share stay; the import upserts over them.
+      let pass = 0;
+      let done = false;
+      while (!done) {
+        pass++;
+        const result = await step.do(
+          `[Import511] Clear version ${feedVersionId} pass ${pass} for ${sourceName}`,
+          async () =>
+            runCleanupPass(this.env.gtfs_data, feedVersionId, {
+              keepVersion: true,
+            }),
+        );
+        done = result.done;
+      }
+    }
+
+    // Records the zip's file hashes with the version and reports which files
+    // differ from the live version's (src/feed-diff.ts). Runs before the new
+    // version can be selected, so "live" is still the previous version, the
+    // one whose unchanged stop_times and shapes the new version shares (see
+    // src/timetable-diff.ts).
+    const baseline = await step.do(
+      `[Import511] Compare files with live version for ${sourceName}`,
+      async () => {
+        const live = await getLiveVersionFiles(
+          this.env.gtfs_data,
+          feedSourceId,
+        );
+        await recordFeedVersionFiles(
+          this.env.gtfs_data,
+          feedVersionId,
+          stagedFiles,
+        );
+        if (!live || live.feedVersionId === feedVersionId) return null;
+        const diff = diffFeedFiles(live.files, stagedFiles);
+        console.log(
+          `[Import511] ${sourceName} against live version ${live.feedVersionId}: ${describeFeedDiff(diff)}`,
+        );
+        return { feedVersionId: live.feedVersionId, unchanged: diff.unchanged };
+      },
+    );
+    const liveVersionId = baseline?.feedVersionId ?? null;
+    const unchangedFile = (file: string) =>
+      baseline?.unchanged.includes(file) ?? false;
+
     if (isNewVersion && feedInfo) {
       await step.do(
-        `[Import511] Import feed_info for ${operatorId}`,
+        `[Import511] Import feed_info for ${sourceName}`,
         async () => {
           await this.env.gtfs_data
             .prepare(
@@ -639,7 +676,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
     }
 
     if (isNewVersion) {
-      await step.do(`[Import511] Import levels for ${operatorId}`, async () => {
+      await step.do(`[Import511] Import levels for ${sourceName}`, async () => {
         const levelsRows = await getFileRows("levels");
         const stmt = this.env.gtfs_data.prepare(
           `
@@ -661,7 +698,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
           ),
         );
         if (stmts.length) {
-          await batchExecute(this.env.gtfs_data, stmts);
+          await this.batchExecute(stmts);
         }
       });
     }
@@ -669,7 +706,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
     let agencyMap: Record<string, number> = {};
     if (isNewVersion) {
       agencyMap = await step.do(
-        `[Import511] Import agencies for ${operatorId}`,
+        `[Import511] Import agencies for ${sourceName}`,
         async () => {
           const agencyRows = await getFileRows("agency");
           const stmt = this.env.gtfs_data.prepare(
@@ -708,7 +745,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
 
           const map: Record<string, number> = {};
           if (stmts.length) {
-            const results = await batchExecute(this.env.gtfs_data, stmts);
+            const results = await this.batchExecute(stmts);
             agencyRows.forEach((row, i) => {
               const pk =
                 (results[i].results?.[0] as any)?.agency_pk ||
@@ -724,7 +761,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
     let routeMap: Record<string, number> = {};
     if (isNewVersion) {
       routeMap = await step.do(
-        `[Import511] Import routes for ${operatorId}`,
+        `[Import511] Import routes for ${sourceName}`,
         async () => {
           const routeRows = await getFileRows("routes");
           const stmt = this.env.gtfs_data.prepare(
@@ -774,7 +811,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
 
           const map: Record<string, number> = {};
           if (stmts.length) {
-            const results = await batchExecute(this.env.gtfs_data, stmts);
+            const results = await this.batchExecute(stmts);
             routeRows.forEach((row, i) => {
               const pk =
                 (results[i].results?.[0] as any)?.route_pk ||
@@ -791,77 +828,60 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
     const stopsObj = await this.env.gtfs_processing.head(stopsKey);
     const stopsSize = stopsObj?.size ?? 0;
     const stopMap: Record<string, number> = {};
+    // stop_id -> the timetable_stop_pk stop_times rows name the stop by.
+    const stopAnchors: Record<string, number> = {};
     const parentAssignments: Array<{ childPk: number; parentId: string }> = [];
-
+    // Validation issues of each stops, trips and stop_times chunk, merged
+    // into the report before the version is marked complete.
+    const chunkIssues: ValidationIssue[][] = [];
+    // What the stops chunks read, for validating keys across chunks.
+    const stagedStopIds = new Set<string>();
+    const parentReferences: Array<{ stopId: string; parentStation: string }> =
+      [];
     if (isNewVersion && stopsSize > 0) {
-      let offset = 0;
       const CHUNK_SIZE = 512 * 1024; // 512KB
       let chunkIndex = 0;
-      let headerLine = "";
+      let checkpoint = CSV_START;
 
-      while (offset < stopsSize) {
+      while (checkpoint.offset < stopsSize) {
         const result = await step.do(
-          `[Import511] Import stops chunk ${chunkIndex} for ${operatorId}`,
+          `[Import511] Import stops chunk ${chunkIndex} for ${sourceName}`,
           async () => {
-            const isFirstChunk = offset === 0;
-            const length = Math.min(CHUNK_SIZE, stopsSize - offset);
-
-            let currentHeader = headerLine;
-            if (!isFirstChunk && !currentHeader) {
-              const headObj = await this.env.gtfs_processing.get(stopsKey, {
-                range: { length: 4096 },
-              });
-              if (headObj) {
-                const headText = await headObj.text();
-                const firstLineEnd = headText.indexOf("\n");
-                if (firstLineEnd !== -1) {
-                  currentHeader = headText.substring(0, firstLineEnd).trim();
-                }
-              }
-            }
-
-            const chunkObj = await this.env.gtfs_processing.get(stopsKey, {
-              range: { offset, length },
-            });
-            if (!chunkObj)
-              return {
-                processed: length,
-                header: currentHeader,
-                map: {},
-                assignments: [],
-              };
-
-            let text = await chunkObj.text();
-            let processedBytes = text.length;
-
-            if (offset + length < stopsSize) {
-              const lastNewline = text.lastIndexOf("\n");
-              if (lastNewline !== -1) {
-                text = text.substring(0, lastNewline);
-                processedBytes = lastNewline + 1;
-              }
-            }
-
-            if (isFirstChunk) {
-              const firstNewline = text.indexOf("\n");
-              if (firstNewline !== -1) {
-                currentHeader = text.substring(0, firstNewline).trim();
-              }
-            }
-
-            let csvContent = text;
-            if (!isFirstChunk && currentHeader) {
-              csvContent = currentHeader + "\n" + text;
-            }
-
-            const rows = parseCsv(csvContent);
+            const { rows, next } = await readCsvChunk(
+              this.env.gtfs_processing,
+              stopsKey,
+              stopsSize,
+              checkpoint,
+              CHUNK_SIZE,
+            );
+            const source = await this.env.gtfs_data
+              .prepare(
+                "SELECT bounds FROM feed_source WHERE feed_source_id = ?",
+              )
+              .bind(feedSourceId)
+              .first<{ bounds: string | null }>();
+            const issues = validateStopsChunk(
+              rows,
+              (stopId) => stagedStopIds.has(stopId),
+              parseBounds(source?.bounds ?? null),
+            );
+            const ids = rows.map((row) => row.stop_id).filter(Boolean);
+            const parents = rows
+              .filter((row) => row.stop_id && row.parent_station)
+              .map((row) => ({
+                stopId: row.stop_id,
+                parentStation: row.parent_station,
+              }));
             const stmt = this.env.gtfs_data.prepare(
               `
               INSERT INTO stops (
                 feed_version_id, stop_id, stop_code, stop_name, tts_stop_name, stop_desc, stop_lat, stop_lon,
                 zone_id, stop_url, location_type, parent_station, stop_timezone,
-                wheelchair_boarding, level_id, platform_code, stop_access
-              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                wheelchair_boarding, level_id, platform_code, stop_access, timetable_stop_pk
+              ) VALUES (
+                ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+                (SELECT timetable_stop_pk FROM stops WHERE feed_version_id = ? AND stop_id = ?)
+              )
               ON CONFLICT(feed_version_id, stop_id) DO UPDATE SET
                 stop_code = excluded.stop_code,
                 stop_name = excluded.stop_name,
@@ -876,8 +896,9 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
                 wheelchair_boarding = excluded.wheelchair_boarding,
                 level_id = excluded.level_id,
                 platform_code = excluded.platform_code,
-                stop_access = excluded.stop_access
-              RETURNING stop_pk
+                stop_access = excluded.stop_access,
+                timetable_stop_pk = COALESCE(excluded.timetable_stop_pk, stops.timetable_stop_pk)
+              RETURNING stop_pk, timetable_stop_pk
             `,
             );
 
@@ -887,6 +908,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             const CONCURRENCY = 1;
             const TOTAL_CHUNK = BATCH_SIZE * CONCURRENCY;
             const localMap: Record<string, number> = {};
+            const localAnchors: Record<string, number> = {};
             const localAssignments: Array<{
               childPk: number;
               parentId: string;
@@ -894,8 +916,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
 
             const processLocalBatch = async () => {
               if (stmts.length === 0) return;
-              const results = await batchExecute(
-                this.env.gtfs_data,
+              const results = await this.batchExecute(
                 stmts,
                 BATCH_SIZE,
                 CONCURRENCY,
@@ -906,6 +927,10 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
                   results[i].meta.last_row_id;
                 if (pk) {
                   localMap[row.stop_id] = pk;
+                  // New stop_ids anchor on their own row; see "Anchor new
+                  // stops" below.
+                  localAnchors[row.stop_id] =
+                    (results[i].results?.[0] as any)?.timetable_stop_pk ?? pk;
                   if (row.parent_station) {
                     localAssignments.push({
                       childPk: pk,
@@ -939,6 +964,8 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
                   nullIfEmpty(row.level_id),
                   nullIfEmpty(row.platform_code),
                   intOrNull(row.stop_access),
+                  liveVersionId,
+                  nullIfEmpty(row.stop_id),
                 ),
               );
 
@@ -949,25 +976,47 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             await processLocalBatch();
 
             return {
-              processed: processedBytes,
-              header: currentHeader,
+              next,
               map: localMap,
+              anchors: localAnchors,
               assignments: localAssignments,
+              ids,
+              parents,
+              issues,
             };
           },
         );
 
-        offset += result.processed;
-        headerLine = result.header || "";
+        checkpoint = result.next;
         Object.assign(stopMap, result.map);
+        Object.assign(stopAnchors, result.anchors);
         parentAssignments.push(...result.assignments);
+        result.ids.forEach((id) => stagedStopIds.add(id));
+        parentReferences.push(...result.parents);
+        chunkIssues.push(result.issues);
         chunkIndex++;
       }
     }
 
+    if (isNewVersion) {
+      // A stop_id the live version lacks starts its own anchor; the rest
+      // inherited the live version's in the insert above.
+      await step.do(
+        `[Import511] Anchor new stops for ${sourceName}`,
+        async () => {
+          await this.env.gtfs_data
+            .prepare(
+              "UPDATE stops SET timetable_stop_pk = stop_pk WHERE feed_version_id = ? AND timetable_stop_pk IS NULL",
+            )
+            .bind(feedVersionId)
+            .run();
+        },
+      );
+    }
+
     if (isNewVersion && parentAssignments.length) {
       await step.do(
-        `[Import511] Update parent stations for ${operatorId}`,
+        `[Import511] Update parent stations for ${sourceName}`,
         async () => {
           const stmts: D1PreparedStatement[] = [];
           for (const item of parentAssignments) {
@@ -983,15 +1032,19 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             }
           }
           if (stmts.length) {
-            await batchExecute(this.env.gtfs_data, stmts);
+            await this.batchExecute(stmts);
           }
         },
       );
     }
 
+    // service_ids of calendar.txt and calendar_dates.txt, which trips.txt
+    // is validated against.
+    const serviceIds = new Set<string>();
+
     if (isNewVersion) {
-      await step.do(
-        `[Import511] Import calendar for ${operatorId}`,
+      const calendarServiceIds = await step.do(
+        `[Import511] Import calendar for ${sourceName}`,
         async () => {
           const calRows = await getFileRows("calendar");
           const stmt = this.env.gtfs_data.prepare(
@@ -1029,15 +1082,17 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             ),
           );
           if (stmts.length) {
-            await batchExecute(this.env.gtfs_data, stmts);
+            await this.batchExecute(stmts);
           }
+          return [...new Set(calRows.map((row) => row.service_id))];
         },
       );
+      calendarServiceIds.forEach((id) => serviceIds.add(id));
     }
 
     if (isNewVersion) {
-      await step.do(
-        `[Import511] Import calendar_dates for ${operatorId}`,
+      const calendarDateServiceIds = await step.do(
+        `[Import511] Import calendar_dates for ${sourceName}`,
         async () => {
           const calDateRows = await getFileRows("calendar_dates");
           const stmt = this.env.gtfs_data.prepare(
@@ -1056,80 +1111,125 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             ),
           );
           if (stmts.length) {
-            await batchExecute(this.env.gtfs_data, stmts);
+            await this.batchExecute(stmts);
           }
+          return [...new Set(calDateRows.map((row) => row.service_id))];
         },
       );
+      calendarDateServiceIds.forEach((id) => serviceIds.add(id));
+    }
+
+    const stopTimesKey = `${prefix}/${GTFS_FILE_NAMES.stop_times.toLowerCase()}`;
+    const stopTimesObj = await this.env.gtfs_processing.head(stopTimesKey);
+    const stopTimesSize = stopTimesObj?.size ?? 0;
+
+    // What the live version's trips hold, by trip_id: a trip whose
+    // stop_times hash matches shares the live version's rows instead of
+    // writing its own (src/timetable-diff.ts).
+    const liveTimetables: Record<string, LiveTimetable> = {};
+    if (isNewVersion && liveVersionId !== null) {
+      let page = 0;
+      let after: number | null = 0;
+      while (after !== null) {
+        const resumeAfter: number = after;
+        const result = await step.do(
+          `[Import511] Load live trips page ${page} for ${sourceName}`,
+          async () =>
+            loadVersionTimetables(
+              this.env.gtfs_data,
+              liveVersionId,
+              resumeAfter,
+            ),
+        );
+        Object.assign(liveTimetables, result.timetables);
+        after = result.last;
+        page++;
+      }
+    }
+
+    // With stop_times.txt and stops.txt both unchanged, every trip stores
+    // the same rows the live version's did, so its hash is the live one's
+    // and the file is not read at all. Otherwise each trip is digested.
+    const reuseLiveHashes =
+      unchangedFile("stop_times.txt") &&
+      unchangedFile("stops.txt") &&
+      Object.values(liveTimetables).some((live) => live.hash !== null);
+    const stopTimesDigests: RowDigests = {};
+
+    if (isNewVersion && !reuseLiveHashes && stopTimesSize > 0) {
+      const CHUNK_SIZE = 512 * 1024; // 512KB
+      let chunkIndex = 0;
+      let checkpoint = CSV_START;
+
+      while (checkpoint.offset < stopTimesSize) {
+        const result = await step.do(
+          `[Import511] Digest stop_times chunk ${chunkIndex} for ${sourceName}`,
+          async () => {
+            const { rows, next } = await readCsvChunk(
+              this.env.gtfs_processing,
+              stopTimesKey,
+              stopTimesSize,
+              checkpoint,
+              CHUNK_SIZE,
+            );
+            const digests = await digestStopTimes(rows, (stopId) =>
+              Object.hasOwn(stopMap, stopId),
+            );
+            return { next, digests };
+          },
+        );
+
+        checkpoint = result.next;
+        mergeRowDigests(stopTimesDigests, result.digests);
+        chunkIndex++;
+      }
     }
 
+    const tripHash = (tripId: string): string | null =>
+      reuseLiveHashes
+        ? (liveTimetables[tripId]?.hash ?? null)
+        : digestHash(stopTimesDigests[tripId]);
+
     const tripsKey = `${prefix}/${GTFS_FILE_NAMES.trips.toLowerCase()}`;
     const tripsObj = await this.env.gtfs_processing.head(tripsKey);
     const tripsSize = tripsObj?.size ?? 0;
     const tripMap: Record<string, number> = {};
-
+    const stagedTripIds = new Set<string>();
+    // trip_id -> the live timetable an unchanged trip shares.
+    const sharedTimetables: Record<string, number> = {};
     if (isNewVersion && tripsSize > 0) {
-      let offset = 0;
       const CHUNK_SIZE = 512 * 1024; // 512KB
       let chunkIndex = 0;
-      let headerLine = "";
+      let checkpoint = CSV_START;
 
-      while (offset < tripsSize) {
+      while (checkpoint.offset < tripsSize) {
         const result = await step.do(
-          `[Import511] Import trips chunk ${chunkIndex} for ${operatorId}`,
+          `[Import511] Import trips chunk ${chunkIndex} for ${sourceName}`,
           async () => {
-            const isFirstChunk = offset === 0;
-            const length = Math.min(CHUNK_SIZE, tripsSize - offset);
-
-            let currentHeader = headerLine;
-            if (!isFirstChunk && !currentHeader) {
-              const headObj = await this.env.gtfs_processing.get(tripsKey, {
-                range: { length: 4096 },
-              });
-              if (headObj) {
-                const headText = await headObj.text();
-                const firstLineEnd = headText.indexOf("\n");
-                if (firstLineEnd !== -1) {
-                  currentHeader = headText.substring(0, firstLineEnd).trim();
-                }
-              }
-            }
-
-            const chunkObj = await this.env.gtfs_processing.get(tripsKey, {
-              range: { offset, length },
+            const { rows, next } = await readCsvChunk(
+              this.env.gtfs_processing,
+              tripsKey,
+              tripsSize,
+              checkpoint,
+              CHUNK_SIZE,
+            );
+            const issues = validateTripsChunk(rows, {
+              seenBefore: (tripId) => stagedTripIds.has(tripId),
+              hasRoute: (routeId) => Object.hasOwn(routeMap, routeId),
+              hasService: (serviceId) => serviceIds.has(serviceId),
             });
-            if (!chunkObj)
-              return { processed: length, header: currentHeader, map: {} };
-
-            let text = await chunkObj.text();
-            let processedBytes = text.length;
-
-            if (offset + length < tripsSize) {
-              const lastNewline = text.lastIndexOf("\n");
-              if (lastNewline !== -1) {
-                text = text.substring(0, lastNewline);
-                processedBytes = lastNewline + 1;
-              }
-            }
-
-            if (isFirstChunk) {
-              const firstNewline = text.indexOf("\n");
-              if (firstNewline !== -1) {
-                currentHeader = text.substring(0, firstNewline).trim();
-              }
-            }
-
-            let csvContent = text;
-            if (!isFirstChunk && currentHeader) {
-              csvContent = currentHeader + "\n" + text;
-            }
-
-            const rows = parseCsv(csvContent);
+            const ids = rows.map((row) => row.trip_id).filter(Boolean);
+            const hashes = Object.fromEntries(
+              ids.map((tripId) => [tripId, tripHash(tripId)]),
+            );
+            const shared = planSharedTimetables(hashes, liveTimetables);
             const stmt = this.env.gtfs_data.prepare(
               `
               INSERT INTO trips (
                 feed_version_id, trip_id, route_pk, service_id, trip_headsign, trip_short_name,
-                direction_id, block_id, shape_id, wheelchair_accessible, bikes_allowed, cars_allowed
-              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                direction_id, block_id, shape_id, wheelchair_accessible, bikes_allowed, cars_allowed,
+                stop_times_hash, timetable_trip_pk
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
               ON CONFLICT(feed_version_id, trip_id) DO UPDATE SET
                 route_pk = excluded.route_pk,
                 service_id = excluded.service_id,
@@ -1140,7 +1240,9 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
                 shape_id = excluded.shape_id,
                 wheelchair_accessible = excluded.wheelchair_accessible,
                 bikes_allowed = excluded.bikes_allowed,
-                cars_allowed = excluded.cars_allowed
+                cars_allowed = excluded.cars_allowed,
+                stop_times_hash = excluded.stop_times_hash,
+                timetable_trip_pk = excluded.timetable_trip_pk
               RETURNING trip_pk
             `,
             );
@@ -1154,8 +1256,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
 
             const processLocalBatch = async () => {
               if (stmts.length === 0) return;
-              const results = await batchExecute(
-                this.env.gtfs_data,
+              const results = await this.batchExecute(
                 stmts,
                 BATCH_SIZE,
                 CONCURRENCY,
@@ -1188,6 +1289,8 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
                   intOrNull(row.wheelchair_accessible),
                   intOrNull(row.bikes_allowed),
                   intOrNull(row.cars_allowed),
+                  hashes[row.trip_id],
+                  shared[row.trip_id] ?? null,
                 ),
               );
 
@@ -1198,88 +1301,72 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             await processLocalBatch();
 
             return {
-              processed: processedBytes,
-              header: currentHeader,
+              next,
               map: localMap,
+              ids,
+              shared,
+              issues,
             };
           },
         );
 
-        offset += result.processed;
-        headerLine = result.header || "";
+        checkpoint = result.next;
         Object.assign(tripMap, result.map);
+        Object.assign(sharedTimetables, result.shared);
+        result.ids.forEach((id) => stagedTripIds.add(id));
+        chunkIssues.push(result.issues);
         chunkIndex++;
       }
     }
 
-    const stopTimesKey = `${prefix}/${GTFS_FILE_NAMES.stop_times.toLowerCase()}`;
-    const stopTimesObj = await this.env.gtfs_processing.head(stopTimesKey);
-    const stopTimesSize = stopTimesObj?.size ?? 0;
+    if (isNewVersion) {
+      // New and changed trips read the stop_times written for them below.
+      await step.do(
+        `[Import511] Own timetables of changed trips for ${sourceName}`,
+        async () => {
+          await this.env.gtfs_data
+            .prepare(
+              "UPDATE trips SET timetable_trip_pk = trip_pk WHERE feed_version_id = ? AND timetable_trip_pk IS NULL",
+            )
+            .bind(feedVersionId)
+            .run();
+        },
+      );
+    }
+
+    // Rows are only read again when some trip in the file is not shared;
+    // a zip that changed nothing in stop_times writes none of them.
+    const unsharedTrip = (tripId: string) =>
+      !Object.hasOwn(sharedTimetables, tripId);
+    const stopTimesPending = reuseLiveHashes
+      ? Object.keys(tripMap).some(unsharedTrip)
+      : Object.keys(stopTimesDigests).some(unsharedTrip);
 
-    if (isNewVersion && stopTimesSize > 0) {
-      let offset = 0;
+    if (isNewVersion && stopTimesPending && stopTimesSize > 0) {
       const CHUNK_SIZE = 256 * 1024; // 256KB
       let chunkIndex = 0;
-      let headerLine = "";
+      let checkpoint = CSV_START;
+      let carry: StopTimesCarry | null = null;
 
-      while (offset < stopTimesSize) {
+      while (checkpoint.offset < stopTimesSize) {
         const result = await step.do(
-          `[Import511] Import stop_times chunk ${chunkIndex} for ${operatorId}`,
+          `[Import511] Import stop_times chunk ${chunkIndex} for ${sourceName}`,
           async () => {
-            const isFirstChunk = offset === 0;
-
-            // Fetch chunk
-            const length = Math.min(CHUNK_SIZE, stopTimesSize - offset);
-
-            // We need the header if it's not the first chunk
-            let currentHeader = headerLine;
-            if (!isFirstChunk && !currentHeader) {
-              const headObj = await this.env.gtfs_processing.get(stopTimesKey, {
-                range: { length: 4096 },
-              });
-              if (headObj) {
-                const headText = await headObj.text();
-                const firstLineEnd = headText.indexOf("\n");
-                if (firstLineEnd !== -1) {
-                  currentHeader = headText.substring(0, firstLineEnd).trim();
-                }
-              }
-            }
-
-            const chunkObj = await this.env.gtfs_processing.get(stopTimesKey, {
-              range: { offset, length },
-            });
-
-            if (!chunkObj) return { processed: length, header: currentHeader };
-
-            let text = await chunkObj.text();
-            let processedBytes = text.length;
-
-            // If not the very last chunk, we must cut at the last newline
-            if (offset + length < stopTimesSize) {
-              const lastNewline = text.lastIndexOf("\n");
-              if (lastNewline !== -1) {
-                text = text.substring(0, lastNewline);
-                processedBytes = lastNewline + 1; // +1 for the newline
-              }
-            }
-
-            // If first chunk, extract header
-            if (isFirstChunk) {
-              const firstNewline = text.indexOf("\n");
-              if (firstNewline !== -1) {
-                currentHeader = text.substring(0, firstNewline).trim();
-              }
-            }
-
-            // Prepare CSV
-            let csvContent = text;
-            if (!isFirstChunk && currentHeader) {
-              csvContent = currentHeader + "\n" + text;
-            }
-
-            const rows = parseCsv(csvContent);
-
+            const { rows: chunkRows, next } = await readCsvChunk(
+              this.env.gtfs_processing,
+              stopTimesKey,
+              stopTimesSize,
+              checkpoint,
+              CHUNK_SIZE,
+            );
+            // Shared trips' rows were validated when first written.
+            const rows = stopTimesToWrite(chunkRows, sharedTimetables);
+            const validation = validateStopTimesChunk(
+              rows,
+              (tripId) => stagedTripIds.has(tripId),
+              (stopId) => Object.hasOwn(stopMap, stopId),
+              carry,
+            );
             const stmt = this.env.gtfs_data.prepare(
               `
               INSERT INTO stop_times (
@@ -1291,6 +1378,18 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               ON CONFLICT(trip_pk, stop_sequence) DO NOTHING
             `,
             );
+            // GTFS-Flex rows served by a location group have no stop_id, so
+            // they cannot go in stop_times (see migration 0020).
+            const flexStmt = this.env.gtfs_data.prepare(
+              `
+              INSERT INTO flex_stop_times (
+                trip_pk, stop_sequence, feed_version_id, location_group_id,
+                start_pickup_drop_off_window, end_pickup_drop_off_window,
+                pickup_type, drop_off_type, pickup_booking_rule_id, drop_off_booking_rule_id
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+              ON CONFLICT(trip_pk, stop_sequence) DO NOTHING
+            `,
+            );
 
             let stmts: D1PreparedStatement[] = [];
             const BATCH_SIZE = 5000;
@@ -1299,15 +1398,40 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
 
             for (const row of rows) {
               const tripPk = tripMap[row.trip_id];
-              const stopPk = stopMap[row.stop_id];
-              if (!tripPk || !stopPk) continue;
+              if (!tripPk) continue;
+              if (!row.stop_id && row.location_group_id) {
+                const windowStart = parseStrictGtfsTime(
+                  row.start_pickup_drop_off_window,
+                );
+                const windowEnd = parseStrictGtfsTime(
+                  row.end_pickup_drop_off_window,
+                );
+                if (windowStart === null || windowEnd === null) continue;
+                stmts.push(
+                  flexStmt.bind(
+                    tripPk,
+                    intOrNull(row.stop_sequence),
+                    feedVersionId,
+                    row.location_group_id,
+                    windowStart,
+                    windowEnd,
+                    intOrNull(row.pickup_type),
+                    intOrNull(row.drop_off_type),
+                    nullIfEmpty(row.pickup_booking_rule_id),
+                    nullIfEmpty(row.drop_off_booking_rule_id),
+                  ),
+                );
+                continue;
+              }
+              const stopPk = stopAnchors[row.stop_id];
+              if (!stopPk) continue;
               stmts.push(
                 stmt.bind(
                   tripPk,
                   stopPk,
                   intOrNull(row.stop_sequence),
-                  parseGtfsTime(row.arrival_time),
-                  parseGtfsTime(row.departure_time),
+                  parseStrictGtfsTime(row.arrival_time),
+                  parseStrictGtfsTime(row.departure_time),
                   nullIfEmpty(row.stop_headsign),
                   intOrNull(row.pickup_type),
                   intOrNull(row.drop_off_type),
@@ -1315,8 +1439,8 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
                   intOrNull(row.timepoint),
                   nullIfEmpty(row.location_group_id),
                   nullIfEmpty(row.location_id),
-                  parseGtfsTime(row.start_pickup_drop_off_window),
-                  parseGtfsTime(row.end_pickup_drop_off_window),
+                  parseStrictGtfsTime(row.start_pickup_drop_off_window),
+                  parseStrictGtfsTime(row.end_pickup_drop_off_window),
                   intOrNull(row.continuous_pickup),
                   intOrNull(row.continuous_drop_off),
                   nullIfEmpty(row.pickup_booking_rule_id),
@@ -1325,30 +1449,24 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               );
 
               if (stmts.length >= TOTAL_CHUNK) {
-                await batchExecute(
-                  this.env.gtfs_data,
-                  stmts,
-                  BATCH_SIZE,
-                  CONCURRENCY,
-                );
+                await this.batchExecute(stmts, BATCH_SIZE, CONCURRENCY);
                 stmts = [];
               }
             }
             if (stmts.length) {
-              await batchExecute(
-                this.env.gtfs_data,
-                stmts,
-                BATCH_SIZE,
-                CONCURRENCY,
-              );
+              await this.batchExecute(stmts, BATCH_SIZE, CONCURRENCY);
             }
 
-            return { processed: processedBytes, header: currentHeader };
+            return {
+              next,
+              ...validation,
+            };
           },
         );
 
-        offset += result.processed;
-        headerLine = result.header || "";
+        checkpoint = result.next;
+        carry = result.carry;
+        chunkIssues.push(result.issues);
         chunkIndex++;
       }
     }
@@ -1357,120 +1475,169 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
     const shapesObj = await this.env.gtfs_processing.head(shapesKey);
     const shapesSize = shapesObj?.size ?? 0;
 
-    if (isNewVersion && shapesSize > 0) {
-      let offset = 0;
-      const CHUNK_SIZE = 256 * 1024; // 256KB
-      let chunkIndex = 0;
-      let headerLine = "";
+    // An unchanged shapes.txt gives this version the live version's
+    // version_shapes rows as they are. A live version imported before
+    // migration 0029 has none, and the file is imported in full below.
+    let shapesCarried = false;
+    if (isNewVersion && liveVersionId !== null && unchangedFile("shapes.txt")) {
+      shapesCarried = await step.do(
+        `[Import511] Carry shapes for ${sourceName}`,
+        async () => {
+          const result = await this.env.gtfs_data
+            .prepare(CARRY_VERSION_SHAPES_SQL)
+            .bind(liveVersionId, feedVersionId)
+            .run();
+          return result.meta.changes > 0;
+        },
+      );
+    }
 
-      while (offset < shapesSize) {
+    if (isNewVersion && !shapesCarried && shapesSize > 0) {
+      const shapeDigests: RowDigests = {};
+      const DIGEST_CHUNK_SIZE = 512 * 1024; // 512KB
+      let digestIndex = 0;
+      let digestCheckpoint = CSV_START;
+      while (digestCheckpoint.offset < shapesSize) {
         const result = await step.do(
-          `[Import511] Import shapes chunk ${chunkIndex} for ${operatorId}`,
+          `[Import511] Digest shapes chunk ${digestIndex} for ${sourceName}`,
           async () => {
-            const isFirstChunk = offset === 0;
-            const length = Math.min(CHUNK_SIZE, shapesSize - offset);
-
-            let currentHeader = headerLine;
-            if (!isFirstChunk && !currentHeader) {
-              const headObj = await this.env.gtfs_processing.get(shapesKey, {
-                range: { length: 4096 },
-              });
-              if (headObj) {
-                const headText = await headObj.text();
-                const firstLineEnd = headText.indexOf("\n");
-                if (firstLineEnd !== -1) {
-                  currentHeader = headText.substring(0, firstLineEnd).trim();
-                }
-              }
-            }
-
-            const chunkObj = await this.env.gtfs_processing.get(shapesKey, {
-              range: { offset, length },
-            });
-            if (!chunkObj) return { processed: length, header: currentHeader };
-
-            let text = await chunkObj.text();
-            let processedBytes = text.length;
+            const { rows, next } = await readCsvChunk(
+              this.env.gtfs_processing,
+              shapesKey,
+              shapesSize,
+              digestCheckpoint,
+              DIGEST_CHUNK_SIZE,
+            );
+            return { next, digests: await digestShapePoints(rows) };
+          },
+        );
+        digestCheckpoint = result.next;
+        mergeRowDigests(shapeDigests, result.digests);
+        digestIndex++;
+      }
 
-            if (offset + length < shapesSize) {
-              const lastNewline = text.lastIndexOf("\n");
-              if (lastNewline !== -1) {
-                text = text.substring(0, lastNewline);
-                processedBytes = lastNewline + 1;
-              }
-            }
+      const liveShapes: Record<string, LiveShape> = {};
+      if (liveVersionId !== null) {
+        let page = 0;
+        let after: string | null = "";
+        while (after !== null) {
+          const resumeAfter: string = after;
+          const result = await step.do(
+            `[Import511] Load live shapes page ${page} for ${sourceName}`,
+            async () =>
+              loadVersionShapes(this.env.gtfs_data, liveVersionId, resumeAfter),
+          );
+          Object.assign(liveShapes, result.shapes);
+          after = result.last;
+          page++;
+        }
+      }
 
-            if (isFirstChunk) {
-              const firstNewline = text.indexOf("\n");
-              if (firstNewline !== -1) {
-                currentHeader = text.substring(0, firstNewline).trim();
-              }
-            }
+      const shapeHashes: Record<string, string> = {};
+      for (const shapeId of Object.keys(shapeDigests)) {
+        shapeHashes[shapeId] = digestHash(shapeDigests[shapeId]) ?? "";
+      }
+      const shapePlan = planShapePoints(shapeHashes, liveShapes, feedVersionId);
 
-            let csvContent = text;
-            if (!isFirstChunk && currentHeader) {
-              csvContent = currentHeader + "\n" + text;
-            }
+      await step.do(
+        `[Import511] Import version shapes for ${sourceName}`,
+        async () => {
+          const stmt = this.env.gtfs_data.prepare(
+            `
+            INSERT INTO version_shapes (feed_version_id, shape_id, points_version_id, points_hash)
+            VALUES (?, ?, ?, ?)
+            ON CONFLICT(feed_version_id, shape_id) DO UPDATE SET
+              points_version_id = excluded.points_version_id,
+              points_hash = excluded.points_hash
+          `,
+          );
+          const stmts = Object.entries(shapePlan).map(([shapeId, shape]) =>
+            stmt.bind(
+              feedVersionId,
+              shapeId,
+              shape.pointsVersionId,
+              shape.hash,
+            ),
+          );
+          if (stmts.length) {
+            await this.batchExecute(stmts);
+          }
+        },
+      );
 
-            const rows = parseCsv(csvContent);
-            const stmt = this.env.gtfs_data.prepare(
-              `
+      // Only the points of new and changed shapes are written.
+      const shapesPending = Object.values(shapePlan).some(
+        (shape) => shape.pointsVersionId === feedVersionId,
+      );
+      if (shapesPending) {
+        const CHUNK_SIZE = 256 * 1024; // 256KB
+        let chunkIndex = 0;
+        let checkpoint = CSV_START;
+
+        while (checkpoint.offset < shapesSize) {
+          const result = await step.do(
+            `[Import511] Import shapes chunk ${chunkIndex} for ${sourceName}`,
+            async () => {
+              const { rows: chunkRows, next } = await readCsvChunk(
+                this.env.gtfs_processing,
+                shapesKey,
+                shapesSize,
+                checkpoint,
+                CHUNK_SIZE,
+              );
+              const rows = shapePointsToWrite(
+                chunkRows,
+                shapePlan,
+                feedVersionId,
+              );
+              const stmt = this.env.gtfs_data.prepare(
+                `
               INSERT INTO shapes (
                 feed_version_id, shape_id, shape_pt_lat, shape_pt_lon, shape_pt_sequence, shape_dist_traveled
               ) VALUES (?, ?, ?, ?, ?, ?)
               ON CONFLICT(feed_version_id, shape_id, shape_pt_sequence) DO NOTHING
             `,
-            );
-
-            let stmts: D1PreparedStatement[] = [];
-            const BATCH_SIZE = 5000;
-            const CONCURRENCY = 1;
-            const TOTAL_CHUNK = BATCH_SIZE * CONCURRENCY;
-
-            for (const row of rows) {
-              stmts.push(
-                stmt.bind(
-                  feedVersionId,
-                  nullIfEmpty(row.shape_id),
-                  floatOrNull(row.shape_pt_lat),
-                  floatOrNull(row.shape_pt_lon),
-                  intOrNull(row.shape_pt_sequence),
-                  floatOrNull(row.shape_dist_traveled),
-                ),
               );
 
-              if (stmts.length >= TOTAL_CHUNK) {
-                await batchExecute(
-                  this.env.gtfs_data,
-                  stmts,
-                  BATCH_SIZE,
-                  CONCURRENCY,
+              let stmts: D1PreparedStatement[] = [];
+              const BATCH_SIZE = 5000;
+              const CONCURRENCY = 1;
+              const TOTAL_CHUNK = BATCH_SIZE * CONCURRENCY;
+
+              for (const row of rows) {
+                stmts.push(
+                  stmt.bind(
+                    feedVersionId,
+                    nullIfEmpty(row.shape_id),
+                    floatOrNull(row.shape_pt_lat),
+                    floatOrNull(row.shape_pt_lon),
+                    intOrNull(row.shape_pt_sequence),
+                    floatOrNull(row.shape_dist_traveled),
+                  ),
                 );
-                stmts = [];
+
+                if (stmts.length >= TOTAL_CHUNK) {
+                  await this.batchExecute(stmts, BATCH_SIZE, CONCURRENCY);
+                  stmts = [];
+                }
+              }
+              if (stmts.length) {
+                await this.batchExecute(stmts, BATCH_SIZE, CONCURRENCY);
               }
-            }
-            if (stmts.length) {
-              await batchExecute(
-                this.env.gtfs_data,
-                stmts,
-                BATCH_SIZE,
-                CONCURRENCY,
-              );
-            }
 
-            return { processed: processedBytes, header: currentHeader };
-          },
-        );
+              return { next };
+            },
+          );
 
-        offset += result.processed;
-        headerLine = result.header || "";
-        chunkIndex++;
+          checkpoint = result.next;
+          chunkIndex++;
+        }
       }
     }
 
     if (isNewVersion) {
       await step.do(
-        `[Import511] Import fare_attributes for ${operatorId}`,
+        `[Import511] Import fare_attributes for ${sourceName}`,
         async () => {
           const fareAttrRows = await getFileRows("fare_attributes");
           const stmt = this.env.gtfs_data.prepare(
@@ -1502,7 +1669,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             ),
           );
           if (stmts.length) {
-            await batchExecute(this.env.gtfs_data, stmts);
+            await this.batchExecute(stmts);
           }
         },
       );
@@ -1510,7 +1677,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
 
     if (isNewVersion) {
       await step.do(
-        `[Import511] Import fare_rules for ${operatorId}`,
+        `[Import511] Import fare_rules for ${sourceName}`,
         async () => {
           const fareRuleRows = await getFileRows("fare_rules");
           const stmt = this.env.gtfs_data.prepare(
@@ -1531,7 +1698,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             ),
           );
           if (stmts.length) {
-            await batchExecute(this.env.gtfs_data, stmts);
+            await this.batchExecute(stmts);
           }
         },
       );
@@ -1539,7 +1706,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
 
     if (isNewVersion) {
       await step.do(
-        `[Import511] Import transfers for ${operatorId}`,
+        `[Import511] Import transfers for ${sourceName}`,
         async () => {
           const transferRows = await getFileRows("transfers");
           const stmt = this.env.gtfs_data.prepare(
@@ -1571,7 +1738,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             );
           }
           if (stmts.length) {
-            await batchExecute(this.env.gtfs_data, stmts);
+            await this.batchExecute(stmts);
           }
         },
       );
@@ -1579,7 +1746,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
 
     if (isNewVersion) {
       await step.do(
-        `[Import511] Import frequencies for ${operatorId}`,
+        `[Import511] Import frequencies for ${sourceName}`,
         async () => {
           const freqRows = await getFileRows("frequencies");
           const stmt = this.env.gtfs_data.prepare(
@@ -1597,15 +1764,15 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             stmts.push(
               stmt.bind(
                 tripPk,
-                parseGtfsTime(row.start_time),
-                parseGtfsTime(row.end_time),
+                parseStrictGtfsTime(row.start_time),
+                parseStrictGtfsTime(row.end_time),
                 intOrNull(row.headway_secs),
                 intOrNull(row.exact_times),
               ),
             );
           }
           if (stmts.length) {
-            await batchExecute(this.env.gtfs_data, stmts);
+            await this.batchExecute(stmts);
           }
         },
       );
@@ -1613,7 +1780,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
 
     if (isNewVersion) {
       await step.do(
-        `[Import511] Import attributions for ${operatorId}`,
+        `[Import511] Import attributions for ${sourceName}`,
         async () => {
           const attrRows = await getFileRows("attributions");
           const stmt = this.env.gtfs_data.prepare(
@@ -1646,7 +1813,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             );
           }
           if (stmts.length) {
-            await batchExecute(this.env.gtfs_data, stmts);
+            await this.batchExecute(stmts);
           }
         },
       );
@@ -1654,7 +1821,7 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
 
     if (isNewVersion) {
       await step.do(
-        `[Import511] Import pathways for ${operatorId}`,
+        `[Import511] Import pathways for ${sourceName}`,
         async () => {
           const pathRows = await getFileRows("pathways");
           const stmt = this.env.gtfs_data.prepare(
@@ -1703,14 +1870,14 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             );
           }
           if (stmts.length) {
-            await batchExecute(this.env.gtfs_data, stmts);
+            await this.batchExecute(stmts);
           }
         },
       );
     }
 
     if (isNewVersion) {
-      await step.do(`[Import511] Import areas for ${operatorId}`, async () => {
+      await step.do(`[Import511] Import areas for ${sourceName}`, async () => {
         const rows = await getFileRows("areas");
         const stmt = this.env.gtfs_data.prepare(`
           INSERT INTO areas (feed_version_id, area_id, area_name)
@@ -1725,11 +1892,11 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             nullIfEmpty(row.area_name),
           ),
         );
-        if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+        if (stmts.length) await this.batchExecute(stmts);
       });
 
       await step.do(
-        `[Import511] Import stop_areas for ${operatorId}`,
+        `[Import511] Import stop_areas for ${sourceName}`,
         async () => {
           const rows = await getFileRows("stop_areas");
           const stmt = this.env.gtfs_data.prepare(`
@@ -1744,12 +1911,12 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               nullIfEmpty(row.stop_id),
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
 
       await step.do(
-        `[Import511] Import networks for ${operatorId}`,
+        `[Import511] Import networks for ${sourceName}`,
         async () => {
           const rows = await getFileRows("networks");
           const stmt = this.env.gtfs_data.prepare(`
@@ -1765,12 +1932,12 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               nullIfEmpty(row.network_name),
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
 
       await step.do(
-        `[Import511] Import route_networks for ${operatorId}`,
+        `[Import511] Import route_networks for ${sourceName}`,
         async () => {
           const rows = await getFileRows("route_networks");
           const stmt = this.env.gtfs_data.prepare(`
@@ -1785,14 +1952,14 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               nullIfEmpty(row.route_id),
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
     }
 
     if (isNewVersion) {
       await step.do(
-        `[Import511] Import timeframes for ${operatorId}`,
+        `[Import511] Import timeframes for ${sourceName}`,
         async () => {
           const rows = await getFileRows("timeframes");
           const stmt = this.env.gtfs_data.prepare(`
@@ -1803,17 +1970,17 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
             stmt.bind(
               feedVersionId,
               row.timeframe_group_id || "",
-              parseGtfsTime(row.start_time),
-              parseGtfsTime(row.end_time),
+              parseStrictGtfsTime(row.start_time),
+              parseStrictGtfsTime(row.end_time),
               row.service_id || "",
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
 
       await step.do(
-        `[Import511] Import rider_categories for ${operatorId}`,
+        `[Import511] Import rider_categories for ${sourceName}`,
         async () => {
           const rows = await getFileRows("rider_categories");
           const stmt = this.env.gtfs_data.prepare(`
@@ -1833,12 +2000,12 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               nullIfEmpty(row.eligibility_url),
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
 
       await step.do(
-        `[Import511] Import fare_media for ${operatorId}`,
+        `[Import511] Import fare_media for ${sourceName}`,
         async () => {
           const rows = await getFileRows("fare_media");
           const stmt = this.env.gtfs_data.prepare(`
@@ -1856,12 +2023,12 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               intOrNull(row.fare_media_type) ?? 0,
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
 
       await step.do(
-        `[Import511] Import fare_products for ${operatorId}`,
+        `[Import511] Import fare_products for ${sourceName}`,
         async () => {
           const rows = await getFileRows("fare_products");
           const stmt = this.env.gtfs_data.prepare(`
@@ -1879,14 +2046,14 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               row.currency || "",
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
     }
 
     if (isNewVersion) {
       await step.do(
-        `[Import511] Import fare_leg_rules for ${operatorId}`,
+        `[Import511] Import fare_leg_rules for ${sourceName}`,
         async () => {
           const rows = await getFileRows("fare_leg_rules");
           const stmt = this.env.gtfs_data.prepare(`
@@ -1906,12 +2073,12 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               intOrNull(row.rule_priority),
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
 
       await step.do(
-        `[Import511] Import fare_leg_join_rules for ${operatorId}`,
+        `[Import511] Import fare_leg_join_rules for ${sourceName}`,
         async () => {
           const rows = await getFileRows("fare_leg_join_rules");
           const stmt = this.env.gtfs_data.prepare(`
@@ -1928,12 +2095,12 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               nullIfEmpty(row.to_stop_id),
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
 
       await step.do(
-        `[Import511] Import fare_transfer_rules for ${operatorId}`,
+        `[Import511] Import fare_transfer_rules for ${sourceName}`,
         async () => {
           const rows = await getFileRows("fare_transfer_rules");
           const stmt = this.env.gtfs_data.prepare(`
@@ -1952,14 +2119,14 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               nullIfEmpty(row.fare_product_id),
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
     }
 
     if (isNewVersion) {
       await step.do(
-        `[Import511] Import location_groups for ${operatorId}`,
+        `[Import511] Import location_groups for ${sourceName}`,
         async () => {
           const rows = await getFileRows("location_groups");
           const stmt = this.env.gtfs_data.prepare(`
@@ -1975,12 +2142,12 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               nullIfEmpty(row.location_group_name),
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
 
       await step.do(
-        `[Import511] Import location_group_stops for ${operatorId}`,
+        `[Import511] Import location_group_stops for ${sourceName}`,
         async () => {
           const rows = await getFileRows("location_group_stops");
           const stmt = this.env.gtfs_data.prepare(`
@@ -1995,12 +2162,12 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               row.stop_id || "",
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
 
       await step.do(
-        `[Import511] Import booking_rules for ${operatorId}`,
+        `[Import511] Import booking_rules for ${sourceName}`,
         async () => {
           const rows = await getFileRows("booking_rules");
           const stmt = this.env.gtfs_data.prepare(`
@@ -2034,9 +2201,9 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               intOrNull(row.prior_notice_duration_min),
               intOrNull(row.prior_notice_duration_max),
               intOrNull(row.prior_notice_last_day),
-              parseGtfsTime(row.prior_notice_last_time),
+              parseStrictGtfsTime(row.prior_notice_last_time),
               intOrNull(row.prior_notice_start_day),
-              parseGtfsTime(row.prior_notice_start_time),
+              parseStrictGtfsTime(row.prior_notice_start_time),
               nullIfEmpty(row.prior_notice_service_id),
               nullIfEmpty(row.message),
               nullIfEmpty(row.pickup_message),
@@ -2046,12 +2213,12 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               nullIfEmpty(row.booking_url),
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
 
       await step.do(
-        `[Import511] Import translations for ${operatorId}`,
+        `[Import511] Import translations for ${sourceName}`,
         async () => {
           const rows = await getFileRows("translations");
           const stmt = this.env.gtfs_data.prepare(`
@@ -2070,13 +2237,68 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
               nullIfEmpty(row.field_value),
             ),
           );
-          if (stmts.length) await batchExecute(this.env.gtfs_data, stmts);
+          if (stmts.length) await this.batchExecute(stmts);
         },
       );
     }
 
+    if (isNewVersion) {
+      await this.buildStopSearchIndex(step, sourceName, feedVersionId);
+    }
+
+    // Runs on the staged files rather than the imported rows, since the
+    // import drops what it cannot store (unknown references, duplicates).
+    // stops, trips and stop_times were checked chunk by chunk as they were
+    // read, so only the small files are read again here. A blocked version
+    // still completes, so the admin API can show its report and an operator
+    // can still choose to serve it.
+    await step.do(`[Import511] Validate feed for ${sourceName}`, async () => {
+      const [agency, routes, calendar, calendarDates] = await Promise.all([
+        getFileRows("agency"),
+        getFileRows("routes"),
+        getFileRows("calendar"),
+        getFileRows("calendar_dates"),
+      ]);
+      const report = buildValidationReport(
+        mergeValidationIssues(
+          validateStaticFiles(
+            { agency, routes, calendar, calendar_dates: calendarDates },
+            {
+              hasStops: stopsSize > 0,
+              hasTrips: tripsSize > 0,
+              hasStopTimes: stopTimesSize > 0,
+            },
+          ),
+          validateParentStations(parentReferences, (stopId) =>
+            stagedStopIds.has(stopId),
+          ),
+          ...chunkIssues,
+        ),
+      );
+      const blocked = blocksActivation(
+        report,
+        parseValidationThreshold(this.env.VALIDATION_BLOCK_SEVERITY),
+      );
+      await storeValidationReport(
+        this.env.gtfs_data,
+        feedVersionId,
+        report,
+        blocked,
+      );
+      const summary = `${report.error_count} error(s), ${report.warning_count} warning(s)`;
+      if (blocked) {
+        console.warn(
+          `[Import511] Feed version ${feedVersionId} of ${sourceName} failed validation (${summary}); it will not be selected.`,
+        );
+      } else {
+        console.log(
+          `[Import511] Validated feed version ${feedVersionId} of ${sourceName}: ${summary}.`,
+        );
+      }
+    });
+
     await step.do(
-      `[Import511] Mark import complete for ${operatorId}`,
+      `[Import511] Mark import complete for ${sourceName}`,
       async () => {
         // Every import step succeeded, so this version is now whole and
         // eligible to be served. Whether it is the one that gets served is
@@ -2090,11 +2312,13 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
       },
     );
 
-    await this.activateBestVersion(step, operatorId, feedSourceId);
+    await this.activateBestVersion(step, sourceName, feedSourceId);
 
-    await this.runRetentionCleanup(step, operatorId, feedSourceId);
+    await this.runRetentionCleanup(step, sourceName, feedSourceId);
 
-    await step.do(`[Import511] Cleanup R2 for ${operatorId}`, async () => {
+    await this.checkHealth(step, sourceName, feedSourceId);
+
+    await step.do(`[Import511] Cleanup R2 for ${sourceName}`, async () => {
       const listed = await this.env.gtfs_processing.list({
         prefix: `${prefix}/`,
       });
@@ -2103,25 +2327,62 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
         await this.env.gtfs_processing.delete(keys);
       }
     });
+    return "imported";
   }
 
-  // Reads the agency timezone recorded by the most recent import of this
-  // source. Service dates are stored as noon in that zone (see parseGtfsDate),
-  // so selection has to ask "what day is it?" the same way.
-  private async resolveSourceTimezone(feedSourceId: number): Promise<string> {
-    const row = await this.env.gtfs_data
-      .prepare(
-        `SELECT a.agency_timezone
-         FROM agency a
-         JOIN feed_version fv ON a.feed_version_id = fv.feed_version_id
-         WHERE fv.feed_source_id = ? AND a.agency_timezone IS NOT NULL
-         ORDER BY fv.date_added DESC
-         LIMIT 1`,
-      )
-      .bind(feedSourceId)
-      .first<{ agency_timezone: string }>();
-
-    return row?.agency_timezone ?? "UTC";
+  // (Re)builds a version's stop_search rows from its imported stops, routes
+  // and stop_times. Clears the version's rows first, so a retried step
+  // never leaves a partial index behind.
+  private async buildStopSearchIndex(
+    step: WorkflowStep,
+    sourceName: string,
+    feedVersionId: number,
+  ) {
+    await step.do(
+      `[Import511] Build stop search index for ${sourceName}`,
+      async () => {
+        const db = this.env.gtfs_data;
+        const [stops, routes, stopRoutes] = await Promise.all([
+          db
+            .prepare(
+              "SELECT stop_pk, stop_id, stop_code, stop_name, location_type, parent_station FROM stops WHERE feed_version_id = ?",
+            )
+            .bind(feedVersionId)
+            .all<SearchIndexStop>(),
+          db
+            .prepare(
+              "SELECT route_pk, route_short_name, route_long_name FROM routes WHERE feed_version_id = ?",
+            )
+            .bind(feedVersionId)
+            .all<SearchIndexRoute>(),
+          db
+            .prepare(STOP_ROUTES_QUERY)
+            .bind(feedVersionId)
+            .all<StopRoutePair>(),
+        ]);
+
+        const rows = buildStopSearchRows(
+          stops.results || [],
+          routes.results || [],
+          stopRoutes.results || [],
+        );
+
+        await db
+          .prepare("DELETE FROM stop_search WHERE feed_version_id = ?")
+          .bind(feedVersionId)
+          .run();
+        const stmt = db.prepare(
+          "INSERT INTO stop_search (feed_version_id, token, stop_pk, source) VALUES (?, ?, ?, ?)",
+        );
+        const stmts = rows.map((row) =>
+          stmt.bind(feedVersionId, row.token, row.stop_pk, row.source),
+        );
+        if (stmts.length) await this.batchExecute(stmts);
+        console.log(
+          `[Import511] Indexed ${stops.results?.length ?? 0} stops of version ${feedVersionId} as ${rows.length} search tokens.`,
+        );
+      },
+    );
   }
 
   // Chooses which of this source's fully imported versions pages should
@@ -2130,76 +2391,52 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
   // site to zero departures until that window arrives.
   private async activateBestVersion(
     step: WorkflowStep,
-    operatorId: string,
+    sourceName: string,
     feedSourceId: number,
   ) {
     await step.do(
-      `[Import511] Select live version for ${operatorId}`,
+      `[Import511] Select live version for ${sourceName}`,
       async () => {
-        const timezone = await this.resolveSourceTimezone(feedSourceId);
-        let now = DateTime.now().setZone(timezone);
-        if (!now.isValid) now = DateTime.utc();
-
-        const todayNoon = Math.floor(
-          now.startOf("day").set({ hour: 12 }).toSeconds(),
-        );
-        const todayColumn = dayColumnFor(now.weekday);
-
-        const rows = await this.env.gtfs_data
-          .prepare(buildVersionServiceDayQuery(todayColumn))
-          .bind(feedSourceId, todayNoon)
-          .all<VersionServiceDay>();
-
-        const candidates = rows.results || [];
-        const chosen = chooseActiveVersion(candidates);
+        const { chosen, date, serving, pinned, considered } =
+          await chooseLiveVersion(this.env.gtfs_data, feedSourceId);
 
         if (chosen === null) {
           console.log(
-            `[Import511] No fully imported version for ${operatorId}; leaving the live version unchanged.`,
+            `[Import511] No fully imported version for ${sourceName}; leaving the live version unchanged.`,
           );
           return;
         }
 
-        const serving = candidates.some((c) => c.has_service_today === 1);
-        if (!serving) {
+        if (pinned) {
+          console.log(
+            `[Import511] ${sourceName} is pinned to feed version ${chosen}; newer versions stay inactive until it is unpinned.`,
+          );
+        } else if (!serving) {
           console.warn(
-            `[Import511] No version of ${operatorId} has service on ${now.toISODate()}; serving newest version ${chosen}.`,
+            `[Import511] No version of ${sourceName} has service on ${date}; serving newest version ${chosen}.`,
           );
         }
 
-        // Atomic swap. COALESCE preserves the retention clock of versions
-        // that were already deactivated earlier.
-        await this.env.gtfs_data.batch([
-          this.env.gtfs_data
-            .prepare(
-              "UPDATE feed_version SET is_active = 0, deactivated_at = COALESCE(deactivated_at, unixepoch()) WHERE feed_source_id = ? AND feed_version_id != ?",
-            )
-            .bind(feedSourceId, chosen),
-          this.env.gtfs_data
-            .prepare(
-              "UPDATE feed_version SET is_active = 1, deactivated_at = NULL WHERE feed_version_id = ?",
-            )
-            .bind(chosen),
-        ]);
+        await activateFeedVersion(this.env.gtfs_data, feedSourceId, chosen);
 
         console.log(
-          `[Import511] ${operatorId} now serving feed version ${chosen} (${candidates.length} imported version(s) considered).`,
+          `[Import511] ${sourceName} now serving feed version ${chosen} (${considered} imported version(s) considered).`,
         );
       },
     );
   }
 
   // Deletes data for versions that have been inactive longer than the
-  // retention window, plus realtime rows past their shelf life. Each pass is
-  // its own workflow step so multi-million-row versions drain durably across
-  // bounded D1 work.
+  // retention window, plus realtime rows past their shelf life and import
+  // history past IMPORT_RUN_RETENTION_SECONDS. Each pass is its own workflow
+  // step so multi-million-row versions drain durably across bounded D1 work.
   private async runRetentionCleanup(
     step: WorkflowStep,
-    operatorId: string,
+    sourceName: string,
     feedSourceId: number,
   ) {
     const condemned = await step.do(
-      `[Import511] Find expired versions for ${operatorId}`,
+      `[Import511] Find expired versions for ${sourceName}`,
       async () => {
         const rows = await this.env.gtfs_data
           .prepare(buildCondemnedVersionsQuery())
@@ -2224,5 +2461,32 @@ export class Import511Workflow extends WorkflowEntrypoint<Env, Params> {
         );
       }
     }
+
+    await step.do(
+      `[Import511] Prune import history for ${sourceName}`,
+      async () => pruneImportRuns(this.env.gtfs_data, sourceName),
+    );
+  }
+
+  // Re-checks the source's service coverage now that the live version may
+  // have changed (src/feed-health.ts).
+  private async checkHealth(
+    step: WorkflowStep,
+    sourceName: string,
+    feedSourceId: number,
+  ) {
+    await step.do(
+      `[Import511] Check feed health for ${sourceName}`,
+      async () => {
+        const warnings = await checkFeedHealth(
+          this.env.gtfs_data,
+          feedSourceId,
+          this.env.HEALTH_WEBHOOK_URL,
+        );
+        for (const warning of warnings) {
+          console.warn(`[Import511] ${sourceName}: ${warning.message}`);
+        }
+      },
+    );
   }
 }
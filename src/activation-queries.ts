@@ -13,7 +13,10 @@
 //
 // Selection therefore prefers the newest imported version that actually runs
 // service on the current service date, and only falls back to "newest" when
-// no version covers today.
+// no version covers today. A version whose validation report blocked it
+// (feed_validation, see src/feed-validation.ts) is never a candidate. An
+// operator's pin (feed_source.pinned_feed_version_id, set by a rollback)
+// overrides all of these.
 
 import { DAY_COLUMNS } from "./db-queries";
 
@@ -23,6 +26,20 @@ export interface VersionServiceDay {
   has_service_today: number;
 }
 
+// Keeps versions validation blocked out of selection unless pinned. Written
+// against `fv` (feed_version) with ?1 = feed_source_id; src/feed-health.ts
+// applies it too, so coverage is judged on the versions that can be served.
+export const UNBLOCKED_VERSION_FILTER = `(
+        NOT EXISTS (
+            SELECT 1 FROM feed_validation v
+            WHERE v.feed_version_id = fv.feed_version_id AND v.blocked = 1
+        )
+        OR fv.feed_version_id IS (
+            SELECT pinned_feed_version_id FROM feed_source
+            WHERE feed_source_id = ?1
+        )
+    )`;
+
 /**
  * Maps a Luxon weekday (1 = Monday ... 7 = Sunday) to its calendar column.
  */
@@ -31,8 +48,9 @@ export function dayColumnFor(weekday: number): string {
 }
 
 /**
- * Lists every fully imported version of a feed source, newest first, flagging
- * the ones that run service on the queried date.
+ * Lists every fully imported version of a feed source that validation did
+ * not block (or that is pinned), newest first, flagging the ones that run
+ * service on the queried date.
  *
  * Binds ?1 = feed_source_id, ?2 = noon of the service date (the same
  * agency-timezone-noon convention the importer stores calendar dates in).
@@ -71,6 +89,7 @@ export function buildVersionServiceDayQuery(todayColumn: string): string {
     FROM feed_version fv
     WHERE fv.feed_source_id = ?1
       AND fv.imported_at IS NOT NULL
+      AND ${UNBLOCKED_VERSION_FILTER}
     ORDER BY fv.date_added DESC, fv.feed_version_id DESC
   `;
 }
@@ -79,11 +98,18 @@ export function buildVersionServiceDayQuery(todayColumn: string): string {
  * Picks the version to serve from buildVersionServiceDayQuery's rows, which
  * arrive newest first. Returns null when the source has no fully imported
  * version, in which case the caller leaves the current one alone.
+ *
+ * A pinned version is served whatever its service, as long as it is still
+ * a fully imported candidate; a pin to anything else is ignored.
  */
 export function chooseActiveVersion(
   candidates: VersionServiceDay[],
+  pinnedVersionId: number | null = null,
 ): number | null {
   if (!candidates.length) return null;
+  if (candidates.some((c) => c.feed_version_id === pinnedVersionId)) {
+    return pinnedVersionId;
+  }
 
   // No candidate covering today means the site shows no departures whichever
   // one is picked; the newest keeps agency, route, and stop pages current.
@@ -0,0 +1,135 @@
+// GTFS-Flex booking rules: how riders arrange on-demand pickups. Kept free of
+// "cloudflare:workers" imports so the queries and wording are unit-testable
+// with vitest.
+//
+// booking_rules.txt rows are referenced from stop times (stop_times or
+// flex_stop_times, migration 0020) by pickup_booking_rule_id, so a page
+// collects the ids its trips use and reads just those rules.
+
+import type { SqlQuery } from "./db-queries";
+
+export interface BookingRule {
+  booking_rule_id: string;
+  // 0 = real time, 1 = up to same-day with notice, 2 = up to prior day(s).
+  booking_type: number;
+  // Minutes of notice, booking_type 1.
+  prior_notice_duration_min: number | null;
+  prior_notice_duration_max: number | null;
+  // Days before travel, and time of day (seconds), booking_type 2.
+  prior_notice_last_day: number | null;
+  prior_notice_last_time: number | null;
+  prior_notice_start_day: number | null;
+  prior_notice_start_time: number | null;
+  message: string | null;
+  pickup_message: string | null;
+  phone_number: string | null;
+  info_url: string | null;
+  booking_url: string | null;
+}
+
+const BOOKING_RULE_COLUMNS = [
+  "booking_rule_id",
+  "booking_type",
+  "prior_notice_duration_min",
+  "prior_notice_duration_max",
+  "prior_notice_last_day",
+  "prior_notice_last_time",
+  "prior_notice_start_day",
+  "prior_notice_start_time",
+  "message",
+  "pickup_message",
+  "phone_number",
+  "info_url",
+  "booking_url",
+] as const;
+
+const SELECT_RULES = `SELECT ${BOOKING_RULE_COLUMNS.map((c) => `br.${c}`).join(", ")}
+    FROM booking_rules br`;
+
+// The rules with the given ids in one feed version, by id.
+export function buildBookingRulesQuery(
+  feedVersionId: number,
+  ruleIds: string[],
+): SqlQuery {
+  if (ruleIds.length === 0) {
+    throw new Error("Booking rules lookup needs at least one rule id");
+  }
+  const placeholders = ruleIds.map(() => "?").join(",");
+  return {
+    sql: `${SELECT_RULES}
+    WHERE br.feed_version_id = ? AND br.booking_rule_id IN (${placeholders})
+    ORDER BY br.booking_rule_id`,
+    params: [feedVersionId, ...ruleIds],
+  };
+}
+
+// Every pickup booking rule the route's trips use, at single stops or
+// location groups. Driven from booking_rules so the common case, a version
+// without any, reads nothing else.
+export function buildRouteBookingRulesQuery(
+  feedVersionId: number,
+  routePk: number,
+): SqlQuery {
+  return {
+    sql: `${SELECT_RULES}
+    WHERE br.feed_version_id = ?
+      AND (
+        EXISTS (
+          SELECT 1 FROM trips t
+          JOIN stop_times st ON st.trip_pk = t.timetable_trip_pk
+          WHERE t.route_pk = ? AND st.pickup_booking_rule_id = br.booking_rule_id
+        )
+        OR EXISTS (
+          SELECT 1 FROM trips t
+          JOIN flex_stop_times fst ON fst.trip_pk = t.trip_pk
+          WHERE t.route_pk = ? AND fst.pickup_booking_rule_id = br.booking_rule_id
+        )
+      )
+    ORDER BY br.booking_rule_id`,
+    params: [feedVersionId, routePk, routePk],
+  };
+}
+
+// 61200 -> "5:00 PM"
+function formatTimeOfDay(seconds: number): string {
+  const h = Math.floor(seconds / 3600) % 24;
+  const m = Math.floor((seconds % 3600) / 60);
+  return `${h % 12 || 12}:${String(m).padStart(2, "0")} ${h < 12 ? "AM" : "PM"}`;
+}
+
+function formatNotice(minutes: number): string {
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return `${days} day${days === 1 ? "" : "s"}`;
+  }
+  if (minutes % 60 === 0 && minutes >= 120) return `${minutes / 60} hours`;
+  return `${minutes} min`;
+}
+
+function daysBefore(days: number): string {
+  return days === 1 ? "the day before" : `${days} days before`;
+}
+
+/**
+ * How far ahead a rider must book, in words: "Book at least 60 min ahead",
+ * "Book by 5:00 PM the day before". Null for real-time booking or when the
+ * feed gives no notice period.
+ */
+export function describeBookingNotice(rule: BookingRule): string | null {
+  if (rule.booking_type === 1 && rule.prior_notice_duration_min !== null) {
+    const min = `Book at least ${formatNotice(rule.prior_notice_duration_min)} ahead`;
+    return rule.prior_notice_duration_max !== null
+      ? `${min}, up to ${formatNotice(rule.prior_notice_duration_max)} ahead`
+      : min;
+  }
+  if (rule.booking_type === 2 && rule.prior_notice_last_day !== null) {
+    const by =
+      rule.prior_notice_last_time !== null
+        ? `Book by ${formatTimeOfDay(rule.prior_notice_last_time)} ${daysBefore(rule.prior_notice_last_day)}`
+        : `Book ${daysBefore(rule.prior_notice_last_day)}`;
+    return rule.prior_notice_start_day !== null
+      ? `${by} (opens ${daysBefore(rule.prior_notice_start_day)})`
+      : by;
+  }
+  return null;
+}
@@ -6,6 +6,13 @@
 // never deleted, so every feed change permanently grew D1 storage by a full
 // copy of the feed (stop_times alone is millions of rows). These statements
 // reclaim that storage once a version has aged out of its rollback window.
+//
+// Later versions share a version's unchanged stop_times, stop identities
+// and shape points rather than copying them (migration 0029), so those rows
+// are kept while any other version still reads them, along with the trips,
+// routes, agencies and version row they reference. The version is only
+// deleted once nothing shares its rows; until then each cleanup run finds it
+// condemned again and deletes whatever has been released since.
 
 // How long a deactivated version is kept for manual rollback before its data
 // is deleted. Tunable.
@@ -40,7 +47,15 @@ function deleteBatchedByPk(table: string, pkColumn: string): CleanupStatement {
   };
 }
 
-// Statements that fully remove one feed version, ordered so foreign key
+// The version's trips whose stop_times no other version's trips read.
+const UNSHARED_TRIPS = `SELECT t.trip_pk FROM trips t
+  WHERE t.feed_version_id = ?1
+    AND NOT EXISTS (
+        SELECT 1 FROM trips o
+        WHERE o.timetable_trip_pk = t.trip_pk AND o.feed_version_id != ?1
+    )`;
+
+// Statements that remove one feed version, ordered so foreign key
 // constraints (enforced by D1) are never violated: referencing rows are
 // always removed or detached before the rows they point at.
 export function buildVersionCleanupStatements(): CleanupStatement[] {
@@ -48,10 +63,16 @@ export function buildVersionCleanupStatements(): CleanupStatement[] {
     // References trips + stops; by far the largest table, so batched.
     {
       table: "stop_times",
-      sql: "DELETE FROM stop_times WHERE stop_time_pk IN (SELECT st.stop_time_pk FROM stop_times st JOIN trips t ON st.trip_pk = t.trip_pk WHERE t.feed_version_id = ?1 LIMIT ?2)",
+      sql: `DELETE FROM stop_times WHERE stop_time_pk IN (
+        SELECT st.stop_time_pk FROM (${UNSHARED_TRIPS}) t
+        JOIN stop_times st ON st.trip_pk = t.trip_pk
+        LIMIT ?2)`,
       batched: true,
     },
 
+    // References stops; one row per stop and token, so batched.
+    deleteBatchedByPk("stop_search", "rowid"),
+
     // References trips.
     {
       table: "frequencies",
@@ -59,13 +80,20 @@ export function buildVersionCleanupStatements(): CleanupStatement[] {
       batched: false,
     },
 
+    // References trips.
+    deleteAll("flex_stop_times"),
+
     // Reference stops/routes/trips/agency.
     deleteAll("transfers"),
     deleteAll("attributions"),
     deleteAll("pathways"),
 
     // References routes; sizable, so batched.
-    deleteBatchedByPk("trips", "trip_pk"),
+    {
+      table: "trips",
+      sql: `DELETE FROM trips WHERE trip_pk IN (${UNSHARED_TRIPS} LIMIT ?2)`,
+      batched: true,
+    },
 
     // stops self-reference via parent_station, so detach children before
     // batched deletion can remove parents.
@@ -74,10 +102,37 @@ export function buildVersionCleanupStatements(): CleanupStatement[] {
       sql: "UPDATE stops SET parent_station = NULL WHERE feed_version_id = ?1 AND parent_station IS NOT NULL",
       batched: false,
     },
-    deleteBatchedByPk("stops", "stop_pk"),
+    // Kept while another version's stops inherit it as their
+    // timetable_stop_pk or stop_times still name it.
+    {
+      table: "stops",
+      sql: `DELETE FROM stops WHERE stop_pk IN (
+        SELECT s.stop_pk FROM stops s
+        WHERE s.feed_version_id = ?1
+          AND NOT EXISTS (
+              SELECT 1 FROM stops o
+              WHERE o.timetable_stop_pk = s.stop_pk AND o.feed_version_id != ?1
+          )
+          AND NOT EXISTS (SELECT 1 FROM stop_times st WHERE st.stop_pk = s.stop_pk)
+        LIMIT ?2)`,
+      batched: true,
+    },
 
-    // Sizable, feed_version-scoped.
-    deleteBatchedByPk("shapes", "shape_pt_pk"),
+    // Sizable, feed_version-scoped; a shape another version reads its points
+    // from (version_shapes) is kept.
+    {
+      table: "shapes",
+      sql: `DELETE FROM shapes WHERE shape_pt_pk IN (
+        SELECT shape_pt_pk FROM shapes
+        WHERE feed_version_id = ?1
+          AND shape_id NOT IN (
+              SELECT shape_id FROM version_shapes
+              WHERE points_version_id = ?1 AND feed_version_id != ?1
+          )
+        LIMIT ?2)`,
+      batched: true,
+    },
+    deleteAll("version_shapes"),
 
     // feed_version-scoped tables (fare_attributes also references agency,
     // so all of these go before routes/agency).
@@ -102,20 +157,46 @@ export function buildVersionCleanupStatements(): CleanupStatement[] {
     deleteAll("calendar"),
     deleteAll("levels"),
     deleteAll("feed_info"),
+    deleteAll("feed_validation"),
+    deleteAll("feed_version_files"),
 
-    // References agency.
-    deleteAll("routes"),
-    deleteAll("agency"),
+    // References agency; kept while a shared trip still runs on it.
+    {
+      table: "routes",
+      sql: "DELETE FROM routes WHERE feed_version_id = ?1 AND route_pk NOT IN (SELECT route_pk FROM trips WHERE feed_version_id = ?1)",
+      batched: false,
+    },
+    {
+      table: "agency",
+      sql: "DELETE FROM agency WHERE feed_version_id = ?1 AND agency_pk NOT IN (SELECT agency_pk FROM routes WHERE feed_version_id = ?1 AND agency_pk IS NOT NULL)",
+      batched: false,
+    },
 
-    // Finally the version row itself.
+    // Finally the version row itself, once none of its rows are shared.
     {
       table: "feed_version",
-      sql: "DELETE FROM feed_version WHERE feed_version_id = ?1",
+      sql: `DELETE FROM feed_version WHERE feed_version_id = ?1
+        AND NOT EXISTS (SELECT 1 FROM trips WHERE feed_version_id = ?1)
+        AND NOT EXISTS (SELECT 1 FROM stops WHERE feed_version_id = ?1)
+        AND NOT EXISTS (SELECT 1 FROM shapes WHERE feed_version_id = ?1)`,
       batched: false,
     },
   ];
 }
 
+// Run before a version's first delete: clearing imported_at takes it out of
+// rollback and activation, which only accept imported versions, so a half
+// deleted version can never be made live. A version made live or pinned
+// since it was condemned matches nothing and is left alone; the cleanup
+// pass stops there.
+export const CLAIM_VERSION_FOR_CLEANUP_SQL = `UPDATE feed_version SET imported_at = NULL
+  WHERE feed_version_id = ?1
+    AND is_active = 0
+    AND feed_version_id IS NOT (
+        SELECT pinned_feed_version_id FROM feed_source
+        WHERE feed_source_id = feed_version.feed_source_id
+    )`;
+
 // COALESCE covers versions that never got a deactivated_at stamp (e.g. a
 // crashed import that was never activated): their date_added starts the
 // clock instead.
@@ -126,13 +207,23 @@ export function buildVersionCleanupStatements(): CleanupStatement[] {
 // it out would delete it days before it is due to be served and force a full
 // re-import. With no live version at all, nothing is newer, so the guard is
 // inert and every aged-out version is condemned as before.
+//
+// A pinned version (see chooseActiveVersion) is never condemned: the pin is
+// an operator's explicit choice to keep serving or return to it.
+//
+// Newest first: later versions share rows of earlier ones, so cleaning them
+// first releases those rows within the same run.
 export function buildCondemnedVersionsQuery(): string {
   return `SELECT feed_version_id FROM feed_version
     WHERE feed_source_id = ?1
       AND is_active = 0
+      AND feed_version_id IS NOT (
+          SELECT pinned_feed_version_id FROM feed_source WHERE feed_source_id = ?1
+      )
       AND COALESCE(deactivated_at, date_added) < unixepoch() - ${VERSION_RETENTION_SECONDS}
       AND date_added < COALESCE(
           (SELECT date_added FROM feed_version WHERE feed_source_id = ?1 AND is_active = 1),
           unixepoch()
-      )`;
+      )
+    ORDER BY feed_version_id DESC`;
 }
@@ -0,0 +1,65 @@
+import styles from "./AccessibilityIcons.module.css";
+
+interface AccessibilityIconsProps {
+  // trips.wheelchair_accessible / bikes_allowed: 0 or null = no
+  // information, 1 = yes, 2 = no.
+  wheelchairAccessible: number | null;
+  bikesAllowed: number | null;
+  // The stop's wheelchair_boarding, inherited from its station when unset.
+  wheelchairBoarding?: number;
+}
+
+// Wheelchair and bike markers for a departure row. Nothing is shown when the
+// feed says nothing either way.
+export default function AccessibilityIcons({
+  wheelchairAccessible,
+  bikesAllowed,
+  wheelchairBoarding = 0,
+}: AccessibilityIconsProps) {
+  let wheelchair: { label: string; accessible: boolean } | null = null;
+  if (wheelchairAccessible === 2) {
+    wheelchair = {
+      label: "Vehicle not wheelchair accessible",
+      accessible: false,
+    };
+  } else if (wheelchairBoarding === 2) {
+    wheelchair = {
+      label: "No wheelchair boarding at this stop",
+      accessible: false,
+    };
+  } else if (wheelchairAccessible === 1) {
+    wheelchair = { label: "Wheelchair accessible", accessible: true };
+  }
+  const bikes =
+    bikesAllowed === 1
+      ? { label: "Bikes allowed", allowed: true }
+      : bikesAllowed === 2
+        ? { label: "No bikes allowed", allowed: false }
+        : null;
+  if (!wheelchair && !bikes) return null;
+
+  return (
+    <span className={styles.icons}>
+      {wheelchair && (
+        <span
+          className={`${styles.icon} ${wheelchair.accessible ? "" : styles.unavailable}`}
+          title={wheelchair.label}
+          aria-label={wheelchair.label}
+          role="img"
+        >
+          &#9855;
+        </span>
+      )}
+      {bikes && (
+        <span
+          className={`${styles.icon} ${bikes.allowed ? "" : styles.unavailable}`}
+          title={bikes.label}
+          aria-label={bikes.label}
+          role="img"
+        >
+          &#128690;
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,57 @@
+import type { ServiceAlert } from "../db";
+import styles from "./AlertBanner.module.css";
+
+interface AlertBannerProps {
+  alerts: ServiceAlert[];
+}
+
+// "REDUCED_SERVICE" -> "Reduced service"
+function humanize(name: string): string {
+  const words = name.toLowerCase().replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function severityClass(severity: string | null): string {
+  if (severity === "SEVERE") return styles.severe;
+  if (severity === "WARNING") return styles.warning;
+  return styles.info;
+}
+
+export default function AlertBanner({ alerts }: AlertBannerProps) {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className={styles.alerts} role="region" aria-label="Service alerts">
+      {alerts.map((alert) => {
+        const title =
+          alert.header ||
+          (alert.effect ? humanize(alert.effect) : "Service alert");
+        return (
+          <div
+            key={alert.id}
+            className={`${styles.alert} ${severityClass(alert.severity)}`}
+          >
+            {alert.description ? (
+              <details>
+                <summary className={styles.header}>{title}</summary>
+                <p className={styles.description}>{alert.description}</p>
+              </details>
+            ) : (
+              <div className={styles.header}>{title}</div>
+            )}
+            {alert.url && (
+              <a
+                href={alert.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={styles.moreLink}
+              >
+                More info &#8599;
+              </a>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import type { BookingRule } from "../db";
+import { describeBookingNotice } from "../booking-rules";
+import styles from "./BookingInfo.module.css";
+
+interface BookingInfoProps {
+  rules: BookingRule[];
+}
+
+// How to book on-demand (GTFS-Flex) service: one block per booking rule with
+// its message, notice period, phone number and links.
+export default function BookingInfo({ rules }: BookingInfoProps) {
+  if (rules.length === 0) return null;
+
+  return (
+    <div className={styles.booking} role="region" aria-label="Booking">
+      {rules.map((rule) => {
+        const notice = describeBookingNotice(rule);
+        const message = rule.pickup_message || rule.message;
+        return (
+          <div key={rule.booking_rule_id} className={styles.rule}>
+            <div className={styles.header}>
+              {rule.booking_type === 0
+                ? "On-demand service: book when you are ready to travel"
+                : "On-demand service: book ahead"}
+            </div>
+            {notice && <p className={styles.notice}>{notice}</p>}
+            {message && <p className={styles.message}>{message}</p>}
+            <div className={styles.links}>
+              {rule.phone_number && (
+                <a href={`tel:${rule.phone_number.replace(/[^\d+]/g, "")}`}>
+                  Call {rule.phone_number}
+                </a>
+              )}
+              {rule.booking_url && (
+                <a
+                  href={rule.booking_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  Book online &#8599;
+                </a>
+              )}
+              {rule.info_url && (
+                <a
+                  href={rule.info_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  More info &#8599;
+                </a>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
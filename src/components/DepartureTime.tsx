@@ -1,4 +1,5 @@
 import { DateTime } from "luxon";
+import { serviceDayOf } from "../service-day";
 import styles from "./DepartureTime.module.css";
 
 interface DepartureTimeProps {
@@ -8,6 +9,20 @@ interface DepartureTimeProps {
   agencyId: string;
   tripId: string;
   stopSequence: number;
+  // The trip's service date (YYYY-MM-DD), passed on to the trip page so a
+  // trip from yesterday's service still running after midnight is shown on
+  // its own day.
+  serviceDate?: string;
+  // Where departureTime counts from; today's service day start by default.
+  serviceDayStart?: number;
+  // The vehicle will not stop here (GTFS-RT SKIPPED).
+  skipped?: boolean;
+  // Set for frequency-based service without exact times: shown as
+  // "Every N min" instead of a clock time.
+  headwaySecs?: number | null;
+  // Set for on-demand (GTFS-Flex) service: the end of the pickup window,
+  // shown as "On demand until h:mm" instead of a clock time.
+  pickupWindowEnd?: number | null;
 }
 
 export default function DepartureTime({
@@ -17,19 +32,40 @@ export default function DepartureTime({
   agencyId,
   tripId,
   stopSequence,
+  serviceDate,
+  serviceDayStart,
+  skipped = false,
+  headwaySecs = null,
+  pickupWindowEnd = null,
 }: DepartureTimeProps) {
-  const href = `/a/${agencyId}/t/${tripId}?stop=${stopSequence}`;
+  const href =
+    `/a/${agencyId}/t/${tripId}?stop=${stopSequence}` +
+    (serviceDate ? `&date=${serviceDate}` : "");
 
-  const stopMidnight = DateTime.now().setZone(timezone).startOf("day");
-  const depTime = stopMidnight.plus({ seconds: departureTime });
+  // Stop times count from the service day start (noon minus 12h).
+  const now = DateTime.now().setZone(timezone);
+  const start = serviceDayStart ?? serviceDayOf(now).start;
+  const depTime = DateTime.fromSeconds(start + departureTime, {
+    zone: timezone,
+  });
 
-  const isNextDay = depTime.day !== stopMidnight.day;
+  const isNextDay = depTime.day !== now.day;
   const timeDisplay = depTime.toFormat("h:mm a") + (isNextDay ? " (+1)" : "");
 
   let statusClass = styles.scheduled;
   let timeLabel = timeDisplay;
 
-  if (delay != null) {
+  if (headwaySecs) {
+    timeLabel = `Every ${Math.max(1, Math.round(headwaySecs / 60))} min`;
+  } else if (pickupWindowEnd !== null) {
+    const windowEnd = DateTime.fromSeconds(start + pickupWindowEnd, {
+      zone: timezone,
+    });
+    timeLabel = `On demand until ${windowEnd.toFormat("h:mm a")}`;
+    statusClass = styles.onDemand;
+  } else if (skipped) {
+    statusClass = styles.skipped;
+  } else if (delay != null) {
     const delayMin = Math.round(delay / 60);
     if (delayMin > 0) {
       timeLabel += ` (+${delayMin})`;
@@ -44,7 +80,12 @@ export default function DepartureTime({
 
   return (
     <a href={href} className={styles.timeLink}>
-      <span className={`${styles.timePill} ${statusClass}`}>{timeLabel}</span>
+      <span
+        className={`${styles.timePill} ${statusClass}`}
+        title={skipped ? "Skipped" : undefined}
+      >
+        {timeLabel}
+      </span>
     </a>
   );
 }
@@ -0,0 +1,39 @@
+import type { FareOptionData } from "../db";
+import { formatFareAmount } from "../fare-engine";
+import styles from "./FareOptions.module.css";
+
+interface FareOptionsProps {
+  options: FareOptionData[];
+}
+
+// A journey's fare, one row per rider category and fare media, default
+// category first.
+export default function FareOptions({ options }: FareOptionsProps) {
+  if (options.length === 0) {
+    return <p className={styles.empty}>No fare found for this ride.</p>;
+  }
+
+  return (
+    <ul className={styles.options}>
+      {options.map((option, i) => (
+        <li
+          key={i}
+          className={`${styles.option} ${option.is_default_fare_category ? styles.default : ""}`}
+        >
+          <span className={styles.rider}>
+            {option.rider_category_name || option.rider_category_id || "Fare"}
+            {(option.fare_media_name || option.fare_media_id) && (
+              <span className={styles.media}>
+                {" "}
+                &middot; {option.fare_media_name || option.fare_media_id}
+              </span>
+            )}
+          </span>
+          <span className={styles.amount}>
+            {formatFareAmount(option.amount, option.currency)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
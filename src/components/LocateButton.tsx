@@ -0,0 +1,35 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./LocateButton.module.css";
+
+// Asks the browser for the rider's position and reloads /nearby with it.
+export default function LocateButton() {
+  const [status, setStatus] = useState<string | null>(null);
+
+  const locate = () => {
+    if (!navigator.geolocation) {
+      setStatus("Location is not available in this browser.");
+      return;
+    }
+    setStatus("Finding your location...");
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        const lat = coords.latitude.toFixed(5);
+        const lon = coords.longitude.toFixed(5);
+        window.location.href = `/nearby?lat=${lat}&lon=${lon}`;
+      },
+      () => setStatus("Could not get your location."),
+      { enableHighAccuracy: true, timeout: 10000 },
+    );
+  };
+
+  return (
+    <div>
+      <button type="button" onClick={locate} className={styles.button}>
+        Use my location
+      </button>
+      {status && <p className={styles.status}>{status}</p>}
+    </div>
+  );
+}
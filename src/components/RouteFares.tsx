@@ -0,0 +1,35 @@
+import type { LegacyRouteFares } from "../db";
+import { formatFareAmount } from "../fare-engine";
+import { describeLegacyTransfers } from "../legacy-fares";
+import styles from "./RouteFares.module.css";
+
+interface RouteFaresProps {
+  fares: LegacyRouteFares | null;
+}
+
+// What riding the route costs, from the feed's Fares v1 tables: the price
+// (or its range on zone fares), how to pay and the transfer terms.
+export default function RouteFares({ fares }: RouteFaresProps) {
+  if (!fares) return null;
+
+  const { currency, min_price, max_price } = fares;
+  const price =
+    min_price === max_price
+      ? formatFareAmount(min_price, currency)
+      : `${formatFareAmount(min_price, currency)} - ${formatFareAmount(max_price, currency)}`;
+
+  return (
+    <div className={styles.fares} role="region" aria-label="Fares">
+      <div className={styles.price}>
+        <span className={styles.label}>Fare</span> {price}
+        {fares.zone_based && (
+          <span className={styles.zones}> depending on where you ride</span>
+        )}
+      </div>
+      <p className={styles.terms}>
+        {fares.payment_method === 1 ? "Pay before boarding" : "Pay on board"}{" "}
+        &middot; {describeLegacyTransfers(fares)}
+      </p>
+    </div>
+  );
+}
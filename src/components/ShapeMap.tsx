@@ -0,0 +1,68 @@
+import { layoutShapeMap } from "../shape-geometry";
+import styles from "./ShapeMap.module.css";
+
+export interface ShapeMapStop {
+  key: string;
+  name: string;
+  lat: number;
+  lon: number;
+  href?: string;
+}
+
+interface ShapeMapProps {
+  // One polyline per shape drawn (e.g. each direction of a route).
+  lines: { lat: number; lon: number }[][];
+  stops: ShapeMapStop[];
+  // Route color, as a CSS color.
+  color: string;
+  // Stop drawn larger, e.g. the one selected on a trip page.
+  highlightKey?: string | null;
+}
+
+// A schematic, tile-free SVG map of route shapes with stop markers. Nothing
+// is drawn when there is neither a line nor a stop.
+export default function ShapeMap({
+  lines,
+  stops,
+  color,
+  highlightKey = null,
+}: ShapeMapProps) {
+  const layout = layoutShapeMap(lines, stops);
+  if (layout.paths.length === 0 && layout.markers.length === 0) return null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${layout.width} ${layout.height}`}
+      className={styles.map}
+      role="img"
+      aria-label="Route map"
+    >
+      {layout.paths.map((d, i) => (
+        <path key={i} d={d} className={styles.line} style={{ stroke: color }} />
+      ))}
+      {layout.markers.map(({ x, y }, i) => {
+        const stop = stops[i];
+        const marker = (
+          <circle
+            cx={x}
+            cy={y}
+            r={stop.key === highlightKey ? 7 : 4}
+            className={
+              stop.key === highlightKey ? styles.highlight : styles.stop
+            }
+            style={{ stroke: color }}
+          >
+            <title>{stop.name}</title>
+          </circle>
+        );
+        return stop.href ? (
+          <a key={stop.key} href={stop.href}>
+            {marker}
+          </a>
+        ) : (
+          <g key={stop.key}>{marker}</g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,106 @@
+import type { StationLevel, StationNode, StepFreeRoute } from "../db";
+import {
+  LOCATION_BOARDING_AREA,
+  LOCATION_ENTRANCE,
+  describePathwayMode,
+  isPlatform,
+} from "../station-pathways";
+import styles from "./StationLevels.module.css";
+
+interface StationLevelsProps {
+  levels: StationLevel[];
+  // Empty when the feed has no pathways for the station.
+  stepFreeRoutes: StepFreeRoute[];
+}
+
+function nodeKind(node: StationNode): string {
+  if (node.location_type === LOCATION_ENTRANCE) return "Entrance";
+  if (node.location_type === LOCATION_BOARDING_AREA) return "Boarding area";
+  return "Platform";
+}
+
+function minutes(seconds: number): string {
+  return `${Math.max(1, Math.round(seconds / 60))} min`;
+}
+
+// The station's entrances, platforms and boarding areas floor by floor, with
+// each platform's quickest step-free route from an entrance, or a warning
+// when there is none.
+export default function StationLevels({
+  levels,
+  stepFreeRoutes,
+}: StationLevelsProps) {
+  if (levels.length === 0) return null;
+
+  const routeByPlatform = new Map(
+    stepFreeRoutes.map((r) => [r.platform_pk, r]),
+  );
+  const nameByPk = new Map(
+    levels.flatMap((l) => l.nodes).map((n) => [n.stop_pk, n.stop_name]),
+  );
+
+  return (
+    <section className={styles.station} aria-label="Station levels">
+      <h2 className={styles.title}>Inside the station</h2>
+      {levels.map(({ level, nodes }) => (
+        <div key={level?.level_id ?? ""} className={styles.level}>
+          <h3 className={styles.levelName}>
+            {level ? level.level_name || `Level ${level.level_index}` : "Other"}
+          </h3>
+          <ul className={styles.nodes}>
+            {nodes.map((node) => {
+              const route = isPlatform(node)
+                ? routeByPlatform.get(node.stop_pk)
+                : undefined;
+              const modes = route
+                ? [...new Set(route.steps.map((s) => s.pathway_mode))]
+                : [];
+              const signs = route
+                ? route.steps.flatMap((s) =>
+                    s.signposted_as ? [s.signposted_as] : [],
+                  )
+                : [];
+              return (
+                <li key={node.stop_pk} className={styles.node}>
+                  <span className={styles.kind}>{nodeKind(node)}</span>{" "}
+                  {node.stop_name}
+                  {node.platform_code && (
+                    <span className={styles.code}>
+                      {" "}
+                      &middot; {node.platform_code}
+                    </span>
+                  )}
+                  {route &&
+                    (route.entrance_pk !== null && route.seconds !== null ? (
+                      <div className={styles.stepFree}>
+                        Step-free from{" "}
+                        {nameByPk.get(route.entrance_pk) ?? "an entrance"}:{" "}
+                        {minutes(route.seconds)}
+                        {modes.length > 0 &&
+                          ` via ${modes.map(describePathwayMode).join(", ")}`}
+                        {signs.length > 0 && (
+                          <div className={styles.signs}>
+                            Follow signs:{" "}
+                            {signs.map((sign, i) => (
+                              <span key={i}>
+                                {i > 0 && <> &rarr; </>}
+                                {sign}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ) : (
+                      <div className={styles.noStepFree}>
+                        No step-free route from an entrance
+                      </div>
+                    ))}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -12,6 +12,9 @@ interface StopHeroProps {
   departureSeconds: number | null;
   delay: number;
   timezone: string;
+  // Epoch seconds the stop times count from; today's service day by
+  // default.
+  serviceDayStart?: number;
 }
 
 function formatCountdown(diffMs: number): string {
@@ -32,16 +35,25 @@ export default function StopHero({
   departureSeconds,
   delay,
   timezone,
+  serviceDayStart: start,
 }: StopHeroProps) {
-  const midnight = DateTime.now().setZone(timezone).startOf("day");
+  // Stop times count from noon minus 12h of the service day, which is not
+  // midnight on DST change days.
+  const serviceDayStart =
+    start !== undefined
+      ? DateTime.fromSeconds(start, { zone: timezone })
+      : DateTime.now()
+          .setZone(timezone)
+          .set({ hour: 12, minute: 0, second: 0, millisecond: 0 })
+          .minus({ hours: 12 });
 
   const arrivalTime =
     arrivalSeconds != null
-      ? midnight.plus({ seconds: arrivalSeconds + delay })
+      ? serviceDayStart.plus({ seconds: arrivalSeconds + delay })
       : null;
   const departureTime =
     departureSeconds != null
-      ? midnight.plus({ seconds: departureSeconds + delay })
+      ? serviceDayStart.plus({ seconds: departureSeconds + delay })
       : null;
 
   const arrivalFormatted = arrivalTime?.toFormat("h:mm a");
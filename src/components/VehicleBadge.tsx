@@ -0,0 +1,48 @@
+import type { VehicleState } from "../db";
+import styles from "./VehicleBadge.module.css";
+
+interface VehicleBadgeProps {
+  vehicle: VehicleState;
+  // Name of the stop the status refers to; omitted where the badge already
+  // sits on that stop's row.
+  stopName?: string;
+}
+
+const STATUS_TEXT: Record<VehicleState["currentStatus"], string> = {
+  STOPPED_AT: "Stopped at",
+  INCOMING_AT: "Arriving at",
+  IN_TRANSIT_TO: "In transit to",
+};
+
+const ROW_STATUS_TEXT: Record<VehicleState["currentStatus"], string> = {
+  STOPPED_AT: "At stop",
+  INCOMING_AT: "Arriving",
+  IN_TRANSIT_TO: "Approaching",
+};
+
+// "MANY_SEATS_AVAILABLE" -> "Many seats available"
+function occupancyText(occupancy: string | null): string | null {
+  if (!occupancy || occupancy === "NO_DATA_AVAILABLE") return null;
+  const words = occupancy.toLowerCase().replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export default function VehicleBadge({ vehicle, stopName }: VehicleBadgeProps) {
+  const name = vehicle.label || vehicle.vehicleId;
+  const status = stopName
+    ? `${STATUS_TEXT[vehicle.currentStatus]} ${stopName}`
+    : ROW_STATUS_TEXT[vehicle.currentStatus];
+  const occupancy = occupancyText(vehicle.occupancy);
+
+  return (
+    <span className={styles.badge}>
+      <span className={styles.dot} aria-hidden="true" />
+      <span className={styles.text}>
+        {name && <strong>Vehicle {name}</strong>}
+        {name && " - "}
+        {status}
+        {occupancy && <span className={styles.occupancy}> - {occupancy}</span>}
+      </span>
+    </span>
+  );
+}
@@ -0,0 +1,202 @@
+// RFC 4180 CSV parsing for GTFS files staged in R2. Import511Workflow reads
+// the large files (stops, trips, stop_times, shapes) one byte range per
+// workflow step: each step parses only its own slice and returns a
+// checkpoint (the byte offset of the next record plus the header) that the
+// workflow persists as the step's result, so a replayed or later step never
+// re-reads what came before. Small files are read whole with readCsvRows,
+// through the same ranged reads, so a file's text is never held alongside
+// all of its rows.
+//
+// Record boundaries are found on raw bytes. Every byte CSV syntax cares
+// about is ASCII, and UTF-8 never uses ASCII bytes inside a multi-byte
+// character, so a slice cut at a record boundary always decodes cleanly and
+// offsets stay in bytes. Kept free of "cloudflare:workers" imports so the
+// parser is unit-testable with vitest.
+
+export type CsvRow = Record<string, string>;
+
+export interface CsvCheckpoint {
+  // Byte offset of the next unread record.
+  offset: number;
+  // Column names, once the first step has read them.
+  header: string[] | null;
+}
+
+export const CSV_START: CsvCheckpoint = { offset: 0, header: null };
+
+// Range size readCsvRows reads whole files in.
+const WHOLE_FILE_CHUNK_BYTES = 1024 * 1024;
+
+const QUOTE = 0x22;
+const COMMA = 0x2c;
+const LF = 0x0a;
+const CR = 0x0d;
+const SPACE = 0x20;
+const TAB = 0x09;
+
+const decoder = new TextDecoder();
+
+/**
+ * Splits CSV text into records of fields. Quoted fields may hold commas,
+ * line breaks and doubled quotes; unquoted fields are trimmed, since GTFS
+ * producers often pad them (which also drops a byte order mark). Lines with
+ * no content are skipped.
+ */
+export function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let inQuotes = false;
+
+  const endField = () => {
+    record.push(quoted ? field : field.trim());
+    field = "";
+    quoted = false;
+  };
+  const endRecord = () => {
+    endField();
+    if (record.length > 1 || record[0] !== "") records.push(record);
+    record = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch !== '"') {
+        field += ch;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (ch === '"') {
+      // A quote opens a quoted field only at its start; padding before it
+      // is dropped, and a stray quote mid-field is kept as text.
+      if (field.trim() === "" && !quoted) {
+        field = "";
+        quoted = true;
+        inQuotes = true;
+      } else {
+        field += ch;
+      }
+    } else if (ch === ",") {
+      endField();
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+    } else if (!quoted || ch.trim() !== "") {
+      // Padding after a closing quote is dropped.
+      field += ch;
+    }
+  }
+  if (field !== "" || quoted || record.length) endRecord();
+  return records;
+}
+
+function toRows(header: string[], records: string[][]): CsvRow[] {
+  return records.map((values) => {
+    const row: CsvRow = {};
+    header.forEach((name, i) => {
+      row[name] = values[i] ?? "";
+    });
+    return row;
+  });
+}
+
+/**
+ * The length of the leading run of complete records in `bytes`: up to and
+ * including the last line break outside quotes. At the end of the file the
+ * final record needs no line break. 0 when no record is complete yet.
+ */
+export function completeRecordsLength(bytes: Uint8Array, atEnd: boolean) {
+  if (atEnd) return bytes.length;
+  // Quotes are read as parseCsvRecords reads them: only one at the start
+  // of a field opens a quoted field.
+  let inQuotes = false;
+  let fieldStart = true;
+  let end = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (inQuotes) {
+      if (byte !== QUOTE) continue;
+      if (bytes[i + 1] === QUOTE) i++;
+      else inQuotes = false;
+    } else if (byte === QUOTE && fieldStart) {
+      inQuotes = true;
+      fieldStart = false;
+    } else if (byte === COMMA) {
+      fieldStart = true;
+    } else if (byte === LF || byte === CR) {
+      fieldStart = true;
+      end = i + 1;
+    } else if (byte !== SPACE && byte !== TAB) {
+      fieldStart = false;
+    }
+  }
+  // A CR LF split across the cut leaves its LF to start the next slice,
+  // which parses as an empty line.
+  return end;
+}
+
+/**
+ * Reads and parses the records after `checkpoint` from a CSV object of
+ * `size` bytes, about `chunkBytes` at a time. A record longer than the
+ * chunk widens the read until it fits. Returns the rows and the checkpoint
+ * to continue from; the file is done when its offset reaches `size`.
+ */
+export async function readCsvChunk(
+  bucket: R2Bucket,
+  key: string,
+  size: number,
+  checkpoint: CsvCheckpoint,
+  chunkBytes: number,
+): Promise<{ rows: CsvRow[]; next: CsvCheckpoint }> {
+  let length = chunkBytes;
+  while (true) {
+    length = Math.min(length, size - checkpoint.offset);
+    const atEnd = checkpoint.offset + length >= size;
+    const object = await bucket.get(key, {
+      range: { offset: checkpoint.offset, length },
+    });
+    if (!object) throw new Error(`${key} is missing from R2`);
+    const bytes = new Uint8Array(await object.arrayBuffer());
+
+    const used = completeRecordsLength(bytes, atEnd);
+    if (used === 0) {
+      length *= 2;
+      continue;
+    }
+
+    const records = parseCsvRecords(decoder.decode(bytes.subarray(0, used)));
+    const header = checkpoint.header ?? records.shift() ?? null;
+    return {
+      rows: header ? toRows(header, records) : [],
+      next: { offset: checkpoint.offset + used, header },
+    };
+  }
+}
+
+/** Every row of a CSV object, or none if there is no such object. */
+export async function readCsvRows(
+  bucket: R2Bucket,
+  key: string,
+): Promise<CsvRow[]> {
+  const head = await bucket.head(key);
+  if (!head) return [];
+  const rows: CsvRow[] = [];
+  let checkpoint = CSV_START;
+  while (checkpoint.offset < head.size) {
+    const chunk = await readCsvChunk(
+      bucket,
+      key,
+      head.size,
+      checkpoint,
+      WHOLE_FILE_CHUNK_BYTES,
+    );
+    for (const row of chunk.rows) rows.push(row);
+    checkpoint = chunk.next;
+  }
+  return rows;
+}
@@ -4,7 +4,15 @@
 // This module must not import "cloudflare:workers" (directly or transitively)
 // so it stays loadable in vitest for unit tests.
 
-import { extractTripUpdateState } from "./realtime-utils";
+import {
+  extractServiceAlert,
+  extractTripUpdateState,
+  extractVehicleState,
+  isAlertActive,
+  type ServiceAlert,
+  type StopTimeUpdateState,
+  type VehicleState,
+} from "./realtime-utils";
 import type { transit_realtime } from "./gtfs-realtime";
 
 // Hard caps so a single page view cannot scan unbounded result sets. The
@@ -98,6 +106,9 @@ export interface DeparturesFilter {
   todayNoon: number;
   todayColumn: string;
   limit?: number;
+  // Only trips marked wheelchair accessible, at stops whose (inherited)
+  // wheelchair_boarding does not rule boarding out.
+  wheelchairAccessibleOnly?: boolean;
 }
 
 export interface SqlQuery {
@@ -109,89 +120,537 @@ export interface SqlQuery {
 // from the on-demand GTFS-RT feed and merged into query results in JS, so the
 // SQL stays a pure static-schedule read.
 export interface RealtimeEntry {
-  delay: number;
+  // TripUpdate.delay when the feed sends one: used for stops upstream of
+  // every stop time update, and for every stop when the feed sends none.
+  // Null leaves those stops without a prediction.
+  delay: number | null;
   status: string;
+  stopTimeUpdates: StopTimeUpdateState[];
 }
 
-// Reduces a decoded GTFS-Realtime feed to a trip_id -> {delay, status} map.
-// Keys are prefix-stripped to match static GTFS trip ids (see
-// extractTripUpdateState). Later entities win on duplicate trip ids.
+// Reduces one source's decoded GTFS-Realtime feed to a trip_id ->
+// RealtimeEntry map. With `agencyPrefixed` (511's regional feeds) keys are
+// prefix-stripped to match static GTFS trip ids (see extractTripUpdateState).
+// Later entities win on duplicate trip ids.
 export function buildRealtimeMap(
   entities: transit_realtime.IFeedEntity[],
+  agencyPrefixed = true,
 ): Map<string, RealtimeEntry> {
   const map = new Map<string, RealtimeEntry>();
   for (const entity of entities) {
-    const state = extractTripUpdateState(entity);
+    const state = extractTripUpdateState(entity, agencyPrefixed);
     if (state) {
-      map.set(state.tripId, { delay: state.delay, status: state.status });
+      map.set(state.tripId, {
+        delay: state.delay,
+        status: state.status,
+        stopTimeUpdates: state.stopTimeUpdates,
+      });
     }
   }
   return map;
 }
 
-// Attaches realtime delay/status to departure rows by trip_id. Rows without a
-// matching realtime entry keep null fields (rendered as scheduled).
-export function mergeDeparturesRealtime<T extends { trip_id: string }>(
+// The stop_times fields delay propagation needs. Times are seconds after
+// the service day's noon-minus-12h, as stored.
+export interface StopTimeRow {
+  stop_id: string;
+  stop_sequence: number;
+  arrival_time: number | null;
+  departure_time: number | null;
+}
+
+export interface StopTimePrediction {
+  arrivalDelay: number | null;
+  departureDelay: number | null;
+  skipped: boolean;
+}
+
+// Realtime fields merged onto departure and trip stop rows. Predicted times
+// are in the same seconds-after-midnight form as the scheduled ones and stay
+// null without a prediction; delay is the departure delay (falling back to
+// arrival) for the existing time pills.
+export interface RealtimeStopFields {
+  delay: number | null;
+  predicted_arrival_time: number | null;
+  predicted_departure_time: number | null;
+  skipped: boolean;
+}
+
+const NO_PREDICTION: StopTimePrediction = {
+  arrivalDelay: null,
+  departureDelay: null,
+  skipped: false,
+};
+
+// Delay for one side of an update: the sent delay, else the absolute time
+// against the row's schedule (only possible when the update's stop is among
+// `rows` and the service day is known).
+function updateDelay(
+  delay: number | null,
+  time: number | null,
+  scheduled: number | null | undefined,
+  serviceDayStart: number | undefined,
+): number | null {
+  if (delay !== null) return delay;
+  if (time === null || scheduled == null || serviceDayStart === undefined) {
+    return null;
+  }
+  return time - (serviceDayStart + scheduled);
+}
+
+/**
+ * Applies a trip's stop time updates to `rows` (any subset of the trip's
+ * stops) following GTFS-RT delay propagation: each stop takes its own
+ * update, else the departure delay of the nearest update upstream. SKIPPED
+ * stops are flagged and pass the upstream delay through; NO_DATA stops clear
+ * it until the next update. Stops upstream of every update take the trip
+ * delay, or no prediction when the feed sends none.
+ *
+ * Updates are placed on the stop_sequence axis by their stop_sequence, or by
+ * matching stop_id against `rows` (in feed order, so loops resolve to the
+ * next visit). Updates that can't be placed are ignored.
+ */
+export function predictStopTimes(
+  rows: StopTimeRow[],
+  entry: RealtimeEntry | undefined,
+  serviceDayStart?: number,
+): StopTimePrediction[] {
+  if (!entry) return rows.map(() => NO_PREDICTION);
+
+  const placed: {
+    seq: number;
+    stu: StopTimeUpdateState;
+    row: StopTimeRow | undefined;
+  }[] = [];
+  let lastSeq = -Infinity;
+  for (const stu of entry.stopTimeUpdates) {
+    let row: StopTimeRow | undefined;
+    let seq = stu.stopSequence;
+    if (seq !== null) {
+      row = rows.find((r) => r.stop_sequence === seq);
+    } else if (stu.stopId !== null) {
+      row = rows.find(
+        (r) => r.stop_id === stu.stopId && r.stop_sequence > lastSeq,
+      );
+      seq = row ? row.stop_sequence : null;
+    }
+    if (seq === null) continue;
+    lastSeq = Math.max(lastSeq, seq);
+    placed.push({ seq, stu, row });
+  }
+  placed.sort((a, b) => a.seq - b.seq);
+
+  // Walk the updates in stop order, recording each one's own prediction and
+  // the delay it hands downstream.
+  let carry: number | null = entry.delay;
+  const steps = placed.map(({ seq, stu, row }) => {
+    let at: StopTimePrediction;
+    if (stu.noData) {
+      at = NO_PREDICTION;
+      carry = null;
+    } else if (stu.skipped) {
+      at = { arrivalDelay: carry, departureDelay: carry, skipped: true };
+    } else {
+      const arrival = updateDelay(
+        stu.arrivalDelay,
+        stu.arrivalTime,
+        row?.arrival_time,
+        serviceDayStart,
+      );
+      const departure = updateDelay(
+        stu.departureDelay,
+        stu.departureTime,
+        row?.departure_time,
+        serviceDayStart,
+      );
+      const arrivalDelay = arrival ?? departure ?? carry;
+      const departureDelay = departure ?? arrivalDelay;
+      at = { arrivalDelay, departureDelay, skipped: false };
+      carry = departureDelay;
+    }
+    return { seq, at, after: carry };
+  });
+
+  return rows.map((row) => {
+    let step: (typeof steps)[number] | undefined;
+    for (const s of steps) {
+      if (s.seq > row.stop_sequence) break;
+      step = s;
+    }
+    if (step && step.seq === row.stop_sequence) return step.at;
+    const delay = step ? step.after : entry.delay;
+    if (delay === null) return NO_PREDICTION;
+    return { arrivalDelay: delay, departureDelay: delay, skipped: false };
+  });
+}
+
+function withPrediction<T extends StopTimeRow>(
+  row: T,
+  p: StopTimePrediction,
+): T & RealtimeStopFields {
+  const shift = (time: number | null, delay: number | null) =>
+    time === null || delay === null ? null : time + delay;
+  return {
+    ...row,
+    delay: p.departureDelay ?? p.arrivalDelay,
+    predicted_arrival_time: shift(row.arrival_time, p.arrivalDelay),
+    predicted_departure_time: shift(row.departure_time, p.departureDelay),
+    skipped: p.skipped,
+  };
+}
+
+// Trip ids among `rows` with stop time updates that name their stop only by
+// stop_id. A departure row is a single stop of its trip, so placing those
+// updates on the trip needs its full stop list (buildTripStopListsQuery).
+export function tripsNeedingStopLists(
+  rows: { trip_id: string }[],
+  rt: Map<string, RealtimeEntry>,
+): string[] {
+  const tripIds = new Set<string>();
+  for (const row of rows) {
+    const stopTimeUpdates = rt.get(row.trip_id)?.stopTimeUpdates ?? [];
+    if (
+      stopTimeUpdates.some((stu) => stu.stopSequence === null && stu.stopId)
+    ) {
+      tripIds.add(row.trip_id);
+    }
+  }
+  return [...tripIds];
+}
+
+// Every stop of the given trips in stop order, as StopTimeRow plus trip_id.
+export function buildTripStopListsQuery(
+  feedVersionId: number,
+  tripIds: string[],
+): SqlQuery {
+  const placeholders = tripIds.map(() => "?").join(",");
+  return {
+    sql: `
+    SELECT t.trip_id, s.stop_id, st.stop_sequence, st.arrival_time, st.departure_time
+    FROM trips t
+    JOIN stop_times st ON st.trip_pk = t.timetable_trip_pk
+    JOIN stops s
+      ON s.timetable_stop_pk = st.stop_pk AND s.feed_version_id = t.feed_version_id
+    WHERE t.feed_version_id = ? AND t.trip_id IN (${placeholders})
+    ORDER BY t.trip_id, st.stop_sequence ASC
+  `,
+    params: [feedVersionId, ...tripIds],
+  };
+}
+
+// Attaches per-stop realtime predictions and trip status to departure rows
+// by trip_id. A row alone only places updates carrying a stop_sequence (or
+// naming that very stop); `tripStops` (trip_id -> the trip's full stop list,
+// see tripsNeedingStopLists) lets updates that only give a stop_id upstream
+// propagate to it too. Rows without a matching realtime entry keep null
+// fields (rendered as scheduled).
+export function mergeDeparturesRealtime<
+  T extends StopTimeRow & { trip_id: string },
+>(
   rows: T[],
   rt: Map<string, RealtimeEntry>,
-): (T & { delay: number | null; realtime_status: string | null })[] {
+  serviceDayStart?: number,
+  tripStops: Map<string, StopTimeRow[]> = new Map(),
+): (T & RealtimeStopFields & { realtime_status: string | null })[] {
+  const tripPredictions = new Map<string, Map<number, StopTimePrediction>>();
+  const predict = (row: T, hit: RealtimeEntry | undefined) => {
+    const stops = tripStops.get(row.trip_id);
+    if (!hit || !stops) {
+      return predictStopTimes([row], hit, serviceDayStart)[0];
+    }
+    let bySequence = tripPredictions.get(row.trip_id);
+    if (!bySequence) {
+      const predictions = predictStopTimes(stops, hit, serviceDayStart);
+      bySequence = new Map(
+        stops.map((stop, i) => [stop.stop_sequence, predictions[i]]),
+      );
+      tripPredictions.set(row.trip_id, bySequence);
+    }
+    return (
+      bySequence.get(row.stop_sequence) ??
+      predictStopTimes([row], hit, serviceDayStart)[0]
+    );
+  };
   return rows.map((row) => {
     const hit = rt.get(row.trip_id);
     return {
-      ...row,
-      delay: hit ? hit.delay : null,
+      ...withPrediction(row, predict(row, hit)),
       realtime_status: hit ? hit.status : null,
     };
   });
 }
 
-// A trip page renders one trip, so every stop row shares that trip's single
-// realtime delay (matching the old trip_pk-only join).
-export function mergeTripStopsRealtime<T>(
+// A trip page renders all of one trip's stops, so propagation sees every
+// update in order.
+export function mergeTripStopsRealtime<T extends StopTimeRow>(
   rows: T[],
   tripId: string,
   rt: Map<string, RealtimeEntry>,
-): (T & { delay: number | null })[] {
-  const hit = rt.get(tripId);
-  const delay = hit ? hit.delay : null;
-  return rows.map((row) => ({ ...row, delay }));
+  serviceDayStart?: number,
+): (T & RealtimeStopFields)[] {
+  const predictions = predictStopTimes(rows, rt.get(tripId), serviceDayStart);
+  return rows.map((row, i) => withPrediction(row, predictions[i]));
 }
 
-export function buildDeparturesQuery(filter: DeparturesFilter): SqlQuery {
-  const {
-    feed_version_id,
-    stopPks,
-    route_pk,
-    currentSeconds,
-    endSeconds,
-    todayNoon,
-    todayColumn,
-    limit,
-  } = filter;
+// Decodes every alert entity in a ServiceAlerts feed, with header and
+// description text in `language`.
+export function buildServiceAlerts(
+  entities: transit_realtime.IFeedEntity[],
+  language = "en",
+  agencyPrefixed = true,
+): ServiceAlert[] {
+  const alerts: ServiceAlert[] = [];
+  for (const entity of entities) {
+    const alert = extractServiceAlert(entity, language, agencyPrefixed);
+    if (alert) alerts.push(alert);
+  }
+  return alerts;
+}
+
+// What a page is about: its agency plus whichever routes, stops and trips it
+// renders. Ids are static GTFS ids.
+export interface AlertScope {
+  agencyId: string;
+  routeIds?: string[];
+  stopIds?: string[];
+  tripIds?: string[];
+}
 
+// Keeps alerts active at `nowSeconds` with at least one informed entity
+// selector matching the scope. A selector matches when every field it sets is
+// in scope, so a route+stop selector only shows where both apply. With no
+// route, stop or trip in scope (the agency page) any selector naming the
+// agency matches, surfacing route- and stop-level alerts there too.
+export function selectServiceAlerts(
+  alerts: ServiceAlert[],
+  scope: AlertScope,
+  nowSeconds: number,
+): ServiceAlert[] {
+  const routeIds = new Set(scope.routeIds);
+  const stopIds = new Set(scope.stopIds);
+  const tripIds = new Set(scope.tripIds);
+  const agencyWide = !routeIds.size && !stopIds.size && !tripIds.size;
+
+  return alerts.filter(
+    (alert) =>
+      isAlertActive(alert, nowSeconds) &&
+      alert.informedEntities.some((sel) => {
+        if (sel.agencyId !== null && sel.agencyId !== scope.agencyId) {
+          return false;
+        }
+        if (agencyWide) return sel.agencyId !== null;
+        return (
+          (sel.routeId === null || routeIds.has(sel.routeId)) &&
+          (sel.stopId === null || stopIds.has(sel.stopId)) &&
+          (sel.tripId === null || tripIds.has(sel.tripId))
+        );
+      }),
+  );
+}
+
+// Vehicles from the VehiclePositions feed, keyed by prefix-stripped ids like
+// the trip update map. A route can have many vehicles; a trip has at most one
+// (later entities win).
+export interface VehiclePositions {
+  byTrip: Map<string, VehicleState>;
+  byRoute: Map<string, VehicleState[]>;
+}
+
+export function buildVehiclePositions(
+  entities: transit_realtime.IFeedEntity[],
+  agencyPrefixed = true,
+): VehiclePositions {
+  const byTrip = new Map<string, VehicleState>();
+  const byRoute = new Map<string, VehicleState[]>();
+  for (const entity of entities) {
+    const vehicle = extractVehicleState(entity, agencyPrefixed);
+    if (!vehicle) continue;
+    if (vehicle.tripId) byTrip.set(vehicle.tripId, vehicle);
+    if (vehicle.routeId) {
+      const list = byRoute.get(vehicle.routeId);
+      if (list) list.push(vehicle);
+      else byRoute.set(vehicle.routeId, [vehicle]);
+    }
+  }
+  return { byTrip, byRoute };
+}
+
+export function routeVehicleKey(directionId: number, stopId: string): string {
+  return `${directionId}:${stopId}`;
+}
+
+// Pins each vehicle to the stop row it is at or heading to on the route
+// page, keyed by routeVehicleKey. The route page lists one representative
+// trip per direction, so vehicles are matched by stop_id (their own
+// stop_sequence belongs to a different trip). The vehicle's direction breaks
+// ties when a stop is served in both directions; otherwise the first listed
+// direction wins. Vehicles without a stop, or at a stop the list lacks, are
+// left out.
+export function placeVehiclesOnRoute(
+  vehicles: VehicleState[],
+  stops: { stop_id: string; direction_id: number }[],
+): Map<string, VehicleState[]> {
+  const directionsByStop = new Map<string, number[]>();
+  for (const stop of stops) {
+    const dirs = directionsByStop.get(stop.stop_id) ?? [];
+    if (!dirs.includes(stop.direction_id)) dirs.push(stop.direction_id);
+    directionsByStop.set(stop.stop_id, dirs);
+  }
+
+  const placed = new Map<string, VehicleState[]>();
+  for (const vehicle of vehicles) {
+    if (!vehicle.stopId) continue;
+    const dirs = directionsByStop.get(vehicle.stopId);
+    if (!dirs) continue;
+    const dir =
+      vehicle.directionId !== null && dirs.includes(vehicle.directionId)
+        ? vehicle.directionId
+        : dirs[0];
+    const key = routeVehicleKey(dir, vehicle.stopId);
+    placed.set(key, [...(placed.get(key) ?? []), vehicle]);
+  }
+  return placed;
+}
+
+// Index of the trip stop row the vehicle is at or heading to, or -1. The
+// feed's current_stop_sequence is authoritative; stop_id is the fallback
+// (ambiguous on loops, where the first visit wins).
+export function locateVehicleOnTrip(
+  rows: { stop_id: string; stop_sequence: number }[],
+  vehicle: VehicleState,
+): number {
+  if (vehicle.currentStopSequence !== null) {
+    const idx = rows.findIndex(
+      (r) => r.stop_sequence === vehicle.currentStopSequence,
+    );
+    if (idx >= 0) return idx;
+  }
+  if (vehicle.stopId !== null) {
+    return rows.findIndex((r) => r.stop_id === vehicle.stopId);
+  }
+  return -1;
+}
+
+// Calendar predicate for "service t.service_id runs on the filter's day":
+// a regular calendar service counts unless the day removes it, and
+// calendar_dates can add a service on its own. Same rule as
+// buildVersionServiceDayQuery. Reads only t.feed_version_id and
+// t.service_id, so `t` can be trips or any row carrying both. Binds todayNoon
+// four times (see serviceDayParams); todayColumn must already be validated.
+export function serviceDayPredicate(todayColumn: string): string {
+  return `(
+        EXISTS (
+            SELECT 1 FROM calendar c
+            WHERE c.feed_version_id = t.feed_version_id
+              AND c.service_id = t.service_id
+              AND c.start_date <= ?
+              AND c.end_date >= ?
+              AND c.${todayColumn} = 1
+        )
+        OR EXISTS (
+            SELECT 1 FROM calendar_dates cd
+            WHERE cd.feed_version_id = t.feed_version_id
+              AND cd.service_id = t.service_id
+              AND cd.date = ?
+              AND cd.exception_type = 1
+        )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM calendar_dates cd
+        WHERE cd.feed_version_id = t.feed_version_id
+          AND cd.service_id = t.service_id
+          AND cd.date = ?
+          AND cd.exception_type = 2
+      )`;
+}
+
+export function serviceDayParams(todayNoon: number): number[] {
+  return [todayNoon, todayNoon, todayNoon, todayNoon];
+}
+
+export function validateDayColumn(todayColumn: string): void {
   if (!DAY_COLUMNS.includes(todayColumn as (typeof DAY_COLUMNS)[number])) {
     throw new Error(`Invalid calendar day column: ${todayColumn}`);
   }
+}
+
+// Wheelchair boarding at stop `s` as GTFS defines it: a platform or
+// entrance without a value (empty or 0) inherits its parent station's.
+// 0 = no information, 1 = possible, 2 = not possible.
+export const STOP_WHEELCHAIR_BOARDING = `CASE
+          WHEN COALESCE(s.wheelchair_boarding, 0) = 0 AND s.parent_station IS NOT NULL
+          THEN COALESCE((SELECT ps.wheelchair_boarding FROM stops ps
+                         WHERE ps.stop_pk = s.parent_station), 0)
+          ELSE COALESCE(s.wheelchair_boarding, 0)
+        END`;
+
+/** The same inheritance as STOP_WHEELCHAIR_BOARDING, for loaded stops. */
+export function inheritWheelchairBoarding(
+  stop: { wheelchair_boarding: number | null; parent_station: number | null },
+  parent: { wheelchair_boarding: number | null } | null,
+): number {
+  const own = stop.wheelchair_boarding ?? 0;
+  if (own !== 0 || stop.parent_station === null) return own;
+  return parent?.wheelchair_boarding ?? 0;
+}
+
+// Per-departure accessibility: the trip's flags (0/null = no information,
+// 1 = yes, 2 = no) and boarding at the stop (STOP_WHEELCHAIR_BOARDING).
+export interface AccessibilityFields {
+  wheelchair_accessible: number | null;
+  bikes_allowed: number | null;
+  wheelchair_boarding: number;
+}
+
+// The columns for AccessibilityFields, with trips `t` and stops `s`.
+const ACCESSIBILITY_COLUMNS = `t.wheelchair_accessible, t.bikes_allowed,
+        ${STOP_WHEELCHAIR_BOARDING} AS wheelchair_boarding`;
 
+// The feed version / stop / route conditions both departures queries share.
+function departureConditions(
+  filter: Pick<
+    DeparturesFilter,
+    "feed_version_id" | "stopPks" | "route_pk" | "wheelchairAccessibleOnly"
+  >,
+): {
+  conditions: string[];
+  params: unknown[];
+} {
   const conditions: string[] = ["s.feed_version_id = ?"];
-  const params: unknown[] = [feed_version_id];
+  const params: unknown[] = [filter.feed_version_id];
 
-  if (stopPks && stopPks.length > 0) {
-    const placeholders = stopPks.map(() => "?").join(",");
+  if (filter.stopPks && filter.stopPks.length > 0) {
+    const placeholders = filter.stopPks.map(() => "?").join(",");
     conditions.push(`s.stop_pk IN (${placeholders})`);
-    params.push(...stopPks);
+    params.push(...filter.stopPks);
   }
 
-  if (route_pk !== undefined) {
+  if (filter.route_pk !== undefined) {
     conditions.push("r.route_pk = ?");
-    params.push(route_pk);
+    params.push(filter.route_pk);
   }
 
+  if (filter.wheelchairAccessibleOnly) {
+    conditions.push(
+      `t.wheelchair_accessible = 1 AND ${STOP_WHEELCHAIR_BOARDING} != 2`,
+    );
+  }
+
+  return { conditions, params };
+}
+
+export function buildDeparturesQuery(filter: DeparturesFilter): SqlQuery {
+  const { currentSeconds, endSeconds, todayNoon, todayColumn, limit } = filter;
+  validateDayColumn(todayColumn);
+
+  const { conditions, params } = departureConditions(filter);
   params.push(currentSeconds, endSeconds);
-  params.push(todayNoon, todayNoon, todayNoon, todayNoon);
+  params.push(...serviceDayParams(todayNoon));
 
   // Realtime delay/status are merged in JS afterward (see
   // mergeDeparturesRealtime); this query is a pure static-schedule read.
+  // Frequency-based trips are excluded: their stop_times are only a template
+  // (see buildFrequencyDeparturesQuery).
   let sql = `
     SELECT
         s.stop_pk,
@@ -203,38 +662,21 @@ export function buildDeparturesQuery(filter: DeparturesFilter): SqlQuery {
         r.route_color,
         r.route_text_color,
         t.trip_headsign,
+        st.arrival_time,
         st.departure_time,
-        st.stop_sequence
+        st.stop_sequence,
+        ${ACCESSIBILITY_COLUMNS}
     FROM stop_times st
-    JOIN stops s ON st.stop_pk = s.stop_pk
-    JOIN trips t ON st.trip_pk = t.trip_pk
+    JOIN stops s ON st.stop_pk = s.timetable_stop_pk
+    JOIN trips t
+      ON st.trip_pk = t.timetable_trip_pk AND t.feed_version_id = s.feed_version_id
     JOIN routes r ON t.route_pk = r.route_pk
     WHERE ${conditions.join(" AND ")}
       AND st.departure_time >= ?
       AND st.departure_time <= ?
-      AND (
-        EXISTS (
-            SELECT 1 FROM calendar c
-            WHERE c.feed_version_id = s.feed_version_id
-              AND c.service_id = t.service_id
-              AND c.start_date <= ?
-              AND c.end_date >= ?
-              AND c.${todayColumn} = 1
-        )
-        OR EXISTS (
-            SELECT 1 FROM calendar_dates cd
-            WHERE cd.feed_version_id = s.feed_version_id
-              AND cd.service_id = t.service_id
-              AND cd.date = ?
-              AND cd.exception_type = 1
-        )
-      )
+      AND ${serviceDayPredicate(todayColumn)}
       AND NOT EXISTS (
-        SELECT 1 FROM calendar_dates cd
-        WHERE cd.feed_version_id = s.feed_version_id
-          AND cd.service_id = t.service_id
-          AND cd.date = ?
-          AND cd.exception_type = 2
+        SELECT 1 FROM frequencies f WHERE f.trip_pk = t.trip_pk
       )
     ORDER BY st.departure_time ASC
   `;
@@ -247,6 +689,425 @@ export function buildDeparturesQuery(filter: DeparturesFilter): SqlQuery {
   return { sql, params };
 }
 
+/**
+ * Reads frequencies.txt windows for trips serving the filter's stops/route,
+ * one row per (window, template stop time). A frequency trip's stop_times
+ * only give its shape in time: each stop is `departure_offset` seconds after
+ * the trip's first departure, and the windows say when trips start. Rows are
+ * kept when any start in the window reaches the stop inside the filter's
+ * time range; expandFrequencyDepartures turns them into departures.
+ */
+export function buildFrequencyDeparturesQuery(
+  filter: DeparturesFilter,
+): SqlQuery {
+  const { currentSeconds, endSeconds, todayNoon, todayColumn, limit } = filter;
+  validateDayColumn(todayColumn);
+
+  const { conditions, params: conditionParams } = departureConditions(filter);
+  const params: unknown[] = [filter.feed_version_id, ...conditionParams];
+  params.push(endSeconds, currentSeconds);
+  params.push(...serviceDayParams(todayNoon));
+
+  let sql = `
+    WITH FrequencyWindows AS (
+        SELECT
+            f.trip_pk,
+            f.start_time,
+            f.end_time,
+            f.headway_secs,
+            f.exact_times,
+            (SELECT MIN(st0.departure_time) FROM stop_times st0
+             WHERE st0.trip_pk = t.timetable_trip_pk) AS first_departure
+        FROM frequencies f
+        JOIN trips t ON f.trip_pk = t.trip_pk
+        WHERE t.feed_version_id = ?
+    )
+    SELECT
+        s.stop_pk,
+        s.stop_id,
+        r.route_id,
+        t.trip_id,
+        r.route_short_name,
+        r.route_long_name,
+        r.route_color,
+        r.route_text_color,
+        t.trip_headsign,
+        st.arrival_time - fw.first_departure AS arrival_offset,
+        st.departure_time - fw.first_departure AS departure_offset,
+        st.stop_sequence,
+        fw.start_time,
+        fw.end_time,
+        fw.headway_secs,
+        fw.exact_times,
+        ${ACCESSIBILITY_COLUMNS}
+    FROM FrequencyWindows fw
+    JOIN trips t ON fw.trip_pk = t.trip_pk
+    JOIN routes r ON t.route_pk = r.route_pk
+    JOIN stop_times st ON st.trip_pk = t.timetable_trip_pk
+    JOIN stops s
+      ON st.stop_pk = s.timetable_stop_pk AND s.feed_version_id = t.feed_version_id
+    WHERE ${conditions.join(" AND ")}
+      AND fw.start_time + (st.departure_time - fw.first_departure) <= ?
+      AND fw.end_time + (st.departure_time - fw.first_departure) > ?
+      AND ${serviceDayPredicate(todayColumn)}
+    ORDER BY fw.start_time + (st.departure_time - fw.first_departure) ASC
+  `;
+
+  if (limit !== undefined) {
+    sql += "    LIMIT ?\n";
+    params.push(limit);
+  }
+
+  return { sql, params };
+}
+
+// Flex stop times at the filter's stops: rows with a pickup/drop-off window
+// at the stop itself, and location-group rows for every group the stop
+// belongs to. Both branches expose the same columns as `st`, joined to
+// stops `s`, trips `t` and routes `r` so departureConditions applies to
+// each, and `where` (binding `whereParams`) is added to both. The stop_times
+// branch seeks idx_stop_times_departure on (stop_pk, departure_time IS
+// NULL): windows and times are exclusive.
+function flexStopTimesUnion(
+  filter: Pick<
+    DeparturesFilter,
+    "feed_version_id" | "stopPks" | "route_pk" | "wheelchairAccessibleOnly"
+  >,
+  where: string,
+  whereParams: unknown[],
+): SqlQuery {
+  const { conditions, params } = departureConditions(filter);
+  const sql = `
+        SELECT
+            s.stop_pk, s.stop_id, t.trip_pk, t.trip_id, t.trip_headsign,
+            t.feed_version_id, t.service_id, r.route_id, r.route_short_name,
+            r.route_long_name, r.route_color, r.route_text_color,
+            st.stop_sequence, st.start_pickup_drop_off_window,
+            st.end_pickup_drop_off_window, st.pickup_type,
+            st.pickup_booking_rule_id, ${ACCESSIBILITY_COLUMNS}
+        FROM stop_times st
+        JOIN stops s ON st.stop_pk = s.timetable_stop_pk
+        JOIN trips t
+          ON st.trip_pk = t.timetable_trip_pk
+         AND t.feed_version_id = s.feed_version_id
+        JOIN routes r ON t.route_pk = r.route_pk
+        WHERE ${conditions.join(" AND ")}
+          AND st.departure_time IS NULL
+          AND st.start_pickup_drop_off_window IS NOT NULL
+          AND ${where}
+        UNION ALL
+        SELECT
+            s.stop_pk, s.stop_id, t.trip_pk, t.trip_id, t.trip_headsign,
+            t.feed_version_id, t.service_id, r.route_id, r.route_short_name,
+            r.route_long_name, r.route_color, r.route_text_color,
+            st.stop_sequence, st.start_pickup_drop_off_window,
+            st.end_pickup_drop_off_window, st.pickup_type,
+            st.pickup_booking_rule_id, ${ACCESSIBILITY_COLUMNS}
+        FROM stops s
+        JOIN location_group_stops lgs
+          ON lgs.feed_version_id = s.feed_version_id AND lgs.stop_id = s.stop_id
+        JOIN flex_stop_times st
+          ON st.feed_version_id = lgs.feed_version_id
+         AND st.location_group_id = lgs.location_group_id
+        JOIN trips t ON st.trip_pk = t.trip_pk
+        JOIN routes r ON t.route_pk = r.route_pk
+        WHERE ${conditions.join(" AND ")}
+          AND ${where}`;
+  return {
+    sql,
+    params: [...params, ...whereParams, ...params, ...whereParams],
+  };
+}
+
+/**
+ * Reads GTFS-Flex pickup windows at the filter's stops/route that are open
+ * at some point in [currentSeconds, endSeconds]. Flex stop times carry a
+ * window in which the vehicle can be booked instead of a departure time, so
+ * each row is one "on demand until ..." entry; expandFlexDepartures places
+ * it on the timeline. Windows the rider cannot board in (pickup_type 1) are
+ * left out.
+ */
+export function buildFlexDeparturesQuery(filter: DeparturesFilter): SqlQuery {
+  const { currentSeconds, endSeconds, todayNoon, todayColumn, limit } = filter;
+  validateDayColumn(todayColumn);
+
+  const flex = flexStopTimesUnion(
+    filter,
+    `COALESCE(st.pickup_type, 0) != 1
+          AND st.start_pickup_drop_off_window <= ?
+          AND st.end_pickup_drop_off_window > ?`,
+    [endSeconds, currentSeconds],
+  );
+  const params: unknown[] = [...flex.params, ...serviceDayParams(todayNoon)];
+
+  let sql = `
+    WITH FlexStopTimes AS (${flex.sql}
+    )
+    SELECT
+        t.stop_pk,
+        t.stop_id,
+        t.route_id,
+        t.trip_id,
+        t.route_short_name,
+        t.route_long_name,
+        t.route_color,
+        t.route_text_color,
+        t.trip_headsign,
+        t.stop_sequence,
+        t.start_pickup_drop_off_window AS window_start,
+        t.end_pickup_drop_off_window AS window_end,
+        t.pickup_booking_rule_id AS booking_rule_id,
+        t.wheelchair_accessible,
+        t.bikes_allowed,
+        t.wheelchair_boarding
+    FROM FlexStopTimes t
+    WHERE ${serviceDayPredicate(todayColumn)}
+    ORDER BY t.start_pickup_drop_off_window ASC
+  `;
+
+  if (limit !== undefined) {
+    sql += "    LIMIT ?\n";
+    params.push(limit);
+  }
+
+  return { sql, params };
+}
+
+export type NextServiceFilter = Pick<
+  DeparturesFilter,
+  "feed_version_id" | "stopPks" | "route_pk" | "wheelchairAccessibleOnly"
+> & {
+  // Candidate service days in order; currentSeconds is where each one's
+  // search starts (now for today, 0 for later days).
+  days: Pick<
+    DeparturesFilter,
+    "currentSeconds" | "todayNoon" | "todayColumn"
+  >[];
+};
+
+/**
+ * Finds the first of `filter.days` with any departure at the filter's
+ * stops/route at or after that day's currentSeconds. Returns at most one
+ * `{ day_index }` row, none when no candidate day has service.
+ *
+ * The stop's trips are reduced to one row per service (with its latest
+ * departure here) once, then each day is checked against the calendar
+ * tables with the departures queries' service-day predicate, so a week of
+ * lookahead is a single read. Frequency trips are judged by their template
+ * stop_times, flex trips by the end of their pickup windows.
+ */
+export function buildNextServiceDayQuery(filter: NextServiceFilter): SqlQuery {
+  if (filter.days.length === 0) {
+    throw new Error("Next service lookahead needs at least one day");
+  }
+  const { conditions, params } = departureConditions(filter);
+  const flex = flexStopTimesUnion(filter, "1 = 1", []);
+  params.push(...flex.params);
+
+  const dayChecks = filter.days.map((day, i) => {
+    validateDayColumn(day.todayColumn);
+    params.push(day.currentSeconds, ...serviceDayParams(day.todayNoon));
+    return `
+      SELECT ${i} AS day_index WHERE EXISTS (
+        SELECT 1 FROM StopServices t
+        WHERE t.last_departure >= ?
+          AND ${serviceDayPredicate(day.todayColumn)}
+      )`;
+  });
+
+  const sql = `
+    WITH StopServices AS (
+        SELECT
+            t.feed_version_id,
+            t.service_id,
+            MAX(st.departure_time) AS last_departure
+        FROM stop_times st
+        JOIN stops s ON st.stop_pk = s.timetable_stop_pk
+        JOIN trips t
+          ON st.trip_pk = t.timetable_trip_pk
+         AND t.feed_version_id = s.feed_version_id
+        JOIN routes r ON t.route_pk = r.route_pk
+        WHERE ${conditions.join(" AND ")}
+        GROUP BY t.feed_version_id, t.service_id
+        UNION ALL
+        SELECT
+            t.feed_version_id,
+            t.service_id,
+            MAX(t.end_pickup_drop_off_window) AS last_departure
+        FROM (${flex.sql}
+        ) t
+        GROUP BY t.feed_version_id, t.service_id
+    )
+    SELECT day_index FROM (${dayChecks.join("\n      UNION ALL")}
+    )
+    ORDER BY day_index ASC
+    LIMIT 1
+  `;
+
+  return { sql, params };
+}
+
+// One buildFrequencyDeparturesQuery row: a template stop time inside one
+// frequency window.
+export interface FrequencyWindowRow extends AccessibilityFields {
+  stop_pk: number;
+  stop_id: string;
+  route_id: string;
+  trip_id: string;
+  route_short_name: string | null;
+  route_long_name: string | null;
+  route_color: string | null;
+  route_text_color: string | null;
+  trip_headsign: string | null;
+  arrival_offset: number | null;
+  departure_offset: number;
+  stop_sequence: number;
+  start_time: number;
+  end_time: number;
+  headway_secs: number;
+  exact_times: number | null;
+}
+
+// Departure fields that distinguish headway-based service. Both null for
+// departures at a concrete time.
+export interface HeadwayFields {
+  // Seconds between vehicles ("every N min").
+  headway_secs: number | null;
+  // When the headway stops applying at this stop, same time base as
+  // departure_time.
+  headway_end_time: number | null;
+}
+
+export type ExpandedFrequencyDeparture = Omit<
+  FrequencyWindowRow,
+  | "arrival_offset"
+  | "departure_offset"
+  | "start_time"
+  | "end_time"
+  | "headway_secs"
+  | "exact_times"
+> &
+  HeadwayFields & {
+    arrival_time: number | null;
+    departure_time: number;
+  };
+
+/**
+ * Turns frequency window rows into departures inside [currentSeconds,
+ * endSeconds]. With exact_times=1, trips start at start_time and every
+ * headway_secs after it while before end_time, so each becomes a concrete
+ * departure. Otherwise only the headway is promised, so each window yields
+ * one "every N min" entry, timed at its first departure or now, whichever
+ * is later.
+ */
+export function expandFrequencyDepartures(
+  rows: FrequencyWindowRow[],
+  currentSeconds: number,
+  endSeconds: number,
+): ExpandedFrequencyDeparture[] {
+  const out: ExpandedFrequencyDeparture[] = [];
+  for (const row of rows) {
+    const {
+      arrival_offset,
+      departure_offset,
+      start_time,
+      end_time,
+      headway_secs,
+      exact_times,
+      ...base
+    } = row;
+    if (headway_secs <= 0) continue;
+
+    if (exact_times === 1) {
+      const firstK = Math.max(
+        0,
+        Math.ceil(
+          (currentSeconds - departure_offset - start_time) / headway_secs,
+        ),
+      );
+      for (
+        let start = start_time + firstK * headway_secs;
+        start < end_time && start + departure_offset <= endSeconds;
+        start += headway_secs
+      ) {
+        out.push({
+          ...base,
+          arrival_time: arrival_offset === null ? null : start + arrival_offset,
+          departure_time: start + departure_offset,
+          headway_secs: null,
+          headway_end_time: null,
+        });
+      }
+    } else {
+      const first = start_time + departure_offset;
+      const last = end_time + departure_offset;
+      if (first > endSeconds || last <= currentSeconds) continue;
+      out.push({
+        ...base,
+        arrival_time: null,
+        departure_time: Math.max(first, currentSeconds),
+        headway_secs,
+        headway_end_time: last,
+      });
+    }
+  }
+  return out.sort((a, b) => a.departure_time - b.departure_time);
+}
+
+// One buildFlexDeparturesQuery row: a pickup window at one stop.
+export interface FlexWindowRow extends AccessibilityFields {
+  stop_pk: number;
+  stop_id: string;
+  route_id: string;
+  trip_id: string;
+  route_short_name: string | null;
+  route_long_name: string | null;
+  route_color: string | null;
+  route_text_color: string | null;
+  trip_headsign: string | null;
+  stop_sequence: number;
+  window_start: number;
+  window_end: number;
+  booking_rule_id: string | null;
+}
+
+// Departure fields that distinguish GTFS-Flex on-demand service. Both null
+// for departures at a concrete time.
+export interface FlexFields {
+  // When the pickup window closes, same time base as departure_time.
+  pickup_window_end: number | null;
+  // booking_rules.booking_rule_id for arranging the pickup.
+  booking_rule_id: string | null;
+}
+
+export type ExpandedFlexDeparture = Omit<
+  FlexWindowRow,
+  "window_start" | "window_end"
+> &
+  FlexFields & {
+    arrival_time: null;
+    departure_time: number;
+  };
+
+/**
+ * Turns flex window rows into departures: each open window yields one entry,
+ * timed at its opening or now, whichever is later, so it sorts among the
+ * fixed departures by when a rider could first be picked up.
+ */
+export function expandFlexDepartures(
+  rows: FlexWindowRow[],
+  currentSeconds: number,
+): ExpandedFlexDeparture[] {
+  return rows
+    .map(({ window_start, window_end, ...base }) => ({
+      ...base,
+      arrival_time: null,
+      departure_time: Math.max(window_start, currentSeconds),
+      pickup_window_end: window_end,
+    }))
+    .sort((a, b) => a.departure_time - b.departure_time);
+}
+
 export function buildTripStopsQuery(tripPk: number): SqlQuery {
   // Realtime delay is merged in JS afterward (see mergeTripStopsRealtime).
   const sql = `
@@ -257,10 +1118,15 @@ export function buildTripStopsQuery(tripPk: number): SqlQuery {
         st.stop_sequence,
         st.timepoint,
         st.pickup_type,
-        st.drop_off_type
-    FROM stops s
-    JOIN stop_times st ON s.stop_pk = st.stop_pk
-    WHERE st.trip_pk = ?
+        st.drop_off_type,
+        st.shape_dist_traveled,
+        st.start_pickup_drop_off_window,
+        st.end_pickup_drop_off_window
+    FROM trips t
+    JOIN stop_times st ON st.trip_pk = t.timetable_trip_pk
+    JOIN stops s
+      ON s.timetable_stop_pk = st.stop_pk AND s.feed_version_id = t.feed_version_id
+    WHERE t.trip_pk = ?
     ORDER BY st.stop_sequence ASC
     LIMIT ${TRIP_STOPS_LIMIT}
   `;
@@ -7,15 +7,153 @@ import {
   STOP_COLUMNS,
   TRIP_COLUMNS,
   buildDeparturesQuery,
+  buildFlexDeparturesQuery,
+  buildFrequencyDeparturesQuery,
+  buildNextServiceDayQuery,
+  buildTripStopListsQuery,
   buildTripStopsQuery,
   columnList,
+  expandFlexDepartures,
+  expandFrequencyDepartures,
   mergeDeparturesRealtime,
   mergeTripStopsRealtime,
+  selectServiceAlerts,
+  tripsNeedingStopLists,
+  type AccessibilityFields,
+  type AlertScope,
   type DeparturesFilter,
+  type FlexFields,
+  type FlexWindowRow,
+  type FrequencyWindowRow,
+  type HeadwayFields,
+  type RealtimeStopFields,
+  type SqlQuery,
+  type StopTimeRow,
 } from "./db-queries";
-import { getRealtimeTripUpdates } from "./realtime-feed";
+import {
+  accessStops,
+  buildConnections,
+  buildFootpaths,
+  buildPlannerStopsQuery,
+  buildPlannerTripsQuery,
+  buildTimetableQuery,
+  corridorBox,
+  MAX_JOURNEY_SECONDS,
+  PLANNER_TRANSFERS_QUERY,
+  planItineraries,
+  type Itinerary,
+  type PlannerStop,
+  type PlannerTransferRow,
+  type PlanPlace,
+  type TimetableRow,
+  type TransitLeg,
+  type WalkLeg,
+} from "./journey-planner";
+import {
+  FARE_LEG_RULES_QUERY,
+  FARE_MEDIA_QUERY,
+  FARE_PRODUCTS_QUERY,
+  FARE_TRANSFER_RULES_QUERY,
+  RIDER_CATEGORIES_QUERY,
+  TIMEFRAMES_QUERY,
+  buildRouteNetworksQuery,
+  buildStopAreasQuery,
+  buildTimeframeServicesQuery,
+  calculateFares,
+  type FareLegRule,
+  type FareOption,
+  type FareProduct,
+  type FareTransferRule,
+  type Timeframe,
+} from "./fare-engine";
+import {
+  FARE_ATTRIBUTES_QUERY,
+  FARE_RULES_QUERY,
+  calculateLegacyFare,
+  summarizeRouteFares,
+  type FareAttribute,
+  type FareRule,
+  type LegacyFareTables,
+  type LegacyRouteFares,
+} from "./legacy-fares";
+import {
+  buildStationLevelsQuery,
+  buildStationNodesQuery,
+  buildStationPathwaysQuery,
+  groupStationLevels,
+  planStepFreeRoutes,
+  type Level,
+  type Pathway,
+  type StationLevel,
+  type StationNode,
+  type StepFreeRoute,
+} from "./station-pathways";
+import {
+  RECENT_FAILURES_QUERY,
+  SOURCE_STATUS_QUERY,
+  serializeSourceStatus,
+  type ImportFailure,
+  type SourceStatus,
+  type SourceStatusRow,
+} from "./import-runs";
+import {
+  getCacheStore,
+  getRealtimeServiceAlerts,
+  getRealtimeTripUpdates,
+  getRealtimeVehiclePositions,
+} from "./realtime-feed";
+import {
+  NEARBY_DEPARTURES,
+  boundingBox,
+  buildNearbyStopsQuery,
+  rankNearbyStops,
+  type NearbyStopRow,
+} from "./nearby-queries";
+import type { ServiceAlert, VehicleState } from "./realtime-utils";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  buildStopSearchQuery,
+  searchTokens,
+} from "./search-queries";
+import { simplifyShape, type ShapePoint } from "./shape-geometry";
+import {
+  buildBookingRulesQuery,
+  buildRouteBookingRulesQuery,
+  type BookingRule,
+} from "./booking-rules";
+import {
+  mergeServiceDayDepartures,
+  nextServiceLookahead,
+  serviceDayWindows,
+  type ServiceDay,
+} from "./service-day";
+import {
+  UNTRANSLATED,
+  buildTranslationLanguagesQuery,
+  buildTranslationsQuery,
+  chooseTranslationLanguage,
+  createTranslator,
+  type TranslationRow,
+  type Translator,
+} from "./translations";
 
-export type { DeparturesFilter } from "./db-queries";
+export type { AlertScope, DeparturesFilter } from "./db-queries";
+export {
+  locateVehicleOnTrip,
+  placeVehiclesOnRoute,
+  routeVehicleKey,
+} from "./db-queries";
+export type { ServiceAlert, VehicleState } from "./realtime-utils";
+export type { BookingRule } from "./booking-rules";
+export type { LegacyRouteFares } from "./legacy-fares";
+export type { Translator } from "./translations";
+export type { ImportFailure, SourceStatus } from "./import-runs";
+export type {
+  PathwayStep,
+  StationLevel,
+  StationNode,
+  StepFreeRoute,
+} from "./station-pathways";
 
 // Types
 export interface AgenciesData {
@@ -60,7 +198,7 @@ export interface RoutesData {
   route_sort_order: number | null;
 }
 
-export interface DeparturesData {
+export interface DeparturesData extends AccessibilityFields {
   stop_pk: number;
   stop_id: string;
   route_id: string;
@@ -70,10 +208,18 @@ export interface DeparturesData {
   route_color: string | null;
   route_text_color: string | null;
   trip_headsign: string | null;
+  arrival_time: number | null;
   departure_time: number;
   stop_sequence: number;
   delay: number | null;
+  predicted_arrival_time: number | null;
+  predicted_departure_time: number | null;
+  skipped: boolean;
   realtime_status: string | null;
+  headway_secs: number | null;
+  headway_end_time: number | null;
+  pickup_window_end: number | null;
+  booking_rule_id: string | null;
 }
 
 export interface TripData {
@@ -95,6 +241,10 @@ export interface RouteStopData extends StopsData {
   direction_id: number;
   stop_sequence: number;
   trip_headsign: string | null;
+  // Shape of the direction's representative trip, and where along it the
+  // stop falls.
+  shape_id: string | null;
+  shape_dist_traveled: number | null;
 }
 
 export interface TripStopData extends StopsData {
@@ -104,7 +254,129 @@ export interface TripStopData extends StopsData {
   timepoint: number | null;
   pickup_type: number | null;
   drop_off_type: number | null;
+  shape_dist_traveled: number | null;
+  // GTFS-Flex pickup/drop-off window, set instead of arrival/departure times.
+  start_pickup_drop_off_window: number | null;
+  end_pickup_drop_off_window: number | null;
   delay: number | null;
+  predicted_arrival_time: number | null;
+  predicted_departure_time: number | null;
+  skipped: boolean;
+}
+
+export interface StopSearchResult {
+  stop_pk: number;
+  stop_id: string;
+  stop_code: string | null;
+  stop_name: string | null;
+  location_type: number | null;
+  // Station name when the match is one of its platforms.
+  parent_name: string | null;
+  agency_id: string;
+  agency_name: string;
+  score: number;
+}
+
+export interface NearbyStopData extends NearbyStopRow {
+  // Meters from the queried point.
+  distance_m: number;
+  // departures' times are offsets from this service day's start.
+  serviceDay: ServiceDay;
+  departures: UpcomingDepartures["departures"];
+}
+
+export interface NearbyFilter {
+  lat: number;
+  lon: number;
+  radiusMeters: number;
+  limit: number;
+  wheelchairAccessibleOnly?: boolean;
+}
+
+// A resolved journey end.
+export interface PlanEndpoint {
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+export interface PlanTripData {
+  trip_id: string;
+  trip_headsign: string | null;
+  route_id: string;
+  route_short_name: string | null;
+  route_long_name: string | null;
+  route_color: string | null;
+  route_text_color: string | null;
+  agency_id: string;
+  agency_timezone: string;
+}
+
+// Legs carry their stops (null for the origin and destination ends of walks)
+// and, for rides, the trip with its predicted delay in seconds.
+export type PlanLegData =
+  | (WalkLeg & {
+      from_stop: PlannerStop | null;
+      to_stop: PlannerStop | null;
+    })
+  | (TransitLeg &
+      PlanTripData & {
+        from_stop: PlannerStop;
+        to_stop: PlannerStop;
+        delay: number;
+      });
+
+export interface ItineraryData extends Omit<Itinerary, "legs"> {
+  legs: PlanLegData[];
+}
+
+export interface JourneyFilter {
+  from: PlanEndpoint;
+  to: PlanEndpoint;
+  // Epoch seconds; defaults to now.
+  departAt?: number;
+  count: number;
+}
+
+export interface JourneyPlan {
+  // Timezone the timetable was read in (the agency of the stop nearest the
+  // origin); null when no stop is within walking distance of either end.
+  timezone: string | null;
+  itineraries: ItineraryData[];
+}
+
+// One ride to price: a route between two of its stops, with times as
+// offsets from the quote's service day start.
+export interface FareLegRequest {
+  route_id: string;
+  from_stop_id: string;
+  to_stop_id: string;
+  departure_time: number;
+  arrival_time: number;
+  // zone_id of every stop the ride visits, boarding to alighting, which
+  // Fares v1 rules match on.
+  zone_ids: (string | null)[];
+}
+
+export interface FareOptionData extends FareOption {
+  rider_category_name: string | null;
+  fare_media_name: string | null;
+  is_default_fare_category: boolean;
+}
+
+export interface FareQuote {
+  // Fares v2, or the v1 fallback for versions without v2 rules. v1 quotes
+  // have at most one option, with fare_ids as fare_product_ids.
+  source: "fares_v2" | "fares_v1";
+  // Best first within the default rider category, which comes first.
+  options: FareOptionData[];
+}
+
+export interface StationLayout {
+  levels: StationLevel[];
+  // One per platform; empty when the station has no pathways, as step-free
+  // access cannot be told then.
+  stepFreeRoutes: StepFreeRoute[];
 }
 
 export interface StopsFilter {
@@ -180,6 +452,43 @@ export async function getStops(filter: StopsFilter): Promise<StopsData[]> {
   return result.results;
 }
 
+// A station's platforms, entrances and boarding areas by level, with
+// step-free routes from its entrances when the feed maps its pathways. Null
+// for stops without children.
+export async function getStationLayout(
+  stationPk: number,
+  feedVersionId: number,
+): Promise<StationLayout | null> {
+  const db = getDb();
+  const read = async <T>(query: SqlQuery): Promise<T[]> =>
+    (
+      await db
+        .prepare(query.sql)
+        .bind(...query.params)
+        .all<T>()
+    ).results;
+
+  const [nodes, pathways] = await Promise.all([
+    read<StationNode>(buildStationNodesQuery(feedVersionId, stationPk)),
+    read<Pathway>(buildStationPathwaysQuery(feedVersionId, stationPk)),
+  ]);
+  if (nodes.length === 0) return null;
+
+  const levelIds = [
+    ...new Set(nodes.flatMap((n) => (n.level_id ? [n.level_id] : []))),
+  ];
+  const levels =
+    levelIds.length > 0
+      ? await read<Level>(buildStationLevelsQuery(feedVersionId, levelIds))
+      : [];
+
+  return {
+    levels: groupStationLevels(nodes, levels),
+    stepFreeRoutes:
+      pathways.length > 0 ? planStepFreeRoutes(nodes, pathways) : [],
+  };
+}
+
 export const getStop = cache(
   async (stopId: string, feedVersionId: number): Promise<StopsData | null> => {
     const result = await getDb()
@@ -253,18 +562,21 @@ export async function getRouteStops(routePk: number): Promise<RouteStopData[]> {
     WITH TripStops AS (
         SELECT
             t.trip_pk,
+            t.timetable_trip_pk,
+            t.feed_version_id,
             t.direction_id,
             t.trip_headsign,
+            t.shape_id,
             COUNT(st.stop_time_pk) as stop_count
         FROM trips t
-        JOIN stop_times st ON t.trip_pk = st.trip_pk
+        JOIN stop_times st ON t.timetable_trip_pk = st.trip_pk
         WHERE t.route_pk = ?
-        GROUP BY t.trip_pk, t.direction_id, t.trip_headsign
+        GROUP BY t.trip_pk, t.direction_id, t.trip_headsign, t.shape_id
     ),
     BestTrips AS (
-        SELECT direction_id, trip_pk, trip_headsign
+        SELECT direction_id, timetable_trip_pk, feed_version_id, trip_headsign, shape_id
         FROM (
-            SELECT direction_id, trip_pk, trip_headsign,
+            SELECT direction_id, timetable_trip_pk, feed_version_id, trip_headsign, shape_id,
                    ROW_NUMBER() OVER (PARTITION BY direction_id ORDER BY stop_count DESC) as rn
             FROM TripStops
         ) WHERE rn = 1
@@ -273,10 +585,13 @@ export async function getRouteStops(routePk: number): Promise<RouteStopData[]> {
         ${columnList(STOP_COLUMNS, "s")},
         bt.direction_id,
         bt.trip_headsign,
-        st.stop_sequence
-    FROM stops s
-    JOIN stop_times st ON s.stop_pk = st.stop_pk
-    JOIN BestTrips bt ON st.trip_pk = bt.trip_pk
+        bt.shape_id,
+        st.stop_sequence,
+        st.shape_dist_traveled
+    FROM BestTrips bt
+    JOIN stop_times st ON st.trip_pk = bt.timetable_trip_pk
+    JOIN stops s
+      ON s.timetable_stop_pk = st.stop_pk AND s.feed_version_id = bt.feed_version_id
     ORDER BY bt.direction_id, st.stop_sequence
     LIMIT ${ROUTE_STOPS_LIMIT}
   `;
@@ -288,6 +603,165 @@ export async function getRouteStops(routePk: number): Promise<RouteStopData[]> {
   return result.results;
 }
 
+// Simplified shapes only change with a new feed version, so they are kept in
+// the Cache API (keyed by version and shape_id) for a day rather than re-read
+// from D1 point by point on every route and trip page.
+const SHAPE_CACHE_TTL_SECONDS = 24 * 60 * 60;
+
+function shapeCacheKey(shapeId: string, feedVersionId: number): Request {
+  return new Request(
+    `https://shapes.internal/${feedVersionId}/${encodeURIComponent(shapeId)}`,
+    { method: "GET" },
+  );
+}
+
+// A shape's polyline, simplified with Douglas-Peucker (see
+// src/shape-geometry.ts). Empty when the version has no such shape.
+export const getShape = cache(
+  async (shapeId: string, feedVersionId: number): Promise<ShapePoint[]> => {
+    const store = getCacheStore();
+    const key = shapeCacheKey(shapeId, feedVersionId);
+    if (store) {
+      const hit = await store.match(key).catch(() => undefined);
+      if (hit) return await hit.json<ShapePoint[]>();
+    }
+
+    const result = await getDb()
+      .prepare(
+        `SELECT shape_pt_lat AS lat, shape_pt_lon AS lon, shape_dist_traveled AS dist
+         FROM shapes
+         WHERE feed_version_id = COALESCE(
+             (SELECT points_version_id FROM version_shapes
+              WHERE feed_version_id = ?1 AND shape_id = ?2),
+             ?1
+           )
+           AND shape_id = ?2
+         ORDER BY shape_pt_sequence`,
+      )
+      .bind(feedVersionId, shapeId)
+      .all<ShapePoint>();
+    const points = simplifyShape(result.results);
+
+    if (store && points.length > 0) {
+      const cacheable = Response.json(points, {
+        headers: {
+          "Cache-Control": `public, s-maxage=${SHAPE_CACHE_TTL_SECONDS}`,
+        },
+      });
+      await store.put(key, cacheable).catch(() => {});
+    }
+    return points;
+  },
+);
+
+export interface FeedLanguages {
+  // feed_info.feed_lang, else the source's default_lang (the import's
+  // feed_lang or agency_lang); null when neither is known.
+  feed_lang: string | null;
+  // Languages translations.txt covers.
+  languages: string[];
+}
+
+export const getFeedLanguages = cache(
+  async (feedVersionId: number): Promise<FeedLanguages> => {
+    const db = getDb();
+    const languagesQuery = buildTranslationLanguagesQuery(feedVersionId);
+    const [info, languages] = await Promise.all([
+      db
+        .prepare(
+          `SELECT COALESCE(fi.feed_lang, fs.default_lang) AS feed_lang
+           FROM feed_version fv
+           JOIN feed_source fs ON fs.feed_source_id = fv.feed_source_id
+           LEFT JOIN feed_info fi ON fi.feed_version_id = fv.feed_version_id
+           WHERE fv.feed_version_id = ?`,
+        )
+        .bind(feedVersionId)
+        .first<{ feed_lang: string | null }>(),
+      db
+        .prepare(languagesQuery.sql)
+        .bind(...languagesQuery.params)
+        .all<{ language: string }>(),
+    ]);
+    return {
+      feed_lang: info?.feed_lang ?? null,
+      languages: languages.results.map((r) => r.language),
+    };
+  },
+);
+
+function translationsCacheKey(
+  feedVersionId: number,
+  language: string,
+): Request {
+  return new Request(
+    `https://translations.internal/${feedVersionId}/${encodeURIComponent(language)}`,
+    { method: "GET" },
+  );
+}
+
+// Like shapes, a version's translations never change, so each language's
+// rows are kept in the Cache API for a day.
+const TRANSLATIONS_CACHE_TTL_SECONDS = 24 * 60 * 60;
+
+const getTranslationRows = cache(
+  async (
+    feedVersionId: number,
+    language: string,
+  ): Promise<TranslationRow[]> => {
+    const store = getCacheStore();
+    const key = translationsCacheKey(feedVersionId, language);
+    if (store) {
+      const hit = await store.match(key).catch(() => undefined);
+      if (hit) return await hit.json<TranslationRow[]>();
+    }
+
+    const { sql, params } = buildTranslationsQuery(feedVersionId, language);
+    const result = await getDb()
+      .prepare(sql)
+      .bind(...params)
+      .all<TranslationRow>();
+
+    if (store) {
+      const cacheable = Response.json(result.results, {
+        headers: {
+          "Cache-Control": `public, s-maxage=${TRANSLATIONS_CACHE_TTL_SECONDS}`,
+        },
+      });
+      await store.put(key, cacheable).catch(() => {});
+    }
+    return result.results;
+  },
+);
+
+// Names of the feed version in the first of `preferences` (see
+// parseLanguagePreferences) that the feed translates to; untranslated when
+// the feed's own language comes first or nothing matches.
+export async function getTranslator(
+  feedVersionId: number,
+  preferences: string[],
+): Promise<Translator> {
+  if (preferences.length === 0) return UNTRANSLATED;
+  const { feed_lang, languages } = await getFeedLanguages(feedVersionId);
+  const language = chooseTranslationLanguage(preferences, feed_lang, languages);
+  if (language === null) return UNTRANSLATED;
+  return createTranslator(
+    language,
+    await getTranslationRows(feedVersionId, language),
+  );
+}
+
+// getTranslator for each feed version, for lists spanning agencies.
+export async function getTranslators(
+  feedVersionIds: number[],
+  preferences: string[],
+): Promise<Map<number, Translator>> {
+  const ids = [...new Set(feedVersionIds)];
+  const translators = await Promise.all(
+    ids.map((id) => getTranslator(id, preferences)),
+  );
+  return new Map(ids.map((id, i) => [id, translators[i]]));
+}
+
 export const getTrip = cache(
   async (tripId: string, feedVersionId: number): Promise<TripData | null> => {
     const result = await getDb()
@@ -300,19 +774,55 @@ export const getTrip = cache(
   },
 );
 
+// serviceDayStart (epoch seconds of the service day's noon minus 12h) lets
+// feeds that send absolute times instead of delays produce predictions.
 export async function getTripStops(
-  tripPk: number,
-  tripId: string,
+  trip: Pick<TripData, "trip_pk" | "trip_id" | "feed_version_id">,
+  serviceDayStart?: number,
 ): Promise<TripStopData[]> {
-  const { sql, params } = buildTripStopsQuery(tripPk);
+  const { sql, params } = buildTripStopsQuery(trip.trip_pk);
   const [result, rt] = await Promise.all([
     getDb()
       .prepare(sql)
       .bind(...params)
-      .all<Omit<TripStopData, "delay">>(),
-    getRealtimeTripUpdates("RG"),
+      .all<Omit<TripStopData, keyof RealtimeStopFields>>(),
+    getRealtimeTripUpdates(trip.feed_version_id),
   ]);
-  return mergeTripStopsRealtime(result.results, tripId, rt);
+  return mergeTripStopsRealtime(
+    result.results,
+    trip.trip_id,
+    rt,
+    serviceDayStart,
+  );
+}
+
+// D1 binds at most 100 parameters per statement.
+const TRIP_STOP_LISTS_BATCH = 90;
+
+// Full stop lists of trips whose realtime updates only name stops by
+// stop_id, so mergeDeparturesRealtime can place those updates.
+async function getTripStopLists(
+  feedVersionId: number,
+  tripIds: string[],
+): Promise<Map<string, StopTimeRow[]>> {
+  const stopLists = new Map<string, StopTimeRow[]>();
+  const db = getDb();
+  for (let i = 0; i < tripIds.length; i += TRIP_STOP_LISTS_BATCH) {
+    const { sql, params } = buildTripStopListsQuery(
+      feedVersionId,
+      tripIds.slice(i, i + TRIP_STOP_LISTS_BATCH),
+    );
+    const result = await db
+      .prepare(sql)
+      .bind(...params)
+      .all<StopTimeRow & { trip_id: string }>();
+    for (const { trip_id, ...stop } of result.results) {
+      const stops = stopLists.get(trip_id);
+      if (stops) stops.push(stop);
+      else stopLists.set(trip_id, [stop]);
+    }
+  }
+  return stopLists;
 }
 
 export async function getDepartures(
@@ -323,12 +833,665 @@ export async function getDepartures(
   }
 
   const { sql, params } = buildDeparturesQuery(filter);
-  const [result, rt] = await Promise.all([
-    getDb()
+  const frequencyQuery = buildFrequencyDeparturesQuery(filter);
+  const flexQuery = buildFlexDeparturesQuery(filter);
+  const db = getDb();
+  const [result, frequencyResult, flexResult, rt] = await Promise.all([
+    db
+      .prepare(sql)
+      .bind(...params)
+      .all<
+        Omit<
+          DeparturesData,
+          | keyof RealtimeStopFields
+          | keyof HeadwayFields
+          | keyof FlexFields
+          | "realtime_status"
+        >
+      >(),
+    db
+      .prepare(frequencyQuery.sql)
+      .bind(...frequencyQuery.params)
+      .all<FrequencyWindowRow>(),
+    db
+      .prepare(flexQuery.sql)
+      .bind(...flexQuery.params)
+      .all<FlexWindowRow>(),
+    getRealtimeTripUpdates(filter.feed_version_id),
+  ]);
+
+  // Stop times count from noon minus 12h of the service day.
+  const scheduled: DeparturesData[] = mergeDeparturesRealtime(
+    result.results,
+    rt,
+    filter.todayNoon - 12 * 60 * 60,
+    await getTripStopLists(
+      filter.feed_version_id,
+      tripsNeedingStopLists(result.results, rt),
+    ),
+  ).map((row) => ({
+    ...row,
+    headway_secs: null,
+    headway_end_time: null,
+    pickup_window_end: null,
+    booking_rule_id: null,
+  }));
+
+  // Realtime for frequency trips identifies each run by start time, which
+  // template rows can't match, so expanded departures stay scheduled-only.
+  const frequencyBased: DeparturesData[] = expandFrequencyDepartures(
+    frequencyResult.results,
+    filter.currentSeconds,
+    filter.endSeconds,
+  ).map((row) => ({
+    ...row,
+    delay: null,
+    predicted_arrival_time: null,
+    predicted_departure_time: null,
+    skipped: false,
+    realtime_status: null,
+    pickup_window_end: null,
+    booking_rule_id: null,
+  }));
+
+  // On-demand trips have no schedule for realtime to adjust.
+  const flexBased: DeparturesData[] = expandFlexDepartures(
+    flexResult.results,
+    filter.currentSeconds,
+  ).map((row) => ({
+    ...row,
+    delay: null,
+    predicted_arrival_time: null,
+    predicted_departure_time: null,
+    skipped: false,
+    realtime_status: null,
+    headway_secs: null,
+    headway_end_time: null,
+  }));
+
+  const extra = [...frequencyBased, ...flexBased];
+  const merged = extra.length
+    ? [...scheduled, ...extra].sort(
+        (a, b) => a.departure_time - b.departure_time,
+      )
+    : scheduled;
+  return filter.limit !== undefined ? merged.slice(0, filter.limit) : merged;
+}
+
+// Booking rules for on-demand departures, from the booking_rule_id values
+// they carry.
+export async function getBookingRules(
+  feedVersionId: number,
+  ruleIds: string[],
+): Promise<BookingRule[]> {
+  if (ruleIds.length === 0) return [];
+  const { sql, params } = buildBookingRulesQuery(feedVersionId, ruleIds);
+  const result = await getDb()
+    .prepare(sql)
+    .bind(...params)
+    .all<BookingRule>();
+  return result.results;
+}
+
+export async function getRouteBookingRules(
+  routePk: number,
+  feedVersionId: number,
+): Promise<BookingRule[]> {
+  const { sql, params } = buildRouteBookingRulesQuery(feedVersionId, routePk);
+  const result = await getDb()
+    .prepare(sql)
+    .bind(...params)
+    .all<BookingRule>();
+  return result.results;
+}
+
+export interface UpcomingDeparturesFilter {
+  feed_version_id: number;
+  stopPks?: number[];
+  route_pk?: number;
+  timezone: string;
+  // Epoch seconds; defaults to now.
+  startSeconds?: number;
+  windowSeconds: number;
+  limit?: number;
+  wheelchairAccessibleOnly?: boolean;
+}
+
+export interface UpcomingDepartures {
+  // Today's service day; every row's times are offsets from its start.
+  serviceDay: ServiceDay;
+  // service_date is the trip's own service date, yesterday's for trips
+  // running past midnight; trip pages take it as `date`.
+  departures: (DeparturesData & { service_date: string })[];
+}
+
+// Departures leaving within the window, from today's service day and from
+// yesterday's trips that run past midnight, merged onto today's time scale.
+export async function getUpcomingDepartures(
+  filter: UpcomingDeparturesFilter,
+): Promise<UpcomingDepartures> {
+  const { timezone, startSeconds, windowSeconds, ...base } = filter;
+  const windows = serviceDayWindows(
+    startSeconds ?? Math.floor(Date.now() / 1000),
+    windowSeconds,
+    timezone,
+  );
+  const perDay = await Promise.all(
+    windows.map(async ({ day, filter: dayFilter }) => ({
+      day,
+      rows: await getDepartures({ ...base, ...dayFilter }),
+    })),
+  );
+  const serviceDay = windows[0].day;
+  return {
+    serviceDay,
+    departures: mergeServiceDayDepartures(perDay, serviceDay, filter.limit),
+  };
+}
+
+// The first service day, today included, with departures left at the
+// filter's stops/route, and its first departures. Yesterday's trips running
+// past midnight count as today's, as in getUpcomingDepartures. Used when the
+// upcoming window is empty; null when nothing runs within the lookahead.
+export async function getNextService(
+  filter: Omit<UpcomingDeparturesFilter, "windowSeconds">,
+): Promise<UpcomingDepartures | null> {
+  if (!filter.feed_version_id) {
+    return null;
+  }
+
+  const { timezone, startSeconds, ...base } = filter;
+  const days = nextServiceLookahead(
+    startSeconds ?? Math.floor(Date.now() / 1000),
+    timezone,
+  );
+
+  const { sql, params } = buildNextServiceDayQuery({
+    ...base,
+    days: days.map(({ day, currentSeconds }) => ({
+      currentSeconds,
+      todayNoon: day.noon,
+      todayColumn: day.column,
+    })),
+  });
+  const found = await getDb()
+    .prepare(sql)
+    .bind(...params)
+    .first<{ day_index: number }>();
+  if (!found) return null;
+
+  // Yesterday's late trips may interleave with today's earliest ones, so
+  // both days are read and merged onto today's time scale.
+  const read =
+    found.day_index === 0 ? days.slice(0, 2) : [days[found.day_index]];
+  const perDay = await Promise.all(
+    read.map(async ({ day, currentSeconds }) => ({
+      day,
+      rows: await getDepartures({
+        ...base,
+        currentSeconds,
+        // A service day's trips can run well past 24:00.
+        endSeconds: 2 * 24 * 60 * 60,
+        todayNoon: day.noon,
+        todayColumn: day.column,
+      }),
+    })),
+  );
+  const serviceDay = read[read.length - 1].day;
+  return {
+    serviceDay,
+    departures: mergeServiceDayDepartures(perDay, serviceDay, filter.limit),
+  };
+}
+
+// Stops of every active agency matching a free-text query, best first.
+export async function searchStops(
+  query: string,
+  limit: number = DEFAULT_SEARCH_LIMIT,
+): Promise<StopSearchResult[]> {
+  const tokens = searchTokens(query);
+  if (tokens.length === 0) return [];
+
+  const { sql, params } = buildStopSearchQuery(tokens, limit);
+  const result = await getDb()
+    .prepare(sql)
+    .bind(...params)
+    .all<StopSearchResult>();
+  return result.results;
+}
+
+// Closest stations and standalone stops to a point across every active
+// agency, each with its next few departures (a station's come from its
+// platforms, as on the stop page).
+export async function getNearbyStops(
+  filter: NearbyFilter,
+): Promise<NearbyStopData[]> {
+  const { lat, lon, radiusMeters, limit, wheelchairAccessibleOnly } = filter;
+  const { sql, params } = buildNearbyStopsQuery(
+    boundingBox(lat, lon, radiusMeters),
+  );
+  const db = getDb();
+  const candidates = await db
+    .prepare(sql)
+    .bind(...params)
+    .all<NearbyStopRow>();
+  const nearest = rankNearbyStops(
+    candidates.results,
+    lat,
+    lon,
+    radiusMeters,
+    limit,
+  );
+
+  const stationPks = nearest
+    .filter((s) => s.location_type === 1)
+    .map((s) => s.stop_pk);
+  const platforms = new Map<number, number[]>();
+  if (stationPks.length > 0) {
+    const children = await db
+      .prepare(
+        `SELECT stop_pk, parent_station FROM stops WHERE parent_station IN (${stationPks
+          .map(() => "?")
+          .join(",")})`,
+      )
+      .bind(...stationPks)
+      .all<{ stop_pk: number; parent_station: number }>();
+    for (const child of children.results) {
+      const list = platforms.get(child.parent_station) ?? [];
+      list.push(child.stop_pk);
+      platforms.set(child.parent_station, list);
+    }
+  }
+
+  return Promise.all(
+    nearest.map(async (stop) => {
+      const { serviceDay, departures } = await getUpcomingDepartures({
+        feed_version_id: stop.feed_version_id,
+        stopPks: platforms.get(stop.stop_pk) ?? [stop.stop_pk],
+        timezone: stop.agency_timezone,
+        windowSeconds: 2 * 60 * 60,
+        limit: NEARBY_DEPARTURES,
+        wheelchairAccessibleOnly,
+      });
+      return { ...stop, serviceDay, departures };
+    }),
+  );
+}
+
+// Resolves a journey end to a point: coordinates as given, a stop reference
+// to that stop, and search text to the best matching stop. Null when no stop
+// matches.
+export async function resolvePlace(
+  place: PlanPlace,
+): Promise<PlanEndpoint | null> {
+  if (place.kind === "point") {
+    return {
+      name: `${place.lat.toFixed(5)}, ${place.lon.toFixed(5)}`,
+      lat: place.lat,
+      lon: place.lon,
+    };
+  }
+
+  let stop: Pick<
+    StopsData,
+    "stop_id" | "stop_name" | "stop_lat" | "stop_lon"
+  > | null;
+  if (place.kind === "stop") {
+    const agency = await getAgency(place.agencyId);
+    stop = agency ? await getStop(place.stopId, agency.feed_version_id) : null;
+  } else {
+    const [hit] = await searchStops(place.query, 1);
+    stop = hit
+      ? await getDb()
+          .prepare(
+            "SELECT stop_id, stop_name, stop_lat, stop_lon FROM stops WHERE stop_pk = ?",
+          )
+          .bind(hit.stop_pk)
+          .first<
+            Pick<StopsData, "stop_id" | "stop_name" | "stop_lat" | "stop_lon">
+          >()
+      : null;
+  }
+  return stop
+    ? {
+        name: stop.stop_name || stop.stop_id,
+        lat: stop.stop_lat,
+        lon: stop.stop_lon,
+      }
+    : null;
+}
+
+// Itineraries between two points over every active agency's timetable,
+// leaving at or after `departAt`, with realtime predictions applied (see
+// src/journey-planner.ts for the search). Bay Area agencies share one
+// timezone, so the service days are those of the stop nearest the origin.
+export async function planJourney(filter: JourneyFilter): Promise<JourneyPlan> {
+  const { from, to, count } = filter;
+  const departAt = filter.departAt ?? Math.floor(Date.now() / 1000);
+  const box = corridorBox(from, to);
+  const db = getDb();
+
+  const stopsQuery = buildPlannerStopsQuery(box);
+  const [stopsResult, transfersResult] = await Promise.all([
+    db
+      .prepare(stopsQuery.sql)
+      .bind(...stopsQuery.params)
+      .all<PlannerStop>(),
+    db.prepare(PLANNER_TRANSFERS_QUERY).all<PlannerTransferRow>(),
+  ]);
+  const stops = stopsResult.results;
+  const stopsByPk = new Map(stops.map((s) => [s.stop_pk, s]));
+
+  const access = accessStops(stops, from.lat, from.lon);
+  const egress = accessStops(stops, to.lat, to.lon);
+  if (access.length === 0 || egress.length === 0) {
+    return { timezone: null, itineraries: [] };
+  }
+  const nearest = access.reduce((a, b) => (b.seconds < a.seconds ? b : a));
+  const timezone = stopsByPk.get(nearest.stop_pk)!.agency_timezone;
+
+  // Each agency's trips take predictions from its own source's feed.
+  const feedVersionIds = [...new Set(stops.map((s) => s.feed_version_id))];
+  const [days, realtime] = await Promise.all([
+    Promise.all(
+      serviceDayWindows(departAt, MAX_JOURNEY_SECONDS, timezone).map(
+        async ({ day, filter: dayFilter }) => {
+          const { sql, params } = buildTimetableQuery(box, dayFilter);
+          const result = await db
+            .prepare(sql)
+            .bind(...params)
+            .all<TimetableRow>();
+          return { serviceDayStart: day.start, rows: result.results };
+        },
+      ),
+    ),
+    Promise.all(feedVersionIds.map((id) => getRealtimeTripUpdates(id))),
+  ]);
+  const connections = buildConnections(
+    days,
+    new Map(stops.map((s) => [s.stop_pk, s.stop_id])),
+    new Map(feedVersionIds.map((id, i) => [id, realtime[i]])),
+  );
+  const itineraries = planItineraries(
+    connections,
+    buildFootpaths(stops, transfersResult.results),
+    access,
+    egress,
+    departAt,
+    count,
+  );
+
+  const tripPks = [
+    ...new Set(
+      itineraries.flatMap((it) =>
+        it.legs.flatMap((leg) => (leg.mode === "transit" ? [leg.trip_pk] : [])),
+      ),
+    ),
+  ];
+  const trips = new Map<number, PlanTripData>();
+  if (tripPks.length > 0) {
+    const { sql, params } = buildPlannerTripsQuery(tripPks);
+    const result = await db
       .prepare(sql)
       .bind(...params)
-      .all<Omit<DeparturesData, "delay" | "realtime_status">>(),
-    getRealtimeTripUpdates("RG"),
+      .all<PlanTripData & { trip_pk: number }>();
+    for (const { trip_pk, ...trip } of result.results) {
+      trips.set(trip_pk, trip);
+    }
+  }
+
+  const stopOf = (pk: number | null) =>
+    pk === null ? null : (stopsByPk.get(pk) ?? null);
+  return {
+    timezone,
+    itineraries: itineraries.map((it) => ({
+      ...it,
+      legs: it.legs.map(
+        (leg): PlanLegData =>
+          leg.mode === "walk"
+            ? {
+                ...leg,
+                from_stop: stopOf(leg.from_stop_pk),
+                to_stop: stopOf(leg.to_stop_pk),
+              }
+            : {
+                ...leg,
+                ...trips.get(leg.trip_pk)!,
+                from_stop: stopsByPk.get(leg.from_stop_pk)!,
+                to_stop: stopsByPk.get(leg.to_stop_pk)!,
+                delay: leg.departure - leg.scheduled_departure,
+              },
+      ),
+    })),
+  };
+}
+
+// Prices a journey with the version's GTFS Fares v2 tables (see
+// src/fare-engine.ts), falling back to Fares v1 (src/legacy-fares.ts) when
+// the version has no fare_leg_rules. Null when it has neither; a quote with
+// no options means the rules do not cover these legs.
+export async function getFareQuote(
+  feedVersionId: number,
+  legs: FareLegRequest[],
+  day: ServiceDay,
+): Promise<FareQuote | null> {
+  if (legs.length === 0) return null;
+  const db = getDb();
+  const read = async <T>(query: SqlQuery): Promise<T[]> =>
+    (
+      await db
+        .prepare(query.sql)
+        .bind(...query.params)
+        .all<T>()
+    ).results;
+  const perVersion = (sql: string): SqlQuery => ({
+    sql,
+    params: [feedVersionId],
+  });
+
+  const legRules = await read<FareLegRule>(perVersion(FARE_LEG_RULES_QUERY));
+  if (legRules.length === 0) {
+    const tables = await getLegacyFareTables(feedVersionId);
+    if (!tables) return null;
+    const option = calculateLegacyFare(legs, tables);
+    return {
+      source: "fares_v1",
+      options: option
+        ? [
+            {
+              ...option,
+              rider_category_name: null,
+              fare_media_name: null,
+              is_default_fare_category: true,
+            },
+          ]
+        : [],
+    };
+  }
+
+  const routeIds = [...new Set(legs.map((leg) => leg.route_id))];
+  const stopIds = [
+    ...new Set(legs.flatMap((leg) => [leg.from_stop_id, leg.to_stop_id])),
+  ];
+  const [
+    products,
+    transferRules,
+    timeframes,
+    categories,
+    media,
+    networkRows,
+    areaRows,
+    serviceRows,
+  ] = await Promise.all([
+    read<FareProduct>(perVersion(FARE_PRODUCTS_QUERY)),
+    read<FareTransferRule>(perVersion(FARE_TRANSFER_RULES_QUERY)),
+    read<Timeframe>(perVersion(TIMEFRAMES_QUERY)),
+    read<{
+      rider_category_id: string;
+      rider_category_name: string;
+      is_default_fare_category: number;
+    }>(perVersion(RIDER_CATEGORIES_QUERY)),
+    read<{ fare_media_id: string; fare_media_name: string | null }>(
+      perVersion(FARE_MEDIA_QUERY),
+    ),
+    read<{ route_id: string; network_id: string }>(
+      buildRouteNetworksQuery(feedVersionId, routeIds),
+    ),
+    read<{ stop_id: string; area_id: string }>(
+      buildStopAreasQuery(feedVersionId, stopIds),
+    ),
+    read<{ service_id: string }>(
+      buildTimeframeServicesQuery(feedVersionId, {
+        todayNoon: day.noon,
+        todayColumn: day.column,
+      }),
+    ),
+  ]);
+
+  const activeServiceIds = new Set(serviceRows.map((r) => r.service_id));
+  const options = calculateFares(
+    legs.map((leg) => ({
+      network_ids: networkRows
+        .filter((r) => r.route_id === leg.route_id)
+        .map((r) => r.network_id),
+      from_area_ids: areaRows
+        .filter((r) => r.stop_id === leg.from_stop_id)
+        .map((r) => r.area_id),
+      to_area_ids: areaRows
+        .filter((r) => r.stop_id === leg.to_stop_id)
+        .map((r) => r.area_id),
+      departure_time: leg.departure_time,
+      arrival_time: leg.arrival_time,
+      active_service_ids: activeServiceIds,
+    })),
+    { legRules, products, transferRules, timeframes },
+  );
+
+  const categoryById = new Map(categories.map((c) => [c.rider_category_id, c]));
+  const mediaById = new Map(media.map((m) => [m.fare_media_id, m]));
+  return {
+    source: "fares_v2",
+    options: options
+      .map((option) => {
+        const category = option.rider_category_id
+          ? categoryById.get(option.rider_category_id)
+          : undefined;
+        return {
+          ...option,
+          rider_category_name: category?.rider_category_name ?? null,
+          fare_media_name: option.fare_media_id
+            ? (mediaById.get(option.fare_media_id)?.fare_media_name ?? null)
+            : null,
+          is_default_fare_category: category
+            ? category.is_default_fare_category === 1
+            : option.rider_category_id === null,
+        };
+      })
+      .sort(
+        (a, b) =>
+          Number(b.is_default_fare_category) -
+          Number(a.is_default_fare_category),
+      ),
+  };
+}
+
+// A version's Fares v1 tables; null when it has no fare_attributes.
+async function getLegacyFareTables(
+  feedVersionId: number,
+): Promise<LegacyFareTables | null> {
+  const db = getDb();
+  const [attributes, rules] = await Promise.all([
+    db.prepare(FARE_ATTRIBUTES_QUERY).bind(feedVersionId).all<FareAttribute>(),
+    db.prepare(FARE_RULES_QUERY).bind(feedVersionId).all<FareRule>(),
+  ]);
+  if (attributes.results.length === 0) return null;
+  return { attributes: attributes.results, rules: rules.results };
+}
+
+// The route page's fare summary from Fares v1. Versions with Fares v2 rules
+// are priced per ride on trip pages instead, so they get none here.
+export async function getRouteFareSummary(
+  routeId: string,
+  feedVersionId: number,
+): Promise<LegacyRouteFares | null> {
+  const v2 = await getDb()
+    .prepare("SELECT 1 FROM fare_leg_rules WHERE feed_version_id = ? LIMIT 1")
+    .bind(feedVersionId)
+    .first();
+  if (v2) return null;
+  const tables = await getLegacyFareTables(feedVersionId);
+  return tables ? summarizeRouteFares(routeId, tables) : null;
+}
+
+// Service alerts currently in effect for a page's agency/routes/stops/trips,
+// with text in `language` (the rider's first preference) where the feed
+// translates it.
+export async function getServiceAlerts(
+  scope: AlertScope,
+  language = "en",
+): Promise<ServiceAlert[]> {
+  const agency = await getAgency(scope.agencyId);
+  if (!agency) return [];
+  const alerts = await getRealtimeServiceAlerts(
+    agency.feed_version_id,
+    language,
+  );
+  return selectServiceAlerts(alerts, scope, Math.floor(Date.now() / 1000));
+}
+
+// Vehicles of another agency can share the stripped id, so keep only those
+// whose prefix names this agency (or that carry no prefix at all).
+function isAgencyVehicle(vehicle: VehicleState, agencyId: string): boolean {
+  return vehicle.agencyId === null || vehicle.agencyId === agencyId;
+}
+
+// Vehicles on a route. Feeds that only identify the trip are matched through
+// `tripIds` (the route's upcoming trips, e.g. from its departures).
+export async function getRouteVehicles(
+  agencyId: string,
+  routeId: string,
+  tripIds: string[] = [],
+): Promise<VehicleState[]> {
+  const agency = await getAgency(agencyId);
+  if (!agency) return [];
+  const { byRoute, byTrip } = await getRealtimeVehiclePositions(
+    agency.feed_version_id,
+  );
+  const vehicles = new Set(byRoute.get(routeId));
+  for (const tripId of tripIds) {
+    const vehicle = byTrip.get(tripId);
+    if (vehicle && (vehicle.routeId === null || vehicle.routeId === routeId)) {
+      vehicles.add(vehicle);
+    }
+  }
+  return [...vehicles].filter((v) => isAgencyVehicle(v, agencyId));
+}
+
+export async function getTripVehicle(
+  agencyId: string,
+  tripId: string,
+): Promise<VehicleState | null> {
+  const agency = await getAgency(agencyId);
+  if (!agency) return null;
+  const { byTrip } = await getRealtimeVehiclePositions(agency.feed_version_id);
+  const vehicle = byTrip.get(tripId);
+  return vehicle && isAgencyVehicle(vehicle, agencyId) ? vehicle : null;
+}
+
+export interface ImportStatus {
+  sources: SourceStatus[];
+  recent_failures: ImportFailure[];
+}
+
+// Each feed source's live version and import history, for /status.
+export async function getImportStatus(): Promise<ImportStatus> {
+  const db = getDb();
+  const [sources, failures] = await Promise.all([
+    db.prepare(SOURCE_STATUS_QUERY).all<SourceStatusRow>(),
+    db.prepare(RECENT_FAILURES_QUERY).all<ImportFailure>(),
   ]);
-  return mergeDeparturesRealtime(result.results, rt);
+  return {
+    sources: sources.results.map(serializeSourceStatus),
+    recent_failures: failures.results,
+  };
 }
@@ -0,0 +1,512 @@
+// GTFS Fares v2 calculator: which fare products apply to a leg, and what a
+// sequence of legs costs once transfer rules are applied. Kept free of
+// "cloudflare:workers" imports so the matching rules are unit-testable with
+// vitest; src/db.ts reads the version's fare tables (all small) and the
+// legs' networks, areas and active timeframe services with the builders
+// below, then calls calculateFares.
+//
+// Matching follows the Fares v2 spec. A fare_leg_rules field left empty is a
+// fallback: it only matches when no rule names the leg's own network, area
+// or timeframe. Feeds that set rule_priority anywhere instead treat empty
+// fields as wildcards and keep only the highest-priority matches.
+
+import {
+  serviceDayParams,
+  serviceDayPredicate,
+  validateDayColumn,
+  type SqlQuery,
+} from "./db-queries";
+import type { ServiceDayFilter } from "./service-day";
+
+export interface FareProduct {
+  fare_product_id: string;
+  fare_product_name: string | null;
+  // Null products apply to every rider category / fare media.
+  rider_category_id: string | null;
+  fare_media_id: string | null;
+  amount: number;
+  currency: string;
+}
+
+export interface FareLegRule {
+  leg_group_id: string | null;
+  network_id: string | null;
+  from_area_id: string | null;
+  to_area_id: string | null;
+  from_timeframe_group_id: string | null;
+  to_timeframe_group_id: string | null;
+  fare_product_id: string;
+  rule_priority: number | null;
+}
+
+export interface FareTransferRule {
+  from_leg_group_id: string | null;
+  to_leg_group_id: string | null;
+  // Transfers allowed in a row within one leg group; -1 or null = no limit.
+  transfer_count: number | null;
+  // Seconds, measured per duration_limit_type from the first leg the
+  // transfer chain started on.
+  duration_limit: number | null;
+  duration_limit_type: number | null;
+  // 0 = A + AB, 1 = A + AB + B, 2 = AB.
+  fare_transfer_type: number;
+  fare_product_id: string | null;
+}
+
+export interface Timeframe {
+  timeframe_group_id: string;
+  // Seconds after midnight; null for the whole day.
+  start_time: number | null;
+  end_time: number | null;
+  service_id: string;
+}
+
+export interface FareTables {
+  legRules: FareLegRule[];
+  products: FareProduct[];
+  transferRules: FareTransferRule[];
+  timeframes: Timeframe[];
+}
+
+// One ride between two stops, described the way fare rules see it.
+export interface FareLeg {
+  network_ids: string[];
+  from_area_ids: string[];
+  to_area_ids: string[];
+  // Seconds from the leg's service day start.
+  departure_time: number;
+  arrival_time: number;
+  // Services running on the leg's service day, for timeframes.
+  active_service_ids: ReadonlySet<string>;
+}
+
+// A way to pay for the whole journey: one rider category with one fare
+// media.
+export interface FareOption {
+  rider_category_id: string | null;
+  fare_media_id: string | null;
+  amount: number;
+  currency: string;
+  // Products paid for, legs and transfers in order.
+  fare_product_ids: string[];
+}
+
+export interface MatchedLegFare {
+  leg_group_id: string | null;
+  product: FareProduct;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+function inTimeframe(
+  groupId: string,
+  seconds: number,
+  leg: FareLeg,
+  timeframes: Timeframe[],
+): boolean {
+  const timeOfDay = ((seconds % DAY_SECONDS) + DAY_SECONDS) % DAY_SECONDS;
+  return timeframes.some(
+    (tf) =>
+      tf.timeframe_group_id === groupId &&
+      leg.active_service_ids.has(tf.service_id) &&
+      (tf.start_time ?? 0) <= timeOfDay &&
+      timeOfDay < (tf.end_time ?? DAY_SECONDS),
+  );
+}
+
+// Narrows `rules` on one field: rules naming a value the leg has, or, when
+// there are none, rules leaving the field empty.
+function filterField<T>(
+  rules: T[],
+  value: (rule: T) => string | null,
+  matches: (id: string) => boolean,
+  wildcard: boolean,
+): T[] {
+  const exact = rules.filter((rule) => {
+    const id = value(rule);
+    return id !== null && matches(id);
+  });
+  const empty = rules.filter((rule) => value(rule) === null);
+  if (wildcard) return [...exact, ...empty];
+  return exact.length > 0 ? exact : empty;
+}
+
+/**
+ * The fare products a leg can be paid with, each with the leg group its
+ * rule puts the leg in. Empty when no rule covers the leg.
+ */
+export function matchFareLegRules(
+  leg: FareLeg,
+  tables: FareTables,
+): MatchedLegFare[] {
+  const prioritized = tables.legRules.some((r) => r.rule_priority !== null);
+
+  let rules = tables.legRules;
+  rules = filterField(
+    rules,
+    (r) => r.network_id,
+    (id) => leg.network_ids.includes(id),
+    prioritized,
+  );
+  rules = filterField(
+    rules,
+    (r) => r.from_area_id,
+    (id) => leg.from_area_ids.includes(id),
+    prioritized,
+  );
+  rules = filterField(
+    rules,
+    (r) => r.to_area_id,
+    (id) => leg.to_area_ids.includes(id),
+    prioritized,
+  );
+  rules = filterField(
+    rules,
+    (r) => r.from_timeframe_group_id,
+    (id) => inTimeframe(id, leg.departure_time, leg, tables.timeframes),
+    prioritized,
+  );
+  rules = filterField(
+    rules,
+    (r) => r.to_timeframe_group_id,
+    (id) => inTimeframe(id, leg.arrival_time, leg, tables.timeframes),
+    prioritized,
+  );
+
+  if (prioritized && rules.length > 0) {
+    const top = Math.max(...rules.map((r) => r.rule_priority ?? 0));
+    rules = rules.filter((r) => (r.rule_priority ?? 0) === top);
+  }
+
+  return rules.flatMap((rule) =>
+    tables.products
+      .filter((p) => p.fare_product_id === rule.fare_product_id)
+      .map((product) => ({ leg_group_id: rule.leg_group_id, product })),
+  );
+}
+
+function appliesTo(
+  product: FareProduct,
+  riderCategoryId: string | null,
+  fareMediaId: string | null,
+): boolean {
+  return (
+    (product.rider_category_id === null ||
+      product.rider_category_id === riderCategoryId) &&
+    (product.fare_media_id === null || product.fare_media_id === fareMediaId)
+  );
+}
+
+function cheapest<T extends { product: FareProduct }>(
+  candidates: T[],
+  riderCategoryId: string | null,
+  fareMediaId: string | null,
+  currency: string | null,
+): T | null {
+  let best: T | null = null;
+  for (const candidate of candidates) {
+    const { product } = candidate;
+    if (!appliesTo(product, riderCategoryId, fareMediaId)) continue;
+    if (currency !== null && product.currency !== currency) continue;
+    if (best === null || product.amount < best.product.amount) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+// Seconds a transfer's duration_limit is measured over, from the leg the
+// chain started on to the leg being transferred to.
+function transferDuration(
+  type: number | null,
+  from: FareLeg,
+  to: FareLeg,
+): number {
+  switch (type) {
+    case 1:
+      return to.departure_time - from.departure_time;
+    case 2:
+      return to.departure_time - from.arrival_time;
+    case 3:
+      return to.arrival_time - from.arrival_time;
+    default:
+      return to.arrival_time - from.departure_time;
+  }
+}
+
+/**
+ * Prices a journey for every rider category / fare media combination that
+ * some leg's products mention. Each leg is paid with its cheapest applicable
+ * product; between legs, the cheapest applicable transfer rule (matched on
+ * leg groups with the same empty-field fallback as leg rules, and within its
+ * duration and count limits) replaces the next leg's fare. Combinations
+ * that cannot pay for every leg, or would mix currencies, are left out.
+ */
+export function calculateFares(
+  legs: FareLeg[],
+  tables: FareTables,
+): FareOption[] {
+  if (legs.length === 0) return [];
+  const matched = legs.map((leg) => matchFareLegRules(leg, tables));
+  if (matched.some((m) => m.length === 0)) return [];
+
+  const transferProducts = new Map(
+    tables.products.map((p) => [p.fare_product_id, p]),
+  );
+
+  const combos = new Map<
+    string,
+    { riderCategoryId: string | null; fareMediaId: string | null }
+  >();
+  for (const { product } of matched.flat()) {
+    const key = `${product.rider_category_id ?? ""}\u0000${product.fare_media_id ?? ""}`;
+    combos.set(key, {
+      riderCategoryId: product.rider_category_id,
+      fareMediaId: product.fare_media_id,
+    });
+  }
+
+  const options: FareOption[] = [];
+  for (const { riderCategoryId, fareMediaId } of combos.values()) {
+    let currency: string | null = null;
+    let amount = 0;
+    const productIds: string[] = [];
+    let chainStart = 0;
+    let chainLength = 0;
+    let previous: MatchedLegFare | null = null;
+    let feasible = true;
+
+    for (let i = 0; i < legs.length; i++) {
+      const legFare: MatchedLegFare | null = cheapest(
+        matched[i],
+        riderCategoryId,
+        fareMediaId,
+        currency,
+      );
+      if (!legFare) {
+        feasible = false;
+        break;
+      }
+      currency ??= legFare.product.currency;
+
+      // The transfer, if any, with the smallest increment over the fare so
+      // far.
+      let transfer: {
+        increment: number;
+        productId: string | null;
+      } | null = null;
+      if (previous) {
+        const prevGroup = previous.leg_group_id;
+        const candidates = filterField(
+          filterField(
+            tables.transferRules,
+            (r) => r.from_leg_group_id,
+            (id) => id === prevGroup,
+            false,
+          ),
+          (r) => r.to_leg_group_id,
+          (id) => id === legFare.leg_group_id,
+          false,
+        );
+        for (const rule of candidates) {
+          const sameGroup =
+            rule.from_leg_group_id !== null &&
+            rule.from_leg_group_id === rule.to_leg_group_id;
+          if (
+            sameGroup &&
+            rule.transfer_count !== null &&
+            rule.transfer_count !== -1 &&
+            chainLength >= rule.transfer_count
+          ) {
+            continue;
+          }
+          if (
+            rule.duration_limit !== null &&
+            transferDuration(
+              rule.duration_limit_type,
+              legs[chainStart],
+              legs[i],
+            ) > rule.duration_limit
+          ) {
+            continue;
+          }
+          let ab = 0;
+          if (rule.fare_product_id !== null) {
+            const product = transferProducts.get(rule.fare_product_id);
+            if (
+              !product ||
+              product.currency !== currency ||
+              !appliesTo(product, riderCategoryId, fareMediaId)
+            ) {
+              continue;
+            }
+            ab = product.amount;
+          }
+          const increment =
+            rule.fare_transfer_type === 1
+              ? ab + legFare.product.amount
+              : rule.fare_transfer_type === 2
+                ? ab - previous.product.amount
+                : ab;
+          if (transfer === null || increment < transfer.increment) {
+            transfer = { increment, productId: rule.fare_product_id };
+          }
+        }
+      }
+
+      if (transfer) {
+        amount += transfer.increment;
+        if (transfer.productId !== null) productIds.push(transfer.productId);
+        chainLength++;
+      } else {
+        amount += legFare.product.amount;
+        productIds.push(legFare.product.fare_product_id);
+        chainStart = i;
+        chainLength = 0;
+      }
+      previous = legFare;
+    }
+
+    if (feasible && currency !== null) {
+      options.push({
+        rider_category_id: riderCategoryId,
+        fare_media_id: fareMediaId,
+        amount: Math.round(amount * 100) / 100,
+        currency,
+        fare_product_ids: productIds,
+      });
+    }
+  }
+
+  return options.sort(
+    (a, b) =>
+      (a.rider_category_id ?? "").localeCompare(b.rider_category_id ?? "") ||
+      a.amount - b.amount,
+  );
+}
+
+// 2.5, "USD" -> "$2.50"
+export function formatFareAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).format(amount);
+  } catch {
+    // Feeds occasionally carry a currency code Intl does not know.
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+interface TimedStop {
+  arrival_time: number | null;
+  departure_time: number | null;
+  start_pickup_drop_off_window: number | null;
+  end_pickup_drop_off_window: number | null;
+}
+
+// A ride's times from its boarding and alighting stop times, using the
+// pickup/drop-off windows of on-demand stops, which have no times.
+export function fareLegTimes(
+  from: TimedStop,
+  to: TimedStop,
+): Pick<FareLeg, "departure_time" | "arrival_time"> {
+  return {
+    departure_time:
+      from.departure_time ??
+      from.arrival_time ??
+      from.start_pickup_drop_off_window ??
+      0,
+    arrival_time:
+      to.arrival_time ??
+      to.departure_time ??
+      to.end_pickup_drop_off_window ??
+      0,
+  };
+}
+
+// The version's fare tables, read whole: Fares v2 feeds describe fares with
+// a few hundred rules at most.
+export const FARE_LEG_RULES_QUERY = `
+    SELECT leg_group_id, network_id, from_area_id, to_area_id,
+           from_timeframe_group_id, to_timeframe_group_id, fare_product_id,
+           rule_priority
+    FROM fare_leg_rules WHERE feed_version_id = ?`;
+
+export const FARE_PRODUCTS_QUERY = `
+    SELECT fare_product_id, fare_product_name, rider_category_id,
+           fare_media_id, amount, currency
+    FROM fare_products WHERE feed_version_id = ?`;
+
+export const FARE_TRANSFER_RULES_QUERY = `
+    SELECT from_leg_group_id, to_leg_group_id, transfer_count,
+           duration_limit, duration_limit_type, fare_transfer_type,
+           fare_product_id
+    FROM fare_transfer_rules WHERE feed_version_id = ?`;
+
+export const TIMEFRAMES_QUERY = `
+    SELECT timeframe_group_id, start_time, end_time, service_id
+    FROM timeframes WHERE feed_version_id = ?`;
+
+export const RIDER_CATEGORIES_QUERY = `
+    SELECT rider_category_id, rider_category_name, is_default_fare_category
+    FROM rider_categories WHERE feed_version_id = ?`;
+
+export const FARE_MEDIA_QUERY = `
+    SELECT fare_media_id, fare_media_name, fare_media_type
+    FROM fare_media WHERE feed_version_id = ?`;
+
+// Networks of the given routes: routes.network_id and route_networks.txt.
+export function buildRouteNetworksQuery(
+  feedVersionId: number,
+  routeIds: string[],
+): SqlQuery {
+  const placeholders = routeIds.map(() => "?").join(",");
+  return {
+    sql: `
+    SELECT route_id, network_id FROM routes
+    WHERE feed_version_id = ? AND route_id IN (${placeholders})
+      AND network_id IS NOT NULL
+    UNION
+    SELECT route_id, network_id FROM route_networks
+    WHERE feed_version_id = ? AND route_id IN (${placeholders})`,
+    params: [feedVersionId, ...routeIds, feedVersionId, ...routeIds],
+  };
+}
+
+// Areas of the given stops, a platform also being in its station's areas.
+export function buildStopAreasQuery(
+  feedVersionId: number,
+  stopIds: string[],
+): SqlQuery {
+  const placeholders = stopIds.map(() => "?").join(",");
+  return {
+    sql: `
+    SELECT s.stop_id, sa.area_id
+    FROM stops s
+    LEFT JOIN stops p ON p.stop_pk = s.parent_station
+    JOIN stop_areas sa
+      ON sa.feed_version_id = s.feed_version_id
+     AND sa.stop_id IN (s.stop_id, p.stop_id)
+    WHERE s.feed_version_id = ? AND s.stop_id IN (${placeholders})`,
+    params: [feedVersionId, ...stopIds],
+  };
+}
+
+// Timeframe services running on the filter's service day. `t` is timeframes,
+// which carries the feed_version_id and service_id the calendar predicate
+// reads.
+export function buildTimeframeServicesQuery(
+  feedVersionId: number,
+  day: Pick<ServiceDayFilter, "todayNoon" | "todayColumn">,
+): SqlQuery {
+  validateDayColumn(day.todayColumn);
+  return {
+    sql: `
+    SELECT DISTINCT t.service_id
+    FROM timeframes t
+    WHERE t.feed_version_id = ?
+      AND ${serviceDayPredicate(day.todayColumn)}`,
+    params: [feedVersionId, ...serviceDayParams(day.todayNoon)],
+  };
+}
@@ -0,0 +1,245 @@
+// D1 reads and writes behind the admin API (app/api/admin). Version
+// selection and cleanup are the ones Import511Workflow runs daily
+// (src/feed-versions.ts), so an operator's rollback or removal follows the
+// same rules as the importer.
+
+import { env } from "cloudflare:workers";
+import {
+  FEED_SOURCE_COLUMNS,
+  type FeedSourceConfig,
+  makeWorkflowInstanceId,
+} from "./feed-sources";
+import {
+  activateFeedVersion,
+  chooseLiveVersion,
+  pinFeedVersion,
+  runCleanupPass,
+  type LiveVersionChoice,
+} from "./feed-versions";
+import type {
+  AdminSourceRow,
+  AdminVersionRow,
+  ValidationReportRow,
+} from "./lib/api/admin";
+
+// Writes go to the primary, so no read-replica session here.
+function getDb(): D1Database {
+  return (env as any).gtfs_data as D1Database;
+}
+
+const SOURCES_QUERY = `
+  SELECT fs.feed_source_id, fs.source_desc, fs.pinned_feed_version_id,
+         ${FEED_SOURCE_COLUMNS.map((c) => `fs.${c}`).join(", ")},
+         av.feed_version_id AS active_version_id,
+         av.version_label AS active_version_label,
+         lv.feed_version_id AS latest_version_id,
+         lv.date_added AS latest_date_added,
+         lv.imported_at AS latest_imported_at
+  FROM feed_source fs
+  LEFT JOIN feed_version av
+    ON av.feed_source_id = fs.feed_source_id AND av.is_active = 1
+  LEFT JOIN feed_version lv ON lv.feed_version_id = (
+    SELECT feed_version_id FROM feed_version
+    WHERE feed_source_id = fs.feed_source_id
+    ORDER BY date_added DESC, feed_version_id DESC
+    LIMIT 1
+  )`;
+
+// Versions with their validation outcome, if validated.
+const VERSIONS_QUERY = `
+  SELECT fv.feed_version_id, fv.version_label, fv.date_added, fv.imported_at,
+         fv.is_active, fv.deactivated_at, fv.feed_start_date, fv.feed_end_date,
+         v.error_count AS validation_error_count,
+         v.warning_count AS validation_warning_count,
+         v.blocked AS validation_blocked
+  FROM feed_version fv
+  LEFT JOIN feed_validation v ON v.feed_version_id = fv.feed_version_id`;
+
+export async function listFeedSources(): Promise<AdminSourceRow[]> {
+  const result = await getDb()
+    .prepare(`${SOURCES_QUERY} ORDER BY fs.source_name`)
+    .all<AdminSourceRow>();
+  return result.results;
+}
+
+export async function getFeedSource(
+  sourceName: string,
+): Promise<AdminSourceRow | null> {
+  return await getDb()
+    .prepare(`${SOURCES_QUERY} WHERE fs.source_name = ?`)
+    .bind(sourceName)
+    .first<AdminSourceRow>();
+}
+
+// Newest first.
+export async function getFeedVersions(
+  feedSourceId: number,
+): Promise<AdminVersionRow[]> {
+  const result = await getDb()
+    .prepare(
+      `${VERSIONS_QUERY}
+       WHERE fv.feed_source_id = ?
+       ORDER BY fv.date_added DESC, fv.feed_version_id DESC`,
+    )
+    .bind(feedSourceId)
+    .all<AdminVersionRow>();
+  return result.results;
+}
+
+export async function getFeedVersion(
+  feedSourceId: number,
+  feedVersionId: number,
+): Promise<AdminVersionRow | null> {
+  return await getDb()
+    .prepare(
+      `${VERSIONS_QUERY}
+       WHERE fv.feed_source_id = ? AND fv.feed_version_id = ?`,
+    )
+    .bind(feedSourceId, feedVersionId)
+    .first<AdminVersionRow>();
+}
+
+// The version a rollback returns to by default: the fully imported version
+// that was live most recently before the current one.
+export async function getRollbackTarget(
+  feedSourceId: number,
+): Promise<AdminVersionRow | null> {
+  return await getDb()
+    .prepare(
+      `${VERSIONS_QUERY}
+       WHERE fv.feed_source_id = ? AND fv.is_active = 0
+         AND fv.imported_at IS NOT NULL AND fv.deactivated_at IS NOT NULL
+       ORDER BY fv.deactivated_at DESC, fv.date_added DESC
+       LIMIT 1`,
+    )
+    .bind(feedSourceId)
+    .first<AdminVersionRow>();
+}
+
+export async function getValidationReport(
+  feedVersionId: number,
+): Promise<ValidationReportRow | null> {
+  return await getDb()
+    .prepare(
+      `SELECT feed_version_id, validated_at, error_count, warning_count,
+              blocked, issues
+       FROM feed_validation WHERE feed_version_id = ?`,
+    )
+    .bind(feedVersionId)
+    .first<ValidationReportRow>();
+}
+
+// Returns false when a source of that name already exists.
+export async function addFeedSource(
+  source: FeedSourceConfig,
+): Promise<boolean> {
+  const result = await getDb()
+    .prepare(
+      `INSERT INTO feed_source (${FEED_SOURCE_COLUMNS.join(", ")})
+       VALUES (${FEED_SOURCE_COLUMNS.map(() => "?").join(", ")})
+       ON CONFLICT(source_name) DO NOTHING
+       RETURNING feed_source_id`,
+    )
+    .bind(...FEED_SOURCE_COLUMNS.map((c) => source[c]))
+    .all();
+  return result.results.length > 0;
+}
+
+// Starts an import run of the source, as the daily cron does; returns the
+// workflow instance id.
+export async function triggerFeedImport(sourceName: string): Promise<string> {
+  const id = makeWorkflowInstanceId(`manual-${sourceName}-`);
+  await (env as any).IMPORT_511_WORKFLOW.create({
+    id,
+    params: { id: sourceName },
+  });
+  return id;
+}
+
+// Makes an imported version live until the next selection.
+export async function forceActivateFeedVersion(
+  feedSourceId: number,
+  feedVersionId: number,
+): Promise<void> {
+  await activateFeedVersion(getDb(), feedSourceId, feedVersionId);
+}
+
+// Pins an imported version and makes it live, so later imports keep
+// serving it until the pin is cleared.
+export async function rollbackFeedVersion(
+  feedSourceId: number,
+  feedVersionId: number,
+): Promise<void> {
+  const db = getDb();
+  await pinFeedVersion(db, feedSourceId, feedVersionId);
+  await activateFeedVersion(db, feedSourceId, feedVersionId);
+}
+
+// Clears the source's pin and lets the importer's selection choose again.
+export async function unpinFeedVersion(
+  feedSourceId: number,
+): Promise<LiveVersionChoice> {
+  await pinFeedVersion(getDb(), feedSourceId, null);
+  return await reselectFeedVersion(feedSourceId);
+}
+
+// Re-runs the importer's selection and makes its choice live.
+export async function reselectFeedVersion(
+  feedSourceId: number,
+): Promise<LiveVersionChoice> {
+  const db = getDb();
+  const choice = await chooseLiveVersion(db, feedSourceId);
+  if (choice.chosen !== null) {
+    await activateFeedVersion(db, feedSourceId, choice.chosen);
+  }
+  return choice;
+}
+
+/**
+ * Takes the source off the site at once and deletes one bounded cleanup
+ * pass of its versions' data. Returns done=false while data remains, so
+ * callers repeat; the source row goes with its last version.
+ */
+export async function removeFeedSource(
+  feedSourceId: number,
+): Promise<{ done: boolean; rowsDeleted: number }> {
+  const db = getDb();
+  // The pin references a version, so it goes before the versions do.
+  await pinFeedVersion(db, feedSourceId, null);
+  await db
+    .prepare(
+      "UPDATE feed_version SET is_active = 0, deactivated_at = COALESCE(deactivated_at, unixepoch()) WHERE feed_source_id = ? AND is_active = 1",
+    )
+    .bind(feedSourceId)
+    .run();
+
+  // Newest first, so versions sharing an older one's rows release them
+  // before it is cleaned.
+  const versions = await db
+    .prepare(
+      "SELECT feed_version_id FROM feed_version WHERE feed_source_id = ? ORDER BY feed_version_id DESC",
+    )
+    .bind(feedSourceId)
+    .all<{ feed_version_id: number }>();
+  let rowsDeleted = 0;
+  for (const { feed_version_id } of versions.results) {
+    const pass = await runCleanupPass(db, feed_version_id);
+    rowsDeleted += pass.rowsDeleted;
+    if (!pass.done) return { done: false, rowsDeleted };
+  }
+  const remaining = await db
+    .prepare("SELECT 1 AS found FROM feed_version WHERE feed_source_id = ?")
+    .bind(feedSourceId)
+    .first<{ found: number }>();
+  if (remaining) return { done: false, rowsDeleted };
+
+  await db.batch([
+    db
+      .prepare("DELETE FROM feed_health WHERE feed_source_id = ?")
+      .bind(feedSourceId),
+    db
+      .prepare("DELETE FROM feed_source WHERE feed_source_id = ?")
+      .bind(feedSourceId),
+  ]);
+  return { done: true, rowsDeleted };
+}
@@ -0,0 +1,111 @@
+// File-level diffs between a source's feed versions. Import511Workflow
+// hashes every file of a zip it stages, stores the hashes with the new
+// version (feed_version_files, migration 0028) and compares them with the
+// live version's: each import logs which GTFS files changed, and skips
+// parsing stop_times.txt and shapes.txt when they did not change (their rows
+// are shared with the live version, see src/timetable-diff.ts).
+
+export interface FeedFile {
+  // Lower-cased, as staged in R2.
+  file_name: string;
+  sha256: string;
+  size: number;
+}
+
+export interface FeedFileDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+  unchanged: string[];
+}
+
+export async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** Which files differ between `base` and `next`, each list sorted by name. */
+export function diffFeedFiles(
+  base: FeedFile[],
+  next: FeedFile[],
+): FeedFileDiff {
+  const baseHashes = new Map(base.map((f) => [f.file_name, f.sha256]));
+  const nextNames = new Set(next.map((f) => f.file_name));
+  const diff: FeedFileDiff = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: [],
+  };
+  for (const file of next) {
+    const hash = baseHashes.get(file.file_name);
+    if (hash === undefined) diff.added.push(file.file_name);
+    else if (hash === file.sha256) diff.unchanged.push(file.file_name);
+    else diff.changed.push(file.file_name);
+  }
+  for (const name of baseHashes.keys()) {
+    if (!nextNames.has(name)) diff.removed.push(name);
+  }
+  for (const list of Object.values(diff)) list.sort();
+  return diff;
+}
+
+export function describeFeedDiff(diff: FeedFileDiff): string {
+  const parts = [
+    diff.changed.length && `changed ${diff.changed.join(", ")}`,
+    diff.added.length && `added ${diff.added.join(", ")}`,
+    diff.removed.length && `removed ${diff.removed.join(", ")}`,
+  ].filter(Boolean);
+  const unchanged = `${diff.unchanged.length} file(s) unchanged`;
+  return parts.length ? `${parts.join("; ")}; ${unchanged}` : unchanged;
+}
+
+// Replaces any earlier rows, so a re-imported version keeps one set.
+export async function recordFeedVersionFiles(
+  db: D1Database,
+  feedVersionId: number,
+  files: FeedFile[],
+): Promise<void> {
+  const insert = db.prepare(
+    "INSERT INTO feed_version_files (feed_version_id, file_name, sha256, size) VALUES (?, ?, ?, ?)",
+  );
+  await db.batch([
+    db
+      .prepare("DELETE FROM feed_version_files WHERE feed_version_id = ?")
+      .bind(feedVersionId),
+    ...files.map((f) =>
+      insert.bind(feedVersionId, f.file_name, f.sha256, f.size),
+    ),
+  ]);
+}
+
+/**
+ * The files of the source's live version, or null when nothing is live or
+ * the live version was imported before file hashes were recorded.
+ */
+export async function getLiveVersionFiles(
+  db: D1Database,
+  feedSourceId: number,
+): Promise<{ feedVersionId: number; files: FeedFile[] } | null> {
+  const result = await db
+    .prepare(
+      `SELECT f.feed_version_id, f.file_name, f.sha256, f.size
+       FROM feed_version_files f
+       JOIN feed_version fv ON fv.feed_version_id = f.feed_version_id
+       WHERE fv.feed_source_id = ? AND fv.is_active = 1`,
+    )
+    .bind(feedSourceId)
+    .all<FeedFile & { feed_version_id: number }>();
+  const rows = result.results || [];
+  if (!rows.length) return null;
+  return {
+    feedVersionId: rows[0].feed_version_id,
+    files: rows.map(({ file_name, sha256, size }) => ({
+      file_name,
+      sha256,
+      size,
+    })),
+  };
+}
@@ -0,0 +1,363 @@
+// Feed health checks: service coverage that is about to run out, dates with
+// no service at all, and feeds that have stopped changing. chooseActiveVersion
+// falls back to the newest version when nothing covers today, and the site
+// then quietly shows no departures; these checks say so ahead of time.
+//
+// Import511Workflow runs checkFeedHealth after every import and the daily
+// cron runs it for every source. Results land in feed_health (migration
+// 0026) for /status, and warnings not reported before are posted to the
+// HEALTH_WEBHOOK_URL secret when it is set. The assessment itself is pure,
+// so it is unit-testable with vitest.
+
+import { DateTime } from "luxon";
+import { UNBLOCKED_VERSION_FILTER, dayColumnFor } from "./activation-queries";
+import type { DAY_COLUMNS } from "./db-queries";
+import { resolveSourceTimezone } from "./feed-versions";
+
+// Warn when the last day of scheduled service is closer than this.
+export const EXPIRY_WARNING_DAYS = 14;
+// How far ahead dates with no service at all are reported.
+export const SERVICE_GAP_LOOKAHEAD_DAYS = 28;
+// Warn when a source's zip has not changed for this long.
+export const STALE_FEED_DAYS = 28;
+// Coverage is scanned at most this far ahead; feeds rarely publish further.
+const MAX_COVERAGE_SCAN_DAYS = 400;
+// Gap dates spelled out in a warning message.
+const MAX_LISTED_GAP_DATES = 5;
+
+export type CalendarServiceRow = {
+  feed_version_id: number;
+  service_id: string;
+  start_date: number;
+  end_date: number;
+} & Record<(typeof DAY_COLUMNS)[number], number>;
+
+export interface CalendarDateRow {
+  feed_version_id: number;
+  service_id: string;
+  date: number;
+  exception_type: number;
+}
+
+export interface ServiceCoverage {
+  // Last date (ISO) from today on with any service; null when none is left.
+  lastServiceDate: string | null;
+  // Dates before lastServiceDate, within the lookahead, with no service.
+  gapDates: string[];
+}
+
+/**
+ * Which upcoming dates have service in any of the given versions' calendars.
+ * Versions are combined because selection serves whichever servable version
+ * covers the day, so a version ending is only a problem when no other one
+ * takes over. Dates are compared as noon in `today`'s zone, the convention
+ * the importer stores calendar dates in.
+ */
+export function assessServiceCoverage(
+  calendars: CalendarServiceRow[],
+  calendarDates: CalendarDateRow[],
+  today: DateTime,
+  lookaheadDays = SERVICE_GAP_LOOKAHEAD_DAYS,
+): ServiceCoverage {
+  const added = new Set<number>();
+  const removed = new Set<string>();
+  let lastPossible = 0;
+  for (const cd of calendarDates) {
+    if (cd.exception_type === 1) {
+      added.add(cd.date);
+      lastPossible = Math.max(lastPossible, cd.date);
+    } else if (cd.exception_type === 2) {
+      removed.add(`${cd.feed_version_id}:${cd.service_id}:${cd.date}`);
+    }
+  }
+  for (const c of calendars) lastPossible = Math.max(lastPossible, c.end_date);
+
+  const runsOn = (noon: number, column: (typeof DAY_COLUMNS)[number]) =>
+    added.has(noon) ||
+    calendars.some(
+      (c) =>
+        c.start_date <= noon &&
+        c.end_date >= noon &&
+        c[column] === 1 &&
+        !removed.has(`${c.feed_version_id}:${c.service_id}:${noon}`),
+    );
+
+  const start = today.startOf("day").set({ hour: 12 });
+  let lastServiceDate: string | null = null;
+  const gaps: string[] = [];
+  for (let i = 0; i < MAX_COVERAGE_SCAN_DAYS; i++) {
+    const day = start.plus({ days: i });
+    const noon = Math.floor(day.toSeconds());
+    if (noon > lastPossible) break;
+    const column = dayColumnFor(day.weekday) as (typeof DAY_COLUMNS)[number];
+    if (runsOn(noon, column)) {
+      lastServiceDate = day.toISODate();
+    } else if (i < lookaheadDays) {
+      gaps.push(day.toISODate()!);
+    }
+  }
+
+  // Dates after the last service are the feed ending, reported as expiry.
+  return {
+    lastServiceDate,
+    gapDates:
+      lastServiceDate === null
+        ? []
+        : gaps.filter((date) => date < lastServiceDate),
+  };
+}
+
+export type FeedHealthKind =
+  | "no_active_version"
+  | "expired"
+  | "expiring"
+  | "service_gap"
+  | "stale";
+
+export interface FeedHealthWarning {
+  kind: FeedHealthKind;
+  // The date the warning is about (ISO): the last service date, the first
+  // date without service, or the last time the zip changed.
+  date: string | null;
+  message: string;
+}
+
+export interface FeedHealthInput {
+  today: DateTime;
+  hasActiveVersion: boolean;
+  coverage: ServiceCoverage;
+  // date_added of the source's newest version, in epoch seconds.
+  lastChangedAt: number | null;
+}
+
+function plural(n: number, unit: string): string {
+  return `${n} ${unit}${n === 1 ? "" : "s"}`;
+}
+
+export function assessFeedHealth(input: FeedHealthInput): FeedHealthWarning[] {
+  const { today, hasActiveVersion, coverage, lastChangedAt } = input;
+  if (!hasActiveVersion) {
+    return [
+      {
+        kind: "no_active_version",
+        date: null,
+        message: "No imported version is live",
+      },
+    ];
+  }
+
+  const warnings: FeedHealthWarning[] = [];
+  const todayDate = today.startOf("day");
+
+  if (coverage.lastServiceDate === null) {
+    warnings.push({
+      kind: "expired",
+      date: null,
+      message: "No service is scheduled today or later",
+    });
+  } else {
+    const last = DateTime.fromISO(coverage.lastServiceDate, {
+      zone: today.zone,
+    });
+    const daysLeft = Math.round(last.diff(todayDate, "days").days);
+    if (daysLeft < EXPIRY_WARNING_DAYS) {
+      warnings.push({
+        kind: "expiring",
+        date: coverage.lastServiceDate,
+        message: `Scheduled service ends ${coverage.lastServiceDate} (${plural(daysLeft, "day")} from today)`,
+      });
+    }
+  }
+
+  if (coverage.gapDates.length) {
+    const listed = coverage.gapDates.slice(0, MAX_LISTED_GAP_DATES).join(", ");
+    const more = coverage.gapDates.length - MAX_LISTED_GAP_DATES;
+    warnings.push({
+      kind: "service_gap",
+      date: coverage.gapDates[0],
+      message: `No service on ${listed}${more > 0 ? ` and ${more} more` : ""}`,
+    });
+  }
+
+  if (lastChangedAt !== null) {
+    const changed = DateTime.fromSeconds(lastChangedAt, { zone: today.zone });
+    const days = Math.floor(today.diff(changed, "days").days);
+    if (days >= STALE_FEED_DAYS) {
+      warnings.push({
+        kind: "stale",
+        date: changed.toISODate(),
+        message: `Feed zip unchanged since ${changed.toISODate()} (${plural(days, "day")})`,
+      });
+    }
+  }
+
+  return warnings;
+}
+
+// Identifies a warning across checks: messages count days down, but the
+// date a warning is about stays put until the situation changes.
+export function warningKey(warning: FeedHealthWarning): string {
+  return `${warning.kind}:${warning.date ?? ""}`;
+}
+
+export function buildHealthWebhookPayload(
+  sourceName: string,
+  fresh: FeedHealthWarning[],
+  warnings: FeedHealthWarning[],
+) {
+  return {
+    // Chat webhooks (Slack and compatible) display `text`.
+    text: `Feed health for ${sourceName}: ${fresh.map((w) => w.message).join("; ")}`,
+    source_name: sourceName,
+    new_warnings: fresh,
+    warnings,
+  };
+}
+
+const HEALTH_CALENDAR_QUERY = `
+  SELECT c.feed_version_id, c.service_id, c.monday, c.tuesday, c.wednesday,
+         c.thursday, c.friday, c.saturday, c.sunday, c.start_date, c.end_date
+  FROM calendar c
+  JOIN feed_version fv ON fv.feed_version_id = c.feed_version_id
+  WHERE fv.feed_source_id = ?1 AND fv.imported_at IS NOT NULL
+    AND c.end_date >= ?2
+    AND ${UNBLOCKED_VERSION_FILTER}`;
+
+const HEALTH_CALENDAR_DATES_QUERY = `
+  SELECT cd.feed_version_id, cd.service_id, cd.date, cd.exception_type
+  FROM calendar_dates cd
+  JOIN feed_version fv ON fv.feed_version_id = cd.feed_version_id
+  WHERE fv.feed_source_id = ?1 AND fv.imported_at IS NOT NULL
+    AND cd.date >= ?2
+    AND ${UNBLOCKED_VERSION_FILTER}`;
+
+const HEALTH_SOURCE_QUERY = `
+  SELECT fs.source_name,
+         EXISTS (
+           SELECT 1 FROM feed_version
+           WHERE feed_source_id = fs.feed_source_id AND is_active = 1
+         ) AS has_active_version,
+         (SELECT MAX(date_added) FROM feed_version
+          WHERE feed_source_id = fs.feed_source_id) AS last_changed_at,
+         fh.checked_at, fh.notified_keys
+  FROM feed_source fs
+  LEFT JOIN feed_health fh ON fh.feed_source_id = fs.feed_source_id
+  WHERE fs.feed_source_id = ?`;
+
+// Stores a check's result only if no other check has stored one since this
+// check read feed_health (?4 checked_at, ?5 notified_keys as read), so of
+// two overlapping checks (the cron's and an import's) only one posts.
+const CLAIM_HEALTH_CHECK_SQL = `
+  INSERT INTO feed_health (feed_source_id, checked_at, warnings, notified_keys)
+  VALUES (?1, unixepoch(), ?2, ?3)
+  ON CONFLICT(feed_source_id) DO UPDATE SET
+    checked_at = excluded.checked_at,
+    warnings = excluded.warnings,
+    notified_keys = excluded.notified_keys
+  WHERE feed_health.checked_at IS ?4 AND feed_health.notified_keys IS ?5`;
+
+/**
+ * Checks one source, stores the result in feed_health and posts warnings
+ * that have not been reported yet to `webhookUrl`. The warnings are marked
+ * reported before the post, and only by the check that stores its result
+ * first. A failed post is logged, unmarked and retried by the next check
+ * rather than failing the caller.
+ */
+export async function checkFeedHealth(
+  db: D1Database,
+  feedSourceId: number,
+  webhookUrl?: string,
+): Promise<FeedHealthWarning[]> {
+  const source = await db
+    .prepare(HEALTH_SOURCE_QUERY)
+    .bind(feedSourceId)
+    .first<{
+      source_name: string;
+      has_active_version: number;
+      last_changed_at: number | null;
+      checked_at: number | null;
+      notified_keys: string | null;
+    }>();
+  if (!source) return [];
+
+  const timezone = await resolveSourceTimezone(db, feedSourceId);
+  let today = DateTime.now().setZone(timezone);
+  if (!today.isValid) today = DateTime.utc();
+  const todayNoon = Math.floor(
+    today.startOf("day").set({ hour: 12 }).toSeconds(),
+  );
+
+  const [calendars, calendarDates] = await Promise.all([
+    db
+      .prepare(HEALTH_CALENDAR_QUERY)
+      .bind(feedSourceId, todayNoon)
+      .all<CalendarServiceRow>(),
+    db
+      .prepare(HEALTH_CALENDAR_DATES_QUERY)
+      .bind(feedSourceId, todayNoon)
+      .all<CalendarDateRow>(),
+  ]);
+
+  const warnings = assessFeedHealth({
+    today,
+    hasActiveVersion: source.has_active_version === 1,
+    coverage: assessServiceCoverage(
+      calendars.results || [],
+      calendarDates.results || [],
+      today,
+    ),
+    lastChangedAt: source.last_changed_at,
+  });
+
+  const notified: string[] = JSON.parse(source.notified_keys ?? "[]");
+  const fresh = warnings.filter((w) => !notified.includes(warningKey(w)));
+  const stillNotified = notified.filter((key) =>
+    warnings.some((w) => warningKey(w) === key),
+  );
+  const posting = Boolean(webhookUrl && fresh.length);
+
+  const claim = await db
+    .prepare(CLAIM_HEALTH_CHECK_SQL)
+    .bind(
+      feedSourceId,
+      JSON.stringify(warnings),
+      JSON.stringify(posting ? warnings.map(warningKey) : stillNotified),
+      source.checked_at,
+      source.notified_keys,
+    )
+    .run();
+  if ((claim.meta.changes ?? 0) === 0) {
+    console.log(
+      `[health] ${source.source_name} was checked concurrently; not posting.`,
+    );
+    return warnings;
+  }
+
+  if (posting) {
+    try {
+      const response = await fetch(webhookUrl!, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          buildHealthWebhookPayload(source.source_name, fresh, warnings),
+        ),
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+    } catch (err) {
+      console.error(
+        `[health] Failed to post warnings for ${source.source_name}:`,
+        err,
+      );
+      await db
+        .prepare(
+          "UPDATE feed_health SET notified_keys = ?2 WHERE feed_source_id = ?1",
+        )
+        .bind(feedSourceId, JSON.stringify(stillNotified))
+        .run();
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,199 @@
+// Where each feed source's GTFS zip and GTFS-RT feeds come from. Kept free
+// of "cloudflare:workers" imports so URL resolution is unit-testable with
+// vitest; Import511Workflow resolves the static zip and src/realtime-feed.ts
+// the realtime endpoints.
+//
+// A source is either a 511.org operator (provider "511", source_name is the
+// operator id) or any GTFS zip URL (provider "url"). URLs and auth header
+// values may name Worker secrets as {SECRET_NAME}, so keys stay out of D1
+// and out of cache keys. Only feed secrets can be named: API_KEY_511 and
+// bindings prefixed FEED_SECRET_. Any other binding (ADMIN_API_TOKEN,
+// TRMNL_CLIENT_SECRET) would be sent to whatever host the source points at.
+
+export const FEED_PROVIDERS = ["511", "url"] as const;
+export type FeedProvider = (typeof FEED_PROVIDERS)[number];
+
+export type RealtimeFeed = "tripupdates" | "servicealerts" | "vehiclepositions";
+
+export interface FeedSourceConfig {
+  source_name: string;
+  provider: FeedProvider;
+  // The GTFS zip; 511 sources default to the operator's datafeed.
+  feed_url: string | null;
+  // JSON object of request headers sent with every fetch of the source.
+  auth_headers: string | null;
+  // GTFS-RT endpoints; 511 sources default to the regional (RG) feeds,
+  // other sources have no realtime unless set.
+  trip_updates_url: string | null;
+  service_alerts_url: string | null;
+  vehicle_positions_url: string | null;
+  // JSON [west, south, east, north]: where the source's stops should be.
+  // Validation warns about stops outside it (src/feed-validation.ts).
+  bounds: string | null;
+}
+
+export const FEED_SOURCE_COLUMNS = [
+  "source_name",
+  "provider",
+  "feed_url",
+  "auth_headers",
+  "trip_updates_url",
+  "service_alerts_url",
+  "vehicle_positions_url",
+  "bounds",
+] as const;
+
+export interface FeedRequest {
+  url: string;
+  headers: Record<string, string>;
+  // The URL and headers before secrets are filled in; safe to log and to
+  // key caches by.
+  cacheKey: string;
+}
+
+const SECRET_PATTERN = /\{([A-Z][A-Z0-9_]*)\}/g;
+
+const FEED_SECRET_PREFIX = "FEED_SECRET_";
+
+const REALTIME_URL_FIELDS: Record<
+  RealtimeFeed,
+  keyof Pick<
+    FeedSourceConfig,
+    "trip_updates_url" | "service_alerts_url" | "vehicle_positions_url"
+  >
+> = {
+  tripupdates: "trip_updates_url",
+  servicealerts: "service_alerts_url",
+  vehiclepositions: "vehicle_positions_url",
+};
+
+/** A source row for a 511 operator nobody has configured yet. */
+export function default511Source(operatorId: string): FeedSourceConfig {
+  return {
+    source_name: operatorId,
+    provider: "511",
+    feed_url: null,
+    auth_headers: null,
+    trip_updates_url: null,
+    service_alerts_url: null,
+    vehicle_positions_url: null,
+    bounds: null,
+  };
+}
+
+export function isFeedSecretName(name: string): boolean {
+  return name === "API_KEY_511" || name.startsWith(FEED_SECRET_PREFIX);
+}
+
+/** The {SECRET_NAME} placeholders in `template` that are not feed secrets. */
+export function disallowedSecretNames(template: string): string[] {
+  return Array.from(template.matchAll(SECRET_PATTERN), (m) => m[1]).filter(
+    (name) => !isFeedSecretName(name),
+  );
+}
+
+/** Fills {SECRET_NAME} placeholders from the Worker's feed secrets. */
+export function expandSecrets(
+  template: string,
+  secrets: Record<string, unknown>,
+): string {
+  return template.replace(SECRET_PATTERN, (_, name: string) => {
+    if (!isFeedSecretName(name)) {
+      throw new Error(
+        `${name} is not a feed secret; name API_KEY_511 or a ${FEED_SECRET_PREFIX}* binding`,
+      );
+    }
+    const value = secrets[name];
+    if (typeof value !== "string") {
+      throw new Error(`Feed secret ${name} is not configured`);
+    }
+    return value;
+  });
+}
+
+function parseAuthHeaders(source: FeedSourceConfig): Record<string, string> {
+  if (!source.auth_headers) return {};
+  const parsed: unknown = JSON.parse(source.auth_headers);
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    Array.isArray(parsed) ||
+    Object.values(parsed).some((v) => typeof v !== "string")
+  ) {
+    throw new Error(
+      `auth_headers of ${source.source_name} must be a JSON object of strings`,
+    );
+  }
+  return parsed as Record<string, string>;
+}
+
+function feedRequest(
+  source: FeedSourceConfig,
+  urlTemplate: string,
+  secrets: Record<string, unknown>,
+  extraHeaders: Record<string, string> = {},
+): FeedRequest {
+  const headerTemplates = { ...extraHeaders, ...parseAuthHeaders(source) };
+  return {
+    url: expandSecrets(urlTemplate, secrets),
+    headers: Object.fromEntries(
+      Object.entries(headerTemplates).map(([name, value]) => [
+        name,
+        expandSecrets(value, secrets),
+      ]),
+    ),
+    cacheKey: JSON.stringify([urlTemplate, headerTemplates]),
+  };
+}
+
+/** The request downloading the source's GTFS zip. */
+export function resolveStaticFeedRequest(
+  source: FeedSourceConfig,
+  secrets: Record<string, unknown>,
+): FeedRequest {
+  let url = source.feed_url;
+  if (!url && source.provider === "511") {
+    url = `https://api.511.org/transit/datafeeds?api_key={API_KEY_511}&operator_id=${encodeURIComponent(source.source_name)}`;
+  }
+  if (!url) {
+    throw new Error(`Feed source ${source.source_name} has no feed_url`);
+  }
+  return feedRequest(source, url, secrets, { Accept: "application/zip" });
+}
+
+/** The request for one of the source's GTFS-RT feeds, or null without one. */
+export function resolveRealtimeFeedRequest(
+  source: FeedSourceConfig,
+  feed: RealtimeFeed,
+  secrets: Record<string, unknown>,
+): FeedRequest | null {
+  let url = source[REALTIME_URL_FIELDS[feed]];
+  if (!url && source.provider === "511") {
+    url = `https://api.511.org/transit/${feed}?api_key={API_KEY_511}&agency=RG`;
+  }
+  return url ? feedRequest(source, url, secrets) : null;
+}
+
+// Workflow instance ids are padded to the maximum length so concurrent
+// triggers can never collide.
+export function makeWorkflowInstanceId(prefix: string): string {
+  const maxLen = 64;
+  const remaining = Math.max(0, maxLen - prefix.length);
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  let randomStr = "";
+  for (let i = 0; i < remaining; i++) {
+    randomStr += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return prefix + randomStr;
+}
+
+/**
+ * Content-addressed feed_version.version_label: re-importing an unchanged
+ * zip is a no-op. 511 sources keep their "511-{operator}-{sha256}" labels.
+ */
+export function feedVersionLabel(
+  source: Pick<FeedSourceConfig, "provider" | "source_name">,
+  hashHex: string,
+): string {
+  return `${source.provider}-${source.source_name}-${hashHex}`;
+}
@@ -0,0 +1,767 @@
+// Validation of a GTFS static feed as Import511Workflow imports it. The
+// importer itself is lenient: missing required columns become nulls, rows
+// naming an unknown trip or stop are skipped, duplicate keys are dropped by
+// ON CONFLICT, and times that aren't HH:MM:SS (like "25:61:00") are stored
+// as null. This pass reports all of that as a structured report stored per feed version
+// (feed_validation, migration 0027), and a version whose report reaches the
+// configured severity is never selected to be live.
+//
+// stops, trips and stop_times can be too large to hold in one workflow step,
+// so each of their import chunks is checked as it is read, with what earlier
+// chunks saw passed in (validateStopsChunk, validateTripsChunk,
+// validateStopTimesChunk). The other core files are small and are checked
+// whole in a step before activation. Like src/feed-health.ts, the one write
+// takes the database as a parameter and the checks are pure, so they are
+// unit-testable with vitest.
+
+import type { CsvRow } from "./csv-reader";
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  code: string;
+  severity: ValidationSeverity;
+  file: string;
+  count: number;
+  // A few offending rows, as `field=value` descriptions.
+  samples: string[];
+}
+
+export interface ValidationReport {
+  error_count: number;
+  warning_count: number;
+  issues: ValidationIssue[];
+}
+
+// The lowest severity that blocks activation, or "off" to only report.
+export const VALIDATION_THRESHOLDS = ["error", "warning", "off"] as const;
+export type ValidationThreshold = (typeof VALIDATION_THRESHOLDS)[number];
+export const DEFAULT_VALIDATION_THRESHOLD: ValidationThreshold = "error";
+
+const MAX_SAMPLES = 5;
+
+// GeoJSON bbox order: [west, south, east, north].
+export type Bounds = [number, number, number, number];
+const WORLD_BOUNDS: Bounds = [-180, -90, 180, 90];
+
+// One entry per file and code, so a feed with a million bad rows still
+// makes a small report.
+type IssueMap = Map<string, ValidationIssue>;
+
+function addIssue(
+  issues: IssueMap,
+  severity: ValidationSeverity,
+  code: string,
+  file: string,
+  sample: string,
+) {
+  const key = `${file}:${code}`;
+  const issue = issues.get(key);
+  if (issue) {
+    issue.count++;
+    if (issue.samples.length < MAX_SAMPLES) issue.samples.push(sample);
+  } else {
+    issues.set(key, { code, severity, file, count: 1, samples: [sample] });
+  }
+}
+
+/**
+ * Combines issue lists from separate steps (e.g. stop_times chunks),
+ * summing counts of the same file and code.
+ */
+export function mergeValidationIssues(
+  ...lists: ValidationIssue[][]
+): ValidationIssue[] {
+  const merged: IssueMap = new Map();
+  for (const list of lists) {
+    for (const issue of list) {
+      const key = `${issue.file}:${issue.code}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.count += issue.count;
+        existing.samples = [...existing.samples, ...issue.samples].slice(
+          0,
+          MAX_SAMPLES,
+        );
+      } else {
+        merged.set(key, { ...issue, samples: [...issue.samples] });
+      }
+    }
+  }
+  return [...merged.values()];
+}
+
+export function buildValidationReport(
+  issues: ValidationIssue[],
+): ValidationReport {
+  let errors = 0;
+  let warnings = 0;
+  for (const issue of issues) {
+    if (issue.severity === "error") errors += issue.count;
+    else warnings += issue.count;
+  }
+  // Errors first, then the most frequent.
+  const sorted = [...issues].sort(
+    (a, b) =>
+      (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1) ||
+      b.count - a.count,
+  );
+  return { error_count: errors, warning_count: warnings, issues: sorted };
+}
+
+export function parseValidationThreshold(raw: unknown): ValidationThreshold {
+  return VALIDATION_THRESHOLDS.includes(raw as ValidationThreshold)
+    ? (raw as ValidationThreshold)
+    : DEFAULT_VALIDATION_THRESHOLD;
+}
+
+export function blocksActivation(
+  report: ValidationReport,
+  threshold: ValidationThreshold,
+): boolean {
+  if (threshold === "off") return false;
+  if (threshold === "warning") {
+    return report.error_count + report.warning_count > 0;
+  }
+  return report.error_count > 0;
+}
+
+// feed_source.bounds: a JSON [west, south, east, north] array, or null.
+export function parseBounds(raw: string | null): Bounds | null {
+  if (!raw) return null;
+  try {
+    const value = JSON.parse(raw);
+    if (
+      Array.isArray(value) &&
+      value.length === 4 &&
+      value.every((n) => typeof n === "number" && Number.isFinite(n)) &&
+      value[0] < value[2] &&
+      value[1] < value[3]
+    ) {
+      return value as Bounds;
+    }
+  } catch {
+    // Fall through: an unreadable box checks nothing beyond the world's.
+  }
+  return null;
+}
+
+// HH:MM:SS with minutes and seconds below 60; hours may pass 24 for trips
+// running past midnight, and a single-digit hour is allowed. Anything else,
+// blank included, parses to null; the importer stores it that way.
+const GTFS_TIME_PATTERN = /^(\d{1,3}):([0-5]\d):([0-5]\d)$/;
+const GTFS_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+
+export function parseStrictGtfsTime(
+  value: string | undefined | null,
+): number | null {
+  if (!value) return null;
+  const match = GTFS_TIME_PATTERN.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+function isGtfsDate(value: string): boolean {
+  const match = GTFS_DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const date = new Date(
+    Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])),
+  );
+  return (
+    date.getUTCFullYear() === Number(match[1]) &&
+    date.getUTCMonth() === Number(match[2]) - 1 &&
+    date.getUTCDate() === Number(match[3])
+  );
+}
+
+const isBlank = (value: string | undefined) =>
+  value === undefined || value === "";
+
+// Required columns; a column missing from the header is reported once
+// rather than on every row.
+function checkRequired(
+  issues: IssueMap,
+  file: string,
+  rows: CsvRow[],
+  fields: string[],
+  describe: (row: CsvRow, index: number) => string,
+  applies: (row: CsvRow) => boolean = () => true,
+) {
+  if (!rows.length) return;
+  const present = fields.filter((field) => field in rows[0]);
+  for (const field of fields) {
+    if (!present.includes(field)) {
+      addIssue(issues, "error", "missing_column", file, field);
+    }
+  }
+  rows.forEach((row, i) => {
+    if (!applies(row)) return;
+    for (const field of present) {
+      if (isBlank(row[field])) {
+        addIssue(
+          issues,
+          "error",
+          "missing_required_field",
+          file,
+          `${describe(row, i)}: ${field}`,
+        );
+      }
+    }
+  });
+}
+
+// Collects key values, reporting repeats.
+function checkUnique(
+  issues: IssueMap,
+  file: string,
+  rows: CsvRow[],
+  keyOf: (row: CsvRow) => string | null,
+): Set<string> {
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (key === null) continue;
+    if (seen.has(key)) {
+      addIssue(issues, "error", "duplicate_key", file, key);
+    }
+    seen.add(key);
+  }
+  return seen;
+}
+
+const line = (i: number) => `line ${i + 2}`;
+
+// The core files that are small enough to check whole.
+export interface StaticFeedFiles {
+  agency: CsvRow[];
+  routes: CsvRow[];
+  calendar: CsvRow[];
+  calendar_dates: CsvRow[];
+}
+
+// Whether the chunked files had any rows.
+export interface StaticValidationOptions {
+  hasStops: boolean;
+  hasTrips: boolean;
+  hasStopTimes: boolean;
+}
+
+/**
+ * Required files, then required fields, duplicate keys, references and
+ * dates in agency, routes and the calendar files.
+ */
+export function validateStaticFiles(
+  files: StaticFeedFiles,
+  options: StaticValidationOptions,
+): ValidationIssue[] {
+  const issues: IssueMap = new Map();
+  const { agency, routes, calendar } = files;
+  const calendarDates = files.calendar_dates;
+
+  for (const [file, present] of [
+    ["agency.txt", agency.length > 0],
+    ["stops.txt", options.hasStops],
+    ["routes.txt", routes.length > 0],
+    ["trips.txt", options.hasTrips],
+    ["stop_times.txt", options.hasStopTimes],
+  ] as const) {
+    if (!present) addIssue(issues, "error", "missing_file", file, file);
+  }
+  if (!calendar.length && !calendarDates.length) {
+    addIssue(
+      issues,
+      "error",
+      "missing_file",
+      "calendar.txt",
+      "calendar.txt or calendar_dates.txt",
+    );
+  }
+
+  // agency.txt
+  checkRequired(
+    issues,
+    "agency.txt",
+    agency,
+    ["agency_name", "agency_url", "agency_timezone"],
+    (row, i) => row.agency_id || line(i),
+  );
+  const agencyIds = checkUnique(issues, "agency.txt", agency, (row) =>
+    isBlank(row.agency_id) ? null : row.agency_id,
+  );
+
+  // routes.txt
+  checkRequired(
+    issues,
+    "routes.txt",
+    routes,
+    ["route_id", "route_type"],
+    (row, i) => (row.route_id ? `route_id=${row.route_id}` : line(i)),
+  );
+  checkUnique(issues, "routes.txt", routes, (row) =>
+    isBlank(row.route_id) ? null : row.route_id,
+  );
+  for (const row of routes) {
+    if (isBlank(row.route_short_name) && isBlank(row.route_long_name)) {
+      addIssue(
+        issues,
+        "error",
+        "missing_required_field",
+        "routes.txt",
+        `route_id=${row.route_id}: route_short_name or route_long_name`,
+      );
+    }
+    if (
+      !isBlank(row.agency_id) &&
+      agencyIds.size &&
+      !agencyIds.has(row.agency_id)
+    ) {
+      addIssue(
+        issues,
+        "error",
+        "unknown_reference",
+        "routes.txt",
+        `route_id=${row.route_id}: agency_id=${row.agency_id}`,
+      );
+    }
+  }
+
+  // calendar.txt and calendar_dates.txt
+  const days = [
+    "monday",
+    "tuesday",
+    "wednesday",
+    "thursday",
+    "friday",
+    "saturday",
+    "sunday",
+  ];
+  checkRequired(
+    issues,
+    "calendar.txt",
+    calendar,
+    ["service_id", ...days, "start_date", "end_date"],
+    (row, i) => (row.service_id ? `service_id=${row.service_id}` : line(i)),
+  );
+  checkUnique(issues, "calendar.txt", calendar, (row) =>
+    isBlank(row.service_id) ? null : row.service_id,
+  );
+  for (const row of calendar) {
+    for (const field of ["start_date", "end_date"]) {
+      if (!isBlank(row[field]) && !isGtfsDate(row[field])) {
+        addIssue(
+          issues,
+          "error",
+          "invalid_date",
+          "calendar.txt",
+          `service_id=${row.service_id}: ${field}=${row[field]}`,
+        );
+      }
+    }
+  }
+  checkRequired(
+    issues,
+    "calendar_dates.txt",
+    calendarDates,
+    ["service_id", "date", "exception_type"],
+    (row, i) => (row.service_id ? `service_id=${row.service_id}` : line(i)),
+  );
+  checkUnique(issues, "calendar_dates.txt", calendarDates, (row) =>
+    isBlank(row.service_id) ? null : `${row.service_id} ${row.date}`,
+  );
+  for (const row of calendarDates) {
+    const at = `service_id=${row.service_id}`;
+    if (!isBlank(row.date) && !isGtfsDate(row.date)) {
+      addIssue(
+        issues,
+        "error",
+        "invalid_date",
+        "calendar_dates.txt",
+        `${at}: date=${row.date}`,
+      );
+    }
+    if (
+      !isBlank(row.exception_type) &&
+      !["1", "2"].includes(row.exception_type)
+    ) {
+      addIssue(
+        issues,
+        "error",
+        "invalid_value",
+        "calendar_dates.txt",
+        `${at}: exception_type=${row.exception_type}`,
+      );
+    }
+  }
+
+  return [...issues.values()];
+}
+
+// Reports a key repeated within the chunk or already seen by an earlier one.
+function checkChunkUnique(
+  issues: IssueMap,
+  file: string,
+  rows: CsvRow[],
+  keyOf: (row: CsvRow) => string | null,
+  seenBefore: (key: string) => boolean,
+) {
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (key === null) continue;
+    if (seen.has(key) || seenBefore(key)) {
+      addIssue(issues, "error", "duplicate_key", file, key);
+    }
+    seen.add(key);
+  }
+}
+
+/**
+ * Checks one chunk of stops.txt: required fields, stop_ids repeated here or
+ * in an earlier chunk (`seenBefore`), and coordinates against the globe and
+ * the source's bounds. parent_station references can point forward in the
+ * file, so they are checked once every chunk is read
+ * (validateParentStations).
+ */
+export function validateStopsChunk(
+  rows: CsvRow[],
+  seenBefore: (stopId: string) => boolean,
+  bounds: Bounds | null,
+): ValidationIssue[] {
+  const issues: IssueMap = new Map();
+  // Name and position are only required of stops, stations and entrances;
+  // nodes and boarding areas inherit them.
+  checkRequired(issues, "stops.txt", rows, ["stop_id"], (_, i) => line(i));
+  checkRequired(
+    issues,
+    "stops.txt",
+    rows,
+    ["stop_name", "stop_lat", "stop_lon"],
+    (row) => `stop_id=${row.stop_id}`,
+    (row) => ["", "0", "1", "2"].includes(row.location_type ?? ""),
+  );
+  checkChunkUnique(
+    issues,
+    "stops.txt",
+    rows,
+    (row) => (isBlank(row.stop_id) ? null : row.stop_id),
+    seenBefore,
+  );
+  const [west, south, east, north] = bounds ?? WORLD_BOUNDS;
+  for (const row of rows) {
+    if (isBlank(row.stop_lat) || isBlank(row.stop_lon)) continue;
+    const lat = Number(row.stop_lat);
+    const lon = Number(row.stop_lon);
+    const at = `stop_id=${row.stop_id}: ${row.stop_lat},${row.stop_lon}`;
+    if (
+      !Number.isFinite(lat) ||
+      !Number.isFinite(lon) ||
+      Math.abs(lat) > 90 ||
+      Math.abs(lon) > 180
+    ) {
+      addIssue(issues, "error", "invalid_coordinates", "stops.txt", at);
+    } else if (
+      (lat === 0 && lon === 0) ||
+      lat < south ||
+      lat > north ||
+      lon < west ||
+      lon > east
+    ) {
+      addIssue(issues, "warning", "coordinates_out_of_bounds", "stops.txt", at);
+    }
+  }
+  return [...issues.values()];
+}
+
+/** parent_station values naming no stop in stops.txt. */
+export function validateParentStations(
+  references: Array<{ stopId: string; parentStation: string }>,
+  hasStop: (stopId: string) => boolean,
+): ValidationIssue[] {
+  const issues: IssueMap = new Map();
+  for (const { stopId, parentStation } of references) {
+    if (!hasStop(parentStation)) {
+      addIssue(
+        issues,
+        "error",
+        "unknown_reference",
+        "stops.txt",
+        `stop_id=${stopId}: parent_station=${parentStation}`,
+      );
+    }
+  }
+  return [...issues.values()];
+}
+
+// What a trips.txt chunk is checked against.
+export interface TripsChunkContext {
+  // trip_ids of earlier chunks.
+  seenBefore: (tripId: string) => boolean;
+  hasRoute: (routeId: string) => boolean;
+  // service_ids of calendar.txt and calendar_dates.txt.
+  hasService: (serviceId: string) => boolean;
+}
+
+/**
+ * Checks one chunk of trips.txt: required fields, trip_ids repeated here or
+ * in an earlier chunk, and references to routes and services.
+ */
+export function validateTripsChunk(
+  rows: CsvRow[],
+  context: TripsChunkContext,
+): ValidationIssue[] {
+  const issues: IssueMap = new Map();
+  checkRequired(
+    issues,
+    "trips.txt",
+    rows,
+    ["route_id", "service_id", "trip_id"],
+    (row, i) => (row.trip_id ? `trip_id=${row.trip_id}` : line(i)),
+  );
+  checkChunkUnique(
+    issues,
+    "trips.txt",
+    rows,
+    (row) => (isBlank(row.trip_id) ? null : row.trip_id),
+    context.seenBefore,
+  );
+  for (const row of rows) {
+    if (!isBlank(row.route_id) && !context.hasRoute(row.route_id)) {
+      addIssue(
+        issues,
+        "error",
+        "unknown_reference",
+        "trips.txt",
+        `trip_id=${row.trip_id}: route_id=${row.route_id}`,
+      );
+    }
+    if (!isBlank(row.service_id) && !context.hasService(row.service_id)) {
+      addIssue(
+        issues,
+        "error",
+        "unknown_reference",
+        "trips.txt",
+        `trip_id=${row.trip_id}: service_id=${row.service_id}`,
+      );
+    }
+  }
+  return [...issues.values()];
+}
+
+/**
+ * The trip a stop_times.txt chunk ended on, handed to the next chunk so a
+ * trip split across the boundary is checked as one. stop_times.txt is
+ * grouped by trip in practice, so only the last trip can continue.
+ */
+export interface StopTimesCarry {
+  tripId: string;
+  // stop_sequence values seen so far, as written, for duplicate keys.
+  sequences: string[];
+  // The highest stop_sequence so far and the latest time up to it.
+  sequence: number;
+  latest: number | null;
+}
+
+export interface StopTimesChunkResult {
+  issues: ValidationIssue[];
+  carry: StopTimesCarry | null;
+}
+
+/**
+ * Checks one chunk of stop_times.txt: required fields, references to trips
+ * and stops, time format, repeated stop_sequences and times that go
+ * backwards along a trip. `carry` is the previous chunk's result.carry.
+ * `hasTrip` answers for every trip_id in trips.txt, imported or not: a trip
+ * dropped for a bad reference is reported once by validateTripsChunk, not
+ * again on each of its stop_times.
+ */
+export function validateStopTimesChunk(
+  rows: CsvRow[],
+  hasTrip: (tripId: string) => boolean,
+  hasStop: (stopId: string) => boolean,
+  carry: StopTimesCarry | null = null,
+): StopTimesChunkResult {
+  const issues: IssueMap = new Map();
+  const file = "stop_times.txt";
+  checkRequired(
+    issues,
+    file,
+    rows,
+    ["trip_id", "stop_sequence"],
+    (row) => `trip_id=${row.trip_id}`,
+  );
+
+  const byTrip = new Map<
+    string,
+    Array<{
+      sequence: number;
+      arrival: number | null;
+      departure: number | null;
+      // Stands in for the previous chunk's stops; never reported itself.
+      carried?: boolean;
+    }>
+  >();
+  const seen = new Set<string>();
+  if (carry) {
+    byTrip.set(carry.tripId, [
+      {
+        sequence: carry.sequence,
+        arrival: null,
+        departure: carry.latest,
+        carried: true,
+      },
+    ]);
+    for (const sequence of carry.sequences) {
+      seen.add(`${carry.tripId} ${sequence}`);
+    }
+  }
+  let lastTripId: string | null = null;
+  for (const row of rows) {
+    if (!isBlank(row.trip_id)) lastTripId = row.trip_id;
+    const at = `trip_id=${row.trip_id} stop_sequence=${row.stop_sequence}`;
+    if (!isBlank(row.trip_id) && !hasTrip(row.trip_id)) {
+      addIssue(issues, "error", "unknown_reference", file, `${at}: trip_id`);
+    }
+    if (!isBlank(row.stop_id)) {
+      if (!hasStop(row.stop_id)) {
+        addIssue(
+          issues,
+          "error",
+          "unknown_reference",
+          file,
+          `${at}: stop_id=${row.stop_id}`,
+        );
+      }
+    } else if (isBlank(row.location_group_id) && isBlank(row.location_id)) {
+      addIssue(
+        issues,
+        "error",
+        "missing_required_field",
+        file,
+        `${at}: stop_id, location_group_id or location_id`,
+      );
+    }
+
+    const key = `${row.trip_id} ${row.stop_sequence}`;
+    if (seen.has(key)) addIssue(issues, "error", "duplicate_key", file, key);
+    seen.add(key);
+
+    const times: Record<string, number | null> = {};
+    for (const field of ["arrival_time", "departure_time"]) {
+      const raw = row[field];
+      times[field] = isBlank(raw) ? null : parseStrictGtfsTime(raw);
+      if (!isBlank(raw) && times[field] === null) {
+        addIssue(
+          issues,
+          "error",
+          "invalid_time",
+          file,
+          `${at}: ${field}=${raw}`,
+        );
+      }
+    }
+    const sequence = Number(row.stop_sequence);
+    if (
+      isBlank(row.stop_sequence) ||
+      !Number.isInteger(sequence) ||
+      sequence < 0
+    ) {
+      if (!isBlank(row.stop_sequence)) {
+        addIssue(issues, "error", "invalid_value", file, at);
+      }
+      continue;
+    }
+    const stops = byTrip.get(row.trip_id) ?? [];
+    stops.push({
+      sequence,
+      arrival: times.arrival_time,
+      departure: times.departure_time,
+    });
+    byTrip.set(row.trip_id, stops);
+  }
+
+  let next: StopTimesCarry | null = null;
+  for (const [tripId, stops] of byTrip) {
+    stops.sort((a, b) => a.sequence - b.sequence);
+    let latest: number | null = null;
+    for (const stop of stops) {
+      const at = `trip_id=${tripId} stop_sequence=${stop.sequence}`;
+      if (stop.carried) {
+        if (stop.departure !== null) {
+          latest = Math.max(latest ?? stop.departure, stop.departure);
+        }
+        continue;
+      }
+      if (
+        stop.arrival !== null &&
+        stop.departure !== null &&
+        stop.departure < stop.arrival
+      ) {
+        addIssue(
+          issues,
+          "error",
+          "time_travel",
+          file,
+          `${at}: departs before it arrives`,
+        );
+      }
+      const first = stop.arrival ?? stop.departure;
+      if (first !== null && latest !== null && first < latest) {
+        addIssue(
+          issues,
+          "error",
+          "time_travel",
+          file,
+          `${at}: earlier than the previous stop`,
+        );
+      }
+      const last = stop.departure ?? stop.arrival;
+      if (last !== null) latest = Math.max(latest ?? last, last);
+    }
+    if (tripId === lastTripId) {
+      next = {
+        tripId,
+        sequences: [
+          ...(carry?.tripId === tripId ? carry.sequences : []),
+          ...rows
+            .filter(
+              (row) => row.trip_id === tripId && !isBlank(row.stop_sequence),
+            )
+            .map((row) => row.stop_sequence),
+        ],
+        sequence: stops[stops.length - 1].sequence,
+        latest,
+      };
+    }
+  }
+
+  return { issues: [...issues.values()], carry: next };
+}
+
+// Replaces any earlier report, so a re-imported version is judged afresh.
+export async function storeValidationReport(
+  db: D1Database,
+  feedVersionId: number,
+  report: ValidationReport,
+  blocked: boolean,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO feed_validation (
+         feed_version_id, validated_at, error_count, warning_count, blocked, issues
+       ) VALUES (?1, unixepoch(), ?2, ?3, ?4, ?5)
+       ON CONFLICT(feed_version_id) DO UPDATE SET
+         validated_at = excluded.validated_at,
+         error_count = excluded.error_count,
+         warning_count = excluded.warning_count,
+         blocked = excluded.blocked,
+         issues = excluded.issues`,
+    )
+    .bind(
+      feedVersionId,
+      report.error_count,
+      report.warning_count,
+      blocked ? 1 : 0,
+      JSON.stringify(report.issues),
+    )
+    .run();
+}
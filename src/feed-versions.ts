@@ -0,0 +1,267 @@
+// D1 operations on a feed source's versions, shared by Import511Workflow and
+// the admin API (app/api/admin). They take the database as a parameter
+// rather than importing "cloudflare:workers", so the workflow and route
+// handlers each pass their own binding.
+
+import { DateTime } from "luxon";
+import {
+  type VersionServiceDay,
+  buildVersionServiceDayQuery,
+  chooseActiveVersion,
+  dayColumnFor,
+} from "./activation-queries";
+import {
+  CLAIM_VERSION_FOR_CLEANUP_SQL,
+  CLEANUP_BATCH_SIZE,
+  buildVersionCleanupStatements,
+} from "./cleanup-queries";
+import {
+  type LiveShape,
+  type LiveTimetable,
+  VERSION_SHAPES_PAGE_SQL,
+  VERSION_TIMETABLES_PAGE_SQL,
+} from "./timetable-diff";
+
+// Bounds how much delete work a single cleanup pass performs; a version
+// with more rows than this continues in a fresh workflow step (or admin
+// request).
+const MAX_BATCHES_PER_CLEANUP_PASS = 40;
+
+/**
+ * Runs the FK-ordered cleanup statements for one feed version, stopping
+ * after a bounded number of batches. Returns done=false when more work
+ * remains; statements are idempotent, so resuming simply re-runs the list
+ * (already-empty tables no-op). Each pass first claims the version
+ * (CLAIM_VERSION_FOR_CLEANUP_SQL) and deletes nothing if it has been made
+ * live or pinned meanwhile, or is already gone. done=true with rows still
+ * shared by other versions leaves those rows and the version row in place
+ * (see src/cleanup-queries.ts). `keepVersion` empties the version without
+ * deleting its row, for a re-import into the same id.
+ */
+export async function runCleanupPass(
+  db: D1Database,
+  feedVersionId: number,
+  { keepVersion = false }: { keepVersion?: boolean } = {},
+): Promise<{ done: boolean; rowsDeleted: number }> {
+  const claim = await db
+    .prepare(CLAIM_VERSION_FOR_CLEANUP_SQL)
+    .bind(feedVersionId)
+    .run();
+  if ((claim.meta.changes ?? 0) === 0) return { done: true, rowsDeleted: 0 };
+
+  let batchBudget = MAX_BATCHES_PER_CLEANUP_PASS;
+  let rowsDeleted = 0;
+
+  for (const statement of buildVersionCleanupStatements()) {
+    if (keepVersion && statement.table === "feed_version") continue;
+    if (statement.batched) {
+      while (true) {
+        if (batchBudget === 0) return { done: false, rowsDeleted };
+        const result = await db
+          .prepare(statement.sql)
+          .bind(feedVersionId, CLEANUP_BATCH_SIZE)
+          .run();
+        batchBudget--;
+        const changes = result.meta.changes ?? 0;
+        rowsDeleted += changes;
+        if (changes < CLEANUP_BATCH_SIZE) break;
+      }
+    } else {
+      if (batchBudget === 0) return { done: false, rowsDeleted };
+      const result = await db.prepare(statement.sql).bind(feedVersionId).run();
+      batchBudget--;
+      rowsDeleted += result.meta.changes ?? 0;
+    }
+  }
+
+  return { done: true, rowsDeleted };
+}
+
+// Rows per page of loadVersionTimetables and loadVersionShapes.
+const VERSION_PAGE_SIZE = 5000;
+
+/**
+ * One page of a version's trip_id -> LiveTimetable map (src/timetable-diff.ts),
+ * starting after trip_pk `after`; `last` is null after the final page.
+ */
+export async function loadVersionTimetables(
+  db: D1Database,
+  feedVersionId: number,
+  after: number,
+): Promise<{ timetables: Record<string, LiveTimetable>; last: number | null }> {
+  const result = await db
+    .prepare(VERSION_TIMETABLES_PAGE_SQL)
+    .bind(feedVersionId, after, VERSION_PAGE_SIZE)
+    .all<{
+      trip_pk: number;
+      trip_id: string;
+      stop_times_hash: string | null;
+      timetable_trip_pk: number;
+    }>();
+  const rows = result.results || [];
+  const timetables: Record<string, LiveTimetable> = {};
+  for (const row of rows) {
+    timetables[row.trip_id] = {
+      hash: row.stop_times_hash,
+      timetablePk: row.timetable_trip_pk,
+    };
+  }
+  return {
+    timetables,
+    last:
+      rows.length === VERSION_PAGE_SIZE ? rows[rows.length - 1].trip_pk : null,
+  };
+}
+
+/**
+ * One page of a version's shape_id -> LiveShape map, starting after
+ * shape_id `after`; `last` is null after the final page.
+ */
+export async function loadVersionShapes(
+  db: D1Database,
+  feedVersionId: number,
+  after: string,
+): Promise<{ shapes: Record<string, LiveShape>; last: string | null }> {
+  const result = await db
+    .prepare(VERSION_SHAPES_PAGE_SQL)
+    .bind(feedVersionId, after, VERSION_PAGE_SIZE)
+    .all<{
+      shape_id: string;
+      points_version_id: number;
+      points_hash: string;
+    }>();
+  const rows = result.results || [];
+  const shapes: Record<string, LiveShape> = {};
+  for (const row of rows) {
+    shapes[row.shape_id] = {
+      hash: row.points_hash,
+      pointsVersionId: row.points_version_id,
+    };
+  }
+  return {
+    shapes,
+    last:
+      rows.length === VERSION_PAGE_SIZE ? rows[rows.length - 1].shape_id : null,
+  };
+}
+
+// Reads the agency timezone recorded by the most recent import of this
+// source. Service dates are stored as noon in that zone (see parseGtfsDate
+// in the workflow), so selection has to ask "what day is it?" the same way.
+export async function resolveSourceTimezone(
+  db: D1Database,
+  feedSourceId: number,
+): Promise<string> {
+  const row = await db
+    .prepare(
+      `SELECT a.agency_timezone
+       FROM agency a
+       JOIN feed_version fv ON a.feed_version_id = fv.feed_version_id
+       WHERE fv.feed_source_id = ? AND a.agency_timezone IS NOT NULL
+       ORDER BY fv.date_added DESC
+       LIMIT 1`,
+    )
+    .bind(feedSourceId)
+    .first<{ agency_timezone: string }>();
+
+  return row?.agency_timezone ?? "UTC";
+}
+
+export interface LiveVersionChoice {
+  // null when the source has no fully imported version.
+  chosen: number | null;
+  // The source's service date the choice was made for (ISO).
+  date: string;
+  // Whether the chosen version runs service on that date.
+  serving: boolean;
+  // Whether the choice is the source's pinned version.
+  pinned: boolean;
+  considered: number;
+}
+
+/**
+ * Which of the source's fully imported versions should be live today (see
+ * chooseActiveVersion), honoring the source's pin. Reads only;
+ * activateFeedVersion makes it live.
+ */
+export async function chooseLiveVersion(
+  db: D1Database,
+  feedSourceId: number,
+): Promise<LiveVersionChoice> {
+  const timezone = await resolveSourceTimezone(db, feedSourceId);
+  let now = DateTime.now().setZone(timezone);
+  if (!now.isValid) now = DateTime.utc();
+
+  const todayNoon = Math.floor(
+    now.startOf("day").set({ hour: 12 }).toSeconds(),
+  );
+  const rows = await db
+    .prepare(buildVersionServiceDayQuery(dayColumnFor(now.weekday)))
+    .bind(feedSourceId, todayNoon)
+    .all<VersionServiceDay>();
+
+  const source = await db
+    .prepare(
+      "SELECT pinned_feed_version_id FROM feed_source WHERE feed_source_id = ?",
+    )
+    .bind(feedSourceId)
+    .first<{ pinned_feed_version_id: number | null }>();
+  const pin = source?.pinned_feed_version_id ?? null;
+
+  const candidates = rows.results || [];
+  const chosen = chooseActiveVersion(candidates, pin);
+  return {
+    chosen,
+    date: now.toISODate() ?? "",
+    serving: candidates.some(
+      (c) => c.feed_version_id === chosen && c.has_service_today === 1,
+    ),
+    pinned: chosen !== null && chosen === pin,
+    considered: candidates.length,
+  };
+}
+
+/**
+ * Pins the source to `feedVersionId`, or clears the pin with null. While
+ * pinned, selection keeps serving that version and retention cleanup keeps
+ * its data (see buildCondemnedVersionsQuery).
+ */
+export async function pinFeedVersion(
+  db: D1Database,
+  feedSourceId: number,
+  feedVersionId: number | null,
+): Promise<void> {
+  await db
+    .prepare(
+      "UPDATE feed_source SET pinned_feed_version_id = ? WHERE feed_source_id = ?",
+    )
+    .bind(feedVersionId, feedSourceId)
+    .run();
+}
+
+/**
+ * Makes `feedVersionId` the source's live version. Atomic swap; COALESCE
+ * preserves the retention clock of versions that were already deactivated
+ * earlier. A version without imported_at (still importing, or claimed by
+ * cleanup) is never swapped in, and the current one stays live.
+ */
+export async function activateFeedVersion(
+  db: D1Database,
+  feedSourceId: number,
+  feedVersionId: number,
+): Promise<void> {
+  await db.batch([
+    db
+      .prepare(
+        `UPDATE feed_version SET is_active = 0, deactivated_at = COALESCE(deactivated_at, unixepoch())
+         WHERE feed_source_id = ?1 AND feed_version_id != ?2
+           AND EXISTS (SELECT 1 FROM feed_version WHERE feed_version_id = ?2 AND imported_at IS NOT NULL)`,
+      )
+      .bind(feedSourceId, feedVersionId),
+    db
+      .prepare(
+        "UPDATE feed_version SET is_active = 1, deactivated_at = NULL WHERE feed_version_id = ? AND imported_at IS NOT NULL",
+      )
+      .bind(feedVersionId),
+  ]);
+}
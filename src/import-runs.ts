@@ -0,0 +1,227 @@
+// Run history for Import511Workflow (import_runs, migration 0025) and the
+// /status page built on it, which also shows each source's latest health
+// check (src/feed-health.ts). Like src/feed-versions.ts, the writes take
+// the database as a parameter; the status queries and serialization are
+// pure, so they are unit-testable with vitest.
+
+import type { FeedHealthWarning } from "./feed-health";
+
+export const IMPORT_RUN_STATUSES = [
+  "running",
+  "imported",
+  "unchanged",
+  "failed",
+] as const;
+export type ImportRunStatus = (typeof IMPORT_RUN_STATUSES)[number];
+
+// How long a source's run history is kept; the daily retention cleanup
+// prunes older runs.
+export const IMPORT_RUN_RETENTION_SECONDS = 90 * 24 * 3600;
+export const RECENT_FAILURES_LIMIT = 20;
+// Messages are stored for the status page, not debugging; the workflow logs
+// keep the stack.
+export const MAX_IMPORT_ERROR_LENGTH = 1000;
+
+export function describeImportError(err: unknown): string {
+  const message =
+    err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+  return message.length > MAX_IMPORT_ERROR_LENGTH
+    ? `${message.slice(0, MAX_IMPORT_ERROR_LENGTH - 1)}…`
+    : message;
+}
+
+// Idempotent, so a replayed workflow keeps the original start time.
+export async function startImportRun(
+  db: D1Database,
+  instanceId: string,
+  sourceName: string,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO import_runs (instance_id, source_name, started_at, updated_at)
+       VALUES (?, ?, unixepoch(), unixepoch())
+       ON CONFLICT(instance_id) DO NOTHING`,
+    )
+    .bind(instanceId, sourceName)
+    .run();
+}
+
+// Called as each step completes. Chunked steps have distinct names, so each
+// chunk gets its own entry in step_rows.
+export async function recordImportStep(
+  db: D1Database,
+  instanceId: string,
+  stepName: string,
+  rowsWritten: number,
+): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE import_runs
+       SET last_step = ?2,
+           step_rows = json_patch(step_rows, json_object(?2, ?3)),
+           updated_at = unixepoch()
+       WHERE instance_id = ?1`,
+    )
+    .bind(instanceId, stepName, rowsWritten)
+    .run();
+}
+
+// Records the downloaded zip's hash and the version it imports into, as
+// each becomes known.
+export async function noteImportRunVersion(
+  db: D1Database,
+  instanceId: string,
+  version: { feedHash?: string; feedVersionId?: number },
+): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE import_runs
+       SET feed_hash = COALESCE(?2, feed_hash),
+           feed_version_id = COALESCE(?3, feed_version_id),
+           updated_at = unixepoch()
+       WHERE instance_id = ?1`,
+    )
+    .bind(instanceId, version.feedHash ?? null, version.feedVersionId ?? null)
+    .run();
+}
+
+export async function finishImportRun(
+  db: D1Database,
+  instanceId: string,
+  status: Exclude<ImportRunStatus, "running">,
+  error: string | null = null,
+): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE import_runs
+       SET status = ?2, error = ?3, finished_at = unixepoch(), updated_at = unixepoch()
+       WHERE instance_id = ?1`,
+    )
+    .bind(instanceId, status, error)
+    .run();
+}
+
+export async function pruneImportRuns(
+  db: D1Database,
+  sourceName: string,
+): Promise<number> {
+  const result = await db
+    .prepare(
+      `DELETE FROM import_runs
+       WHERE source_name = ? AND started_at < unixepoch() - ${IMPORT_RUN_RETENTION_SECONDS}`,
+    )
+    .bind(sourceName)
+    .run();
+  return result.meta.changes ?? 0;
+}
+
+// One row per source. A successful import is a run that imported a version
+// or found its zip already imported; sources imported before import_runs
+// existed fall back to their newest version's imported_at.
+export const SOURCE_STATUS_QUERY = `
+  SELECT fs.source_name, fs.source_desc,
+         av.feed_version_id AS active_version_id,
+         av.version_label AS active_version_label,
+         av.feed_start_date, av.feed_end_date,
+         COALESCE(sr.finished_at, (
+           SELECT MAX(imported_at) FROM feed_version
+           WHERE feed_source_id = fs.feed_source_id
+         )) AS last_success_at,
+         lr.instance_id AS last_run_instance_id,
+         lr.status AS last_run_status,
+         lr.started_at AS last_run_started_at,
+         lr.last_step AS last_run_last_step,
+         fh.checked_at AS health_checked_at,
+         fh.warnings AS health_warnings
+  FROM feed_source fs
+  LEFT JOIN feed_version av
+    ON av.feed_source_id = fs.feed_source_id AND av.is_active = 1
+  LEFT JOIN import_runs sr ON sr.import_run_id = (
+    SELECT import_run_id FROM import_runs
+    WHERE source_name = fs.source_name AND status IN ('imported', 'unchanged')
+    ORDER BY started_at DESC, import_run_id DESC
+    LIMIT 1
+  )
+  LEFT JOIN import_runs lr ON lr.import_run_id = (
+    SELECT import_run_id FROM import_runs
+    WHERE source_name = fs.source_name
+    ORDER BY started_at DESC, import_run_id DESC
+    LIMIT 1
+  )
+  LEFT JOIN feed_health fh ON fh.feed_source_id = fs.feed_source_id
+  ORDER BY fs.source_name`;
+
+export const RECENT_FAILURES_QUERY = `
+  SELECT instance_id, source_name, feed_hash, started_at, finished_at,
+         last_step, error
+  FROM import_runs
+  WHERE status = 'failed'
+  ORDER BY started_at DESC, import_run_id DESC
+  LIMIT ${RECENT_FAILURES_LIMIT}`;
+
+export interface SourceStatusRow {
+  source_name: string;
+  source_desc: string | null;
+  active_version_id: number | null;
+  active_version_label: string | null;
+  feed_start_date: number | null;
+  feed_end_date: number | null;
+  last_success_at: number | null;
+  last_run_instance_id: string | null;
+  last_run_status: ImportRunStatus | null;
+  last_run_started_at: number | null;
+  last_run_last_step: string | null;
+  health_checked_at: number | null;
+  // JSON array of FeedHealthWarning.
+  health_warnings: string | null;
+}
+
+export interface ImportFailure {
+  instance_id: string;
+  source_name: string;
+  feed_hash: string | null;
+  started_at: number;
+  finished_at: number | null;
+  // The last step that completed; the failure came after it.
+  last_step: string | null;
+  error: string | null;
+}
+
+// Times are epoch seconds; feed dates are noon on the service date in the
+// agency's timezone, as stored.
+export function serializeSourceStatus(row: SourceStatusRow) {
+  return {
+    source_name: row.source_name,
+    source_desc: row.source_desc,
+    active_version:
+      row.active_version_id === null
+        ? null
+        : {
+            feed_version_id: row.active_version_id,
+            version_label: row.active_version_label,
+            feed_start_date: row.feed_start_date,
+            feed_end_date: row.feed_end_date,
+          },
+    last_success_at: row.last_success_at,
+    last_run:
+      row.last_run_instance_id === null
+        ? null
+        : {
+            instance_id: row.last_run_instance_id,
+            status: row.last_run_status,
+            started_at: row.last_run_started_at,
+            last_step: row.last_run_last_step,
+          },
+    health:
+      row.health_checked_at === null
+        ? null
+        : {
+            checked_at: row.health_checked_at,
+            warnings: JSON.parse(
+              row.health_warnings ?? "[]",
+            ) as FeedHealthWarning[],
+          },
+  };
+}
+
+export type SourceStatus = ReturnType<typeof serializeSourceStatus>;
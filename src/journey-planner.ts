@@ -0,0 +1,769 @@
+// Journey planning: the SQL that loads a corridor of the active versions'
+// timetables, and a Connection Scan (CSA) earliest-arrival search over it.
+// Kept free of "cloudflare:workers" imports so routing is unit-testable with
+// vitest against small fixture feeds.
+//
+// The timetable is read as stop_times rows for the service days around the
+// departure time, limited to stops inside a box around both ends of the
+// journey. Consecutive rows of a trip become connections (ride from one stop
+// to the next); connections are scanned once in departure order, so a plan
+// costs one pass over a few hours of the corridor's stop_times. Every time
+// here is epoch seconds, which lets trips of different service days and
+// agencies share one scale.
+//
+// Changing vehicles is modelled with footpaths: walks between any two
+// boardable stops of any agency within TRANSFER_RADIUS_METERS, overridden by
+// the feeds' own stop-to-stop transfers.txt rows. Frequency-based trips are
+// left out (their stop_times are only a template, see
+// buildFrequencyDeparturesQuery).
+
+import {
+  predictStopTimes,
+  serviceDayParams,
+  serviceDayPredicate,
+  validateDayColumn,
+  type RealtimeEntry,
+  type SqlQuery,
+} from "./db-queries";
+import {
+  boundingBox,
+  haversineMeters,
+  type BoundingBox,
+} from "./nearby-queries";
+import type { ServiceDayFilter } from "./service-day";
+
+// Walking pace for access, egress and transfer walks (about 4.3 km/h).
+export const WALK_METERS_PER_SECOND = 1.2;
+// How far riders walk from the origin to the first stop, and from the last
+// stop to the destination.
+export const ACCESS_RADIUS_METERS = 800;
+// How far riders walk between stops to change vehicles.
+export const TRANSFER_RADIUS_METERS = 400;
+// Time to get off one vehicle and onto another at the same stop.
+export const MIN_TRANSFER_SECONDS = 120;
+// How far past the straight line between the ends the timetable box reaches,
+// for routes that bend away from it.
+export const CORRIDOR_MARGIN_METERS = 2000;
+// How long after the departure time connections are loaded for.
+export const MAX_JOURNEY_SECONDS = 3 * 60 * 60;
+// Bounds each service day's timetable read. Rows come earliest first, so the
+// cap only ever cuts the end of the window in dense corridors.
+export const TIMETABLE_ROW_LIMIT = 50000;
+export const DEFAULT_ITINERARIES = 3;
+export const MAX_ITINERARIES = 5;
+
+export type PlanPlace =
+  | { kind: "point"; lat: number; lon: number }
+  | { kind: "stop"; agencyId: string; stopId: string }
+  | { kind: "text"; query: string };
+
+const POINT_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * Reads a journey end: "lat,lon", "stop:AGENCY_ID:STOP_ID" (stop ids may
+ * contain colons), or anything else as stop search text. Null for blank
+ * input, out-of-range coordinates, or a malformed stop reference.
+ */
+export function parsePlace(raw: string | null | undefined): PlanPlace | null {
+  const text = raw?.trim();
+  if (!text) return null;
+
+  const point = POINT_PATTERN.exec(text);
+  if (point) {
+    const lat = Number(point[1]);
+    const lon = Number(point[2]);
+    return Math.abs(lat) <= 90 && Math.abs(lon) <= 180
+      ? { kind: "point", lat, lon }
+      : null;
+  }
+
+  if (text.startsWith("stop:")) {
+    const rest = text.slice("stop:".length);
+    const split = rest.indexOf(":");
+    if (split <= 0 || split === rest.length - 1) return null;
+    return {
+      kind: "stop",
+      agencyId: rest.slice(0, split),
+      stopId: rest.slice(split + 1),
+    };
+  }
+
+  return { kind: "text", query: text };
+}
+
+/** The box holding both ends of the journey plus the corridor margin. */
+export function corridorBox(
+  from: { lat: number; lon: number },
+  to: { lat: number; lon: number },
+  marginMeters: number = CORRIDOR_MARGIN_METERS,
+): BoundingBox {
+  const a = boundingBox(from.lat, from.lon, marginMeters);
+  const b = boundingBox(to.lat, to.lon, marginMeters);
+  return {
+    minLat: Math.min(a.minLat, b.minLat),
+    maxLat: Math.max(a.maxLat, b.maxLat),
+    minLon: Math.min(a.minLon, b.minLon),
+    maxLon: Math.max(a.maxLon, b.maxLon),
+  };
+}
+
+export interface PlannerStop {
+  stop_pk: number;
+  stop_id: string;
+  stop_name: string | null;
+  stop_lat: number;
+  stop_lon: number;
+  feed_version_id: number;
+  agency_id: string;
+  agency_timezone: string;
+}
+
+/**
+ * Every boardable stop (platforms and standalone stops, not stations or
+ * entrances) of the active versions inside the box.
+ */
+export function buildPlannerStopsQuery(box: BoundingBox): SqlQuery {
+  const sql = `
+    SELECT
+        s.stop_pk,
+        s.stop_id,
+        s.stop_name,
+        s.stop_lat,
+        s.stop_lon,
+        s.feed_version_id,
+        a.agency_id,
+        a.agency_timezone
+    FROM feed_version fv
+    JOIN stops s ON s.feed_version_id = fv.feed_version_id
+    JOIN agency a ON a.agency_pk = (
+        SELECT MIN(a2.agency_pk) FROM agency a2
+        WHERE a2.feed_version_id = s.feed_version_id
+    )
+    WHERE fv.is_active = 1
+      AND s.stop_lat BETWEEN ? AND ?
+      AND s.stop_lon BETWEEN ? AND ?
+      AND COALESCE(s.location_type, 0) = 0
+  `;
+  return {
+    sql,
+    params: [box.minLat, box.maxLat, box.minLon, box.maxLon],
+  };
+}
+
+// One stop time of the corridor timetable. Times are offsets from the
+// service day's start, as stored.
+export interface TimetableRow {
+  trip_pk: number;
+  trip_id: string;
+  // Realtime is looked up per version's feed source.
+  feed_version_id: number;
+  stop_pk: number;
+  stop_sequence: number;
+  arrival_time: number | null;
+  departure_time: number | null;
+}
+
+/**
+ * Stop times of the active versions' trips running on the filter's service
+ * day at stops inside the box, departing within the filter's range, earliest
+ * first. Frequency-based trips are excluded.
+ */
+export function buildTimetableQuery(
+  box: BoundingBox,
+  filter: ServiceDayFilter,
+): SqlQuery {
+  const { currentSeconds, endSeconds, todayNoon, todayColumn } = filter;
+  validateDayColumn(todayColumn);
+
+  const params: unknown[] = [
+    box.minLat,
+    box.maxLat,
+    box.minLon,
+    box.maxLon,
+    currentSeconds,
+    endSeconds,
+    ...serviceDayParams(todayNoon),
+    TIMETABLE_ROW_LIMIT,
+  ];
+
+  // CROSS JOIN pins the join order: without it the ORDER BY ... LIMIT
+  // tempts SQLite into walking every stop_times row in departure order
+  // instead of range-scanning the corridor's stops (idx_stops_lat_lon) and
+  // then each stop's departures (idx_stop_times_departure).
+  const sql = `
+    SELECT
+        t.trip_pk,
+        t.trip_id,
+        t.feed_version_id,
+        s.stop_pk,
+        st.stop_sequence,
+        st.arrival_time,
+        st.departure_time
+    FROM feed_version fv
+    CROSS JOIN stops s ON s.feed_version_id = fv.feed_version_id
+    CROSS JOIN stop_times st ON st.stop_pk = s.timetable_stop_pk
+    JOIN trips t
+      ON st.trip_pk = t.timetable_trip_pk AND t.feed_version_id = s.feed_version_id
+    WHERE fv.is_active = 1
+      AND s.stop_lat BETWEEN ? AND ?
+      AND s.stop_lon BETWEEN ? AND ?
+      AND st.departure_time >= ?
+      AND st.departure_time <= ?
+      AND ${serviceDayPredicate(todayColumn)}
+      AND NOT EXISTS (
+        SELECT 1 FROM frequencies f WHERE f.trip_pk = t.trip_pk
+      )
+    ORDER BY st.departure_time ASC
+    LIMIT ?
+  `;
+
+  return { sql, params };
+}
+
+export interface PlannerTransferRow {
+  from_stop_pk: number;
+  to_stop_pk: number;
+  transfer_type: number;
+  min_transfer_time: number | null;
+}
+
+// Stop-to-stop transfers.txt rows of the active versions. Rows scoped to
+// particular routes or trips only hold for those vehicles and are skipped.
+export const PLANNER_TRANSFERS_QUERY = `
+    SELECT
+        tr.from_stop_pk,
+        tr.to_stop_pk,
+        tr.transfer_type,
+        tr.min_transfer_time
+    FROM transfers tr
+    JOIN feed_version fv ON fv.feed_version_id = tr.feed_version_id
+    WHERE fv.is_active = 1
+      AND tr.from_route_pk IS NULL
+      AND tr.to_route_pk IS NULL
+      AND tr.from_trip_pk IS NULL
+      AND tr.to_trip_pk IS NULL
+`;
+
+/** Trip and route details for the trips an itinerary rides. */
+export function buildPlannerTripsQuery(tripPks: number[]): SqlQuery {
+  if (tripPks.length === 0) {
+    throw new Error("Planner trip lookup needs at least one trip");
+  }
+  const sql = `
+    SELECT
+        t.trip_pk,
+        t.trip_id,
+        t.trip_headsign,
+        r.route_id,
+        r.route_short_name,
+        r.route_long_name,
+        r.route_color,
+        r.route_text_color,
+        a.agency_id,
+        a.agency_timezone
+    FROM trips t
+    JOIN routes r ON t.route_pk = r.route_pk
+    JOIN agency a ON a.agency_pk = r.agency_pk
+    WHERE t.trip_pk IN (${tripPks.map(() => "?").join(",")})
+  `;
+  return { sql, params: tripPks };
+}
+
+// A ride on one trip between consecutive stops. `departure`/`arrival` carry
+// realtime predictions where there are any; the scheduled times are kept
+// for display.
+export interface Connection {
+  // Trip and service day, since one trip_pk can run on two service days
+  // inside the window.
+  trip: string;
+  trip_pk: number;
+  from_stop_pk: number;
+  to_stop_pk: number;
+  from_sequence: number;
+  to_sequence: number;
+  departure: number;
+  arrival: number;
+  scheduled_departure: number;
+  scheduled_arrival: number;
+}
+
+export interface TimetableDay {
+  serviceDayStart: number;
+  rows: TimetableRow[];
+}
+
+/**
+ * Turns each service day's timetable rows into connections, applying
+ * realtime predictions per trip: `rt` holds each feed version's trip updates
+ * (from its own source's feed), keyed by trip_id as elsewhere.
+ * Untimed and skipped stops are passed over, so a ride connects the timed
+ * stops on either side. Sorted by departure, then arrival.
+ */
+export function buildConnections(
+  days: TimetableDay[],
+  stopIds: Map<number, string>,
+  rt: Map<number, Map<string, RealtimeEntry>> = new Map(),
+): Connection[] {
+  const connections: Connection[] = [];
+
+  for (const { serviceDayStart, rows } of days) {
+    const byTrip = new Map<number, TimetableRow[]>();
+    for (const row of rows) {
+      const list = byTrip.get(row.trip_pk);
+      if (list) list.push(row);
+      else byTrip.set(row.trip_pk, [row]);
+    }
+
+    for (const [tripPk, tripRows] of byTrip) {
+      tripRows.sort((a, b) => a.stop_sequence - b.stop_sequence);
+      const predictions = predictStopTimes(
+        tripRows.map((row) => ({
+          ...row,
+          stop_id: stopIds.get(row.stop_pk) ?? "",
+        })),
+        rt.get(tripRows[0].feed_version_id)?.get(tripRows[0].trip_id),
+        serviceDayStart,
+      );
+
+      const stops = tripRows
+        .map((row, i) => {
+          const p = predictions[i];
+          const arrival = row.arrival_time ?? row.departure_time;
+          const departure = row.departure_time ?? row.arrival_time;
+          if (p.skipped || arrival === null || departure === null) {
+            return null;
+          }
+          return {
+            row,
+            scheduledArrival: serviceDayStart + arrival,
+            scheduledDeparture: serviceDayStart + departure,
+            arrival: serviceDayStart + arrival + (p.arrivalDelay ?? 0),
+            departure: serviceDayStart + departure + (p.departureDelay ?? 0),
+          };
+        })
+        .filter((s) => s !== null);
+
+      const trip = `${serviceDayStart}:${tripPk}`;
+      for (let i = 0; i + 1 < stops.length; i++) {
+        const from = stops[i];
+        const to = stops[i + 1];
+        connections.push({
+          trip,
+          trip_pk: tripPk,
+          from_stop_pk: from.row.stop_pk,
+          to_stop_pk: to.row.stop_pk,
+          from_sequence: from.row.stop_sequence,
+          to_sequence: to.row.stop_sequence,
+          departure: from.departure,
+          // Predictions can disagree between neighbouring stops; a ride
+          // never arrives before it leaves.
+          arrival: Math.max(to.arrival, from.departure),
+          scheduled_departure: from.scheduledDeparture,
+          scheduled_arrival: to.scheduledArrival,
+        });
+      }
+    }
+  }
+
+  return connections.sort(
+    (a, b) => a.departure - b.departure || a.arrival - b.arrival,
+  );
+}
+
+const walkSeconds = (meters: number) =>
+  Math.ceil(meters / WALK_METERS_PER_SECOND);
+
+export interface Footpath {
+  to_stop_pk: number;
+  seconds: number;
+}
+
+/**
+ * Transfer walks from each stop: every other stop within `radiusMeters`,
+ * whichever agency serves it, timed at walking pace. transfers.txt rows
+ * between two known stops replace the estimate with their
+ * min_transfer_time (when set) or add the walk if it is longer than the
+ * radius; transfer_type 3 (not possible) removes it.
+ */
+export function buildFootpaths(
+  stops: PlannerStop[],
+  transfers: PlannerTransferRow[] = [],
+  radiusMeters: number = TRANSFER_RADIUS_METERS,
+): Map<number, Footpath[]> {
+  const paths = new Map<number, Map<number, number>>();
+  const add = (from: number, to: number, seconds: number) => {
+    let out = paths.get(from);
+    if (!out) paths.set(from, (out = new Map()));
+    out.set(to, seconds);
+  };
+
+  // Bucket stops into cells at least the radius wide, so each stop is only
+  // measured against its own and the neighbouring cells.
+  if (stops.length > 0) {
+    // Longitude cells are sized at the set's widest latitude, where a degree
+    // is shortest.
+    const widest = Math.max(...stops.map((s) => Math.abs(s.stop_lat)));
+    const cell = boundingBox(widest, 0, radiusMeters);
+    const cellLat = cell.maxLat - widest;
+    const cellLon = cell.maxLon;
+    const cellKey = (x: number, y: number) => `${x}|${y}`;
+    const cells = new Map<string, PlannerStop[]>();
+    const cellOf = (s: PlannerStop): [number, number] => [
+      Math.floor(s.stop_lat / cellLat),
+      Math.floor(s.stop_lon / cellLon),
+    ];
+    for (const stop of stops) {
+      const key = cellKey(...cellOf(stop));
+      const list = cells.get(key);
+      if (list) list.push(stop);
+      else cells.set(key, [stop]);
+    }
+
+    for (const stop of stops) {
+      const [x, y] = cellOf(stop);
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (const other of cells.get(cellKey(x + dx, y + dy)) ?? []) {
+            if (other.stop_pk === stop.stop_pk) continue;
+            const meters = haversineMeters(
+              stop.stop_lat,
+              stop.stop_lon,
+              other.stop_lat,
+              other.stop_lon,
+            );
+            if (meters <= radiusMeters) {
+              add(stop.stop_pk, other.stop_pk, walkSeconds(meters));
+            }
+          }
+        }
+      }
+    }
+  }
+
+  const byPk = new Map(stops.map((s) => [s.stop_pk, s]));
+  for (const tr of transfers) {
+    const from = byPk.get(tr.from_stop_pk);
+    const to = byPk.get(tr.to_stop_pk);
+    if (!from || !to || from.stop_pk === to.stop_pk) continue;
+    if (tr.transfer_type === 3) {
+      paths.get(from.stop_pk)?.delete(to.stop_pk);
+      continue;
+    }
+    const seconds =
+      tr.min_transfer_time ??
+      walkSeconds(
+        haversineMeters(from.stop_lat, from.stop_lon, to.stop_lat, to.stop_lon),
+      );
+    add(from.stop_pk, to.stop_pk, seconds);
+  }
+
+  const footpaths = new Map<number, Footpath[]>();
+  for (const [from, out] of paths) {
+    footpaths.set(
+      from,
+      [...out].map(([to_stop_pk, seconds]) => ({ to_stop_pk, seconds })),
+    );
+  }
+  return footpaths;
+}
+
+// A boardable stop within walking distance of a journey end.
+export interface StopAccess {
+  stop_pk: number;
+  seconds: number;
+}
+
+/** Stops within `radiusMeters` of (lat, lon), with the walk to each. */
+export function accessStops(
+  stops: PlannerStop[],
+  lat: number,
+  lon: number,
+  radiusMeters: number = ACCESS_RADIUS_METERS,
+): StopAccess[] {
+  const access: StopAccess[] = [];
+  for (const stop of stops) {
+    const meters = haversineMeters(lat, lon, stop.stop_lat, stop.stop_lon);
+    if (meters <= radiusMeters) {
+      access.push({ stop_pk: stop.stop_pk, seconds: walkSeconds(meters) });
+    }
+  }
+  return access;
+}
+
+// Walk legs from the origin have no from_stop_pk, and walk legs to the
+// destination no to_stop_pk.
+export interface WalkLeg {
+  mode: "walk";
+  from_stop_pk: number | null;
+  to_stop_pk: number | null;
+  departure: number;
+  arrival: number;
+}
+
+export interface TransitLeg {
+  mode: "transit";
+  trip_pk: number;
+  from_stop_pk: number;
+  to_stop_pk: number;
+  from_sequence: number;
+  to_sequence: number;
+  departure: number;
+  arrival: number;
+  scheduled_departure: number;
+  scheduled_arrival: number;
+  // Time spent at from_stop before boarding: zero for the first ride, which
+  // riders time their walk to.
+  wait_seconds: number;
+}
+
+export type PlanLeg = WalkLeg | TransitLeg;
+
+export interface Itinerary {
+  // When to leave the origin and when the destination is reached.
+  departure: number;
+  arrival: number;
+  transfers: number;
+  legs: PlanLeg[];
+}
+
+type Reached =
+  | { kind: "access"; seconds: number }
+  | { kind: "ride"; board: Connection; alight: Connection }
+  | { kind: "walk"; from_stop_pk: number; seconds: number };
+
+// First index whose connection departs at or after `time`.
+function firstDepartingAt(connections: Connection[], time: number): number {
+  let lo = 0;
+  let hi = connections.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (connections[mid].departure < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Earliest-arrival connection scan from the access stops, leaving the origin
+ * no earlier than `departAfter`. A trip is boardable at a stop once the
+ * stop is reached (walking) or MIN_TRANSFER_SECONDS after arriving on
+ * another vehicle; staying aboard needs no transfer time. Footpaths are
+ * followed one hop from where a ride ends. Returns null when no ride gets
+ * to an egress stop inside the loaded connections; walking the whole way
+ * is not an itinerary.
+ */
+export function planItinerary(
+  connections: Connection[],
+  footpaths: Map<number, Footpath[]>,
+  access: StopAccess[],
+  egress: StopAccess[],
+  departAfter: number,
+): Itinerary | null {
+  const arrival = new Map<number, number>();
+  const ready = new Map<number, number>();
+  const reached = new Map<number, Reached>();
+  const boarded = new Map<string, Connection>();
+  const egressSeconds = new Map(egress.map((e) => [e.stop_pk, e.seconds]));
+
+  for (const a of access) {
+    const time = departAfter + a.seconds;
+    if (time < (arrival.get(a.stop_pk) ?? Infinity)) {
+      arrival.set(a.stop_pk, time);
+      ready.set(a.stop_pk, time);
+      reached.set(a.stop_pk, { kind: "access", seconds: a.seconds });
+    }
+  }
+
+  const best = { time: Infinity, stop: null as number | null };
+  const improve = (
+    stop: number,
+    time: number,
+    readyAt: number,
+    how: Reached,
+  ) => {
+    if (time >= (arrival.get(stop) ?? Infinity)) return false;
+    arrival.set(stop, time);
+    ready.set(stop, Math.min(readyAt, ready.get(stop) ?? Infinity));
+    reached.set(stop, how);
+    const walk = egressSeconds.get(stop);
+    if (walk !== undefined && time + walk < best.time) {
+      best.time = time + walk;
+      best.stop = stop;
+    }
+    return true;
+  };
+
+  for (
+    let i = firstDepartingAt(connections, departAfter);
+    i < connections.length;
+    i++
+  ) {
+    const c = connections[i];
+    if (c.departure >= best.time) break;
+
+    let board = boarded.get(c.trip);
+    if (!board && (ready.get(c.from_stop_pk) ?? Infinity) <= c.departure) {
+      board = c;
+      boarded.set(c.trip, c);
+    }
+    if (!board) continue;
+
+    const rode = improve(
+      c.to_stop_pk,
+      c.arrival,
+      c.arrival + MIN_TRANSFER_SECONDS,
+      { kind: "ride", board, alight: c },
+    );
+    if (!rode) continue;
+    for (const path of footpaths.get(c.to_stop_pk) ?? []) {
+      const time = c.arrival + path.seconds;
+      improve(path.to_stop_pk, time, time, {
+        kind: "walk",
+        from_stop_pk: c.to_stop_pk,
+        seconds: path.seconds,
+      });
+    }
+  }
+
+  if (best.stop === null) return null;
+  return buildItinerary(reached, best.stop, egressSeconds.get(best.stop) ?? 0);
+}
+
+// Follows the reached-by links back from the egress stop, then times the
+// walks forward from the rides they connect.
+function buildItinerary(
+  reached: Map<number, Reached>,
+  egressStop: number,
+  egressSeconds: number,
+): Itinerary | null {
+  type Step =
+    | { kind: "walk"; from: number | null; to: number | null; seconds: number }
+    | { kind: "ride"; board: Connection; alight: Connection };
+  const steps: Step[] = [
+    { kind: "walk", from: egressStop, to: null, seconds: egressSeconds },
+  ];
+
+  let stop = egressStop;
+  const seen = new Set<number>();
+  for (;;) {
+    if (seen.has(stop)) return null;
+    seen.add(stop);
+    const how = reached.get(stop);
+    if (!how) return null;
+    if (how.kind === "access") {
+      steps.unshift({
+        kind: "walk",
+        from: null,
+        to: stop,
+        seconds: how.seconds,
+      });
+      break;
+    }
+    if (how.kind === "ride") {
+      steps.unshift({ kind: "ride", board: how.board, alight: how.alight });
+      stop = how.board.from_stop_pk;
+    } else {
+      steps.unshift({
+        kind: "walk",
+        from: how.from_stop_pk,
+        to: stop,
+        seconds: how.seconds,
+      });
+      stop = how.from_stop_pk;
+    }
+  }
+
+  // Merge back-to-back walks (a transfer walk straight into the egress
+  // walk); zero-length walks are dropped below.
+  const merged: Step[] = [];
+  for (const step of steps) {
+    const prev = merged[merged.length - 1];
+    if (step.kind === "walk" && prev?.kind === "walk") {
+      merged[merged.length - 1] = {
+        kind: "walk",
+        from: prev.from,
+        to: step.to,
+        seconds: prev.seconds + step.seconds,
+      };
+    } else {
+      merged.push(step);
+    }
+  }
+
+  const legs: PlanLeg[] = [];
+  const firstRide = merged.find(
+    (s): s is Extract<Step, { kind: "ride" }> => s.kind === "ride",
+  );
+  if (!firstRide) return null;
+  let clock = firstRide.board.departure;
+  // The walk before the first ride is timed backwards from boarding.
+  if (merged[0].kind === "walk") clock -= merged[0].seconds;
+
+  for (const step of merged) {
+    if (step.kind === "walk") {
+      if (step.seconds === 0) continue;
+      legs.push({
+        mode: "walk",
+        from_stop_pk: step.from,
+        to_stop_pk: step.to,
+        departure: clock,
+        arrival: clock + step.seconds,
+      });
+      clock += step.seconds;
+    } else {
+      const { board, alight } = step;
+      legs.push({
+        mode: "transit",
+        trip_pk: board.trip_pk,
+        from_stop_pk: board.from_stop_pk,
+        to_stop_pk: alight.to_stop_pk,
+        from_sequence: board.from_sequence,
+        to_sequence: alight.to_sequence,
+        departure: board.departure,
+        arrival: alight.arrival,
+        scheduled_departure: board.scheduled_departure,
+        scheduled_arrival: alight.scheduled_arrival,
+        wait_seconds: board.departure - clock,
+      });
+      clock = alight.arrival;
+    }
+  }
+
+  const rides = legs.filter((l) => l.mode === "transit").length;
+  return {
+    departure: legs[0].departure,
+    arrival: legs[legs.length - 1].arrival,
+    transfers: rides - 1,
+    legs,
+  };
+}
+
+/**
+ * Up to `count` itineraries leaving one after another: each search departs
+ * just after the previous itinerary leaves the origin, so every one catches
+ * a later first vehicle.
+ */
+export function planItineraries(
+  connections: Connection[],
+  footpaths: Map<number, Footpath[]>,
+  access: StopAccess[],
+  egress: StopAccess[],
+  departAfter: number,
+  count: number = DEFAULT_ITINERARIES,
+): Itinerary[] {
+  const itineraries: Itinerary[] = [];
+  let after = departAfter;
+  while (itineraries.length < count) {
+    const itinerary = planItinerary(
+      connections,
+      footpaths,
+      access,
+      egress,
+      after,
+    );
+    if (!itinerary) break;
+    itineraries.push(itinerary);
+    after = itinerary.departure + 1;
+  }
+  return itineraries;
+}
@@ -0,0 +1,240 @@
+// GTFS Fares v1 (fare_attributes.txt / fare_rules.txt): the fallback for
+// feed versions without Fares v2 rules, still the only fares many 511
+// operators publish. Kept free of "cloudflare:workers" imports so the
+// matching is unit-testable with vitest; src/db.ts reads a version's two
+// tables whole and prices legs with calculateLegacyFare.
+//
+// A fare applies to a ride when one of its rules matches the ride's route,
+// origin zone and destination zone (an empty field matches anything), or
+// when a group of its contains_id rules sharing route/origin/destination
+// names exactly the zones the ride passes through. A fare without any rules
+// applies everywhere. Zones are stops.zone_id.
+
+import type { FareOption } from "./fare-engine";
+
+export interface FareAttribute {
+  fare_id: string;
+  price: number;
+  currency_type: string;
+  // 0 = paid on board, 1 = paid before boarding.
+  payment_method: number;
+  // Transfers allowed on the fare; null = unlimited.
+  transfers: number | null;
+  // Seconds the fare stays valid for transfers; null = no limit.
+  transfer_duration: number | null;
+}
+
+export interface FareRule {
+  fare_id: string;
+  route_id: string | null;
+  origin_id: string | null;
+  destination_id: string | null;
+  contains_id: string | null;
+}
+
+export interface LegacyFareTables {
+  attributes: FareAttribute[];
+  rules: FareRule[];
+}
+
+// One ride as Fares v1 sees it.
+export interface LegacyFareLeg {
+  route_id: string;
+  // zone_id of every stop the ride visits, boarding to alighting.
+  zone_ids: (string | null)[];
+  // Seconds from the service day start.
+  departure_time: number;
+}
+
+function matchesEnds(rule: FareRule, leg: LegacyFareLeg): boolean {
+  const origin = leg.zone_ids[0] ?? null;
+  const destination = leg.zone_ids[leg.zone_ids.length - 1] ?? null;
+  return (
+    (rule.route_id === null || rule.route_id === leg.route_id) &&
+    (rule.origin_id === null || rule.origin_id === origin) &&
+    (rule.destination_id === null || rule.destination_id === destination)
+  );
+}
+
+function fareApplies(rules: FareRule[], leg: LegacyFareLeg): boolean {
+  if (rules.length === 0) return true;
+  if (rules.some((r) => r.contains_id === null && matchesEnds(r, leg))) {
+    return true;
+  }
+
+  const passed = new Set(leg.zone_ids.filter((z): z is string => z !== null));
+  const groups = new Map<string, Set<string>>();
+  for (const rule of rules) {
+    if (rule.contains_id === null || !matchesEnds(rule, leg)) continue;
+    const key = [rule.route_id, rule.origin_id, rule.destination_id].join(
+      "\u0000",
+    );
+    const zones = groups.get(key) ?? new Set<string>();
+    zones.add(rule.contains_id);
+    groups.set(key, zones);
+  }
+  for (const zones of groups.values()) {
+    if (
+      zones.size === passed.size &&
+      [...passed].every((zone) => zones.has(zone))
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function rulesByFare(tables: LegacyFareTables): Map<string, FareRule[]> {
+  const byFare = new Map<string, FareRule[]>(
+    tables.attributes.map((a) => [a.fare_id, []]),
+  );
+  for (const rule of tables.rules) byFare.get(rule.fare_id)?.push(rule);
+  return byFare;
+}
+
+/** The fares a leg can be paid with, cheapest first. */
+export function matchLegacyFares(
+  leg: LegacyFareLeg,
+  tables: LegacyFareTables,
+): FareAttribute[] {
+  const byFare = rulesByFare(tables);
+  return tables.attributes
+    .filter((fare) => fareApplies(byFare.get(fare.fare_id) ?? [], leg))
+    .sort((a, b) => a.price - b.price);
+}
+
+/**
+ * Prices a journey: each leg is paid with its cheapest fare, unless the fare
+ * paid for an earlier leg also covers it and still has a transfer left
+ * within its transfer_duration (counted from that earlier leg's departure).
+ * Null when some leg has no fare or the fares mix currencies.
+ */
+export function calculateLegacyFare(
+  legs: LegacyFareLeg[],
+  tables: LegacyFareTables,
+): FareOption | null {
+  if (legs.length === 0) return null;
+  const byFare = rulesByFare(tables);
+
+  let amount = 0;
+  let currency: string | null = null;
+  const fareIds: string[] = [];
+  let ticket: { fare: FareAttribute; start: number; used: number } | null =
+    null;
+
+  for (const leg of legs) {
+    if (
+      ticket &&
+      (ticket.fare.transfers === null || ticket.used < ticket.fare.transfers) &&
+      (ticket.fare.transfer_duration === null ||
+        leg.departure_time - ticket.start <= ticket.fare.transfer_duration) &&
+      fareApplies(byFare.get(ticket.fare.fare_id) ?? [], leg)
+    ) {
+      ticket.used++;
+      continue;
+    }
+
+    const [fare] = matchLegacyFares(leg, tables).filter(
+      (f) => currency === null || f.currency_type === currency,
+    );
+    if (!fare) return null;
+    currency ??= fare.currency_type;
+    amount += fare.price;
+    fareIds.push(fare.fare_id);
+    ticket = { fare, start: leg.departure_time, used: 0 };
+  }
+
+  return {
+    rider_category_id: null,
+    fare_media_id: null,
+    amount: Math.round(amount * 100) / 100,
+    currency: currency!,
+    fare_product_ids: fareIds,
+  };
+}
+
+export interface LegacyRouteFares {
+  currency: string;
+  min_price: number;
+  max_price: number;
+  // Whether the price depends on where the rider boards or alights.
+  zone_based: boolean;
+  // The cheapest fare's terms.
+  payment_method: number;
+  transfers: number | null;
+  transfer_duration: number | null;
+}
+
+/**
+ * What riding a route costs, for the route page: the price range of the
+ * fares that can apply to it, in the cheapest fare's currency. Null when no
+ * fare does.
+ */
+export function summarizeRouteFares(
+  routeId: string,
+  tables: LegacyFareTables,
+): LegacyRouteFares | null {
+  const byFare = rulesByFare(tables);
+  let zoneBased = false;
+  const fares = tables.attributes.filter((fare) => {
+    const rules = byFare.get(fare.fare_id) ?? [];
+    const routeRules = rules.filter(
+      (r) => r.route_id === null || r.route_id === routeId,
+    );
+    if (
+      routeRules.some(
+        (r) =>
+          r.origin_id !== null ||
+          r.destination_id !== null ||
+          r.contains_id !== null,
+      )
+    ) {
+      zoneBased = true;
+    }
+    return rules.length === 0 || routeRules.length > 0;
+  });
+  if (fares.length === 0) return null;
+
+  fares.sort((a, b) => a.price - b.price);
+  const [cheapest] = fares;
+  const prices = fares
+    .filter((f) => f.currency_type === cheapest.currency_type)
+    .map((f) => f.price);
+  return {
+    currency: cheapest.currency_type,
+    min_price: cheapest.price,
+    max_price: Math.max(...prices),
+    zone_based: zoneBased,
+    payment_method: cheapest.payment_method,
+    transfers: cheapest.transfers,
+    transfer_duration: cheapest.transfer_duration,
+  };
+}
+
+/**
+ * A fare's transfer terms in words: "Free transfers within 90 min", "1 free
+ * transfer", "No transfers".
+ */
+export function describeLegacyTransfers(
+  fare: Pick<FareAttribute, "transfers" | "transfer_duration">,
+): string {
+  if (fare.transfers === 0) return "No transfers";
+  const within =
+    fare.transfer_duration !== null
+      ? ` within ${Math.round(fare.transfer_duration / 60)} min`
+      : "";
+  if (fare.transfers === null) return `Free transfers${within}`;
+  return `${fare.transfers} free transfer${fare.transfers === 1 ? "" : "s"}${within}`;
+}
+
+// Both tables whole: fare_rules is a few hundred rows even for the
+// zone-to-zone fares of rail operators (fare_rules is indexed by version in
+// migration 0021).
+export const FARE_ATTRIBUTES_QUERY = `
+    SELECT fare_id, price, currency_type, payment_method, transfers,
+           transfer_duration
+    FROM fare_attributes WHERE feed_version_id = ?`;
+
+export const FARE_RULES_QUERY = `
+    SELECT fare_id, route_id, origin_id, destination_id, contains_id
+    FROM fare_rules WHERE feed_version_id = ?`;
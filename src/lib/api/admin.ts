@@ -0,0 +1,302 @@
+// Authentication, request parsing and row serialization for the admin API
+// under /api/admin/*. Kept free of "cloudflare:workers" imports so it is
+// unit-testable with vitest; the route handlers under app/api/admin do the
+// D1 work through src/feed-admin.ts. Errors reuse ApiError from ./v1.
+
+import {
+  disallowedSecretNames,
+  FEED_PROVIDERS,
+  type FeedProvider,
+  type FeedSourceConfig,
+} from "../../feed-sources";
+import type { ValidationIssue } from "../../feed-validation";
+import { ApiError } from "./v1";
+
+// source_name ends up in workflow instance ids, so it keeps to their
+// character set and leaves room for the date prefix and random suffix.
+const SOURCE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+// URLs may carry {SECRET_NAME} placeholders, so only the scheme is checked.
+const URL_PATTERN = /^https?:\/\/\S+$/;
+
+const REALTIME_URL_FIELDS = [
+  "trip_updates_url",
+  "service_alerts_url",
+  "vehicle_positions_url",
+] as const;
+
+// Compares without returning early, so response timing does not reveal how
+// much of a guessed token was right.
+function tokensMatch(given: string, expected: string): boolean {
+  let diff = given.length ^ expected.length;
+  for (let i = 0; i < given.length; i++) {
+    diff |= given.charCodeAt(i) ^ expected.charCodeAt(i % expected.length);
+  }
+  return diff === 0;
+}
+
+/**
+ * Requires `Authorization: Bearer <ADMIN_API_TOKEN>`. Without the secret
+ * configured the admin API is off entirely.
+ */
+export function requireAdmin(request: Request, token: unknown): void {
+  if (typeof token !== "string" || token === "") {
+    throw new ApiError(503, "Admin API is not configured");
+  }
+  const header = request.headers.get("authorization") ?? "";
+  const match = /^Bearer (.+)$/.exec(header);
+  if (!match || !tokensMatch(match[1], token)) {
+    throw new ApiError(401, "Unauthorized");
+  }
+}
+
+export function parseSourceName(value: unknown): string {
+  if (typeof value !== "string" || !SOURCE_NAME_PATTERN.test(value)) {
+    throw new ApiError(
+      400,
+      '"source_name" must be 1-32 letters, digits, "-" or "_"',
+    );
+  }
+  return value;
+}
+
+// Placeholders may only name feed secrets (see src/feed-sources.ts), so a
+// source cannot send other Worker secrets to the host it points at.
+function checkSecretNames(field: string, value: string) {
+  const [name] = disallowedSecretNames(value);
+  if (name) {
+    throw new ApiError(
+      400,
+      `"${field}" names {${name}}; only API_KEY_511 and FEED_SECRET_* secrets may be used`,
+    );
+  }
+}
+
+function optionalUrl(body: Record<string, unknown>, name: string) {
+  const value = body[name];
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value !== "string" || !URL_PATTERN.test(value)) {
+    throw new ApiError(400, `"${name}" must be an http(s) URL`);
+  }
+  checkSecretNames(name, value);
+  return value;
+}
+
+// [west, south, east, north] in degrees, stored as JSON.
+function optionalBounds(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (
+    !Array.isArray(value) ||
+    value.length !== 4 ||
+    value.some((n) => typeof n !== "number" || !Number.isFinite(n))
+  ) {
+    throw new ApiError(400, '"bounds" must be [west, south, east, north]');
+  }
+  const [west, south, east, north] = value as number[];
+  if (
+    west < -180 ||
+    east > 180 ||
+    south < -90 ||
+    north > 90 ||
+    west >= east ||
+    south >= north
+  ) {
+    throw new ApiError(400, '"bounds" must be [west, south, east, north]');
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * A new feed source from a JSON body: `source_name`, `provider` ("511" by
+ * default), `feed_url` (required for "url" sources), `auth_headers` (an
+ * object of header values), the realtime endpoint URLs and `bounds`.
+ */
+export function parseFeedSourceInput(body: unknown): FeedSourceConfig {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new ApiError(400, "Body must be a JSON object");
+  }
+  const fields = body as Record<string, unknown>;
+
+  const provider = fields.provider ?? "511";
+  if (!FEED_PROVIDERS.includes(provider as FeedProvider)) {
+    throw new ApiError(
+      400,
+      `"provider" must be one of ${FEED_PROVIDERS.join(", ")}`,
+    );
+  }
+
+  const feedUrl = optionalUrl(fields, "feed_url");
+  if (provider === "url" && feedUrl === null) {
+    throw new ApiError(400, '"feed_url" is required for "url" sources');
+  }
+
+  const headers = fields.auth_headers ?? null;
+  if (
+    headers !== null &&
+    (typeof headers !== "object" ||
+      Array.isArray(headers) ||
+      Object.values(headers).some((v) => typeof v !== "string"))
+  ) {
+    throw new ApiError(400, '"auth_headers" must be an object of strings');
+  }
+  for (const value of Object.values(headers ?? {})) {
+    checkSecretNames("auth_headers", value as string);
+  }
+
+  const source: FeedSourceConfig = {
+    source_name: parseSourceName(fields.source_name),
+    provider: provider as FeedProvider,
+    feed_url: feedUrl,
+    auth_headers:
+      headers && Object.keys(headers).length ? JSON.stringify(headers) : null,
+    trip_updates_url: null,
+    service_alerts_url: null,
+    vehicle_positions_url: null,
+    bounds: optionalBounds(fields.bounds),
+  };
+  for (const name of REALTIME_URL_FIELDS) {
+    source[name] = optionalUrl(fields, name);
+  }
+  return source;
+}
+
+// A feed version id from a URL path segment.
+export function parseFeedVersionId(value: string): number {
+  const id = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(id) || id < 1) {
+    throw new ApiError(400, "Feed version id must be a positive integer");
+  }
+  return id;
+}
+
+/**
+ * The version an activation or rollback request names, or null for the
+ * default (re-run the daily selection, or the previously live version).
+ */
+export function parseActivationRequest(body: unknown): number | null {
+  if (body === null || body === undefined) return null;
+  if (typeof body !== "object" || Array.isArray(body)) {
+    throw new ApiError(400, "Body must be a JSON object");
+  }
+  const id = (body as Record<string, unknown>).feed_version_id;
+  if (id === undefined || id === null) return null;
+  if (typeof id !== "number" || !Number.isInteger(id) || id < 1) {
+    throw new ApiError(400, '"feed_version_id" must be a positive integer');
+  }
+  return id;
+}
+
+// A JSON body, or null for an empty one.
+export async function readJsonBody(request: Request): Promise<unknown> {
+  const text = await request.text();
+  if (!text.trim()) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ApiError(400, "Body must be valid JSON");
+  }
+}
+
+export interface AdminSourceRow extends FeedSourceConfig {
+  feed_source_id: number;
+  source_desc: string | null;
+  pinned_feed_version_id: number | null;
+  active_version_id: number | null;
+  active_version_label: string | null;
+  latest_version_id: number | null;
+  latest_date_added: number | null;
+  latest_imported_at: number | null;
+}
+
+export interface AdminVersionRow {
+  feed_version_id: number;
+  version_label: string | null;
+  date_added: number;
+  imported_at: number | null;
+  is_active: number;
+  deactivated_at: number | null;
+  feed_start_date: number | null;
+  feed_end_date: number | null;
+  // From feed_validation; null for versions imported before validation.
+  validation_error_count: number | null;
+  validation_warning_count: number | null;
+  validation_blocked: number | null;
+}
+
+export interface ValidationReportRow {
+  feed_version_id: number;
+  validated_at: number;
+  error_count: number;
+  warning_count: number;
+  blocked: number;
+  // JSON array of ValidationIssue.
+  issues: string;
+}
+
+/**
+ * A source as the admin API returns it. Only auth header names are shown:
+ * values may be literal keys rather than {SECRET_NAME} placeholders. The
+ * newest version without imported_at is still importing, or crashed.
+ */
+export function serializeFeedSource(row: AdminSourceRow) {
+  return {
+    source_name: row.source_name,
+    source_desc: row.source_desc,
+    provider: row.provider,
+    feed_url: row.feed_url,
+    auth_header_names: row.auth_headers
+      ? Object.keys(JSON.parse(row.auth_headers))
+      : [],
+    trip_updates_url: row.trip_updates_url,
+    service_alerts_url: row.service_alerts_url,
+    vehicle_positions_url: row.vehicle_positions_url,
+    bounds: row.bounds ? (JSON.parse(row.bounds) as number[]) : null,
+    active_version:
+      row.active_version_id === null
+        ? null
+        : {
+            feed_version_id: row.active_version_id,
+            version_label: row.active_version_label,
+          },
+    pinned_feed_version_id: row.pinned_feed_version_id,
+    last_import:
+      row.latest_version_id === null
+        ? null
+        : {
+            feed_version_id: row.latest_version_id,
+            date_added: row.latest_date_added,
+            imported_at: row.latest_imported_at,
+            status: row.latest_imported_at === null ? "incomplete" : "imported",
+          },
+  };
+}
+
+export function serializeFeedVersion(row: AdminVersionRow) {
+  const {
+    validation_error_count,
+    validation_warning_count,
+    validation_blocked,
+    ...version
+  } = row;
+  return {
+    ...version,
+    is_active: row.is_active === 1,
+    status: row.imported_at === null ? "incomplete" : "imported",
+    validation:
+      validation_blocked === null
+        ? null
+        : {
+            error_count: validation_error_count,
+            warning_count: validation_warning_count,
+            blocked: validation_blocked === 1,
+          },
+  };
+}
+
+export function serializeValidationReport(row: ValidationReportRow) {
+  return {
+    ...row,
+    blocked: row.blocked === 1,
+    issues: JSON.parse(row.issues) as ValidationIssue[],
+  };
+}
@@ -0,0 +1,417 @@
+// Request parsing and row serialization for the public /api/v1/* JSON API.
+// Kept free of "cloudflare:workers" imports so parameter handling is
+// unit-testable with vitest; the route handlers under app/api/v1 do the D1
+// reads through src/db.ts.
+
+import { DateTime } from "luxon";
+import {
+  DEFAULT_ITINERARIES,
+  MAX_ITINERARIES,
+  parsePlace,
+  type PlanPlace,
+} from "../../journey-planner";
+import {
+  DEFAULT_NEARBY_LIMIT,
+  DEFAULT_NEARBY_RADIUS_METERS,
+  MAX_NEARBY_LIMIT,
+  MAX_NEARBY_RADIUS_METERS,
+} from "../../nearby-queries";
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from "../../search-queries";
+import {
+  serviceDayOf,
+  serviceDayOfDate,
+  type ServiceDay,
+} from "../../service-day";
+
+export const DEFAULT_PAGE_LIMIT = 100;
+export const MAX_PAGE_LIMIT = 500;
+
+// Departure windows default to the stop page's two hours and are capped at a
+// day.
+export const DEFAULT_WINDOW_SECONDS = 2 * 60 * 60;
+export const MAX_WINDOW_SECONDS = 24 * 60 * 60;
+export const MAX_DEPARTURES = 1000;
+// Departures returned for the next service day when a window is empty.
+export const NEXT_SERVICE_DEPARTURES = 10;
+// Legs one fare request can price: a long journey with a few transfers.
+export const MAX_FARE_LEGS = 5;
+
+// Thrown by the parsers below for client mistakes; route handlers turn it
+// into a JSON error body with the carried status.
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export function apiErrorResponse(err: unknown): Response {
+  if (err instanceof ApiError) {
+    return Response.json({ error: err.message }, { status: err.status });
+  }
+  console.error("Unhandled API error:", err);
+  return Response.json({ error: "Internal server error" }, { status: 500 });
+}
+
+function parseIntParam(
+  params: URLSearchParams,
+  name: string,
+  fallback: number,
+  min: number,
+  max: number,
+): number {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return fallback;
+  if (!/^-?\d+$/.test(raw)) {
+    throw new ApiError(400, `Query param "${name}" must be an integer`);
+  }
+  const value = Number(raw);
+  if (value < min || value > max) {
+    throw new ApiError(
+      400,
+      `Query param "${name}" must be between ${min} and ${max}`,
+    );
+  }
+  return value;
+}
+
+// "1"/"true" or "0"/"false"; absent or empty is false.
+function parseBooleanParam(params: URLSearchParams, name: string): boolean {
+  const raw = params.get(name);
+  if (raw === null || raw === "" || raw === "0" || raw === "false") {
+    return false;
+  }
+  if (raw === "1" || raw === "true") return true;
+  throw new ApiError(400, `Query param "${name}" must be 1, 0, true or false`);
+}
+
+function parseCoordinate(
+  params: URLSearchParams,
+  name: string,
+  limit: number,
+): number {
+  const raw = params.get(name);
+  if (raw === null || raw === "") {
+    throw new ApiError(400, `Query param "${name}" is required`);
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || Math.abs(value) > limit) {
+    throw new ApiError(
+      400,
+      `Query param "${name}" must be a number between -${limit} and ${limit}`,
+    );
+  }
+  return value;
+}
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+export function parsePage(params: URLSearchParams): Page {
+  return {
+    limit: parseIntParam(
+      params,
+      "limit",
+      DEFAULT_PAGE_LIMIT,
+      1,
+      MAX_PAGE_LIMIT,
+    ),
+    offset: parseIntParam(params, "offset", 0, 0, Number.MAX_SAFE_INTEGER),
+  };
+}
+
+export interface Paginated<T> {
+  data: T[];
+  pagination: Page & { total: number };
+}
+
+// The list endpoints read small per-version tables in full (a few hundred
+// agencies or routes at most), so pagination slices in JS.
+export function paginate<T>(rows: T[], page: Page): Paginated<T> {
+  return {
+    data: rows.slice(page.offset, page.offset + page.limit),
+    pagination: { ...page, total: rows.length },
+  };
+}
+
+export interface DeparturesWindow {
+  // Epoch seconds.
+  start: number;
+  end: number;
+  timezone: string;
+  limit: number;
+  wheelchairAccessibleOnly: boolean;
+}
+
+/**
+ * Resolves `start` (epoch seconds, default now), `window` (seconds),
+ * `limit` and `accessible` (wheelchair accessible trips only). Which service
+ * days the range touches is getUpcomingDepartures' concern.
+ */
+export function parseDeparturesWindow(
+  params: URLSearchParams,
+  timezone: string,
+  nowSeconds: number = Math.floor(Date.now() / 1000),
+): DeparturesWindow {
+  const start = parseIntParam(
+    params,
+    "start",
+    nowSeconds,
+    0,
+    Number.MAX_SAFE_INTEGER,
+  );
+  const windowSeconds = parseIntParam(
+    params,
+    "window",
+    DEFAULT_WINDOW_SECONDS,
+    1,
+    MAX_WINDOW_SECONDS,
+  );
+  const limit = parseIntParam(
+    params,
+    "limit",
+    MAX_DEPARTURES,
+    1,
+    MAX_DEPARTURES,
+  );
+
+  if (!DateTime.fromSeconds(start, { zone: timezone }).isValid) {
+    throw new ApiError(500, `Invalid agency timezone: ${timezone}`);
+  }
+
+  return {
+    start,
+    end: start + windowSeconds,
+    timezone,
+    limit,
+    wheelchairAccessibleOnly: parseBooleanParam(params, "accessible"),
+  };
+}
+
+export interface SearchRequest {
+  q: string;
+  limit: number;
+}
+
+/** Reads the required `q` and an optional `limit` for stop search. */
+export function parseSearchRequest(params: URLSearchParams): SearchRequest {
+  const q = params.get("q")?.trim() ?? "";
+  if (!q) {
+    throw new ApiError(400, 'Query param "q" is required');
+  }
+  return {
+    q,
+    limit: parseIntParam(
+      params,
+      "limit",
+      DEFAULT_SEARCH_LIMIT,
+      1,
+      MAX_SEARCH_LIMIT,
+    ),
+  };
+}
+
+export interface NearbyRequest {
+  lat: number;
+  lon: number;
+  radiusMeters: number;
+  limit: number;
+  wheelchairAccessibleOnly: boolean;
+}
+
+/**
+ * Reads the required `lat`/`lon` and optional `radius` (m), `limit` and
+ * `accessible` (departures of wheelchair accessible trips only).
+ */
+export function parseNearbyRequest(params: URLSearchParams): NearbyRequest {
+  return {
+    lat: parseCoordinate(params, "lat", 90),
+    lon: parseCoordinate(params, "lon", 180),
+    radiusMeters: parseIntParam(
+      params,
+      "radius",
+      DEFAULT_NEARBY_RADIUS_METERS,
+      1,
+      MAX_NEARBY_RADIUS_METERS,
+    ),
+    limit: parseIntParam(
+      params,
+      "limit",
+      DEFAULT_NEARBY_LIMIT,
+      1,
+      MAX_NEARBY_LIMIT,
+    ),
+    wheelchairAccessibleOnly: parseBooleanParam(params, "accessible"),
+  };
+}
+
+export interface PlanRequest {
+  from: PlanPlace;
+  to: PlanPlace;
+  // Epoch seconds.
+  departAt: number;
+  count: number;
+}
+
+function parsePlaceParam(params: URLSearchParams, name: string): PlanPlace {
+  const place = parsePlace(params.get(name));
+  if (!place) {
+    throw new ApiError(
+      400,
+      `Query param "${name}" must be "lat,lon", "stop:AGENCY_ID:STOP_ID" or stop search text`,
+    );
+  }
+  return place;
+}
+
+/**
+ * Reads the required `from`/`to` journey ends and optional `depart` (epoch
+ * seconds, default now) and `count` for the trip planner.
+ */
+export function parsePlanRequest(
+  params: URLSearchParams,
+  nowSeconds: number = Math.floor(Date.now() / 1000),
+): PlanRequest {
+  return {
+    from: parsePlaceParam(params, "from"),
+    to: parsePlaceParam(params, "to"),
+    departAt: parseIntParam(
+      params,
+      "depart",
+      nowSeconds,
+      0,
+      Number.MAX_SAFE_INTEGER,
+    ),
+    count: parseIntParam(
+      params,
+      "count",
+      DEFAULT_ITINERARIES,
+      1,
+      MAX_ITINERARIES,
+    ),
+  };
+}
+
+/**
+ * Parses an optional `date` (YYYY-MM-DD) into that service day in the
+ * agency's timezone, defaulting to today.
+ */
+export function parseServiceDay(
+  params: URLSearchParams,
+  timezone: string,
+  nowSeconds: number = Math.floor(Date.now() / 1000),
+): ServiceDay {
+  const raw = params.get("date");
+  if (!raw) {
+    return serviceDayOf(DateTime.fromSeconds(nowSeconds, { zone: timezone }));
+  }
+  const day = serviceDayOfDate(raw, timezone);
+  if (!day) {
+    throw new ApiError(400, 'Query param "date" must be YYYY-MM-DD');
+  }
+  return day;
+}
+
+/**
+ * Parses an optional `date` (YYYY-MM-DD) into the start of that service day
+ * (noon minus 12h, which stop times count from) in the agency's timezone,
+ * defaulting to today.
+ */
+export function parseServiceDate(
+  params: URLSearchParams,
+  timezone: string,
+  nowSeconds: number = Math.floor(Date.now() / 1000),
+): number {
+  return parseServiceDay(params, timezone, nowSeconds).start;
+}
+
+export interface FareLegParams {
+  trip_id: string;
+  from_stop_id: string;
+  to_stop_id: string;
+}
+
+/**
+ * Reads the legs to price from repeated, parallel `trip`, `from` and `to`
+ * params: the nth leg rides trip n from stop n to stop n.
+ */
+export function parseFareRequest(params: URLSearchParams): FareLegParams[] {
+  const trips = params.getAll("trip");
+  const from = params.getAll("from");
+  const to = params.getAll("to");
+  if (trips.length === 0) {
+    throw new ApiError(400, 'Query param "trip" is required');
+  }
+  if (from.length !== trips.length || to.length !== trips.length) {
+    throw new ApiError(
+      400,
+      'Query params "trip", "from" and "to" must be given once per leg',
+    );
+  }
+  if (trips.length > MAX_FARE_LEGS) {
+    throw new ApiError(400, `At most ${MAX_FARE_LEGS} legs can be priced`);
+  }
+  return trips.map((trip_id, i) => {
+    if (!trip_id || !from[i] || !to[i]) {
+      throw new ApiError(
+        400,
+        'Query params "trip", "from" and "to" must not be empty',
+      );
+    }
+    return { trip_id, from_stop_id: from[i], to_stop_id: to[i] };
+  });
+}
+
+// Service-day offsets -> epoch seconds, keeping nulls (untimed stops).
+function toEpoch(serviceDayStart: number, seconds: number | null) {
+  return seconds === null ? null : serviceDayStart + seconds;
+}
+
+/**
+ * Adds epoch-second scheduled and predicted times to raw rows. Predicted
+ * times come from the per-stop realtime prediction and stay null when there
+ * is none.
+ */
+export function withDepartureEpochs<
+  T extends {
+    departure_time: number;
+    predicted_departure_time: number | null;
+  },
+>(rows: T[], serviceDayStart: number) {
+  return rows.map((row) => ({
+    ...row,
+    departure_epoch: serviceDayStart + row.departure_time,
+    predicted_departure_epoch: toEpoch(
+      serviceDayStart,
+      row.predicted_departure_time,
+    ),
+  }));
+}
+
+export function withStopTimeEpochs<
+  T extends {
+    arrival_time: number | null;
+    departure_time: number | null;
+    predicted_arrival_time: number | null;
+    predicted_departure_time: number | null;
+  },
+>(rows: T[], serviceDayStart: number) {
+  return rows.map((row) => ({
+    ...row,
+    arrival_epoch: toEpoch(serviceDayStart, row.arrival_time),
+    departure_epoch: toEpoch(serviceDayStart, row.departure_time),
+    predicted_arrival_epoch: toEpoch(
+      serviceDayStart,
+      row.predicted_arrival_time,
+    ),
+    predicted_departure_epoch: toEpoch(
+      serviceDayStart,
+      row.predicted_departure_time,
+    ),
+  }));
+}
@@ -3,9 +3,19 @@ import {
   getAgency,
   getStop,
   getStops,
-  getDepartures,
+  getNextService,
+  getServiceAlerts,
+  getTranslator,
+  getUpcomingDepartures,
   type DeparturesData,
 } from "../../db";
+import { describeNextService } from "../../service-day";
+import {
+  parseLanguagePreferences,
+  translateAgency,
+  translateStop,
+  translateTrip,
+} from "../../translations";
 
 export interface TrmnlUserConfig {
   agency_id: string;
@@ -13,6 +23,18 @@ export interface TrmnlUserConfig {
   display_name: string;
   access_token: string;
   plugin_setting_id?: string;
+  // Only list wheelchair accessible trips.
+  accessible_only?: boolean;
+  // Language tag for stop, route and headsign names (translations.txt).
+  language?: string;
+}
+
+export interface TrmnlDataOptions {
+  // Replaces the stop name.
+  displayName?: string;
+  accessibleOnly?: boolean;
+  // Language tag to translate names into, when the feed has translations.
+  language?: string;
 }
 
 export interface TrmnlDeparture {
@@ -28,6 +50,10 @@ export interface TrmnlStopData {
   agencyName: string;
   departures: TrmnlDeparture[];
   departureCount: number;
+  // Headlines of service alerts in effect at the stop or its routes.
+  alerts: string[];
+  // When service resumes ("Mon 05:42"), set only when the board is empty.
+  nextService: string | null;
   lastUpdated: string;
 }
 
@@ -37,14 +63,22 @@ const MAX_TRMNL_DEPARTURES = 30;
 
 function formatDeparture(
   dep: DeparturesData,
+  serviceDayStart: number,
   timezone: string,
 ): TrmnlDeparture {
-  const midnight = DateTime.now().setZone(timezone).startOf("day");
-  const depTime = midnight.plus({ seconds: dep.departure_time });
+  const depTime = DateTime.fromSeconds(serviceDayStart + dep.departure_time, {
+    zone: timezone,
+  });
   const timeStr = depTime.toFormat("HH:mm");
 
   let delayText = "Sched.";
-  if (dep.delay != null) {
+  if (dep.headway_secs) {
+    delayText = `Every ${Math.max(1, Math.round(dep.headway_secs / 60))} min`;
+  } else if (dep.pickup_window_end != null) {
+    delayText = "On demand";
+  } else if (dep.skipped) {
+    delayText = "Skipped";
+  } else if (dep.delay != null) {
     const delayMin = Math.round(dep.delay / 60);
     if (delayMin > 0) {
       delayText = `+${delayMin} min late`;
@@ -66,34 +100,45 @@ function formatDeparture(
 export async function getTrmnlData(
   agencyId: string,
   stopId: string,
-  displayName?: string,
+  options: TrmnlDataOptions = {},
 ): Promise<TrmnlStopData> {
-  const agency = await getAgency(agencyId);
-  if (!agency) {
+  const { displayName, accessibleOnly = false, language } = options;
+  const found = await getAgency(agencyId);
+  if (!found) {
     return {
       stopName: displayName || stopId,
       stopId,
       agencyName: agencyId,
       departures: [],
       departureCount: 0,
+      alerts: [],
+      nextService: null,
       lastUpdated: new Date().toISOString(),
     };
   }
 
-  const { agency_name, feed_version_id, agency_timezone } = agency;
+  const preferences = parseLanguagePreferences(language, null);
+  const t = await getTranslator(found.feed_version_id, preferences);
+  const { agency_name, feed_version_id, agency_timezone } = translateAgency(
+    t,
+    found,
+  );
 
-  const parentStop = await getStop(stopId, feed_version_id);
-  if (!parentStop) {
+  const untranslatedStop = await getStop(stopId, feed_version_id);
+  if (!untranslatedStop) {
     return {
       stopName: displayName || stopId,
       stopId,
       agencyName: agency_name,
       departures: [],
       departureCount: 0,
+      alerts: [],
+      nextService: null,
       lastUpdated: new Date().toISOString(),
     };
   }
 
+  const parentStop = translateStop(t, untranslatedStop);
   const childrenStops = await getStops({
     feed_version_id,
     parent_station_pk: parentStop.stop_pk,
@@ -102,31 +147,50 @@ export async function getTrmnlData(
   const targetStops = childrenStops.length > 0 ? childrenStops : [parentStop];
   const stopPks = targetStops.map((s) => s.stop_pk);
 
+  // The board covers the rest of the calendar day, including yesterday's
+  // service still running after midnight.
   const now = DateTime.now().setZone(agency_timezone);
-  const midnight = now.startOf("day");
-  const currentSeconds = Math.floor(now.diff(midnight, "seconds").seconds);
-  const endOfDaySeconds = 24 * 60 * 60;
-  const todayNoon = midnight.set({ hour: 12 }).toSeconds()!;
-  const days = [
-    "sunday",
-    "monday",
-    "tuesday",
-    "wednesday",
-    "thursday",
-    "friday",
-    "saturday",
-  ];
-  const todayColumn = days[now.weekday % 7];
-
-  const departures = await getDepartures({
+  const nowSeconds = Math.floor(now.toSeconds());
+  const { serviceDay, departures } = await getUpcomingDepartures({
     feed_version_id,
     stopPks,
-    currentSeconds,
-    endSeconds: endOfDaySeconds,
-    todayNoon,
-    todayColumn,
+    timezone: agency_timezone,
+    startSeconds: nowSeconds,
+    windowSeconds: Math.floor(now.endOf("day").toSeconds()) - nowSeconds,
+    wheelchairAccessibleOnly: accessibleOnly,
   });
 
+  // An empty board looks past today for the next departure.
+  let nextService: string | null = null;
+  if (departures.length === 0) {
+    const next = await getNextService({
+      feed_version_id,
+      stopPks,
+      timezone: agency_timezone,
+      startSeconds: nowSeconds,
+      limit: 1,
+      wheelchairAccessibleOnly: accessibleOnly,
+    });
+    if (next && next.departures.length > 0) {
+      nextService = describeNextService(
+        next.serviceDay,
+        next.departures[0].departure_time,
+        agency_timezone,
+        nowSeconds,
+        "HH:mm",
+      );
+    }
+  }
+
+  const alerts = await getServiceAlerts(
+    {
+      agencyId,
+      stopIds: [parentStop.stop_id, ...targetStops.map((s) => s.stop_id)],
+      routeIds: [...new Set(departures.map((d) => d.route_id))],
+    },
+    preferences[0],
+  );
+
   return {
     stopName: displayName || parentStop.stop_name,
     stopId,
@@ -135,8 +199,12 @@ export async function getTrmnlData(
     // but no layout renders more than ~27 rows, so cap the payload.
     departures: departures
       .slice(0, MAX_TRMNL_DEPARTURES)
-      .map((d) => formatDeparture(d, agency_timezone)),
+      .map((d) =>
+        formatDeparture(translateTrip(t, d), serviceDay.start, agency_timezone),
+      ),
     departureCount: departures.length,
+    alerts: alerts.map((a) => a.header || "Service alert"),
+    nextService,
     lastUpdated: new Date().toISOString(),
   };
 }
@@ -50,7 +50,12 @@ function renderBrutalist(data: TrmnlStopData, opts: BrutalistOptions): string {
   const sidePad = px(12);
   const topPad = px(8);
 
-  const availH = viewport.height - headerH - topPad * 2;
+  // Alerts take a single strip under the header (first headline plus a
+  // count) so they never push departures off a small screen.
+  const hasAlerts = data.alerts.length > 0;
+  const alertH = hasAlerts ? px(showHeadsign ? 26 : 18) : 0;
+
+  const availH = viewport.height - headerH - alertH - topPad * 2;
   const fitRows = Math.max(1, Math.floor((availH + rowGap) / (tileH + rowGap)));
   const total = cols * fitRows;
   const deps = data.departures.slice(0, total);
@@ -104,6 +109,20 @@ body {
   letter-spacing: 0.25em;
   text-transform: uppercase;
 }
+.bt-alert {
+  height: ${alertH}px;
+  border-bottom: ${px(3)}px solid #000;
+  padding: 0 ${px(16)}px;
+  display: flex;
+  align-items: center;
+  font-weight: 900;
+  font-size: ${px(showHeadsign ? 13 : 10)}px;
+  letter-spacing: 0.12em;
+  text-transform: uppercase;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+}
 .bt-grid {
   display: grid;
   grid-template-columns: repeat(${cols}, minmax(0, 1fr));
@@ -179,11 +198,12 @@ body {
 }
 .bt-no-deps {
   position: absolute;
-  top: ${headerH}px;
+  top: ${headerH + alertH}px;
   left: 0;
   right: 0;
   bottom: 0;
   display: flex;
+  flex-direction: column;
   align-items: center;
   justify-content: center;
   font-weight: 900;
@@ -193,12 +213,24 @@ body {
   color: #000;
   pointer-events: none;
 }
+.bt-next {
+  margin-top: ${px(12)}px;
+  font-size: ${px(showHeadsign ? 14 : 10)}px;
+  letter-spacing: 0.2em;
+}
 `;
 
   const header = `<div class="bt-header"><div class="bt-stop">${esc(
     data.stopName,
   )}</div><div class="bt-count">// ${data.departureCount} OUT</div></div>`;
 
+  const more = data.alerts.length - 1;
+  const alertStrip = hasAlerts
+    ? `<div class="bt-alert">! ${esc(data.alerts[0])}${
+        more > 0 ? ` (+${more} more)` : ""
+      }</div>`
+    : "";
+
   const tiles = Array.from({ length: total }, (_, i) => {
     const d = deps[i];
     if (!d) return `<div class="bt-empty"></div>`;
@@ -217,8 +249,11 @@ body {
   }).join("");
 
   const grid = `<div class="bt-grid">${tiles}</div>`;
+  const nextService = data.nextService
+    ? `<div class="bt-next">Next service ${esc(data.nextService)}</div>`
+    : "";
   const emptyOverlay = isEmpty
-    ? `<div class="bt-no-deps">No departures</div>`
+    ? `<div class="bt-no-deps"><div>No departures</div>${nextService}</div>`
     : "";
 
   return `<!DOCTYPE html>
@@ -227,7 +262,7 @@ body {
 <meta charset="UTF-8">
 <style>${styleBlock}</style>
 </head>
-<body>${header}${grid}${emptyOverlay}</body>
+<body>${header}${alertStrip}${grid}${emptyOverlay}</body>
 </html>`;
 }
 
@@ -0,0 +1,149 @@
+// Nearby-stop lookup: bounding-box SQL plus exact distance ranking. Kept
+// free of "cloudflare:workers" imports so the geometry is unit-testable with
+// vitest.
+//
+// idx_stops_lat_lon (feed_version_id, stop_lat, stop_lon) turns the box into
+// a latitude range scan per active version; the box's corners reach further
+// than the radius, so candidates are re-measured with the haversine formula
+// and only those inside the circle are kept.
+
+import type { SqlQuery } from "./db-queries";
+
+export const DEFAULT_NEARBY_RADIUS_METERS = 800;
+export const MAX_NEARBY_RADIUS_METERS = 5000;
+export const DEFAULT_NEARBY_LIMIT = 10;
+export const MAX_NEARBY_LIMIT = 25;
+// Upcoming departures attached to each nearby stop.
+export const NEARBY_DEPARTURES = 3;
+// Bounds the rows a dense downtown box can return before ranking. The box is
+// unordered, so this is set far above anything a 5 km radius holds in the
+// Bay Area.
+export const NEARBY_CANDIDATE_LIMIT = 2000;
+
+const EARTH_RADIUS_METERS = 6371008.8;
+const METERS_PER_DEGREE_LAT = 111320;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance in meters. */
+export function haversineMeters(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+/**
+ * The lat/lon box enclosing a circle of `radiusMeters`. Longitude degrees
+ * shrink toward the poles, so the box widens with latitude.
+ */
+export function boundingBox(
+  lat: number,
+  lon: number,
+  radiusMeters: number,
+): BoundingBox {
+  const dLat = radiusMeters / METERS_PER_DEGREE_LAT;
+  const cosLat = Math.max(Math.cos(toRadians(lat)), 1e-6);
+  const dLon = Math.min(180, radiusMeters / (METERS_PER_DEGREE_LAT * cosLat));
+  return {
+    minLat: lat - dLat,
+    maxLat: lat + dLat,
+    minLon: lon - dLon,
+    maxLon: lon + dLon,
+  };
+}
+
+export interface NearbyStopRow {
+  stop_pk: number;
+  stop_id: string;
+  stop_code: string | null;
+  stop_name: string | null;
+  stop_lat: number;
+  stop_lon: number;
+  location_type: number | null;
+  stop_timezone: string | null;
+  feed_version_id: number;
+  agency_id: string;
+  agency_name: string;
+  agency_timezone: string;
+}
+
+/**
+ * Parent stations and standalone stops of every active version inside the
+ * box. Platforms are left out (their station stands for them), as are
+ * entrances, nodes and boarding areas.
+ */
+export function buildNearbyStopsQuery(box: BoundingBox): SqlQuery {
+  const sql = `
+    SELECT
+        s.stop_pk,
+        s.stop_id,
+        s.stop_code,
+        s.stop_name,
+        s.stop_lat,
+        s.stop_lon,
+        s.location_type,
+        s.stop_timezone,
+        s.feed_version_id,
+        a.agency_id,
+        a.agency_name,
+        a.agency_timezone
+    FROM feed_version fv
+    JOIN stops s ON s.feed_version_id = fv.feed_version_id
+    JOIN agency a ON a.agency_pk = (
+        SELECT MIN(a2.agency_pk) FROM agency a2
+        WHERE a2.feed_version_id = s.feed_version_id
+    )
+    WHERE fv.is_active = 1
+      AND s.stop_lat BETWEEN ? AND ?
+      AND s.stop_lon BETWEEN ? AND ?
+      AND s.parent_station IS NULL
+      AND COALESCE(s.location_type, 0) IN (0, 1)
+    LIMIT ${NEARBY_CANDIDATE_LIMIT}
+  `;
+  return {
+    sql,
+    params: [box.minLat, box.maxLat, box.minLon, box.maxLon],
+  };
+}
+
+/**
+ * Measures each candidate's distance from (lat, lon), drops those outside
+ * the radius, and returns the closest `limit`, nearest first.
+ */
+export function rankNearbyStops<
+  T extends { stop_lat: number; stop_lon: number },
+>(
+  rows: T[],
+  lat: number,
+  lon: number,
+  radiusMeters: number,
+  limit: number,
+): (T & { distance_m: number })[] {
+  return rows
+    .map((row) => ({
+      ...row,
+      distance_m: Math.round(
+        haversineMeters(lat, lon, row.stop_lat, row.stop_lon),
+      ),
+    }))
+    .filter((row) => row.distance_m <= radiusMeters)
+    .sort((a, b) => a.distance_m - b.distance_m)
+    .slice(0, limit);
+}
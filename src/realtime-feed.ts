@@ -1,40 +1,54 @@
 import { env } from "cloudflare:workers";
 import { cache } from "react";
 import { transit_realtime } from "./gtfs-realtime";
-import { buildRealtimeMap, type RealtimeEntry } from "./db-queries";
+import {
+  buildRealtimeMap,
+  buildServiceAlerts,
+  buildVehiclePositions,
+  type RealtimeEntry,
+  type VehiclePositions,
+} from "./db-queries";
+import {
+  FEED_SOURCE_COLUMNS,
+  type FeedRequest,
+  type FeedSourceConfig,
+  type RealtimeFeed,
+  resolveRealtimeFeedRequest,
+} from "./feed-sources";
+import type { ServiceAlert } from "./realtime-utils";
 
-// How long a fetched GTFS-RT payload is reused before we hit 511 again. The
+// How long a fetched GTFS-RT payload is reused before we hit upstream again. The
 // raw protobuf bytes are cached in the Cloudflare Cache API, so concurrent and
 // sequential page renders share one upstream fetch instead of polling every
 // ~15s in the background.
 const RT_CACHE_TTL_SECONDS = 15;
 
-// Synthetic, key-only URL: keeps the 511 api_key out of the cache key while
-// still varying by agency.
-function rtCacheKey(agencyId: string): Request {
-  return new Request(`https://rt.internal/tripupdates?agency=${agencyId}`, {
-    method: "GET",
-  });
+// Synthetic, key-only URL: built from the endpoint before secrets are filled
+// in, so API keys stay out of the cache key.
+function rtCacheKey(feed: FeedRequest): Request {
+  return new Request(
+    `https://rt.internal/feed?key=${encodeURIComponent(feed.cacheKey)}`,
+    { method: "GET" },
+  );
 }
 
 // The Workers Cache API lives at caches.default. It is undefined in vitest and
 // a transparent no-op on workers.dev previews (only real zones cache); both
 // degrade to a direct upstream fetch. lib.dom's CacheStorage typing shadows
 // .default, hence the cast.
-function getCacheStore(): Cache | undefined {
+export function getCacheStore(): Cache | undefined {
   const cs = (globalThis as { caches?: { default?: Cache } }).caches;
   return cs?.default;
 }
 
-async function fetchRawFeed(agencyId: string): Promise<ArrayBuffer | null> {
+async function fetchRawFeed(feed: FeedRequest): Promise<ArrayBuffer | null> {
   const store = getCacheStore();
   if (store) {
-    const hit = await store.match(rtCacheKey(agencyId));
+    const hit = await store.match(rtCacheKey(feed));
     if (hit) return await hit.arrayBuffer();
   }
 
-  const url = `https://api.511.org/transit/tripupdates?api_key=${env.API_KEY_511}&agency=${agencyId}`;
-  const response = await fetch(url);
+  const response = await fetch(feed.url, { headers: feed.headers });
   // Rate limited (429) or any error: skip realtime for this render rather than
   // breaking the page.
   if (!response.ok) return null;
@@ -48,28 +62,110 @@ async function fetchRawFeed(agencyId: string): Promise<ArrayBuffer | null> {
         "Content-Type": "application/x-protobuf",
       },
     });
-    await store.put(rtCacheKey(agencyId), cacheable).catch(() => {});
+    await store.put(rtCacheKey(feed), cacheable).catch(() => {});
   }
 
   return buffer;
 }
 
-// Fetches (and caches) the regional GTFS-RT TripUpdates feed and returns a
-// trip_id -> {delay, status} map. Wrapped in React cache() so a single render
-// decodes the payload at most once. Never throws: any failure yields an empty
-// map so pages still render their static schedule.
+// The feed source a version was imported from. Its realtime feeds are the
+// ones that describe the version's trips, routes and stops: ids are only
+// unique within a source, so feeds of other sources never apply.
+const getVersionSource = cache(
+  async (feedVersionId: number): Promise<FeedSourceConfig | null> =>
+    env.gtfs_data
+      .prepare(
+        `SELECT ${FEED_SOURCE_COLUMNS.map((c) => `fs.${c}`).join(", ")}
+         FROM feed_version fv
+         JOIN feed_source fs ON fs.feed_source_id = fv.feed_source_id
+         WHERE fv.feed_version_id = ?`,
+      )
+      .bind(feedVersionId)
+      .first<FeedSourceConfig>(),
+);
+
+interface SourceEntities {
+  entities: transit_realtime.IFeedEntity[];
+  // 511's regional feeds prefix ids with "{agency}:"; see stripAgencyPrefix.
+  agencyPrefixed: boolean;
+}
+
+// The entities of `feed` from the version's source, decoded. None when the
+// source has no such feed or the endpoint fails; all 511 operators share the
+// regional (RG) feeds, which the payload cache fetches once for all of them.
+// Throws when the source's secret is missing or its auth_headers are
+// malformed.
+async function fetchFeedEntities(
+  feedVersionId: number,
+  feed: RealtimeFeed,
+): Promise<SourceEntities> {
+  const source = await getVersionSource(feedVersionId);
+  if (!source) return { entities: [], agencyPrefixed: false };
+  const agencyPrefixed = source.provider === "511";
+  const request = resolveRealtimeFeedRequest(
+    source,
+    feed,
+    env as unknown as Record<string, unknown>,
+  );
+  if (!request) return { entities: [], agencyPrefixed };
+  const buffer = await fetchRawFeed(request);
+  if (!buffer) return { entities: [], agencyPrefixed };
+  const message = transit_realtime.FeedMessage.decode(new Uint8Array(buffer));
+  return { entities: message.entity ?? [], agencyPrefixed };
+}
+
+// Fetches (and caches) the TripUpdates feed of the version's source and
+// returns a trip_id -> {delay, status} map. Wrapped in React cache() so a
+// single render decodes each payload at most once. Never throws: any failure
+// yields an empty map so pages still render their static schedule.
 export const getRealtimeTripUpdates = cache(
-  async (agencyId = "RG"): Promise<Map<string, RealtimeEntry>> => {
+  async (feedVersionId: number): Promise<Map<string, RealtimeEntry>> => {
     try {
-      const buffer = await fetchRawFeed(agencyId);
-      if (!buffer) return new Map();
-      const message = transit_realtime.FeedMessage.decode(
-        new Uint8Array(buffer),
+      const { entities, agencyPrefixed } = await fetchFeedEntities(
+        feedVersionId,
+        "tripupdates",
       );
-      return buildRealtimeMap(message.entity || []);
+      return buildRealtimeMap(entities, agencyPrefixed);
     } catch (err) {
       console.error("Failed to load realtime trip updates:", err);
       return new Map();
     }
   },
 );
+
+// Fetches (and caches, same as trip updates) the ServiceAlerts feed of the
+// version's source and returns every alert with text in `language`.
+// Active-period and scope filtering happen per page (see
+// selectServiceAlerts). Never throws.
+export const getRealtimeServiceAlerts = cache(
+  async (feedVersionId: number, language = "en"): Promise<ServiceAlert[]> => {
+    try {
+      const { entities, agencyPrefixed } = await fetchFeedEntities(
+        feedVersionId,
+        "servicealerts",
+      );
+      return buildServiceAlerts(entities, language, agencyPrefixed);
+    } catch (err) {
+      console.error("Failed to load realtime service alerts:", err);
+      return [];
+    }
+  },
+);
+
+// Fetches (and caches) the VehiclePositions feed of the version's source and
+// indexes vehicles by trip and route. Never throws: failures yield no
+// vehicles.
+export const getRealtimeVehiclePositions = cache(
+  async (feedVersionId: number): Promise<VehiclePositions> => {
+    try {
+      const { entities, agencyPrefixed } = await fetchFeedEntities(
+        feedVersionId,
+        "vehiclepositions",
+      );
+      return buildVehiclePositions(entities, agencyPrefixed);
+    } catch (err) {
+      console.error("Failed to load realtime vehicle positions:", err);
+      return buildVehiclePositions([]);
+    }
+  },
+);
@@ -57,37 +57,79 @@ export function stripAgencyPrefix(id: string): string {
   return idx >= 0 ? id.substring(idx + 1) : id;
 }
 
+// Only 511's regional feeds prefix their ids (`agencyPrefixed`); other
+// feeds use their static GTFS ids as they are, colons included.
+function staticId(id: string, agencyPrefixed: boolean): string {
+  return agencyPrefixed ? stripAgencyPrefix(id) : id;
+}
+
 export type TripUpdateStatus =
   | "SCHEDULED"
   | "ADDED"
   | "UNSCHEDULED"
   | "CANCELED";
 
+// One stop_time_update, kept as sent; delay propagation across the trip's
+// stops happens when rows are merged (see predictStopTimes).
+export interface StopTimeUpdateState {
+  stopSequence: number | null;
+  // Prefix-stripped, matching static GTFS.
+  stopId: string | null;
+  arrivalDelay: number | null;
+  departureDelay: number | null;
+  // Absolute predictions in epoch seconds, for feeds that send times
+  // instead of delays.
+  arrivalTime: number | null;
+  departureTime: number | null;
+  // schedule_relationship SKIPPED: the vehicle will not stop here.
+  skipped: boolean;
+  // schedule_relationship NO_DATA: no prediction here, and none propagates
+  // past this stop.
+  noData: boolean;
+}
+
 export interface TripUpdateState {
   // Prefix-stripped trip id, matching static GTFS.
   tripId: string;
-  delay: number;
+  // TripUpdate.delay; null when the feed omits it.
+  delay: number | null;
   status: TripUpdateStatus;
+  stopTimeUpdates: StopTimeUpdateState[];
+}
+
+function extractStopTimeUpdate(
+  stu: transit_realtime.TripUpdate.IStopTimeUpdate,
+  agencyPrefixed: boolean,
+): StopTimeUpdateState {
+  const eventDelay = (event: transit_realtime.TripUpdate.IStopTimeEvent) =>
+    has(event, "delay") ? event.delay! : null;
+  const rawStopId = stu.stopId || null;
+  return {
+    stopSequence: has(stu, "stopSequence") ? stu.stopSequence! : null,
+    stopId: rawStopId && staticId(rawStopId, agencyPrefixed),
+    arrivalDelay: stu.arrival ? eventDelay(stu.arrival) : null,
+    departureDelay: stu.departure ? eventDelay(stu.departure) : null,
+    arrivalTime: toEpochSeconds(stu.arrival?.time),
+    departureTime: toEpochSeconds(stu.departure?.time),
+    skipped: stu.scheduleRelationship === 1,
+    noData: stu.scheduleRelationship === 2,
+  };
 }
 
-// Reduces a GTFS-Realtime feed entity to the per-trip state we persist:
-// trip-level delay (falling back to the first stop time update), and
-// schedule relationship mapped to a status string.
+// Reduces a GTFS-Realtime feed entity to the per-trip state we merge into
+// pages: the trip-level delay if the feed sends one, the schedule
+// relationship mapped to a status string, and the full stop_time_update list
+// for per-stop predictions. The delay is not borrowed from a stop time
+// update: that update's delay says nothing about the stops before it.
 export function extractTripUpdateState(
   entity: transit_realtime.IFeedEntity,
+  agencyPrefixed = true,
 ): TripUpdateState | null {
   if (!entity.tripUpdate || !entity.tripUpdate.trip) return null;
   const rawTripId = entity.tripUpdate.trip.tripId;
   if (!rawTripId) return null;
 
-  const tripId = stripAgencyPrefix(rawTripId);
-
-  let effectiveDelay = entity.tripUpdate.delay || 0;
-  if (!effectiveDelay && entity.tripUpdate.stopTimeUpdate?.length) {
-    const firstUpdate = entity.tripUpdate.stopTimeUpdate[0];
-    effectiveDelay =
-      firstUpdate.arrival?.delay || firstUpdate.departure?.delay || 0;
-  }
+  const tripId = staticId(rawTripId, agencyPrefixed);
 
   let status: TripUpdateStatus = "SCHEDULED";
   if (entity.tripUpdate.trip.scheduleRelationship) {
@@ -97,5 +139,230 @@ export function extractTripUpdateState(
     if (rel === 3) status = "CANCELED";
   }
 
-  return { tripId, delay: effectiveDelay, status };
+  return {
+    tripId,
+    delay: has(entity.tripUpdate, "delay") ? entity.tripUpdate.delay! : null,
+    status,
+    stopTimeUpdates: (entity.tripUpdate.stopTimeUpdate || []).map((stu) =>
+      extractStopTimeUpdate(stu, agencyPrefixed),
+    ),
+  };
+}
+
+// One informed_entity selector, with ids prefix-stripped like trip updates.
+// Regional feeds often omit agency_id and rely on the id prefix instead, so a
+// missing agencyId is recovered from the first prefixed id.
+export interface AlertEntity {
+  agencyId: string | null;
+  routeId: string | null;
+  stopId: string | null;
+  tripId: string | null;
+}
+
+export interface AlertPeriod {
+  // Epoch seconds; null means open-ended.
+  start: number | null;
+  end: number | null;
+}
+
+export interface ServiceAlert {
+  id: string;
+  header: string | null;
+  description: string | null;
+  url: string | null;
+  // Enum names from gtfs-realtime.proto (e.g. "DETOUR", "WARNING").
+  cause: string | null;
+  effect: string | null;
+  severity: string | null;
+  activePeriods: AlertPeriod[];
+  informedEntities: AlertEntity[];
+}
+
+// Picks the translation for `language` (matching either the full tag or its
+// primary subtag), then an untagged one, then whatever comes first.
+export function pickTranslation(
+  text: transit_realtime.ITranslatedString | null | undefined,
+  language = "en",
+): string | null {
+  const translations = (text?.translation || []).filter((t) => t.text);
+  if (!translations.length) return null;
+  const wanted = language.toLowerCase();
+  const primary = wanted.split("-")[0];
+  const match =
+    translations.find((t) => t.language?.toLowerCase() === wanted) ||
+    translations.find(
+      (t) => t.language?.toLowerCase().split("-")[0] === primary,
+    ) ||
+    translations.find((t) => !t.language) ||
+    translations[0];
+  return match.text ?? null;
+}
+
+// uint64 fields decode as Long when long.js is loaded, plain numbers
+// otherwise. Zero and absent both mean "unbounded" for time ranges.
+function toEpochSeconds(
+  value: number | { toNumber(): number } | null | undefined,
+): number | null {
+  if (value === null || value === undefined) return null;
+  const n = typeof value === "number" ? value : value.toNumber();
+  return n > 0 ? n : null;
+}
+
+function agencyFromPrefix(id: string | null | undefined): string | null {
+  if (!id) return null;
+  const idx = id.indexOf(":");
+  return idx > 0 ? id.substring(0, idx) : null;
+}
+
+function enumName(
+  values: Record<string, string | number>,
+  value: number | null | undefined,
+): string | null {
+  if (value === null || value === undefined) return null;
+  const name = values[value];
+  return typeof name === "string" ? name : null;
+}
+
+// Reduces a GTFS-Realtime alert entity to display-ready text in `language`
+// plus the periods and selectors used to decide where it is shown.
+export function extractServiceAlert(
+  entity: transit_realtime.IFeedEntity,
+  language = "en",
+  agencyPrefixed = true,
+): ServiceAlert | null {
+  const alert = entity.alert;
+  if (!alert) return null;
+
+  const informedEntities: AlertEntity[] = [];
+  for (const sel of alert.informedEntity || []) {
+    const routeId = sel.routeId || sel.trip?.routeId || null;
+    const tripId = sel.trip?.tripId || null;
+    const stopId = sel.stopId || null;
+    const agencyId =
+      sel.agencyId ||
+      (agencyPrefixed &&
+        (agencyFromPrefix(routeId) ||
+          agencyFromPrefix(tripId) ||
+          agencyFromPrefix(stopId))) ||
+      null;
+    if (!agencyId && !routeId && !tripId && !stopId) continue;
+    informedEntities.push({
+      agencyId,
+      routeId: routeId && staticId(routeId, agencyPrefixed),
+      stopId: stopId && staticId(stopId, agencyPrefixed),
+      tripId: tripId && staticId(tripId, agencyPrefixed),
+    });
+  }
+
+  return {
+    id: entity.id,
+    header: pickTranslation(alert.headerText, language),
+    description: pickTranslation(alert.descriptionText, language),
+    url: pickTranslation(alert.url, language),
+    cause: enumName(transit_realtime.Alert.Cause, alert.cause),
+    effect: enumName(transit_realtime.Alert.Effect, alert.effect),
+    severity: enumName(
+      transit_realtime.Alert.SeverityLevel,
+      alert.severityLevel,
+    ),
+    activePeriods: (alert.activePeriod || []).map((p) => ({
+      start: toEpochSeconds(p.start),
+      end: toEpochSeconds(p.end),
+    })),
+    informedEntities,
+  };
+}
+
+// An alert with no active_period is always active (per the spec); otherwise
+// `nowSeconds` must fall inside at least one period.
+export function isAlertActive(
+  alert: ServiceAlert,
+  nowSeconds: number,
+): boolean {
+  if (!alert.activePeriods.length) return true;
+  return alert.activePeriods.some(
+    (p) =>
+      (p.start === null || p.start <= nowSeconds) &&
+      (p.end === null || nowSeconds < p.end),
+  );
+}
+
+export type VehicleStopStatus = "INCOMING_AT" | "STOPPED_AT" | "IN_TRANSIT_TO";
+
+export interface VehicleState {
+  // Recovered from the id prefix (or trip/route agency) like alert selectors,
+  // so pages can ignore same-id vehicles of other agencies.
+  agencyId: string | null;
+  // Prefix-stripped, matching static GTFS.
+  tripId: string | null;
+  routeId: string | null;
+  directionId: number | null;
+  vehicleId: string | null;
+  label: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  bearing: number | null;
+  stopId: string | null;
+  currentStopSequence: number | null;
+  currentStatus: VehicleStopStatus;
+  // OccupancyStatus enum name (e.g. "MANY_SEATS_AVAILABLE"), null if unsent.
+  occupancy: string | null;
+  // Epoch seconds of the position fix.
+  timestamp: number | null;
+}
+
+// Decoded proto2 messages report unset optional fields through prototype
+// defaults (0 for stop sequences, EMPTY for occupancy), so presence has to
+// be checked on the instance itself.
+function has<T extends object>(obj: T, key: keyof T): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key) && obj[key] != null;
+}
+
+// Reduces a GTFS-Realtime vehicle entity to the fields the route and trip
+// pages show. Vehicles that name neither a trip nor a route can't be placed
+// and are dropped.
+export function extractVehicleState(
+  entity: transit_realtime.IFeedEntity,
+  agencyPrefixed = true,
+): VehicleState | null {
+  const vp = entity.vehicle;
+  if (!vp) return null;
+  const rawTripId = vp.trip?.tripId || null;
+  const rawRouteId = vp.trip?.routeId || null;
+  if (!rawTripId && !rawRouteId) return null;
+
+  const rawStopId = vp.stopId || null;
+  return {
+    agencyId: agencyPrefixed
+      ? agencyFromPrefix(rawTripId) ||
+        agencyFromPrefix(rawRouteId) ||
+        agencyFromPrefix(rawStopId)
+      : null,
+    tripId: rawTripId && staticId(rawTripId, agencyPrefixed),
+    routeId: rawRouteId && staticId(rawRouteId, agencyPrefixed),
+    directionId:
+      vp.trip && has(vp.trip, "directionId") ? vp.trip.directionId! : null,
+    vehicleId: vp.vehicle?.id || null,
+    label: vp.vehicle?.label || null,
+    latitude: vp.position?.latitude ?? null,
+    longitude: vp.position?.longitude ?? null,
+    bearing: vp.position?.bearing ?? null,
+    stopId: rawStopId && staticId(rawStopId, agencyPrefixed),
+    currentStopSequence: has(vp, "currentStopSequence")
+      ? vp.currentStopSequence!
+      : null,
+    // The spec's default when current_status is absent.
+    currentStatus:
+      (enumName(
+        transit_realtime.VehiclePosition.VehicleStopStatus,
+        vp.currentStatus,
+      ) as VehicleStopStatus | null) ?? "IN_TRANSIT_TO",
+    occupancy: has(vp, "occupancyStatus")
+      ? enumName(
+          transit_realtime.VehiclePosition.OccupancyStatus,
+          vp.occupancyStatus,
+        )
+      : null,
+    timestamp: toEpochSeconds(vp.timestamp),
+  };
 }
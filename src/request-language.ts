@@ -0,0 +1,12 @@
+import { headers } from "next/headers";
+import { parseLanguagePreferences } from "./translations";
+
+// The rider's languages for the page being rendered: `?lang=` if given, else
+// the browser's Accept-Language. worker/cache.ts redirects header-negotiated
+// page requests to their `?lang=` URL before they get here.
+export async function getLanguagePreferences(
+  langParam?: string,
+): Promise<string[]> {
+  const accept = (await headers()).get("accept-language");
+  return parseLanguagePreferences(langParam, accept);
+}
@@ -0,0 +1,258 @@
+// Stop search: text normalization, index rows, and the ranked search query.
+// Kept free of "cloudflare:workers" imports so tokenizing and ranking are
+// unit-testable with vitest.
+//
+// The index is the stop_search table (migration 0019), one row per (stop,
+// token), written by Import511Workflow once a version's stops, routes and
+// stop_times are in. Both the index and incoming queries go through
+// searchTokens, so "Market St", "market street" and "MARKET ST." all reduce
+// to the same tokens.
+
+import type { SqlQuery } from "./db-queries";
+
+// Which field a token came from, best first. Stored in stop_search.source.
+export const SEARCH_SOURCE = {
+  // stop_code or stop_id: riders who know the number want that exact stop.
+  CODE: 0,
+  NAME: 1,
+  // Short or long name of a route serving the stop.
+  ROUTE: 2,
+} as const;
+
+// Per-source score for a matching query token, interpolated into SQL. An
+// exact token match scores double a prefix match.
+const SOURCE_WEIGHTS = [100, 10, 4];
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+// Each query token adds a subquery, so long inputs are truncated.
+export const MAX_SEARCH_TOKENS = 6;
+
+// Street-type and place abbreviations common in Bay Area stop names, mapped
+// to the spelled-out word. "St" is read as Street, never Saint: stop names
+// use it for streets far more often.
+const ABBREVIATIONS: Record<string, string> = {
+  st: "street",
+  str: "street",
+  ave: "avenue",
+  av: "avenue",
+  blvd: "boulevard",
+  rd: "road",
+  dr: "drive",
+  ln: "lane",
+  ct: "court",
+  pl: "place",
+  sq: "square",
+  pkwy: "parkway",
+  hwy: "highway",
+  fwy: "freeway",
+  expy: "expressway",
+  ctr: "center",
+  stn: "station",
+  hosp: "hospital",
+  univ: "university",
+  mt: "mount",
+  ft: "fort",
+  intl: "international",
+};
+
+/**
+ * Lowercases, strips accents and apostrophes, spells out "&", and turns any
+ * other punctuation into single spaces.
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** Distinct search tokens of `text`, with abbreviations spelled out. */
+export function searchTokens(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const tokens = normalizeSearchText(text)
+    .split(" ")
+    .filter(Boolean)
+    .map((t) => ABBREVIATIONS[t] ?? t);
+  return [...new Set(tokens)];
+}
+
+// Stop codes and ids are matched whole as well as by part, so "SF:1234"
+// is found by "sf1234" and by "1234".
+function codeTokens(code: string | null): string[] {
+  const parts = searchTokens(code);
+  return parts.length > 1 ? [...parts, parts.join("")] : parts;
+}
+
+export interface SearchIndexStop {
+  stop_pk: number;
+  stop_id: string;
+  stop_code: string | null;
+  stop_name: string | null;
+  location_type: number | null;
+  // stop_pk of the parent station, if any.
+  parent_station: number | null;
+}
+
+export interface SearchIndexRoute {
+  route_pk: number;
+  route_short_name: string | null;
+  route_long_name: string | null;
+}
+
+export interface StopRoutePair {
+  stop_pk: number;
+  route_pk: number;
+}
+
+export interface StopSearchRow {
+  stop_pk: number;
+  token: string;
+  source: number;
+}
+
+/**
+ * Builds a version's stop_search rows. Stations and standalone stops are
+ * indexed by name, code and the routes serving them (a platform's routes
+ * count for its station). Platforms are indexed by code only, so a name
+ * search lists the station once rather than once per platform. Entrances,
+ * nodes and boarding areas are not searchable. A token found in several
+ * fields keeps its best source.
+ */
+export function buildStopSearchRows(
+  stops: SearchIndexStop[],
+  routes: SearchIndexRoute[],
+  stopRoutes: StopRoutePair[],
+): StopSearchRow[] {
+  const best = new Map<string, StopSearchRow>();
+  const add = (stop_pk: number, tokens: string[], source: number) => {
+    for (const token of tokens) {
+      const key = `${stop_pk}|${token}`;
+      const existing = best.get(key);
+      if (!existing || source < existing.source) {
+        best.set(key, { stop_pk, token, source });
+      }
+    }
+  };
+
+  const searchable = new Map<number, SearchIndexStop>();
+  for (const stop of stops) {
+    const locationType = stop.location_type ?? 0;
+    if (locationType !== 0 && locationType !== 1) continue;
+    searchable.set(stop.stop_pk, stop);
+
+    add(stop.stop_pk, codeTokens(stop.stop_code), SEARCH_SOURCE.CODE);
+    add(stop.stop_pk, codeTokens(stop.stop_id), SEARCH_SOURCE.CODE);
+    if (stop.parent_station === null) {
+      add(stop.stop_pk, searchTokens(stop.stop_name), SEARCH_SOURCE.NAME);
+    }
+  }
+
+  const routeTokens = new Map<number, string[]>();
+  for (const route of routes) {
+    routeTokens.set(route.route_pk, [
+      ...searchTokens(route.route_short_name),
+      ...searchTokens(route.route_long_name),
+    ]);
+  }
+
+  for (const { stop_pk, route_pk } of stopRoutes) {
+    const stop = searchable.get(stop_pk);
+    const tokens = routeTokens.get(route_pk);
+    if (!stop || !tokens) continue;
+    add(stop.parent_station ?? stop.stop_pk, tokens, SEARCH_SOURCE.ROUTE);
+  }
+
+  return [...best.values()];
+}
+
+// Which routes serve which stops, for indexing route names. Reading every
+// trip's stop_times would scan the whole version, so one representative trip
+// per route, direction, shape and headsign stands in for each stopping
+// pattern. Binds ?1 = feed_version_id.
+export const STOP_ROUTES_QUERY = `
+    SELECT DISTINCT s.stop_pk, rep.route_pk
+    FROM (
+        SELECT MIN(t.timetable_trip_pk) AS timetable_trip_pk, t.route_pk
+        FROM trips t
+        WHERE t.feed_version_id = ?1
+        GROUP BY t.route_pk, t.direction_id, t.shape_id, t.trip_headsign
+    ) rep
+    JOIN stop_times st ON st.trip_pk = rep.timetable_trip_pk
+    JOIN stops s ON s.timetable_stop_pk = st.stop_pk AND s.feed_version_id = ?1
+`;
+
+/**
+ * Searches stops of every active feed version. Each query token must match
+ * some indexed token of the stop by prefix, so "embar" finds Embarcadero
+ * while typing. Stops score the sum of their best match per query token,
+ * weighted by source, and rank highest first.
+ */
+export function buildStopSearchQuery(
+  tokens: string[],
+  limit: number = DEFAULT_SEARCH_LIMIT,
+): SqlQuery {
+  if (tokens.length === 0) {
+    throw new Error("Stop search needs at least one token");
+  }
+  const terms = tokens.slice(0, MAX_SEARCH_TOKENS);
+  const params: unknown[] = [];
+
+  const weight = `CASE x.source ${SOURCE_WEIGHTS.map(
+    (w, source) => `WHEN ${source} THEN ${w}`,
+  ).join(" ")} ELSE 0 END`;
+
+  // Tokens are [a-z0-9] only, and "{" sorts after all of them, so
+  // [token, token + "{") is exactly the tokens starting with `token` and
+  // stays a range scan on the primary key.
+  const matches = terms.map((term) => {
+    params.push(term, term, `${term}{`);
+    return `
+        SELECT
+            x.stop_pk,
+            MAX(${weight} * CASE WHEN x.token = ? THEN 2 ELSE 1 END) AS score
+        FROM stop_search x
+        JOIN feed_version fv ON fv.feed_version_id = x.feed_version_id
+        WHERE fv.is_active = 1
+          AND x.token >= ?
+          AND x.token < ?
+        GROUP BY x.stop_pk`;
+  });
+  params.push(limit);
+
+  const sql = `
+    WITH Matches AS (${matches.join("\n        UNION ALL")}
+    ),
+    Ranked AS (
+        SELECT stop_pk, SUM(score) AS score
+        FROM Matches
+        GROUP BY stop_pk
+        HAVING COUNT(*) = ${terms.length}
+    )
+    SELECT
+        s.stop_pk,
+        s.stop_id,
+        s.stop_code,
+        s.stop_name,
+        s.location_type,
+        p.stop_name AS parent_name,
+        a.agency_id,
+        a.agency_name,
+        m.score
+    FROM Ranked m
+    JOIN stops s ON s.stop_pk = m.stop_pk
+    LEFT JOIN stops p ON p.stop_pk = s.parent_station
+    JOIN agency a ON a.agency_pk = (
+        SELECT MIN(a2.agency_pk) FROM agency a2
+        WHERE a2.feed_version_id = s.feed_version_id
+    )
+    ORDER BY m.score DESC, s.stop_name ASC
+    LIMIT ?
+  `;
+
+  return { sql, params };
+}
@@ -0,0 +1,196 @@
+// Service-day arithmetic for GTFS stop times. Kept free of
+// "cloudflare:workers" imports so it is unit-testable with vitest.
+//
+// GTFS times of day are measured from "noon minus 12h" of the service date,
+// not from midnight. The two differ on DST change days: in spring the local
+// clock skips an hour, so noon minus 12h is 23:00 of the day before, and in
+// autumn it repeats one, so it is 01:00. The service day itself is 23 or 25
+// hours long then, so trips running past midnight belong to yesterday's
+// service with times above 24:00, and both days have to be read to list
+// what leaves in the next few hours.
+
+import { DateTime } from "luxon";
+import { dayColumnFor } from "./activation-queries";
+import type { DeparturesFilter } from "./db-queries";
+
+// How many service days past today the "next service" lookahead searches.
+// A week covers weekday-only and weekend-only stops.
+export const NEXT_SERVICE_LOOKAHEAD_DAYS = 7;
+
+export interface ServiceDay {
+  // Service date, YYYY-MM-DD.
+  date: string;
+  // Epoch seconds of noon minus 12h: stop times are offsets from here.
+  start: number;
+  // Epoch seconds of local noon, the form calendar dates are stored in.
+  noon: number;
+  // calendar weekday column for the service date.
+  column: string;
+}
+
+/** The service day for the local calendar date of `local`. */
+export function serviceDayOf(local: DateTime): ServiceDay {
+  const noon = local.set({ hour: 12, minute: 0, second: 0, millisecond: 0 });
+  const noonSeconds = Math.floor(noon.toSeconds());
+  return {
+    date: noon.toFormat("yyyy-MM-dd"),
+    start: noonSeconds - 12 * 60 * 60,
+    noon: noonSeconds,
+    column: dayColumnFor(noon.weekday),
+  };
+}
+
+/** The service day of a YYYY-MM-DD date in `timezone`; null if malformed. */
+export function serviceDayOfDate(
+  date: string,
+  timezone: string,
+): ServiceDay | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const local = DateTime.fromISO(date, { zone: timezone });
+  return local.isValid ? serviceDayOf(local) : null;
+}
+
+/**
+ * The service day containing `startSeconds` followed by the next `count`,
+ * for looking past today when a stop has nothing left to run.
+ */
+export function upcomingServiceDays(
+  startSeconds: number,
+  timezone: string,
+  count: number = NEXT_SERVICE_LOOKAHEAD_DAYS,
+): ServiceDay[] {
+  const local = DateTime.fromSeconds(startSeconds, { zone: timezone });
+  return Array.from({ length: count + 1 }, (_, i) =>
+    serviceDayOf(local.plus({ days: i })),
+  );
+}
+
+export interface LookaheadDay {
+  day: ServiceDay;
+  // Where the day's search starts, as an offset from its start.
+  currentSeconds: number;
+}
+
+/**
+ * The days the "next service" lookahead checks from `startSeconds`, in
+ * order: yesterday, whose trips running past midnight may still be ahead,
+ * then today from now, then the following `count` days from their start.
+ */
+export function nextServiceLookahead(
+  startSeconds: number,
+  timezone: string,
+  count: number = NEXT_SERVICE_LOOKAHEAD_DAYS,
+): LookaheadDay[] {
+  const [today, yesterday] = serviceDayWindows(startSeconds, 0, timezone);
+  return [
+    { day: yesterday.day, currentSeconds: yesterday.filter.currentSeconds },
+    { day: today.day, currentSeconds: today.filter.currentSeconds },
+    ...upcomingServiceDays(startSeconds, timezone, count)
+      .slice(1)
+      .map((day) => ({ day, currentSeconds: 0 })),
+  ];
+}
+
+/**
+ * Labels a lookahead departure for "Next service: ..." lines: the time alone
+ * when it is later today, prefixed with the weekday otherwise.
+ */
+export function describeNextService(
+  serviceDay: ServiceDay,
+  departureTime: number,
+  timezone: string,
+  nowSeconds: number = Math.floor(Date.now() / 1000),
+  timeFormat = "h:mm a",
+): string {
+  const time = DateTime.fromSeconds(serviceDay.start + departureTime, {
+    zone: timezone,
+  });
+  const now = DateTime.fromSeconds(nowSeconds, { zone: timezone });
+  return time.hasSame(now, "day")
+    ? time.toFormat(timeFormat)
+    : time.toFormat(`ccc ${timeFormat}`);
+}
+
+export type ServiceDayFilter = Pick<
+  DeparturesFilter,
+  "currentSeconds" | "endSeconds" | "todayNoon" | "todayColumn"
+>;
+
+export interface ServiceDayWindow {
+  day: ServiceDay;
+  filter: ServiceDayFilter;
+}
+
+/**
+ * Expresses the epoch range [startSeconds, startSeconds + windowSeconds] as
+ * a departures filter on today's service day and on yesterday's, whose
+ * after-midnight trips (times past 24:00) may fall in the same range.
+ * Today's window comes first.
+ */
+export function serviceDayWindows(
+  startSeconds: number,
+  windowSeconds: number,
+  timezone: string,
+): ServiceDayWindow[] {
+  const local = DateTime.fromSeconds(startSeconds, { zone: timezone });
+  return [local, local.minus({ days: 1 })].map((date) => {
+    const day = serviceDayOf(date);
+    const currentSeconds = startSeconds - day.start;
+    return {
+      day,
+      filter: {
+        currentSeconds,
+        endSeconds: currentSeconds + windowSeconds,
+        todayNoon: day.noon,
+        todayColumn: day.column,
+      },
+    };
+  });
+}
+
+// Time-of-day fields on departure rows, all offsets from a service day start.
+const TIME_FIELDS = [
+  "arrival_time",
+  "departure_time",
+  "predicted_arrival_time",
+  "predicted_departure_time",
+  "headway_end_time",
+  "pickup_window_end",
+] as const;
+
+type TimeFields = { departure_time: number } & Partial<
+  Record<(typeof TIME_FIELDS)[number], number | null>
+>;
+
+/**
+ * Merges departures read per service day into one list on `base`'s time
+ * scale (yesterday's 25:10 becomes today's 1:10), ordered by departure time
+ * and capped at `limit`. Each row keeps its own `service_date`, which trip
+ * links need to show the trip on the right day.
+ */
+export function mergeServiceDayDepartures<T extends TimeFields>(
+  days: { day: ServiceDay; rows: T[] }[],
+  base: ServiceDay,
+  limit?: number,
+): (T & { service_date: string })[] {
+  const merged: (T & { service_date: string })[] = [];
+  for (const { day, rows } of days) {
+    const shift = day.start - base.start;
+    for (const row of rows) {
+      const rebased = { ...row, service_date: day.date };
+      if (shift === 0) {
+        merged.push(rebased);
+        continue;
+      }
+      for (const field of TIME_FIELDS) {
+        const value = row[field];
+        if (typeof value === "number") {
+          (rebased as Record<string, unknown>)[field] = value + shift;
+        }
+      }
+      merged.push(rebased);
+    }
+  }
+  merged.sort((a, b) => a.departure_time - b.departure_time);
+  return limit !== undefined ? merged.slice(0, limit) : merged;
+}
@@ -0,0 +1,197 @@
+// Route shape geometry: polyline simplification, placing stops on the line,
+// and fitting it all into an SVG viewBox. Kept free of "cloudflare:workers"
+// imports so the geometry is unit-testable with vitest.
+//
+// shapes.txt traces a route street by street, often thousands of points for
+// one bus line, far more than a page-width map can show. Shapes are
+// simplified once with Douglas-Peucker (in meters, on a local flat
+// projection, which is exact enough at city scale) and cached by src/db.ts.
+
+export interface ShapePoint {
+  lat: number;
+  lon: number;
+  // shapes.shape_dist_traveled, in the feed's own unit; null when unset.
+  dist: number | null;
+}
+
+// Points closer than this to the simplified line are dropped: below a pixel
+// on a 600-unit-wide map of anything longer than a few kilometers.
+export const SHAPE_TOLERANCE_METERS = 8;
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Equirectangular projection to meters around `originLat`.
+function flatProjection(originLat: number) {
+  const metersPerDegreeLon =
+    METERS_PER_DEGREE_LAT * Math.cos((originLat * Math.PI) / 180);
+  return (p: { lat: number; lon: number }): [number, number] => [
+    p.lon * metersPerDegreeLon,
+    p.lat * METERS_PER_DEGREE_LAT,
+  ];
+}
+
+function segmentDistance(
+  [px, py]: [number, number],
+  [ax, ay]: [number, number],
+  [bx, by]: [number, number],
+): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+}
+
+/**
+ * Douglas-Peucker: keeps the end points, then recursively the point furthest
+ * from each kept segment while it is more than `toleranceMeters` away. Kept
+ * points carry their dist values, so stops can still be placed by
+ * shape_dist_traveled on the result.
+ */
+export function simplifyShape(
+  points: ShapePoint[],
+  toleranceMeters: number = SHAPE_TOLERANCE_METERS,
+): ShapePoint[] {
+  if (points.length <= 2) return points;
+
+  const project = flatProjection(points[0].lat);
+  const xy = points.map(project);
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+
+  // An explicit stack instead of recursion: long shapes would otherwise
+  // nest thousands of calls deep.
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let furthest = -1;
+    let maxDistance = toleranceMeters;
+    for (let i = first + 1; i < last; i++) {
+      const d = segmentDistance(xy[i], xy[first], xy[last]);
+      if (d > maxDistance) {
+        maxDistance = d;
+        furthest = i;
+      }
+    }
+    if (furthest >= 0) {
+      keep[furthest] = true;
+      stack.push([first, furthest], [furthest, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+export interface ShapeStop {
+  stop_lat: number;
+  stop_lon: number;
+  // stop_times.shape_dist_traveled for the stop's visit.
+  shape_dist_traveled: number | null;
+}
+
+/**
+ * Where each stop sits on the line: interpolated along the shape at its
+ * shape_dist_traveled, clamped to the shape's ends. Stops without a
+ * distance, or on shapes without any, fall back to their own coordinates.
+ */
+export function placeStopsOnShape(
+  shape: ShapePoint[],
+  stops: ShapeStop[],
+): { lat: number; lon: number }[] {
+  const measured = shape.filter(
+    (p): p is ShapePoint & { dist: number } => p.dist !== null,
+  );
+  const first = measured[0];
+  const last = measured[measured.length - 1];
+
+  return stops.map((stop) => {
+    const d = stop.shape_dist_traveled;
+    if (d === null || measured.length === 0) {
+      return { lat: stop.stop_lat, lon: stop.stop_lon };
+    }
+    if (d <= first.dist) return { lat: first.lat, lon: first.lon };
+    for (let i = 1; i < measured.length; i++) {
+      const a = measured[i - 1];
+      const b = measured[i];
+      if (d <= b.dist) {
+        const t = b.dist === a.dist ? 0 : (d - a.dist) / (b.dist - a.dist);
+        return {
+          lat: a.lat + t * (b.lat - a.lat),
+          lon: a.lon + t * (b.lon - a.lon),
+        };
+      }
+    }
+    return { lat: last.lat, lon: last.lon };
+  });
+}
+
+export interface ShapeMapLayout {
+  width: number;
+  height: number;
+  // SVG path data, one per line.
+  paths: string[];
+  markers: { x: number; y: number }[];
+}
+
+export const SHAPE_MAP_WIDTH = 600;
+export const SHAPE_MAP_HEIGHT = 400;
+const SHAPE_MAP_PADDING = 16;
+
+/**
+ * Fits the lines and markers into a width x height viewBox, north up, keeping
+ * the map's proportions and centering it.
+ */
+export function layoutShapeMap(
+  lines: { lat: number; lon: number }[][],
+  markers: { lat: number; lon: number }[],
+  width: number = SHAPE_MAP_WIDTH,
+  height: number = SHAPE_MAP_HEIGHT,
+): ShapeMapLayout {
+  const all = [...lines.flat(), ...markers];
+  if (all.length === 0) return { width, height, paths: [], markers: [] };
+
+  const lats = all.map((p) => p.lat);
+  const project = flatProjection((Math.min(...lats) + Math.max(...lats)) / 2);
+  const xy = all.map(project);
+  const xs = xy.map(([x]) => x);
+  const ys = xy.map(([, y]) => y);
+  const minX = Math.min(...xs);
+  const maxY = Math.max(...ys);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = maxY - Math.min(...ys);
+
+  const innerWidth = width - 2 * SHAPE_MAP_PADDING;
+  const innerHeight = height - 2 * SHAPE_MAP_PADDING;
+  const scale = Math.min(
+    spanX > 0 ? innerWidth / spanX : Infinity,
+    spanY > 0 ? innerHeight / spanY : Infinity,
+  );
+  const s = Number.isFinite(scale) ? scale : 1;
+  const offsetX = SHAPE_MAP_PADDING + (innerWidth - spanX * s) / 2;
+  const offsetY = SHAPE_MAP_PADDING + (innerHeight - spanY * s) / 2;
+
+  const toScreen = (p: { lat: number; lon: number }) => {
+    const [x, y] = project(p);
+    return {
+      x: Math.round((offsetX + (x - minX) * s) * 10) / 10,
+      y: Math.round((offsetY + (maxY - y) * s) * 10) / 10,
+    };
+  };
+
+  return {
+    width,
+    height,
+    paths: lines
+      .filter((line) => line.length > 1)
+      .map((line) =>
+        line
+          .map(toScreen)
+          .map(({ x, y }, i) => `${i === 0 ? "M" : "L"}${x} ${y}`)
+          .join(" "),
+      ),
+    markers: markers.map(toScreen),
+  };
+}
@@ -0,0 +1,357 @@
+// Station wayfinding from pathways.txt and levels.txt: a station's stops
+// grouped by level, and step-free routes from its entrances to each
+// platform. Kept free of "cloudflare:workers" imports so the routing is
+// unit-testable with vitest; src/db.ts reads one station's nodes, levels
+// and pathways with the builders below.
+//
+// A station's nodes are its children (platforms, entrances, generic nodes)
+// and its platforms' boarding areas. Pathways only ever connect nodes of
+// the same station, so reading those leaving the station's nodes is enough.
+
+import type { SqlQuery } from "./db-queries";
+import { WALK_METERS_PER_SECOND } from "./journey-planner";
+
+// GTFS location_type values of station nodes.
+export const LOCATION_PLATFORM = 0;
+export const LOCATION_ENTRANCE = 2;
+export const LOCATION_GENERIC_NODE = 3;
+export const LOCATION_BOARDING_AREA = 4;
+
+// pathway_mode values.
+export const PATHWAY_STAIRS = 2;
+export const PATHWAY_ESCALATOR = 4;
+export const PATHWAY_ELEVATOR = 5;
+
+const PATHWAY_MODE_NAMES: Record<number, string> = {
+  1: "walkway",
+  2: "stairs",
+  3: "moving sidewalk",
+  4: "escalator",
+  5: "elevator",
+  6: "fare gate",
+  7: "exit gate",
+};
+
+// Pathways without a traversal_time or length; elevators take a while.
+const DEFAULT_PATHWAY_SECONDS = 30;
+const DEFAULT_ELEVATOR_SECONDS = 60;
+
+export interface StationNode {
+  stop_pk: number;
+  stop_id: string;
+  stop_name: string;
+  // null is a platform (or stop) for GTFS.
+  location_type: number | null;
+  parent_station: number | null;
+  level_id: string | null;
+  platform_code: string | null;
+  wheelchair_boarding: number | null;
+}
+
+export interface Level {
+  level_id: string;
+  level_index: number;
+  level_name: string | null;
+}
+
+export interface Pathway {
+  pathway_id: string;
+  from_stop_pk: number;
+  to_stop_pk: number;
+  pathway_mode: number;
+  is_bidirectional: number;
+  length: number | null;
+  traversal_time: number | null;
+  stair_count: number | null;
+  signposted_as: string | null;
+  reversed_signposted_as: string | null;
+}
+
+export interface StationLevel {
+  // null gathers nodes without a level_id (or with an unknown one).
+  level: Level | null;
+  nodes: StationNode[];
+}
+
+const NODE_ORDER: Record<number, number> = {
+  [LOCATION_ENTRANCE]: 0,
+  [LOCATION_PLATFORM]: 1,
+  [LOCATION_BOARDING_AREA]: 2,
+};
+
+export function isPlatform(node: Pick<StationNode, "location_type">) {
+  return (node.location_type ?? LOCATION_PLATFORM) === LOCATION_PLATFORM;
+}
+
+/**
+ * The station's nodes by level, top level first, each level listing
+ * entrances, then platforms and boarding areas by name. Generic nodes
+ * (corridor ends, elevator landings) only matter for routing and are left
+ * out. Nodes without a known level come last.
+ */
+export function groupStationLevels(
+  nodes: StationNode[],
+  levels: Level[],
+): StationLevel[] {
+  const levelById = new Map(levels.map((l) => [l.level_id, l]));
+  const groups = new Map<string | null, StationNode[]>();
+  for (const node of nodes) {
+    if (node.location_type === LOCATION_GENERIC_NODE) continue;
+    const key =
+      node.level_id !== null && levelById.has(node.level_id)
+        ? node.level_id
+        : null;
+    const group = groups.get(key) ?? [];
+    group.push(node);
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()]
+    .map(([levelId, group]) => ({
+      level: levelId === null ? null : levelById.get(levelId)!,
+      nodes: group.sort(
+        (a, b) =>
+          (NODE_ORDER[a.location_type ?? LOCATION_PLATFORM] ?? 9) -
+            (NODE_ORDER[b.location_type ?? LOCATION_PLATFORM] ?? 9) ||
+          a.stop_name.localeCompare(b.stop_name),
+      ),
+    }))
+    .sort((a, b) => {
+      if (a.level === null) return 1;
+      if (b.level === null) return -1;
+      return b.level.level_index - a.level.level_index;
+    });
+}
+
+// Stairs, escalators and any pathway with steps are not step-free.
+export function isStepFree(pathway: Pathway): boolean {
+  return (
+    pathway.pathway_mode !== PATHWAY_STAIRS &&
+    pathway.pathway_mode !== PATHWAY_ESCALATOR &&
+    !(pathway.stair_count !== null && pathway.stair_count > 0)
+  );
+}
+
+export function pathwaySeconds(pathway: Pathway): number {
+  if (pathway.traversal_time !== null) return pathway.traversal_time;
+  if (pathway.length !== null) {
+    return Math.round(pathway.length / WALK_METERS_PER_SECOND);
+  }
+  return pathway.pathway_mode === PATHWAY_ELEVATOR
+    ? DEFAULT_ELEVATOR_SECONDS
+    : DEFAULT_PATHWAY_SECONDS;
+}
+
+// One pathway as walked, in the direction walked.
+export interface PathwayStep {
+  pathway_id: string;
+  pathway_mode: number;
+  to_stop_pk: number;
+  seconds: number;
+  // The sign to follow: signposted_as, or reversed_signposted_as when
+  // walking a bidirectional pathway backwards.
+  signposted_as: string | null;
+}
+
+export interface StepFreeRoute {
+  platform_pk: number;
+  // Null when no entrance reaches the platform without stairs or
+  // escalators.
+  entrance_pk: number | null;
+  seconds: number | null;
+  steps: PathwayStep[];
+}
+
+/**
+ * The quickest step-free route from any entrance to each platform
+ * (Dijkstra from all entrances at once over pathways other than stairs and
+ * escalators, walking bidirectional ones either way). A platform counts as
+ * reached through any of its boarding areas.
+ */
+export function planStepFreeRoutes(
+  nodes: StationNode[],
+  pathways: Pathway[],
+): StepFreeRoute[] {
+  const edges = new Map<number, PathwayStep[]>();
+  const addEdge = (from: number, step: PathwayStep) => {
+    const list = edges.get(from) ?? [];
+    list.push(step);
+    edges.set(from, list);
+  };
+  for (const p of pathways) {
+    if (!isStepFree(p)) continue;
+    const seconds = pathwaySeconds(p);
+    addEdge(p.from_stop_pk, {
+      pathway_id: p.pathway_id,
+      pathway_mode: p.pathway_mode,
+      to_stop_pk: p.to_stop_pk,
+      seconds,
+      signposted_as: p.signposted_as,
+    });
+    if (p.is_bidirectional === 1) {
+      addEdge(p.to_stop_pk, {
+        pathway_id: p.pathway_id,
+        pathway_mode: p.pathway_mode,
+        to_stop_pk: p.from_stop_pk,
+        seconds,
+        signposted_as: p.reversed_signposted_as,
+      });
+    }
+  }
+
+  const best = new Map<
+    number,
+    { seconds: number; entrance: number; via: PathwayStep | null; from: number }
+  >();
+  const queue: number[] = [];
+  for (const node of nodes) {
+    if (node.location_type === LOCATION_ENTRANCE) {
+      best.set(node.stop_pk, {
+        seconds: 0,
+        entrance: node.stop_pk,
+        via: null,
+        from: node.stop_pk,
+      });
+      queue.push(node.stop_pk);
+    }
+  }
+  // Stations have at most a few hundred nodes: a linear scan for the next
+  // closest is plenty.
+  const done = new Set<number>();
+  while (queue.length > 0) {
+    let next = 0;
+    for (let i = 1; i < queue.length; i++) {
+      if (best.get(queue[i])!.seconds < best.get(queue[next])!.seconds) {
+        next = i;
+      }
+    }
+    const [pk] = queue.splice(next, 1);
+    if (done.has(pk)) continue;
+    done.add(pk);
+    const here = best.get(pk)!;
+    for (const step of edges.get(pk) ?? []) {
+      const seconds = here.seconds + step.seconds;
+      const known = best.get(step.to_stop_pk);
+      if (!known || seconds < known.seconds) {
+        best.set(step.to_stop_pk, {
+          seconds,
+          entrance: here.entrance,
+          via: step,
+          from: pk,
+        });
+        queue.push(step.to_stop_pk);
+      }
+    }
+  }
+
+  const stepsTo = (pk: number): PathwayStep[] => {
+    const steps: PathwayStep[] = [];
+    for (let at = best.get(pk); at?.via; at = best.get(at.from)) {
+      steps.unshift(at.via);
+    }
+    return steps;
+  };
+
+  return nodes.filter(isPlatform).map((platform) => {
+    const candidates = [
+      platform.stop_pk,
+      ...nodes
+        .filter(
+          (n) =>
+            n.location_type === LOCATION_BOARDING_AREA &&
+            n.parent_station === platform.stop_pk,
+        )
+        .map((n) => n.stop_pk),
+    ].filter((pk) => best.has(pk));
+    if (candidates.length === 0) {
+      return {
+        platform_pk: platform.stop_pk,
+        entrance_pk: null,
+        seconds: null,
+        steps: [],
+      };
+    }
+    const target = candidates.reduce((a, b) =>
+      best.get(b)!.seconds < best.get(a)!.seconds ? b : a,
+    );
+    const reached = best.get(target)!;
+    return {
+      platform_pk: platform.stop_pk,
+      entrance_pk: reached.entrance,
+      seconds: reached.seconds,
+      steps: stepsTo(target),
+    };
+  });
+}
+
+export function describePathwayMode(mode: number): string {
+  return PATHWAY_MODE_NAMES[mode] ?? "pathway";
+}
+
+const NODE_COLUMNS = [
+  "stop_pk",
+  "stop_id",
+  "stop_name",
+  "location_type",
+  "parent_station",
+  "level_id",
+  "platform_code",
+  "wheelchair_boarding",
+] as const;
+
+// The station's children and its platforms' boarding areas, selecting
+// `columns` of `s`. CROSS JOIN keeps the station's children as the outer
+// loop; otherwise SQLite may walk every stop of the version looking for
+// boarding areas.
+function stationNodes(columns: string): string {
+  return `
+    SELECT ${columns} FROM stops s
+    WHERE s.feed_version_id = ? AND s.parent_station = ?
+    UNION ALL
+    SELECT ${columns} FROM stops p
+    CROSS JOIN stops s
+      ON s.feed_version_id = p.feed_version_id AND s.parent_station = p.stop_pk
+    WHERE p.feed_version_id = ? AND p.parent_station = ?`;
+}
+
+export function buildStationNodesQuery(
+  feedVersionId: number,
+  stationPk: number,
+): SqlQuery {
+  return {
+    sql: stationNodes(NODE_COLUMNS.map((c) => `s.${c}`).join(", ")),
+    params: [feedVersionId, stationPk, feedVersionId, stationPk],
+  };
+}
+
+export function buildStationLevelsQuery(
+  feedVersionId: number,
+  levelIds: string[],
+): SqlQuery {
+  const placeholders = levelIds.map(() => "?").join(",");
+  return {
+    sql: `
+    SELECT level_id, level_index, level_name FROM levels
+    WHERE feed_version_id = ? AND level_id IN (${placeholders})`,
+    params: [feedVersionId, ...levelIds],
+  };
+}
+
+// Pathways leaving the station's nodes (idx_pathways_from_stop, 0022). A
+// subquery rather than a list of stop_pks: big stations have more nodes
+// than D1 binds parameters.
+export function buildStationPathwaysQuery(
+  feedVersionId: number,
+  stationPk: number,
+): SqlQuery {
+  return {
+    sql: `
+    SELECT pw.pathway_id, pw.from_stop_pk, pw.to_stop_pk, pw.pathway_mode,
+           pw.is_bidirectional, pw.length, pw.traversal_time, pw.stair_count,
+           pw.signposted_as, pw.reversed_signposted_as
+    FROM pathways pw
+    WHERE pw.from_stop_pk IN (${stationNodes("s.stop_pk")}
+    )`,
+    params: [feedVersionId, stationPk, feedVersionId, stationPk],
+  };
+}
@@ -0,0 +1,252 @@
+// Row-level diffs of stop_times and shapes between a source's feed versions,
+// so a new version shares the rows that did not change instead of writing
+// them again (migration 0029). Kept free of "cloudflare:workers" imports so
+// the planning is unit-testable with vitest.
+//
+// Rows are compared by natural key: a trip's stop_times by trip_id (each
+// row by stop_id and stop_sequence within it), a shape's points by shape_id.
+// Each group is digested; a trip whose digest matches the live version's
+// reads the live version's stop_times rows (trips.timetable_trip_pk), and a
+// shape whose digest matches reads its points from the version that wrote
+// them (version_shapes). Only new and changed groups are written, and only
+// their rows are validated: shared rows were validated when first imported.
+
+import type { CsvRow } from "./csv-reader";
+
+// The stop_times.txt columns the importer stores. A trip's digest covers
+// them for every row it stores, so any change to those rows changes it.
+const STOP_TIME_FIELDS = [
+  "stop_id",
+  "stop_sequence",
+  "arrival_time",
+  "departure_time",
+  "stop_headsign",
+  "pickup_type",
+  "drop_off_type",
+  "shape_dist_traveled",
+  "timepoint",
+  "location_group_id",
+  "location_id",
+  "start_pickup_drop_off_window",
+  "end_pickup_drop_off_window",
+  "continuous_pickup",
+  "continuous_drop_off",
+  "pickup_booking_rule_id",
+  "drop_off_booking_rule_id",
+];
+
+const SHAPE_POINT_FIELDS = [
+  "shape_pt_lat",
+  "shape_pt_lon",
+  "shape_pt_sequence",
+  "shape_dist_traveled",
+];
+
+// Digests are sums of per-row hashes, so a group split across chunks, or
+// listed in any order, digests the same.
+const DIGEST_BITS = 128n;
+const DIGEST_MASK = (1n << DIGEST_BITS) - 1n;
+
+export interface RowDigest {
+  rows: number;
+  // Hex sum of the rows' hashes, modulo 2^128.
+  sum: string;
+}
+
+// Digests by trip_id or shape_id. null marks a group that is never shared.
+export type RowDigests = Record<string, RowDigest | null>;
+
+async function rowHash(values: string[]): Promise<bigint> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify(values)),
+  );
+  const hex = Array.from(new Uint8Array(digest).subarray(0, 16))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return BigInt(`0x${hex}`);
+}
+
+function addDigest(a: RowDigest, b: RowDigest): RowDigest {
+  const sum = (BigInt(`0x${a.sum}`) + BigInt(`0x${b.sum}`)) & DIGEST_MASK;
+  return { rows: a.rows + b.rows, sum: sum.toString(16) };
+}
+
+async function addRow(
+  digests: RowDigests,
+  key: string,
+  values: string[],
+): Promise<void> {
+  const current = digests[key];
+  if (current === null) return;
+  const row = { rows: 1, sum: (await rowHash(values)).toString(16) };
+  digests[key] = current ? addDigest(current, row) : row;
+}
+
+/**
+ * Digests one chunk of stop_times.txt by trip_id. Rows naming a stop that
+ * is not in stops.txt are skipped, as the import skips them, so a trip
+ * whose stops appear or disappear digests differently; the trip still gets
+ * a digest, so every trip_id in the file has one. Trips with location
+ * group rows are never shared: those rows go to flex_stop_times, which each
+ * version keeps for itself.
+ */
+export async function digestStopTimes(
+  rows: CsvRow[],
+  hasStop: (stopId: string) => boolean,
+): Promise<RowDigests> {
+  const digests: RowDigests = {};
+  for (const row of rows) {
+    if (!row.trip_id) continue;
+    if (!row.stop_id && row.location_group_id) {
+      digests[row.trip_id] = null;
+      continue;
+    }
+    if (!hasStop(row.stop_id)) {
+      if (!(row.trip_id in digests)) {
+        digests[row.trip_id] = { rows: 0, sum: "0" };
+      }
+      continue;
+    }
+    await addRow(
+      digests,
+      row.trip_id,
+      STOP_TIME_FIELDS.map((field) => row[field] ?? ""),
+    );
+  }
+  return digests;
+}
+
+/** Digests one chunk of shapes.txt by shape_id. */
+export async function digestShapePoints(rows: CsvRow[]): Promise<RowDigests> {
+  const digests: RowDigests = {};
+  for (const row of rows) {
+    if (!row.shape_id) continue;
+    await addRow(
+      digests,
+      row.shape_id,
+      SHAPE_POINT_FIELDS.map((field) => row[field] ?? ""),
+    );
+  }
+  return digests;
+}
+
+/** Adds the digests of a later chunk into `into`. */
+export function mergeRowDigests(into: RowDigests, from: RowDigests): void {
+  for (const [key, digest] of Object.entries(from)) {
+    const current = into[key];
+    if (current === null || digest === null) into[key] = null;
+    else into[key] = current ? addDigest(current, digest) : digest;
+  }
+}
+
+/**
+ * The hash stored for a group (trips.stop_times_hash,
+ * version_shapes.points_hash): null for one that is never shared, and the
+ * empty digest for one without rows.
+ */
+export function digestHash(
+  digest: RowDigest | null | undefined,
+): string | null {
+  if (digest === null) return null;
+  const { rows, sum } = digest ?? { rows: 0, sum: "0" };
+  return `${rows}:${sum.padStart(Number(DIGEST_BITS) / 4, "0")}`;
+}
+
+// What the live version holds for a trip_id: its stop_times hash and the
+// trip_pk whose stop_times rows it reads.
+export interface LiveTimetable {
+  hash: string | null;
+  timetablePk: number;
+}
+
+/**
+ * The trip_pk whose stop_times each unchanged trip shares, by trip_id: the
+ * live version's timetable wherever the hashes match. Trips left out are
+ * new or changed and get their stop_times written.
+ */
+export function planSharedTimetables(
+  hashes: Record<string, string | null>,
+  live: Record<string, LiveTimetable>,
+): Record<string, number> {
+  const shared: Record<string, number> = {};
+  for (const [tripId, hash] of Object.entries(hashes)) {
+    const current = live[tripId];
+    if (hash !== null && current?.hash === hash) {
+      shared[tripId] = current.timetablePk;
+    }
+  }
+  return shared;
+}
+
+/** The stop_times.txt rows an import writes: those of trips not shared. */
+export function stopTimesToWrite(
+  rows: CsvRow[],
+  shared: Record<string, number>,
+): CsvRow[] {
+  return rows.filter((row) => !Object.hasOwn(shared, row.trip_id));
+}
+
+// What the live version holds for a shape_id (version_shapes).
+export interface LiveShape {
+  hash: string;
+  pointsVersionId: number;
+}
+
+/**
+ * The version each shape reads its points from, by shape_id: the live
+ * version's source for unchanged shapes, `feedVersionId` for the rest.
+ */
+export function planShapePoints(
+  hashes: Record<string, string>,
+  live: Record<string, LiveShape>,
+  feedVersionId: number,
+): Record<string, LiveShape> {
+  const plan: Record<string, LiveShape> = {};
+  for (const [shapeId, hash] of Object.entries(hashes)) {
+    const current = live[shapeId];
+    plan[shapeId] = {
+      hash,
+      pointsVersionId:
+        current?.hash === hash ? current.pointsVersionId : feedVersionId,
+    };
+  }
+  return plan;
+}
+
+/** The shapes.txt rows an import writes: points of shapes it owns. */
+export function shapePointsToWrite(
+  rows: CsvRow[],
+  plan: Record<string, LiveShape>,
+  feedVersionId: number,
+): CsvRow[] {
+  return rows.filter(
+    (row) => plan[row.shape_id]?.pointsVersionId === feedVersionId,
+  );
+}
+
+// One page of a version's trip_id -> LiveTimetable map: binds ?1 the
+// version, ?2 the previous page's last trip_pk, ?3 the page size.
+export const VERSION_TIMETABLES_PAGE_SQL = `SELECT trip_pk, trip_id, stop_times_hash, timetable_trip_pk
+  FROM trips
+  WHERE feed_version_id = ?1 AND trip_pk > ?2
+  ORDER BY trip_pk
+  LIMIT ?3`;
+
+// One page of a version's shape_id -> LiveShape map: binds ?1 the version,
+// ?2 the previous page's last shape_id, ?3 the page size.
+export const VERSION_SHAPES_PAGE_SQL = `SELECT shape_id, points_version_id, points_hash
+  FROM version_shapes
+  WHERE feed_version_id = ?1 AND shape_id > ?2
+  ORDER BY shape_id
+  LIMIT ?3`;
+
+// Gives version ?2 every shape of version ?1 with the same points, for a
+// shapes.txt that did not change.
+export const CARRY_VERSION_SHAPES_SQL = `INSERT INTO version_shapes (feed_version_id, shape_id, points_version_id, points_hash)
+  SELECT ?2, shape_id, points_version_id, points_hash
+  FROM version_shapes
+  WHERE feed_version_id = ?1
+  ON CONFLICT(feed_version_id, shape_id) DO UPDATE SET
+    points_version_id = excluded.points_version_id,
+    points_hash = excluded.points_hash`;
@@ -0,0 +1,249 @@
+// Feed translations (translations.txt) for rider-facing names: stop names,
+// route names, headsigns and agency names in the rider's language. Kept free
+// of "cloudflare:workers" imports so negotiation and lookup are unit-testable
+// with vitest; src/db.ts loads one language's rows per feed version and hands
+// pages a Translator.
+//
+// A translation names its target either by record (record_id, plus
+// record_sub_id for stop_times) or by the untranslated text (field_value),
+// which then applies to every record with that text. Record matches win.
+
+import type { SqlQuery } from "./db-queries";
+
+export interface TranslationRow {
+  table_name: string;
+  field_name: string;
+  translation: string;
+  record_id: string | null;
+  record_sub_id: string | null;
+  field_value: string | null;
+}
+
+// The fields pages render; translations of anything else are never read.
+export const TRANSLATED_TABLES = [
+  "agency",
+  "stops",
+  "routes",
+  "trips",
+] as const;
+export type TranslatedTable = (typeof TRANSLATED_TABLES)[number];
+
+// Language tags are compared case-insensitively (BCP 47).
+const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+const primarySubtag = (tag: string) => tag.split("-")[0];
+
+/**
+ * The rider's languages, most preferred first: the comma-separated `?lang=`
+ * tags when the parameter is given, else Accept-Language by quality.
+ * Wildcards, q=0 entries and malformed tags are dropped. An explicit
+ * `?lang=` ignores the header, so a page renders the same for every request
+ * to its URL, which is what the edge cache keys on (worker/cache.ts).
+ */
+export function parseLanguagePreferences(
+  langParam: string | null | undefined,
+  acceptLanguage: string | null | undefined,
+): string[] {
+  const valid = (tag: string) => /^[a-z0-9-]+$/.test(tag);
+  if (langParam != null) {
+    return [...new Set(langParam.split(",").map(normalizeTag))].filter(valid);
+  }
+
+  const ranked: { tag: string; q: number; index: number }[] = [];
+  (acceptLanguage ?? "").split(",").forEach((part, index) => {
+    const [rawTag, ...params] = part.split(";");
+    const tag = normalizeTag(rawTag);
+    if (!tag || tag === "*" || !valid(tag)) return;
+    let q = 1;
+    for (const param of params) {
+      const [name, value] = param.split("=").map((s) => s.trim());
+      if (name === "q") q = Number(value);
+    }
+    if (!(q > 0)) return;
+    ranked.push({ tag, q, index });
+  });
+  ranked.sort((a, b) => b.q - a.q || a.index - b.index);
+  return [...new Set(ranked.map((r) => r.tag))];
+}
+
+// The tag in `candidates` best matching `wanted`: the same tag, else the
+// same primary language.
+function matchTag(wanted: string, candidates: string[]): string | null {
+  return (
+    candidates.find((c) => normalizeTag(c) === wanted) ??
+    candidates.find(
+      (c) => primarySubtag(normalizeTag(c)) === primarySubtag(wanted),
+    ) ??
+    null
+  );
+}
+
+/**
+ * The translations.language to render in, or null for the feed's own text:
+ * the first preference the feed translates to, unless the feed's language
+ * (feed_info.feed_lang, "mul" when names come in several) matches an earlier
+ * one.
+ */
+export function chooseTranslationLanguage(
+  preferences: string[],
+  feedLang: string | null,
+  available: string[],
+): string | null {
+  const own = feedLang && feedLang.toLowerCase() !== "mul" ? [feedLang] : [];
+  for (const wanted of preferences) {
+    if (matchTag(wanted, own)) return null;
+    const match = matchTag(wanted, available);
+    if (match) return match;
+  }
+  return null;
+}
+
+export interface Translator {
+  // The translations.language in use; null renders the feed's own text.
+  language: string | null;
+  // `value` translated, or as is without a translation.
+  text<V extends string | null>(
+    table: TranslatedTable,
+    field: string,
+    recordId: string,
+    value: V,
+    recordSubId?: string,
+  ): V;
+}
+
+export const UNTRANSLATED: Translator = {
+  language: null,
+  text: (_table, _field, _recordId, value) => value,
+};
+
+export function createTranslator(
+  language: string | null,
+  rows: TranslationRow[],
+): Translator {
+  if (language === null || rows.length === 0) return UNTRANSLATED;
+  const byRecord = new Map<string, string>();
+  const byValue = new Map<string, string>();
+  for (const row of rows) {
+    const prefix = `${row.table_name}\u0000${row.field_name}\u0000`;
+    if (row.record_id !== null) {
+      byRecord.set(
+        `${prefix}${row.record_id}\u0000${row.record_sub_id ?? ""}`,
+        row.translation,
+      );
+    } else if (row.field_value !== null) {
+      byValue.set(`${prefix}${row.field_value}`, row.translation);
+    }
+  }
+  return {
+    language,
+    text<V extends string | null>(
+      table: TranslatedTable,
+      field: string,
+      recordId: string,
+      value: V,
+      recordSubId?: string,
+    ): V {
+      if (value === null) return value;
+      const prefix = `${table}\u0000${field}\u0000`;
+      return (byRecord.get(`${prefix}${recordId}\u0000${recordSubId ?? ""}`) ??
+        byValue.get(`${prefix}${value}`) ??
+        value) as V;
+    },
+  };
+}
+
+export function translateAgency<
+  T extends { agency_id: string; agency_name: string },
+>(t: Translator, agency: T): T {
+  return {
+    ...agency,
+    agency_name: t.text(
+      "agency",
+      "agency_name",
+      agency.agency_id,
+      agency.agency_name,
+    ),
+  };
+}
+
+export function translateStop<
+  T extends { stop_id: string; stop_name: string | null },
+>(t: Translator, stop: T): T {
+  return {
+    ...stop,
+    stop_name: t.text("stops", "stop_name", stop.stop_id, stop.stop_name),
+  };
+}
+
+export function translateRoute<
+  T extends {
+    route_id: string;
+    route_short_name: string | null;
+    route_long_name: string | null;
+  },
+>(t: Translator, route: T): T {
+  return {
+    ...route,
+    route_short_name: t.text(
+      "routes",
+      "route_short_name",
+      route.route_id,
+      route.route_short_name,
+    ),
+    route_long_name: t.text(
+      "routes",
+      "route_long_name",
+      route.route_id,
+      route.route_long_name,
+    ),
+  };
+}
+
+/** Route names and headsign of a departure (or any trip-bearing row). */
+export function translateTrip<
+  T extends {
+    route_id: string;
+    trip_id: string;
+    route_short_name: string | null;
+    route_long_name: string | null;
+    trip_headsign: string | null;
+  },
+>(t: Translator, row: T): T {
+  return {
+    ...translateRoute(t, row),
+    trip_headsign: t.text(
+      "trips",
+      "trip_headsign",
+      row.trip_id,
+      row.trip_headsign,
+    ),
+  };
+}
+
+export function buildTranslationLanguagesQuery(
+  feedVersionId: number,
+): SqlQuery {
+  return {
+    sql: `
+    SELECT DISTINCT language FROM translations
+    WHERE feed_version_id = ?`,
+    params: [feedVersionId],
+  };
+}
+
+// One language's translations of the rendered tables
+// (idx_translations_lookup).
+export function buildTranslationsQuery(
+  feedVersionId: number,
+  language: string,
+): SqlQuery {
+  return {
+    sql: `
+    SELECT table_name, field_name, translation, record_id, record_sub_id,
+           field_value
+    FROM translations
+    WHERE feed_version_id = ?
+      AND table_name IN (${TRANSLATED_TABLES.map(() => "?").join(",")})
+      AND language = ?`,
+    params: [feedVersionId, ...TRANSLATED_TABLES, language],
+  };
+}
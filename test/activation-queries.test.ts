@@ -36,6 +36,12 @@ describe("buildVersionServiceDayQuery", () => {
     expect(sql).toContain("cd.service_id = c.service_id");
   });
 
+  it("skips versions validation blocked unless pinned", () => {
+    const sql = buildVersionServiceDayQuery("monday");
+    expect(sql).toContain("v.blocked = 1");
+    expect(sql).toContain("SELECT pinned_feed_version_id FROM feed_source");
+  });
+
   it("rejects day columns outside the calendar schema", () => {
     expect(() => buildVersionServiceDayQuery("monday = 1 OR 1=1 --")).toThrow(
       /Invalid calendar day column/,
@@ -83,5 +89,27 @@ describe("chooseActiveVersion", () => {
 
   it("leaves the live version alone when nothing is fully imported", () => {
     expect(chooseActiveVersion([])).toBeNull();
+    expect(chooseActiveVersion([], 517)).toBeNull();
+  });
+
+  it("serves a pinned version over newer or serving ones", () => {
+    const candidates = [
+      { feed_version_id: 519, has_service_today: 1 },
+      { feed_version_id: 517, has_service_today: 0 },
+    ];
+    expect(chooseActiveVersion(candidates, 517)).toBe(517);
+    expect(chooseActiveVersion(candidates, 519)).toBe(519);
+  });
+
+  it("ignores a pin to a version that is not a candidate", () => {
+    // An unfinished import, or one from another source.
+    const chosen = chooseActiveVersion(
+      [
+        { feed_version_id: 519, has_service_today: 0 },
+        { feed_version_id: 517, has_service_today: 1 },
+      ],
+      520,
+    );
+    expect(chosen).toBe(517);
   });
 });
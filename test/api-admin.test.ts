@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseActivationRequest,
+  parseFeedSourceInput,
+  parseFeedVersionId,
+  requireAdmin,
+  serializeFeedSource,
+  serializeFeedVersion,
+  type AdminSourceRow,
+} from "../src/lib/api/admin";
+import { ApiError } from "../src/lib/api/v1";
+
+const statusOf = (fn: () => unknown): number | null => {
+  try {
+    fn();
+    return null;
+  } catch (err) {
+    expect(err).toBeInstanceOf(ApiError);
+    return (err as ApiError).status;
+  }
+};
+
+const request = (authorization?: string) =>
+  new Request("https://transit.directory/api/admin/sources", {
+    headers: authorization ? { authorization } : {},
+  });
+
+describe("requireAdmin", () => {
+  it("accepts the configured bearer token only", () => {
+    expect(
+      statusOf(() => requireAdmin(request("Bearer s3cret"), "s3cret")),
+    ).toBe(null);
+    expect(
+      statusOf(() => requireAdmin(request("Bearer s3cre"), "s3cret")),
+    ).toBe(401);
+    expect(statusOf(() => requireAdmin(request("s3cret"), "s3cret"))).toBe(401);
+    expect(statusOf(() => requireAdmin(request(), "s3cret"))).toBe(401);
+  });
+
+  it("is off without a token configured", () => {
+    expect(statusOf(() => requireAdmin(request("Bearer "), undefined))).toBe(
+      503,
+    );
+    expect(statusOf(() => requireAdmin(request("Bearer x"), ""))).toBe(503);
+  });
+});
+
+describe("parseFeedSourceInput", () => {
+  it("defaults to a 511 operator", () => {
+    expect(parseFeedSourceInput({ source_name: "BA" })).toEqual({
+      source_name: "BA",
+      provider: "511",
+      feed_url: null,
+      auth_headers: null,
+      trip_updates_url: null,
+      service_alerts_url: null,
+      vehicle_positions_url: null,
+      bounds: null,
+    });
+  });
+
+  it("reads URL sources with headers and realtime endpoints", () => {
+    expect(
+      parseFeedSourceInput({
+        source_name: "caltrain",
+        provider: "url",
+        feed_url: "https://example.com/gtfs.zip?key={FEED_SECRET_CALTRAIN}",
+        auth_headers: { apikey: "{FEED_SECRET_TRANSITLAND}" },
+        trip_updates_url: "https://example.com/rt/trips.pb",
+        bounds: [-122.6, 37.1, -121.5, 37.9],
+      }),
+    ).toMatchObject({
+      provider: "url",
+      feed_url: "https://example.com/gtfs.zip?key={FEED_SECRET_CALTRAIN}",
+      auth_headers: '{"apikey":"{FEED_SECRET_TRANSITLAND}"}',
+      trip_updates_url: "https://example.com/rt/trips.pb",
+      vehicle_positions_url: null,
+      bounds: "[-122.6,37.1,-121.5,37.9]",
+    });
+  });
+
+  it("rejects bad names, providers, URLs and headers with a 400", () => {
+    for (const body of [
+      null,
+      [],
+      { source_name: "has space" },
+      { source_name: "x".repeat(33) },
+      { source_name: "a", provider: "ftp" },
+      { source_name: "a", provider: "url" },
+      { source_name: "a", feed_url: "ftp://example.com/gtfs.zip" },
+      { source_name: "a", auth_headers: { apikey: 1 } },
+      { source_name: "a", auth_headers: ["apikey"] },
+      { source_name: "a", feed_url: "https://x.example/?k={ADMIN_API_TOKEN}" },
+      { source_name: "a", auth_headers: { key: "{TRMNL_CLIENT_SECRET}" } },
+      { source_name: "a", bounds: [-122, 37] },
+      { source_name: "a", bounds: [-121, 37, -122, 38] },
+      { source_name: "a", bounds: [-190, 37, -122, 38] },
+    ]) {
+      expect(statusOf(() => parseFeedSourceInput(body))).toBe(400);
+    }
+  });
+});
+
+describe("parseActivationRequest", () => {
+  it("reads an optional feed_version_id", () => {
+    expect(parseActivationRequest(null)).toBe(null);
+    expect(parseActivationRequest({})).toBe(null);
+    expect(parseActivationRequest({ feed_version_id: 42 })).toBe(42);
+    expect(
+      statusOf(() => parseActivationRequest({ feed_version_id: "42" })),
+    ).toBe(400);
+    expect(statusOf(() => parseActivationRequest({ feed_version_id: 0 }))).toBe(
+      400,
+    );
+  });
+});
+
+describe("parseFeedVersionId", () => {
+  it("reads positive integers from the path only", () => {
+    expect(parseFeedVersionId("42")).toBe(42);
+    for (const value of ["0", "-1", "4.2", "42abc", ""]) {
+      expect(statusOf(() => parseFeedVersionId(value))).toBe(400);
+    }
+  });
+});
+
+describe("serializeFeedSource", () => {
+  const row: AdminSourceRow = {
+    feed_source_id: 1,
+    source_name: "caltrain",
+    source_desc: "Caltrain",
+    pinned_feed_version_id: null,
+    provider: "url",
+    feed_url: "https://example.com/gtfs.zip",
+    auth_headers: '{"apikey":"literal-key"}',
+    trip_updates_url: null,
+    service_alerts_url: null,
+    vehicle_positions_url: null,
+    bounds: null,
+    active_version_id: 7,
+    active_version_label: "url-caltrain-abc",
+    latest_version_id: 9,
+    latest_date_added: 1772474400,
+    latest_imported_at: null,
+  };
+
+  it("hides header values and reports the last import", () => {
+    const source = serializeFeedSource(row);
+    expect(JSON.stringify(source)).not.toContain("literal-key");
+    expect(source.auth_header_names).toEqual(["apikey"]);
+    expect(source.active_version).toEqual({
+      feed_version_id: 7,
+      version_label: "url-caltrain-abc",
+    });
+    expect(source.last_import).toMatchObject({
+      feed_version_id: 9,
+      status: "incomplete",
+    });
+    expect(
+      serializeFeedSource({ ...row, latest_version_id: null }).last_import,
+    ).toBe(null);
+  });
+
+  it("reports a rollback pin", () => {
+    expect(serializeFeedSource(row).pinned_feed_version_id).toBe(null);
+    expect(
+      serializeFeedSource({ ...row, pinned_feed_version_id: 7 })
+        .pinned_feed_version_id,
+    ).toBe(7);
+  });
+});
+
+describe("serializeFeedVersion", () => {
+  const row = {
+    feed_version_id: 9,
+    version_label: "url-caltrain-def",
+    date_added: 1772474400,
+    imported_at: 1772475012,
+    is_active: 0,
+    deactivated_at: null,
+    feed_start_date: null,
+    feed_end_date: null,
+    validation_error_count: 3,
+    validation_warning_count: 1,
+    validation_blocked: 1,
+  };
+
+  it("reports the validation outcome", () => {
+    const version = serializeFeedVersion(row);
+    expect(version.validation).toEqual({
+      error_count: 3,
+      warning_count: 1,
+      blocked: true,
+    });
+    expect(version).not.toHaveProperty("validation_blocked");
+    expect(
+      serializeFeedVersion({
+        ...row,
+        validation_error_count: null,
+        validation_warning_count: null,
+        validation_blocked: null,
+      }).validation,
+    ).toBe(null);
+  });
+});
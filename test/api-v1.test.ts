@@ -0,0 +1,247 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApiError,
+  DEFAULT_PAGE_LIMIT,
+  DEFAULT_WINDOW_SECONDS,
+  MAX_DEPARTURES,
+  MAX_FARE_LEGS,
+  MAX_PAGE_LIMIT,
+  paginate,
+  parseDeparturesWindow,
+  parseFareRequest,
+  parseNearbyRequest,
+  parsePage,
+  parsePlanRequest,
+  parseSearchRequest,
+  parseServiceDate,
+  parseServiceDay,
+  withDepartureEpochs,
+} from "../src/lib/api/v1";
+
+const TZ = "America/Los_Angeles";
+// Monday 2026-03-02 10:00 in Los Angeles, and that day's midnight (which is
+// also noon minus 12h, as no DST change falls on it).
+const MONDAY_10AM = 1772474400;
+const MONDAY_MIDNIGHT = 1772438400;
+
+const q = (query: string) => new URLSearchParams(query);
+
+describe("parsePage", () => {
+  it("defaults to the first page", () => {
+    expect(parsePage(q(""))).toEqual({ limit: DEFAULT_PAGE_LIMIT, offset: 0 });
+  });
+
+  it("reads limit and offset", () => {
+    expect(parsePage(q("limit=10&offset=20"))).toEqual({
+      limit: 10,
+      offset: 20,
+    });
+  });
+
+  it("rejects non-integer and out-of-range values with a 400", () => {
+    for (const query of [
+      "limit=abc",
+      "limit=1.5",
+      "limit=0",
+      `limit=${MAX_PAGE_LIMIT + 1}`,
+      "offset=-1",
+    ]) {
+      expect(() => parsePage(q(query))).toThrow(ApiError);
+      try {
+        parsePage(q(query));
+      } catch (err) {
+        expect((err as ApiError).status).toBe(400);
+      }
+    }
+  });
+});
+
+describe("paginate", () => {
+  it("slices rows and reports the unpaginated total", () => {
+    const page = paginate([1, 2, 3, 4, 5], { limit: 2, offset: 2 });
+    expect(page.data).toEqual([3, 4]);
+    expect(page.pagination).toEqual({ limit: 2, offset: 2, total: 5 });
+  });
+});
+
+describe("parseDeparturesWindow", () => {
+  it("defaults to now and a two-hour window in the agency timezone", () => {
+    const range = parseDeparturesWindow(q(""), TZ, MONDAY_10AM);
+    expect(range.start).toBe(MONDAY_10AM);
+    expect(range).toEqual({
+      start: MONDAY_10AM,
+      end: MONDAY_10AM + DEFAULT_WINDOW_SECONDS,
+      timezone: TZ,
+      limit: MAX_DEPARTURES,
+      wheelchairAccessibleOnly: false,
+    });
+  });
+
+  it("honors an explicit start, window and limit", () => {
+    const range = parseDeparturesWindow(
+      q(`start=${MONDAY_MIDNIGHT + 60}&window=600&limit=5`),
+      TZ,
+      MONDAY_10AM,
+    );
+    expect(range.start).toBe(MONDAY_MIDNIGHT + 60);
+    expect(range.end).toBe(MONDAY_MIDNIGHT + 660);
+    expect(range.limit).toBe(5);
+  });
+
+  it("reads the wheelchair accessible flag", () => {
+    for (const [query, expected] of [
+      ["accessible=1", true],
+      ["accessible=true", true],
+      ["accessible=0", false],
+      ["accessible=", false],
+    ] as const) {
+      expect(
+        parseDeparturesWindow(q(query), TZ, MONDAY_10AM)
+          .wheelchairAccessibleOnly,
+        query,
+      ).toBe(expected);
+    }
+    expect(() =>
+      parseDeparturesWindow(q("accessible=yes"), TZ, MONDAY_10AM),
+    ).toThrow(/accessible/);
+  });
+
+  it("rejects windows longer than a service day", () => {
+    expect(() =>
+      parseDeparturesWindow(q("window=90000"), TZ, MONDAY_10AM),
+    ).toThrow(/window/);
+  });
+});
+
+describe("parsePlanRequest", () => {
+  it("reads both ends and defaults the departure and count", () => {
+    expect(
+      parsePlanRequest(q("from=37.8,-122.27&to=stop:BA:EMBR"), MONDAY_10AM),
+    ).toEqual({
+      from: { kind: "point", lat: 37.8, lon: -122.27 },
+      to: { kind: "stop", agencyId: "BA", stopId: "EMBR" },
+      departAt: MONDAY_10AM,
+      count: 3,
+    });
+  });
+
+  it("rejects missing ends and out-of-range counts with a 400", () => {
+    for (const query of [
+      "to=Embarcadero",
+      "from=Embarcadero&to=stop:BA",
+      "from=a&to=b&count=9",
+      "from=a&to=b&depart=soon",
+    ]) {
+      expect(() => parsePlanRequest(q(query)), query).toThrow(ApiError);
+    }
+  });
+});
+
+describe("parseNearbyRequest", () => {
+  it("reads coordinates and defaults the radius and limit", () => {
+    expect(parseNearbyRequest(q("lat=37.8&lon=-122.27"))).toEqual({
+      lat: 37.8,
+      lon: -122.27,
+      radiusMeters: 800,
+      limit: 10,
+      wheelchairAccessibleOnly: false,
+    });
+  });
+
+  it("requires valid coordinates", () => {
+    for (const query of ["lon=-122", "lat=abc&lon=-122", "lat=91&lon=0"]) {
+      expect(() => parseNearbyRequest(q(query)), query).toThrow(ApiError);
+    }
+    expect(() =>
+      parseNearbyRequest(q("lat=37.8&lon=-122.27&radius=6000")),
+    ).toThrow(/radius/);
+  });
+});
+
+describe("parseSearchRequest", () => {
+  it("trims the query and defaults the limit", () => {
+    expect(parseSearchRequest(q("q=%20embarcadero%20"))).toEqual({
+      q: "embarcadero",
+      limit: 20,
+    });
+  });
+
+  it("requires a query and bounds the limit", () => {
+    expect(() => parseSearchRequest(q("q=%20"))).toThrow(/"q"/);
+    expect(() => parseSearchRequest(q("q=a&limit=51"))).toThrow(ApiError);
+  });
+});
+
+describe("parseServiceDate", () => {
+  it("resolves a date to the start of its service day", () => {
+    expect(parseServiceDate(q("date=2026-03-02"), TZ)).toBe(MONDAY_MIDNIGHT);
+  });
+
+  it("defaults to today", () => {
+    expect(parseServiceDate(q(""), TZ, MONDAY_10AM)).toBe(MONDAY_MIDNIGHT);
+  });
+
+  it("counts from noon minus 12h on DST change days", () => {
+    // 2026-03-08 springs forward, so noon minus 12h is 23:00 PST on the 7th.
+    expect(parseServiceDate(q("date=2026-03-08"), TZ)).toBe(1772953200);
+  });
+
+  it("rejects malformed dates", () => {
+    expect(() => parseServiceDate(q("date=03/02/2026"), TZ)).toThrow(ApiError);
+  });
+});
+
+describe("parseServiceDay", () => {
+  it("resolves a date to its service day", () => {
+    expect(parseServiceDay(q("date=2026-03-02"), TZ)).toMatchObject({
+      date: "2026-03-02",
+      start: MONDAY_MIDNIGHT,
+      column: "monday",
+    });
+  });
+});
+
+describe("parseFareRequest", () => {
+  it("pairs up repeated trip, from and to params", () => {
+    expect(
+      parseFareRequest(q("trip=T1&from=A&to=B&trip=T2&from=B&to=C")),
+    ).toEqual([
+      { trip_id: "T1", from_stop_id: "A", to_stop_id: "B" },
+      { trip_id: "T2", from_stop_id: "B", to_stop_id: "C" },
+    ]);
+  });
+
+  it("rejects missing, unpaired and empty legs", () => {
+    expect(() => parseFareRequest(q(""))).toThrow(ApiError);
+    expect(() => parseFareRequest(q("trip=T1&from=A"))).toThrow(ApiError);
+    expect(() => parseFareRequest(q("trip=T1&from=A&to="))).toThrow(ApiError);
+  });
+
+  it("caps the number of legs", () => {
+    const leg = "trip=T&from=A&to=B";
+    const query = Array(MAX_FARE_LEGS + 1)
+      .fill(leg)
+      .join("&");
+    expect(() => parseFareRequest(q(query))).toThrow(/At most/);
+  });
+});
+
+describe("withDepartureEpochs", () => {
+  it("adds scheduled and predicted epoch times", () => {
+    const [onTime, live] = withDepartureEpochs(
+      [
+        { departure_time: 3600, predicted_departure_time: null },
+        { departure_time: 7200, predicted_departure_time: 7320 },
+      ],
+      MONDAY_MIDNIGHT,
+    );
+    expect(onTime).toMatchObject({
+      departure_epoch: MONDAY_MIDNIGHT + 3600,
+      predicted_departure_epoch: null,
+    });
+    expect(live).toMatchObject({
+      departure_epoch: MONDAY_MIDNIGHT + 7200,
+      predicted_departure_epoch: MONDAY_MIDNIGHT + 7320,
+    });
+  });
+});
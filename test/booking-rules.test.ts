@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildBookingRulesQuery,
+  buildRouteBookingRulesQuery,
+  describeBookingNotice,
+  type BookingRule,
+} from "../src/booking-rules";
+
+const rule = (fields: Partial<BookingRule>): BookingRule => ({
+  booking_rule_id: "B",
+  booking_type: 0,
+  prior_notice_duration_min: null,
+  prior_notice_duration_max: null,
+  prior_notice_last_day: null,
+  prior_notice_last_time: null,
+  prior_notice_start_day: null,
+  prior_notice_start_time: null,
+  message: null,
+  pickup_message: null,
+  phone_number: null,
+  info_url: null,
+  booking_url: null,
+  ...fields,
+});
+
+describe("booking rule queries", () => {
+  it("looks rules up by id within the version", () => {
+    const { sql, params } = buildBookingRulesQuery(7, ["A", "B"]);
+    expect(sql).toContain("br.booking_rule_id IN (?,?)");
+    expect(params).toEqual([7, "A", "B"]);
+    expect(() => buildBookingRulesQuery(7, [])).toThrow();
+  });
+
+  it("collects a route's rules from stops and location groups", () => {
+    const { sql, params } = buildRouteBookingRulesQuery(7, 42);
+    expect(sql).toContain("JOIN stop_times st");
+    expect(sql).toContain("JOIN flex_stop_times fst");
+    expect((sql.match(/\?/g) || []).length).toBe(params.length);
+    expect(params).toEqual([7, 42, 42]);
+  });
+});
+
+describe("describeBookingNotice", () => {
+  it("has nothing to say for real-time booking", () => {
+    expect(describeBookingNotice(rule({}))).toBeNull();
+  });
+
+  it("words same-day notice in minutes, hours or days", () => {
+    expect(
+      describeBookingNotice(
+        rule({ booking_type: 1, prior_notice_duration_min: 60 }),
+      ),
+    ).toBe("Book at least 60 min ahead");
+    expect(
+      describeBookingNotice(
+        rule({
+          booking_type: 1,
+          prior_notice_duration_min: 120,
+          prior_notice_duration_max: 10080,
+        }),
+      ),
+    ).toBe("Book at least 2 hours ahead, up to 7 days ahead");
+  });
+
+  it("words prior-day deadlines with their time of day", () => {
+    expect(
+      describeBookingNotice(
+        rule({
+          booking_type: 2,
+          prior_notice_last_day: 1,
+          prior_notice_last_time: 17 * 3600,
+        }),
+      ),
+    ).toBe("Book by 5:00 PM the day before");
+    expect(
+      describeBookingNotice(
+        rule({
+          booking_type: 2,
+          prior_notice_last_day: 2,
+          prior_notice_start_day: 14,
+        }),
+      ),
+    ).toBe("Book 2 days before (opens 14 days before)");
+  });
+});
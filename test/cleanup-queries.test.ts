@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import {
+  CLAIM_VERSION_FOR_CLEANUP_SQL,
   VERSION_RETENTION_SECONDS,
   buildCondemnedVersionsQuery,
   buildVersionCleanupStatements,
@@ -19,11 +20,13 @@ describe("buildVersionCleanupStatements", () => {
   it("deletes referencing rows before the rows they point at", () => {
     expect(indexOf("stop_times")).toBeLessThan(indexOf("trips"));
     expect(indexOf("frequencies")).toBeLessThan(indexOf("trips"));
+    expect(indexOf("flex_stop_times")).toBeLessThan(indexOf("trips"));
     expect(indexOf("transfers")).toBeLessThan(indexOf("trips"));
     expect(indexOf("attributions")).toBeLessThan(indexOf("trips"));
     expect(indexOf("stop_times")).toBeLessThan(indexOf("stops"));
     expect(indexOf("transfers")).toBeLessThan(indexOf("stops"));
     expect(indexOf("pathways")).toBeLessThan(indexOf("stops"));
+    expect(indexOf("stop_search")).toBeLessThan(indexOf("stops"));
     expect(indexOf("trips")).toBeLessThan(indexOf("routes"));
     expect(indexOf("routes")).toBeLessThan(indexOf("agency"));
     expect(indexOf("fare_attributes")).toBeLessThan(indexOf("agency"));
@@ -43,13 +46,45 @@ describe("buildVersionCleanupStatements", () => {
   });
 
   it("batches the tables that can hold millions of rows", () => {
-    for (const table of ["stop_times", "trips", "stops", "shapes"]) {
+    for (const table of [
+      "stop_times",
+      "stop_search",
+      "trips",
+      "stops",
+      "shapes",
+    ]) {
       const statement = statements[indexOf(table)];
       expect(statement.batched, table).toBe(true);
       expect(statement.sql, table).toContain("LIMIT ?2");
     }
   });
 
+  it("keeps rows other versions still share", () => {
+    // Later versions read unchanged stop_times, stops and shape points from
+    // the version that wrote them (migration 0029).
+    expect(statements[indexOf("stop_times")].sql).toContain(
+      "o.timetable_trip_pk = t.trip_pk",
+    );
+    expect(statements[indexOf("trips")].sql).toContain(
+      "o.timetable_trip_pk = t.trip_pk",
+    );
+    expect(statements[indexOf("stops")].sql).toContain(
+      "o.timetable_stop_pk = s.stop_pk",
+    );
+    expect(statements[indexOf("shapes")].sql).toContain(
+      "SELECT shape_id FROM version_shapes",
+    );
+  });
+
+  it("removes the version row only once none of its rows are shared", () => {
+    const sql = statements[statements.length - 1].sql;
+    for (const table of ["trips", "stops", "shapes"]) {
+      expect(sql, table).toContain(
+        `NOT EXISTS (SELECT 1 FROM ${table} WHERE feed_version_id = ?1)`,
+      );
+    }
+  });
+
   it("parameterizes every statement on the feed version", () => {
     for (const statement of statements) {
       expect(statement.sql, statement.table).toContain("?1");
@@ -77,4 +112,25 @@ describe("retention queries", () => {
     );
     expect(sql).toContain("date_added < COALESCE(");
   });
+
+  it("never condemns the source's pinned version", () => {
+    const sql = buildCondemnedVersionsQuery();
+    expect(sql).toContain(
+      "feed_version_id IS NOT (\n          SELECT pinned_feed_version_id FROM feed_source WHERE feed_source_id = ?1",
+    );
+  });
+
+  it("cleans newer versions first so they release shared rows", () => {
+    expect(buildCondemnedVersionsQuery()).toContain(
+      "ORDER BY feed_version_id DESC",
+    );
+  });
+
+  it("claims a version for cleanup only while it is inactive and unpinned", () => {
+    // Clearing imported_at before the first delete keeps rollback and
+    // activation away from a half-deleted version.
+    expect(CLAIM_VERSION_FOR_CLEANUP_SQL).toContain("SET imported_at = NULL");
+    expect(CLAIM_VERSION_FOR_CLEANUP_SQL).toContain("is_active = 0");
+    expect(CLAIM_VERSION_FOR_CLEANUP_SQL).toContain("feed_version_id IS NOT (");
+  });
 });
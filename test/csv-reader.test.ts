@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+  CSV_START,
+  completeRecordsLength,
+  parseCsvRecords,
+  readCsvChunk,
+  readCsvRows,
+  type CsvCheckpoint,
+  type CsvRow,
+} from "../src/csv-reader";
+
+const encoder = new TextEncoder();
+
+// Serves one object with R2's ranged get, noting where each read starts.
+function fakeBucket(text: string) {
+  const bytes = encoder.encode(text);
+  const bucket = {
+    offsetsRead: [] as number[],
+    async head(key: string) {
+      return key === "file.txt" ? { size: bytes.length } : null;
+    },
+    async get(
+      key: string,
+      options: { range: { offset: number; length: number } },
+    ) {
+      if (key !== "file.txt") return null;
+      const { offset, length } = options.range;
+      const slice = bytes.slice(offset, offset + length);
+      bucket.offsetsRead.push(offset);
+      return { arrayBuffer: async () => slice.buffer };
+    },
+  };
+  return { bucket, size: bytes.length, r2: bucket as unknown as R2Bucket };
+}
+
+async function readAllChunks(text: string, chunkBytes: number) {
+  const { r2, size } = fakeBucket(text);
+  const rows: CsvRow[] = [];
+  const checkpoints: CsvCheckpoint[] = [];
+  let checkpoint = CSV_START;
+  while (checkpoint.offset < size) {
+    const chunk = await readCsvChunk(
+      r2,
+      "file.txt",
+      size,
+      checkpoint,
+      chunkBytes,
+    );
+    rows.push(...chunk.rows);
+    // Round-trips through JSON, as workflow step results do.
+    checkpoint = JSON.parse(JSON.stringify(chunk.next));
+    checkpoints.push(checkpoint);
+  }
+  return { rows, checkpoints };
+}
+
+describe("parseCsvRecords", () => {
+  it("reads quoted fields with commas, quotes and line breaks", () => {
+    expect(
+      parseCsvRecords(
+        'id,name\n1,"Main St, ""North"" entrance"\n2,"Two\nlines"\n',
+      ),
+    ).toEqual([
+      ["id", "name"],
+      ["1", 'Main St, "North" entrance'],
+      ["2", "Two\nlines"],
+    ]);
+  });
+
+  it("handles CRLF and CR line endings and skips blank lines", () => {
+    expect(parseCsvRecords("a,b\r\n1,2\r\n\r\n3,4\r5,6")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+      ["5", "6"],
+    ]);
+  });
+
+  it("trims unquoted fields only", () => {
+    expect(parseCsvRecords(' a , " b " ,c\n')).toEqual([["a", " b ", "c"]]);
+  });
+
+  it("keeps empty fields and stray quotes", () => {
+    expect(parseCsvRecords('1,,3\n5" screen,x\n')).toEqual([
+      ["1", "", "3"],
+      ['5" screen', "x"],
+    ]);
+  });
+
+  it("drops a byte order mark", () => {
+    expect(parseCsvRecords("\uFEFFstop_id,stop_name\n")).toEqual([
+      ["stop_id", "stop_name"],
+    ]);
+  });
+});
+
+describe("completeRecordsLength", () => {
+  const length = (text: string, atEnd = false) =>
+    completeRecordsLength(encoder.encode(text), atEnd);
+
+  it("cuts after the last line break outside quotes", () => {
+    expect(length("a,b\n1,2\n3,")).toBe(8);
+    expect(length('a,b\n1,"x\ny"\n2,"z\n')).toBe(12);
+    expect(length('1,"no end')).toBe(0);
+    expect(length('1,"no end', true)).toBe(9);
+  });
+
+  it("counts a quote mid-field as text", () => {
+    expect(length('5" screen,x\n6,y')).toBe(12);
+  });
+});
+
+describe("readCsvChunk", () => {
+  const text = [
+    "stop_id,stop_name,stop_desc",
+    'a,Ærøskøbing,"Harbour, ""west"" side"',
+    'b,Zürich HB,"Platform',
+    'seven"',
+    "c,東京,",
+    "d,Último,end",
+  ].join("\n");
+
+  it("gives the same rows in any chunk size", async () => {
+    const { rows: whole } = await readAllChunks(text, 1 << 20);
+    expect(whole).toEqual([
+      {
+        stop_id: "a",
+        stop_name: "Ærøskøbing",
+        stop_desc: 'Harbour, "west" side',
+      },
+      { stop_id: "b", stop_name: "Zürich HB", stop_desc: "Platform\nseven" },
+      { stop_id: "c", stop_name: "東京", stop_desc: "" },
+      { stop_id: "d", stop_name: "Último", stop_desc: "end" },
+    ]);
+    for (const chunkBytes of [1, 7, 16, 40]) {
+      const { rows } = await readAllChunks(text, chunkBytes);
+      expect(rows).toEqual(whole);
+    }
+  });
+
+  it("checkpoints byte offsets and carries the header", async () => {
+    const { checkpoints } = await readAllChunks(text, 40);
+    expect(checkpoints.length).toBeGreaterThan(2);
+    expect(checkpoints.at(-1)!.offset).toBe(encoder.encode(text).length);
+    for (const checkpoint of checkpoints) {
+      expect(checkpoint.header).toEqual(["stop_id", "stop_name", "stop_desc"]);
+    }
+  });
+
+  it("reads only from its checkpoint on", async () => {
+    const { bucket, r2, size } = fakeBucket(text);
+    const first = await readCsvChunk(r2, "file.txt", size, CSV_START, 64);
+    // The header alone; the next record is longer than what was left.
+    expect(first.rows).toEqual([]);
+    bucket.offsetsRead = [];
+    const second = await readCsvChunk(r2, "file.txt", size, first.next, 64);
+    expect(new Set(bucket.offsetsRead)).toEqual(new Set([first.next.offset]));
+    expect(second.rows.map((row) => row.stop_id)).toEqual(["a"]);
+  });
+});
+
+describe("readCsvRows", () => {
+  it("reads a whole object, or nothing when it is missing", async () => {
+    const { r2 } = fakeBucket("route_id,route_type\r\nL1,2\r\nL2,3\r\n");
+    expect(await readCsvRows(r2, "file.txt")).toEqual([
+      { route_id: "L1", route_type: "2" },
+      { route_id: "L2", route_type: "3" },
+    ]);
+    expect(await readCsvRows(r2, "missing.txt")).toEqual([]);
+  });
+});
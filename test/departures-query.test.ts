@@ -2,7 +2,16 @@ import { describe, expect, it } from "vitest";
 import {
   TRIP_STOPS_LIMIT,
   buildDeparturesQuery,
+  buildFlexDeparturesQuery,
+  buildFrequencyDeparturesQuery,
+  buildNextServiceDayQuery,
+  buildTripStopListsQuery,
   buildTripStopsQuery,
+  expandFlexDepartures,
+  expandFrequencyDepartures,
+  inheritWheelchairBoarding,
+  type FlexWindowRow,
+  type FrequencyWindowRow,
 } from "../src/db-queries";
 
 const baseFilter = {
@@ -48,6 +57,26 @@ describe("buildDeparturesQuery", () => {
     ]);
   });
 
+  it("filters to wheelchair accessible trips without extra params", () => {
+    const { sql, params } = buildDeparturesQuery({
+      ...baseFilter,
+      stopPks: [11],
+      wheelchairAccessibleOnly: true,
+    });
+    expect(sql).toContain("t.wheelchair_accessible = 1 AND");
+    expect(params).toEqual(
+      buildDeparturesQuery({ ...baseFilter, stopPks: [11] }).params,
+    );
+    for (const build of [
+      buildFrequencyDeparturesQuery,
+      buildFlexDeparturesQuery,
+    ]) {
+      expect(
+        build({ ...baseFilter, wheelchairAccessibleOnly: true }).sql,
+      ).toContain("t.wheelchair_accessible = 1 AND");
+    }
+  });
+
   it("adds LIMIT only when requested", () => {
     expect(buildDeparturesQuery(baseFilter).sql).not.toContain("LIMIT");
     const limited = buildDeparturesQuery({ ...baseFilter, limit: 25 });
@@ -65,6 +94,261 @@ describe("buildDeparturesQuery", () => {
   });
 });
 
+describe("buildFrequencyDeparturesQuery", () => {
+  it("binds exactly one param per placeholder for every filter shape", () => {
+    for (const filter of [
+      baseFilter,
+      { ...baseFilter, stopPks: [1, 2] },
+      { ...baseFilter, route_pk: 9, limit: 10 },
+    ]) {
+      const { sql, params } = buildFrequencyDeparturesQuery(filter);
+      expect((sql.match(/\?/g) || []).length).toBe(params.length);
+    }
+  });
+
+  it("binds the version, conditions, window end then start, then noon", () => {
+    const { params } = buildFrequencyDeparturesQuery({
+      ...baseFilter,
+      stopPks: [11],
+    });
+    expect(params).toEqual([
+      7, 7, 11, 43200, 36000, 1750000000, 1750000000, 1750000000, 1750000000,
+    ]);
+  });
+
+  it("is excluded from the template departures query", () => {
+    expect(buildDeparturesQuery(baseFilter).sql).toContain(
+      "SELECT 1 FROM frequencies f WHERE f.trip_pk = t.trip_pk",
+    );
+  });
+});
+
+describe("buildFlexDeparturesQuery", () => {
+  it("binds exactly one param per placeholder for every filter shape", () => {
+    for (const filter of [
+      baseFilter,
+      { ...baseFilter, stopPks: [1, 2] },
+      { ...baseFilter, route_pk: 9, limit: 10 },
+    ]) {
+      const { sql, params } = buildFlexDeparturesQuery(filter);
+      expect((sql.match(/\?/g) || []).length).toBe(params.length);
+    }
+  });
+
+  it("binds each branch's conditions and window, then noon", () => {
+    const { params } = buildFlexDeparturesQuery({
+      ...baseFilter,
+      stopPks: [11],
+    });
+    expect(params).toEqual([
+      7, 11, 43200, 36000, 7, 11, 43200, 36000, 1750000000, 1750000000,
+      1750000000, 1750000000,
+    ]);
+  });
+
+  it("reads stop windows and location groups, skipping no-pickup rows", () => {
+    const { sql } = buildFlexDeparturesQuery(baseFilter);
+    expect(sql).toContain("st.departure_time IS NULL");
+    expect(sql).toContain("JOIN location_group_stops lgs");
+    expect(sql).toContain("JOIN flex_stop_times st");
+    expect(sql).toContain("COALESCE(st.pickup_type, 0) != 1");
+  });
+});
+
+describe("buildNextServiceDayQuery", () => {
+  const days = [
+    { currentSeconds: 80000, todayNoon: 1750000000, todayColumn: "monday" },
+    { currentSeconds: 0, todayNoon: 1750086400, todayColumn: "tuesday" },
+  ];
+
+  it("checks each day in order, binding its start then its noon", () => {
+    const { sql, params } = buildNextServiceDayQuery({
+      feed_version_id: 7,
+      stopPks: [11],
+      days,
+    });
+    expect((sql.match(/\?/g) || []).length).toBe(params.length);
+    expect(sql).toContain("SELECT 0 AS day_index");
+    expect(sql).toContain("SELECT 1 AS day_index");
+    expect(sql).toContain("ORDER BY day_index ASC");
+    // The stop's fixed stop times, then both flex branches.
+    expect(params).toEqual([
+      7, 11, 7, 11, 7, 11, 80000, 1750000000, 1750000000, 1750000000,
+      1750000000, 0, 1750086400, 1750086400, 1750086400, 1750086400,
+    ]);
+  });
+
+  it("uses each day's own calendar column", () => {
+    const { sql } = buildNextServiceDayQuery({ feed_version_id: 7, days });
+    expect(sql).toContain("c.monday = 1");
+    expect(sql).toContain("c.tuesday = 1");
+  });
+
+  it("rejects an empty lookahead and bad day columns", () => {
+    expect(() =>
+      buildNextServiceDayQuery({ feed_version_id: 7, days: [] }),
+    ).toThrow();
+    expect(() =>
+      buildNextServiceDayQuery({
+        feed_version_id: 7,
+        days: [{ ...days[0], todayColumn: "monday = 1 OR 1=1 --" }],
+      }),
+    ).toThrow(/Invalid calendar day column/);
+  });
+});
+
+describe("expandFrequencyDepartures", () => {
+  // A stop 5 minutes into a trip running 07:00-09:00.
+  const window = (fields: Partial<FrequencyWindowRow>): FrequencyWindowRow => ({
+    stop_pk: 1,
+    stop_id: "S",
+    route_id: "R",
+    trip_id: "T",
+    route_short_name: "1",
+    route_long_name: null,
+    route_color: null,
+    route_text_color: null,
+    trip_headsign: null,
+    arrival_offset: 240,
+    departure_offset: 300,
+    stop_sequence: 3,
+    start_time: 7 * 3600,
+    end_time: 9 * 3600,
+    headway_secs: 600,
+    exact_times: 1,
+    wheelchair_accessible: null,
+    bikes_allowed: null,
+    wheelchair_boarding: 0,
+    ...fields,
+  });
+
+  it("lists concrete departures for exact_times=1 within the range", () => {
+    // 07:20 to 07:50: trips start 07:20, 07:30, 07:40 and reach the stop
+    // at :25, :35, :45.
+    const deps = expandFrequencyDepartures(
+      [window({})],
+      7 * 3600 + 20 * 60,
+      7 * 3600 + 50 * 60,
+    );
+    expect(deps.map((d) => d.departure_time)).toEqual([
+      7 * 3600 + 25 * 60,
+      7 * 3600 + 35 * 60,
+      7 * 3600 + 45 * 60,
+    ]);
+    expect(deps[0]).toMatchObject({
+      arrival_time: 7 * 3600 + 24 * 60,
+      headway_secs: null,
+      headway_end_time: null,
+    });
+    expect(deps[0]).not.toHaveProperty("start_time");
+  });
+
+  it("treats end_time as exclusive for trip starts", () => {
+    const deps = expandFrequencyDepartures(
+      [window({})],
+      8 * 3600 + 55 * 60,
+      10 * 3600,
+    );
+    // Last start is 08:50 (09:00 is excluded), reaching the stop at 08:55.
+    expect(deps.map((d) => d.departure_time)).toEqual([8 * 3600 + 55 * 60]);
+  });
+
+  it("yields one headway entry per window otherwise", () => {
+    const deps = expandFrequencyDepartures(
+      [window({ exact_times: 0 })],
+      8 * 3600,
+      10 * 3600,
+    );
+    expect(deps).toHaveLength(1);
+    expect(deps[0]).toMatchObject({
+      departure_time: 8 * 3600,
+      arrival_time: null,
+      headway_secs: 600,
+      headway_end_time: 9 * 3600 + 300,
+    });
+  });
+
+  it("skips windows outside the range and merges windows in time order", () => {
+    const deps = expandFrequencyDepartures(
+      [
+        window({ exact_times: 0, start_time: 12 * 3600, end_time: 13 * 3600 }),
+        window({ start_time: 6 * 3600, end_time: 6 * 3600 + 1200 }),
+        window({ exact_times: 0, start_time: 3 * 3600, end_time: 4 * 3600 }),
+      ],
+      6 * 3600,
+      12 * 3600 + 600,
+    );
+    expect(deps.map((d) => d.departure_time)).toEqual([
+      6 * 3600 + 300,
+      6 * 3600 + 900,
+      12 * 3600 + 300,
+    ]);
+  });
+});
+
+describe("expandFlexDepartures", () => {
+  // Pickups at a stop between 09:00 and 15:00.
+  const window = (fields: Partial<FlexWindowRow>): FlexWindowRow => ({
+    stop_pk: 1,
+    stop_id: "S",
+    route_id: "R",
+    trip_id: "T",
+    route_short_name: "Flex",
+    route_long_name: null,
+    route_color: null,
+    route_text_color: null,
+    trip_headsign: null,
+    stop_sequence: 1,
+    window_start: 9 * 3600,
+    window_end: 15 * 3600,
+    booking_rule_id: "B",
+    wheelchair_accessible: null,
+    bikes_allowed: null,
+    wheelchair_boarding: 0,
+    ...fields,
+  });
+
+  it("times open windows at now and later ones at their opening", () => {
+    const deps = expandFlexDepartures(
+      [window({ window_start: 16 * 3600, window_end: 18 * 3600 }), window({})],
+      10 * 3600,
+    );
+    expect(deps.map((d) => d.departure_time)).toEqual([10 * 3600, 16 * 3600]);
+    expect(deps[0]).toMatchObject({
+      arrival_time: null,
+      pickup_window_end: 15 * 3600,
+      booking_rule_id: "B",
+    });
+    expect(deps[0]).not.toHaveProperty("window_start");
+  });
+});
+
+describe("inheritWheelchairBoarding", () => {
+  const child = (wheelchair_boarding: number | null) => ({
+    wheelchair_boarding,
+    parent_station: 100,
+  });
+
+  it("inherits the parent station's value only when the stop has none", () => {
+    expect(
+      inheritWheelchairBoarding(child(null), { wheelchair_boarding: 1 }),
+    ).toBe(1);
+    expect(
+      inheritWheelchairBoarding(child(0), { wheelchair_boarding: 2 }),
+    ).toBe(2);
+    expect(
+      inheritWheelchairBoarding(child(2), { wheelchair_boarding: 1 }),
+    ).toBe(2);
+    expect(inheritWheelchairBoarding(child(null), null)).toBe(0);
+    expect(
+      inheritWheelchairBoarding(
+        { wheelchair_boarding: null, parent_station: null },
+        { wheelchair_boarding: 1 },
+      ),
+    ).toBe(0);
+  });
+});
+
 describe("buildTripStopsQuery", () => {
   it("reads only static schedule data and caps the row count", () => {
     const { sql, params } = buildTripStopsQuery(42);
@@ -73,3 +357,12 @@ describe("buildTripStopsQuery", () => {
     expect(sql).toContain(`LIMIT ${TRIP_STOPS_LIMIT}`);
   });
 });
+
+describe("buildTripStopListsQuery", () => {
+  it("reads the trips' stops in order within the version", () => {
+    const { sql, params } = buildTripStopListsQuery(7, ["t1", "t2"]);
+    expect(sql).toContain("t.trip_id IN (?,?)");
+    expect(sql).toContain("ORDER BY t.trip_id, st.stop_sequence");
+    expect(params).toEqual([7, "t1", "t2"]);
+  });
+});
@@ -0,0 +1,353 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRouteNetworksQuery,
+  buildStopAreasQuery,
+  buildTimeframeServicesQuery,
+  calculateFares,
+  fareLegTimes,
+  formatFareAmount,
+  matchFareLegRules,
+  type FareLeg,
+  type FareLegRule,
+  type FareProduct,
+  type FareTables,
+  type FareTransferRule,
+} from "../src/fare-engine";
+
+const leg = (fields: Partial<FareLeg> = {}): FareLeg => ({
+  network_ids: ["bus"],
+  from_area_ids: [],
+  to_area_ids: [],
+  departure_time: 8 * 3600,
+  arrival_time: 8 * 3600 + 1200,
+  active_service_ids: new Set(["weekday"]),
+  ...fields,
+});
+
+const legRule = (fields: Partial<FareLegRule>): FareLegRule => ({
+  leg_group_id: null,
+  network_id: null,
+  from_area_id: null,
+  to_area_id: null,
+  from_timeframe_group_id: null,
+  to_timeframe_group_id: null,
+  fare_product_id: "",
+  rule_priority: null,
+  ...fields,
+});
+
+const product = (
+  fare_product_id: string,
+  amount: number,
+  fields: Partial<FareProduct> = {},
+): FareProduct => ({
+  fare_product_id,
+  fare_product_name: null,
+  rider_category_id: null,
+  fare_media_id: null,
+  amount,
+  currency: "USD",
+  ...fields,
+});
+
+const transferRule = (fields: Partial<FareTransferRule>): FareTransferRule => ({
+  from_leg_group_id: null,
+  to_leg_group_id: null,
+  transfer_count: null,
+  duration_limit: null,
+  duration_limit_type: null,
+  fare_transfer_type: 0,
+  fare_product_id: null,
+  ...fields,
+});
+
+const tables = (fields: Partial<FareTables>): FareTables => ({
+  legRules: [],
+  products: [],
+  transferRules: [],
+  timeframes: [],
+  ...fields,
+});
+
+const ids = (matches: { product: FareProduct }[]) =>
+  matches.map((m) => m.product.fare_product_id);
+
+describe("matchFareLegRules", () => {
+  it("falls back to empty fields only when no rule names the leg's value", () => {
+    const fares = tables({
+      legRules: [
+        legRule({ network_id: "bus", fare_product_id: "bus_fare" }),
+        legRule({ fare_product_id: "any_fare" }),
+      ],
+      products: [product("bus_fare", 2.5), product("any_fare", 3)],
+    });
+    expect(ids(matchFareLegRules(leg(), fares))).toEqual(["bus_fare"]);
+    expect(
+      ids(matchFareLegRules(leg({ network_ids: ["rail"] }), fares)),
+    ).toEqual(["any_fare"]);
+  });
+
+  it("matches areas on either end", () => {
+    const fares = tables({
+      legRules: [
+        legRule({
+          from_area_id: "zone1",
+          to_area_id: "zone2",
+          fare_product_id: "z12",
+        }),
+      ],
+      products: [product("z12", 4)],
+    });
+    expect(
+      ids(
+        matchFareLegRules(
+          leg({ from_area_ids: ["zone1"], to_area_ids: ["zone2"] }),
+          fares,
+        ),
+      ),
+    ).toEqual(["z12"]);
+    expect(
+      matchFareLegRules(
+        leg({ from_area_ids: ["zone2"], to_area_ids: ["zone1"] }),
+        fares,
+      ),
+    ).toEqual([]);
+  });
+
+  it("treats empty fields as wildcards once priorities are set", () => {
+    const fares = tables({
+      legRules: [
+        legRule({ network_id: "bus", fare_product_id: "bus_fare" }),
+        legRule({ fare_product_id: "promo", rule_priority: 1 }),
+      ],
+      products: [product("bus_fare", 2.5), product("promo", 1)],
+    });
+    expect(ids(matchFareLegRules(leg(), fares))).toEqual(["promo"]);
+  });
+
+  it("applies timeframes on running services only", () => {
+    const fares = tables({
+      legRules: [
+        legRule({ from_timeframe_group_id: "peak", fare_product_id: "peak" }),
+        legRule({ fare_product_id: "off_peak" }),
+      ],
+      products: [product("peak", 3), product("off_peak", 2)],
+      timeframes: [
+        {
+          timeframe_group_id: "peak",
+          start_time: 7 * 3600,
+          end_time: 9 * 3600,
+          service_id: "weekday",
+        },
+      ],
+    });
+    expect(ids(matchFareLegRules(leg(), fares))).toEqual(["peak"]);
+    expect(
+      ids(matchFareLegRules(leg({ departure_time: 10 * 3600 }), fares)),
+    ).toEqual(["off_peak"]);
+    expect(
+      ids(
+        matchFareLegRules(
+          leg({ active_service_ids: new Set(["weekend"]) }),
+          fares,
+        ),
+      ),
+    ).toEqual(["off_peak"]);
+    // Times past midnight wrap to the time of day.
+    expect(
+      ids(matchFareLegRules(leg({ departure_time: 32 * 3600 }), fares)),
+    ).toEqual(["peak"]);
+  });
+});
+
+describe("calculateFares", () => {
+  const busFares = (transferRules: FareTransferRule[]) =>
+    tables({
+      legRules: [
+        legRule({
+          leg_group_id: "bus",
+          network_id: "bus",
+          fare_product_id: "bus_fare",
+        }),
+      ],
+      products: [
+        product("bus_fare", 2.5),
+        product("transfer", 0.5),
+        product("day_pass", 4),
+      ],
+      transferRules,
+    });
+  const twoLegs = [
+    leg(),
+    leg({ departure_time: 8 * 3600 + 1800, arrival_time: 8 * 3600 + 2400 }),
+  ];
+
+  it("pays each leg without transfer rules", () => {
+    expect(calculateFares(twoLegs, busFares([]))).toEqual([
+      {
+        rider_category_id: null,
+        fare_media_id: null,
+        amount: 5,
+        currency: "USD",
+        fare_product_ids: ["bus_fare", "bus_fare"],
+      },
+    ]);
+  });
+
+  it("applies each transfer type", () => {
+    const rule = { from_leg_group_id: "bus", to_leg_group_id: "bus" };
+    // A + AB
+    expect(
+      calculateFares(
+        twoLegs,
+        busFares([transferRule({ ...rule, fare_product_id: "transfer" })]),
+      )[0],
+    ).toMatchObject({ amount: 3, fare_product_ids: ["bus_fare", "transfer"] });
+    // A + AB + B
+    expect(
+      calculateFares(
+        twoLegs,
+        busFares([
+          transferRule({
+            ...rule,
+            fare_transfer_type: 1,
+            fare_product_id: "transfer",
+          }),
+        ]),
+      )[0].amount,
+    ).toBe(5.5);
+    // AB
+    expect(
+      calculateFares(
+        twoLegs,
+        busFares([
+          transferRule({
+            ...rule,
+            fare_transfer_type: 2,
+            fare_product_id: "day_pass",
+          }),
+        ]),
+      )[0],
+    ).toMatchObject({ amount: 4, fare_product_ids: ["bus_fare", "day_pass"] });
+  });
+
+  it("honors duration limits and transfer counts", () => {
+    const free = {
+      from_leg_group_id: "bus",
+      to_leg_group_id: "bus",
+      duration_limit: 3600,
+      duration_limit_type: 1,
+    };
+    const late = [leg(), leg({ departure_time: 10 * 3600 })];
+    expect(calculateFares(late, busFares([transferRule(free)]))[0].amount).toBe(
+      5,
+    );
+
+    const threeLegs = [
+      ...twoLegs,
+      leg({ departure_time: 8 * 3600 + 2700, arrival_time: 8 * 3600 + 3000 }),
+    ];
+    expect(
+      calculateFares(
+        threeLegs,
+        busFares([transferRule({ ...free, transfer_count: 1 })]),
+      )[0],
+    ).toMatchObject({ amount: 5, fare_product_ids: ["bus_fare", "bus_fare"] });
+    expect(
+      calculateFares(
+        threeLegs,
+        busFares([transferRule({ ...free, transfer_count: -1 })]),
+      )[0].amount,
+    ).toBe(2.5);
+  });
+
+  it("prices each rider category and fare media on its own products", () => {
+    const fares = tables({
+      legRules: [
+        legRule({ fare_product_id: "fare" }),
+        legRule({ fare_product_id: "fare_card" }),
+      ],
+      products: [
+        product("fare", 3),
+        product("fare", 1.5, { rider_category_id: "senior" }),
+        product("fare_card", 2.75, { fare_media_id: "card" }),
+      ],
+    });
+    expect(
+      calculateFares([leg()], fares).map((o) => [
+        o.rider_category_id,
+        o.fare_media_id,
+        o.amount,
+      ]),
+    ).toEqual([
+      [null, "card", 2.75],
+      [null, null, 3],
+      ["senior", null, 1.5],
+    ]);
+  });
+
+  it("returns nothing when a leg has no fare", () => {
+    expect(
+      calculateFares([leg(), leg({ network_ids: ["ferry"] })], busFares([])),
+    ).toEqual([]);
+    expect(calculateFares([], busFares([]))).toEqual([]);
+  });
+});
+
+describe("fareLegTimes", () => {
+  it("falls back to pickup/drop-off windows", () => {
+    const timed = {
+      arrival_time: 100,
+      departure_time: 120,
+      start_pickup_drop_off_window: null,
+      end_pickup_drop_off_window: null,
+    };
+    const flex = {
+      arrival_time: null,
+      departure_time: null,
+      start_pickup_drop_off_window: 200,
+      end_pickup_drop_off_window: 900,
+    };
+    expect(fareLegTimes(timed, flex)).toEqual({
+      departure_time: 120,
+      arrival_time: 900,
+    });
+    expect(fareLegTimes(flex, timed)).toEqual({
+      departure_time: 200,
+      arrival_time: 100,
+    });
+  });
+});
+
+describe("formatFareAmount", () => {
+  it("formats known currencies and falls back for unknown codes", () => {
+    expect(formatFareAmount(2.5, "USD")).toBe("$2.50");
+    expect(formatFareAmount(2.5, "US")).toBe("2.50 US");
+  });
+});
+
+describe("fare queries", () => {
+  const placeholders = (sql: string) => (sql.match(/\?/g) || []).length;
+
+  it("binds every placeholder", () => {
+    for (const { sql, params } of [
+      buildRouteNetworksQuery(7, ["R1", "R2"]),
+      buildStopAreasQuery(7, ["A", "B", "C"]),
+      buildTimeframeServicesQuery(7, {
+        todayNoon: 1772481600,
+        todayColumn: "monday",
+      }),
+    ]) {
+      expect(placeholders(sql)).toBe(params.length);
+    }
+  });
+
+  it("rejects unknown weekday columns", () => {
+    expect(() =>
+      buildTimeframeServicesQuery(7, {
+        todayNoon: 0,
+        todayColumn: "funday",
+      }),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeFeedDiff,
+  diffFeedFiles,
+  sha256Hex,
+  type FeedFile,
+} from "../src/feed-diff";
+
+const file = (file_name: string, sha256: string): FeedFile => ({
+  file_name,
+  sha256,
+  size: 1,
+});
+
+describe("sha256Hex", () => {
+  it("hashes bytes as lower-case hex", async () => {
+    expect(await sha256Hex(new TextEncoder().encode("abc"))).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+  });
+});
+
+describe("diffFeedFiles", () => {
+  const live = [
+    file("stop_times.txt", "st1"),
+    file("calendar_dates.txt", "cd1"),
+    file("trips.txt", "t1"),
+    file("fare_rules.txt", "fr1"),
+  ];
+
+  it("sorts files into added, removed, changed and unchanged", () => {
+    expect(
+      diffFeedFiles(live, [
+        file("trips.txt", "t1"),
+        file("stop_times.txt", "st1"),
+        file("calendar_dates.txt", "cd2"),
+        file("shapes.txt", "sh1"),
+      ]),
+    ).toEqual({
+      added: ["shapes.txt"],
+      removed: ["fare_rules.txt"],
+      changed: ["calendar_dates.txt"],
+      unchanged: ["stop_times.txt", "trips.txt"],
+    });
+  });
+
+  it("finds nothing changed in an identical set", () => {
+    const diff = diffFeedFiles(live, live);
+    expect(diff.unchanged).toHaveLength(4);
+    expect([...diff.added, ...diff.removed, ...diff.changed]).toEqual([]);
+  });
+});
+
+describe("describeFeedDiff", () => {
+  it("lists what changed before the unchanged count", () => {
+    expect(
+      describeFeedDiff({
+        added: ["shapes.txt"],
+        removed: [],
+        changed: ["calendar.txt", "calendar_dates.txt"],
+        unchanged: ["stop_times.txt", "trips.txt"],
+      }),
+    ).toBe(
+      "changed calendar.txt, calendar_dates.txt; added shapes.txt; 2 file(s) unchanged",
+    );
+    expect(
+      describeFeedDiff({
+        added: [],
+        removed: [],
+        changed: [],
+        unchanged: ["agency.txt"],
+      }),
+    ).toBe("1 file(s) unchanged");
+  });
+});
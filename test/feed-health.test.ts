@@ -0,0 +1,190 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import {
+  EXPIRY_WARNING_DAYS,
+  STALE_FEED_DAYS,
+  assessFeedHealth,
+  assessServiceCoverage,
+  buildHealthWebhookPayload,
+  warningKey,
+  type CalendarServiceRow,
+} from "../src/feed-health";
+
+const ZONE = "America/Los_Angeles";
+// A Monday.
+const today = DateTime.fromISO("2026-10-19T09:30", { zone: ZONE });
+const noon = (iso: string) =>
+  Math.floor(DateTime.fromISO(`${iso}T12:00`, { zone: ZONE }).toSeconds());
+
+const weekdays = (
+  start: string,
+  end: string,
+  feedVersionId = 1,
+): CalendarServiceRow => ({
+  feed_version_id: feedVersionId,
+  service_id: "weekday",
+  monday: 1,
+  tuesday: 1,
+  wednesday: 1,
+  thursday: 1,
+  friday: 1,
+  saturday: 0,
+  sunday: 0,
+  start_date: noon(start),
+  end_date: noon(end),
+});
+
+describe("assessServiceCoverage", () => {
+  it("finds the last service date and days without service", () => {
+    const coverage = assessServiceCoverage(
+      [weekdays("2026-09-01", "2026-10-30")],
+      [],
+      today,
+      7,
+    );
+    expect(coverage.lastServiceDate).toBe("2026-10-30");
+    // The weekend within the lookahead has no service.
+    expect(coverage.gapDates).toEqual(["2026-10-24", "2026-10-25"]);
+  });
+
+  it("applies calendar_dates additions and removals", () => {
+    const coverage = assessServiceCoverage(
+      [weekdays("2026-09-01", "2026-10-23")],
+      [
+        {
+          feed_version_id: 1,
+          service_id: "weekday",
+          date: noon("2026-10-21"),
+          exception_type: 2,
+        },
+        {
+          feed_version_id: 1,
+          service_id: "special",
+          date: noon("2026-10-25"),
+          exception_type: 1,
+        },
+      ],
+      today,
+    );
+    expect(coverage.lastServiceDate).toBe("2026-10-25");
+    expect(coverage.gapDates).toEqual(["2026-10-21", "2026-10-24"]);
+  });
+
+  it("combines versions, since selection serves whichever covers the day", () => {
+    const coverage = assessServiceCoverage(
+      [
+        weekdays("2026-09-01", "2026-10-23", 1),
+        weekdays("2026-10-26", "2026-12-18", 2),
+      ],
+      [],
+      today,
+      7,
+    );
+    expect(coverage.lastServiceDate).toBe("2026-12-18");
+  });
+
+  it("scopes removals to their version", () => {
+    const coverage = assessServiceCoverage(
+      [
+        weekdays("2026-09-01", "2026-10-19", 1),
+        weekdays("2026-09-01", "2026-10-19", 2),
+      ],
+      [
+        {
+          feed_version_id: 1,
+          service_id: "weekday",
+          date: noon("2026-10-19"),
+          exception_type: 2,
+        },
+      ],
+      today,
+    );
+    expect(coverage.lastServiceDate).toBe("2026-10-19");
+  });
+
+  it("reports nothing left when service has ended", () => {
+    expect(
+      assessServiceCoverage([weekdays("2026-09-01", "2026-10-16")], [], today),
+    ).toEqual({ lastServiceDate: null, gapDates: [] });
+  });
+});
+
+describe("assessFeedHealth", () => {
+  const healthy = {
+    today,
+    hasActiveVersion: true,
+    coverage: { lastServiceDate: "2027-01-31", gapDates: [] },
+    lastChangedAt: Math.floor(today.minus({ days: 3 }).toSeconds()),
+  };
+
+  it("has nothing to say about a healthy feed", () => {
+    expect(assessFeedHealth(healthy)).toEqual([]);
+  });
+
+  it("warns when service ends soon", () => {
+    const lastServiceDate = today
+      .plus({ days: EXPIRY_WARNING_DAYS - 1 })
+      .toISODate()!;
+    expect(
+      assessFeedHealth({
+        ...healthy,
+        coverage: { lastServiceDate, gapDates: [] },
+      }),
+    ).toEqual([
+      {
+        kind: "expiring",
+        date: lastServiceDate,
+        message: `Scheduled service ends ${lastServiceDate} (13 days from today)`,
+      },
+    ]);
+  });
+
+  it("flags expired feeds, gaps and stale zips", () => {
+    const kinds = (input: Partial<typeof healthy>) =>
+      assessFeedHealth({ ...healthy, ...input }).map((w) => w.kind);
+    expect(
+      kinds({ coverage: { lastServiceDate: null, gapDates: [] } }),
+    ).toEqual(["expired"]);
+    expect(
+      kinds({
+        coverage: { lastServiceDate: "2027-01-31", gapDates: ["2026-10-24"] },
+      }),
+    ).toEqual(["service_gap"]);
+    expect(
+      kinds({
+        lastChangedAt: Math.floor(
+          today.minus({ days: STALE_FEED_DAYS }).toSeconds(),
+        ),
+      }),
+    ).toEqual(["stale"]);
+    expect(kinds({ hasActiveVersion: false })).toEqual(["no_active_version"]);
+  });
+
+  it("keys warnings by what they are about, not the countdown", () => {
+    const coverage = { lastServiceDate: "2026-10-30", gapDates: [] };
+    const [monday] = assessFeedHealth({ ...healthy, coverage });
+    const [tuesday] = assessFeedHealth({
+      ...healthy,
+      coverage,
+      today: today.plus({ days: 1 }),
+    });
+    expect(monday.message).not.toBe(tuesday.message);
+    expect(warningKey(monday)).toBe(warningKey(tuesday));
+  });
+});
+
+describe("buildHealthWebhookPayload", () => {
+  it("summarizes new warnings for chat webhooks", () => {
+    const warning = {
+      kind: "expired" as const,
+      date: null,
+      message: "No service is scheduled today or later",
+    };
+    expect(buildHealthWebhookPayload("BA", [warning], [warning])).toEqual({
+      text: "Feed health for BA: No service is scheduled today or later",
+      source_name: "BA",
+      new_warnings: [warning],
+      warnings: [warning],
+    });
+  });
+});
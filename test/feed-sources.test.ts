@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  default511Source,
+  expandSecrets,
+  feedVersionLabel,
+  resolveRealtimeFeedRequest,
+  resolveStaticFeedRequest,
+  type FeedSourceConfig,
+} from "../src/feed-sources";
+
+const secrets = {
+  API_KEY_511: "k511",
+  FEED_SECRET_TRANSITLAND: "tl",
+  gtfs_data: {},
+};
+
+const urlSource = (
+  fields: Partial<FeedSourceConfig> = {},
+): FeedSourceConfig => ({
+  ...default511Source("caltrain"),
+  provider: "url",
+  feed_url: "http://localhost:8787/fixtures/caltrain.zip",
+  ...fields,
+});
+
+describe("expandSecrets", () => {
+  it("fills placeholders from string bindings only", () => {
+    expect(expandSecrets("a={API_KEY_511}&b={feed_id}", secrets)).toBe(
+      "a=k511&b={feed_id}",
+    );
+    expect(() =>
+      expandSecrets("{gtfs_data}{FEED_SECRET_MISSING}", secrets),
+    ).toThrow("FEED_SECRET_MISSING");
+  });
+
+  it("refuses secrets that are not feed secrets", () => {
+    expect(() =>
+      expandSecrets("https://x.example/?k={ADMIN_API_TOKEN}", {
+        ADMIN_API_TOKEN: "admin",
+      }),
+    ).toThrow("not a feed secret");
+  });
+});
+
+describe("resolveStaticFeedRequest", () => {
+  it("derives 511 operator datafeeds", () => {
+    const feed = resolveStaticFeedRequest(default511Source("SC"), secrets);
+    expect(feed.url).toBe(
+      "https://api.511.org/transit/datafeeds?api_key=k511&operator_id=SC",
+    );
+    expect(feed.headers).toEqual({ Accept: "application/zip" });
+    expect(feed.cacheKey).not.toContain("k511");
+  });
+
+  it("fetches URL sources with their auth headers", () => {
+    const feed = resolveStaticFeedRequest(
+      urlSource({
+        feed_url:
+          "https://transit.land/api/v2/rest/feeds/f-9q9-caltrain/download_latest_feed_version",
+        auth_headers: '{"apikey":"{FEED_SECRET_TRANSITLAND}"}',
+      }),
+      secrets,
+    );
+    expect(feed.url).toContain("f-9q9-caltrain");
+    expect(feed.headers).toEqual({ Accept: "application/zip", apikey: "tl" });
+  });
+
+  it("rejects URL sources without a URL and malformed headers", () => {
+    expect(() =>
+      resolveStaticFeedRequest(urlSource({ feed_url: null }), secrets),
+    ).toThrow("feed_url");
+    expect(() =>
+      resolveStaticFeedRequest(urlSource({ auth_headers: '["x"]' }), secrets),
+    ).toThrow("auth_headers");
+  });
+});
+
+describe("resolveRealtimeFeedRequest", () => {
+  it("defaults 511 sources to the regional feeds", () => {
+    const a = resolveRealtimeFeedRequest(
+      default511Source("SC"),
+      "tripupdates",
+      secrets,
+    );
+    const b = resolveRealtimeFeedRequest(
+      default511Source("BA"),
+      "tripupdates",
+      secrets,
+    );
+    expect(a?.url).toBe(
+      "https://api.511.org/transit/tripupdates?api_key=k511&agency=RG",
+    );
+    expect(a?.cacheKey).toBe(b?.cacheKey);
+  });
+
+  it("uses configured endpoints and has none otherwise", () => {
+    const source = urlSource({
+      vehicle_positions_url: "http://localhost:8787/fixtures/vehicles.pb",
+    });
+    expect(
+      resolveRealtimeFeedRequest(source, "vehiclepositions", secrets)?.url,
+    ).toBe("http://localhost:8787/fixtures/vehicles.pb");
+    expect(resolveRealtimeFeedRequest(source, "tripupdates", secrets)).toBe(
+      null,
+    );
+  });
+});
+
+describe("feedVersionLabel", () => {
+  it("keeps 511 labels and prefixes other providers", () => {
+    expect(feedVersionLabel(default511Source("SC"), "abc")).toBe("511-SC-abc");
+    expect(feedVersionLabel(urlSource(), "abc")).toBe("url-caltrain-abc");
+  });
+});
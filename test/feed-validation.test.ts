@@ -0,0 +1,469 @@
+import { describe, expect, it } from "vitest";
+import {
+  blocksActivation,
+  buildValidationReport,
+  mergeValidationIssues,
+  parseBounds,
+  parseStrictGtfsTime,
+  parseValidationThreshold,
+  validateParentStations,
+  validateStaticFiles,
+  validateStopTimesChunk,
+  validateStopsChunk,
+  validateTripsChunk,
+  type StaticFeedFiles,
+  type ValidationIssue,
+} from "../src/feed-validation";
+
+const feed = (overrides: Partial<StaticFeedFiles> = {}): StaticFeedFiles => ({
+  agency: [
+    {
+      agency_id: "CT",
+      agency_name: "Caltrain",
+      agency_url: "https://caltrain.com",
+      agency_timezone: "America/Los_Angeles",
+    },
+  ],
+  routes: [
+    {
+      route_id: "L1",
+      agency_id: "CT",
+      route_short_name: "Local",
+      route_long_name: "",
+      route_type: "2",
+    },
+  ],
+  calendar: [
+    {
+      service_id: "weekday",
+      monday: "1",
+      tuesday: "1",
+      wednesday: "1",
+      thursday: "1",
+      friday: "1",
+      saturday: "0",
+      sunday: "0",
+      start_date: "20260901",
+      end_date: "20261231",
+    },
+  ],
+  calendar_dates: [],
+  ...overrides,
+});
+
+const options = { hasStops: true, hasTrips: true, hasStopTimes: true };
+
+const codes = (issues: ValidationIssue[]) =>
+  issues.map((i) => `${i.file}:${i.code}`).sort();
+
+describe("validateStaticFiles", () => {
+  it("passes a well-formed feed", () => {
+    expect(validateStaticFiles(feed(), options)).toEqual([]);
+  });
+
+  it("reports missing files and columns once", () => {
+    const issues = validateStaticFiles(
+      feed({
+        calendar: [],
+        routes: [{ route_id: "L1", route_short_name: "Local" }],
+      }),
+      { ...options, hasTrips: false, hasStopTimes: false },
+    );
+    expect(codes(issues)).toEqual([
+      "calendar.txt:missing_file",
+      "routes.txt:missing_column",
+      "stop_times.txt:missing_file",
+      "trips.txt:missing_file",
+    ]);
+    expect(issues.find((i) => i.code === "missing_column")?.samples).toEqual([
+      "route_type",
+    ]);
+  });
+
+  it("reports duplicate keys and unknown references", () => {
+    const base = feed();
+    const issues = validateStaticFiles(
+      feed({
+        routes: [...base.routes, { ...base.routes[0], agency_id: "VTA" }],
+      }),
+      options,
+    );
+    expect(codes(issues)).toEqual([
+      "routes.txt:duplicate_key",
+      "routes.txt:unknown_reference",
+    ]);
+  });
+
+  it("rejects impossible dates and exception types", () => {
+    const issues = validateStaticFiles(
+      feed({
+        calendar: [{ ...feed().calendar[0], end_date: "20260231" }],
+        calendar_dates: [
+          { service_id: "weekday", date: "2026-12-25", exception_type: "3" },
+        ],
+      }),
+      options,
+    );
+    expect(codes(issues)).toEqual([
+      "calendar.txt:invalid_date",
+      "calendar_dates.txt:invalid_date",
+      "calendar_dates.txt:invalid_value",
+    ]);
+  });
+});
+
+describe("validateStopsChunk", () => {
+  const stops = [
+    {
+      stop_id: "sf",
+      stop_name: "San Francisco",
+      stop_lat: "37.7766",
+      stop_lon: "-122.3947",
+      location_type: "1",
+      parent_station: "",
+    },
+    {
+      stop_id: "sf-1",
+      stop_name: "San Francisco Platform 1",
+      stop_lat: "37.7765",
+      stop_lon: "-122.3946",
+      location_type: "",
+      parent_station: "sf",
+    },
+  ];
+  const none = () => false;
+
+  it("passes well-formed stops", () => {
+    expect(validateStopsChunk(stops, none, null)).toEqual([]);
+  });
+
+  it("reports blank required fields, grouped by file and code", () => {
+    const blank = stops.map((stop) => ({ ...stop, stop_name: "" }));
+    const [issue] = validateStopsChunk(blank, none, null);
+    expect(issue).toEqual({
+      code: "missing_required_field",
+      severity: "error",
+      file: "stops.txt",
+      count: 2,
+      samples: ["stop_id=sf: stop_name", "stop_id=sf-1: stop_name"],
+    });
+  });
+
+  it("does not require names or positions of generic nodes", () => {
+    const rows = [
+      ...stops,
+      { stop_id: "node", location_type: "3", parent_station: "sf" },
+    ];
+    expect(validateStopsChunk(rows, none, null)).toEqual([]);
+  });
+
+  it("reports stop_ids repeated in the chunk or an earlier one", () => {
+    const issues = validateStopsChunk(
+      [...stops, stops[1]],
+      (stopId) => stopId === "sf",
+      null,
+    );
+    expect(codes(issues)).toEqual(["stops.txt:duplicate_key"]);
+    expect(issues[0].samples).toEqual(["sf", "sf-1"]);
+  });
+
+  it("checks coordinates against the globe and the source's bounds", () => {
+    const rows = [
+      ...stops,
+      {
+        stop_id: "nowhere",
+        stop_name: "Null Island",
+        stop_lat: "0",
+        stop_lon: "0",
+      },
+      { stop_id: "bad", stop_name: "Bad", stop_lat: "97", stop_lon: "-122" },
+      {
+        stop_id: "la",
+        stop_name: "LA",
+        stop_lat: "34.05",
+        stop_lon: "-118.24",
+      },
+    ];
+    const world = validateStopsChunk(rows, none, null);
+    expect(world.map((i) => [i.code, i.severity, i.count])).toEqual([
+      ["coordinates_out_of_bounds", "warning", 1],
+      ["invalid_coordinates", "error", 1],
+    ]);
+
+    const bay = validateStopsChunk(rows, none, [-123.1, 36.8, -121.2, 38.6]);
+    expect(
+      bay.find((i) => i.code === "coordinates_out_of_bounds")?.samples,
+    ).toEqual(["stop_id=nowhere: 0,0", "stop_id=la: 34.05,-118.24"]);
+  });
+});
+
+describe("validateParentStations", () => {
+  it("reports parents missing from every chunk", () => {
+    const issues = validateParentStations(
+      [
+        { stopId: "sf-1", parentStation: "sf" },
+        { stopId: "sj-1", parentStation: "sj" },
+      ],
+      (stopId) => stopId === "sf",
+    );
+    expect(codes(issues)).toEqual(["stops.txt:unknown_reference"]);
+    expect(issues[0].samples).toEqual(["stop_id=sj-1: parent_station=sj"]);
+  });
+});
+
+describe("validateTripsChunk", () => {
+  const context = {
+    seenBefore: (tripId: string) => tripId === "100",
+    hasRoute: (routeId: string) => routeId === "L1",
+    hasService: (serviceId: string) => serviceId === "weekday",
+  };
+
+  it("passes trips of known routes and services", () => {
+    expect(
+      validateTripsChunk(
+        [{ route_id: "L1", service_id: "weekday", trip_id: "101" }],
+        context,
+      ),
+    ).toEqual([]);
+  });
+
+  it("reports duplicate keys and unknown references", () => {
+    const issues = validateTripsChunk(
+      [
+        { route_id: "L1", service_id: "weekday", trip_id: "100" },
+        { route_id: "L1", service_id: "weekday", trip_id: "101" },
+        { route_id: "L9", service_id: "weekday", trip_id: "102" },
+        { route_id: "L1", service_id: "sunday", trip_id: "101" },
+      ],
+      context,
+    );
+    expect(codes(issues)).toEqual([
+      "trips.txt:duplicate_key",
+      "trips.txt:unknown_reference",
+    ]);
+    expect(issues.find((i) => i.code === "duplicate_key")?.samples).toEqual([
+      "100",
+      "101",
+    ]);
+    expect(issues.find((i) => i.code === "unknown_reference")?.samples).toEqual(
+      ["trip_id=102: route_id=L9", "trip_id=101: service_id=sunday"],
+    );
+  });
+});
+
+describe("validateStopTimesChunk", () => {
+  const known = (ids: string[]) => (id: string) => ids.includes(id);
+  const hasTrip = known(["101", "102"]);
+  const hasStop = known(["a", "b", "c"]);
+  const stopTime = (
+    trip_id: string,
+    stop_sequence: string,
+    stop_id: string,
+    arrival_time: string,
+    departure_time = arrival_time,
+  ) => ({ trip_id, stop_sequence, stop_id, arrival_time, departure_time });
+
+  it("passes ordered trips, including service past midnight", () => {
+    const rows = [
+      stopTime("101", "1", "a", "23:50:00"),
+      stopTime("101", "2", "b", "24:05:00", "24:06:00"),
+      stopTime("101", "3", "c", ""),
+      stopTime("101", "4", "a", "24:30:00"),
+    ];
+    expect(validateStopTimesChunk(rows, hasTrip, hasStop).issues).toEqual([]);
+  });
+
+  it("orders by stop_sequence, not by row", () => {
+    const rows = [
+      stopTime("101", "20", "b", "08:10:00"),
+      stopTime("101", "10", "a", "08:00:00"),
+    ];
+    expect(validateStopTimesChunk(rows, hasTrip, hasStop).issues).toEqual([]);
+  });
+
+  it("reports times that go backwards and malformed times", () => {
+    const { issues } = validateStopTimesChunk(
+      [
+        stopTime("101", "1", "a", "08:00:00"),
+        stopTime("101", "2", "b", "07:59:00"),
+        stopTime("102", "1", "a", "09:00:00", "08:59:00"),
+        stopTime("102", "2", "b", "25:61:00"),
+      ],
+      hasTrip,
+      hasStop,
+    );
+    expect(issues.map((i) => [i.code, i.count])).toEqual([
+      ["invalid_time", 2],
+      ["time_travel", 2],
+    ]);
+    expect(issues[1].samples).toEqual([
+      "trip_id=101 stop_sequence=2: earlier than the previous stop",
+      "trip_id=102 stop_sequence=1: departs before it arrives",
+    ]);
+  });
+
+  it("reports unknown trips and stops and repeated stop_sequences", () => {
+    const { issues } = validateStopTimesChunk(
+      [
+        stopTime("999", "1", "a", "08:00:00"),
+        stopTime("101", "1", "zz", "08:00:00"),
+        stopTime("101", "1", "b", "08:00:00"),
+      ],
+      hasTrip,
+      hasStop,
+    );
+    expect(codes(issues)).toEqual([
+      "stop_times.txt:duplicate_key",
+      "stop_times.txt:unknown_reference",
+    ]);
+    expect(issues.find((i) => i.code === "unknown_reference")?.count).toBe(2);
+  });
+
+  it("accepts flex rows served by a location group", () => {
+    const rows = [
+      {
+        trip_id: "101",
+        stop_sequence: "1",
+        stop_id: "",
+        location_group_id: "zone",
+      },
+    ];
+    expect(validateStopTimesChunk(rows, hasTrip, hasStop).issues).toEqual([]);
+  });
+
+  it("checks a trip split across chunks as one", () => {
+    const first = validateStopTimesChunk(
+      [
+        stopTime("102", "1", "c", "07:00:00"),
+        stopTime("101", "1", "a", "08:00:00"),
+        stopTime("101", "2", "b", "08:10:00"),
+      ],
+      hasTrip,
+      hasStop,
+    );
+    expect(first.issues).toEqual([]);
+    expect(first.carry).toEqual({
+      tripId: "101",
+      sequences: ["1", "2"],
+      sequence: 2,
+      latest: 8 * 3600 + 600,
+    });
+
+    const second = validateStopTimesChunk(
+      [
+        stopTime("101", "2", "c", "08:20:00"),
+        stopTime("101", "3", "a", "08:05:00"),
+      ],
+      hasTrip,
+      hasStop,
+      first.carry,
+    );
+    expect(codes(second.issues)).toEqual([
+      "stop_times.txt:duplicate_key",
+      "stop_times.txt:time_travel",
+    ]);
+    expect(
+      second.issues.find((i) => i.code === "duplicate_key")?.samples,
+    ).toEqual(["101 2"]);
+    expect(second.carry?.sequences).toEqual(["1", "2", "2", "3"]);
+  });
+
+  it("does not compare the carried trip with the next one", () => {
+    const { carry } = validateStopTimesChunk(
+      [stopTime("101", "1", "a", "23:00:00")],
+      hasTrip,
+      hasStop,
+    );
+    const next = validateStopTimesChunk(
+      [stopTime("102", "1", "a", "06:00:00")],
+      hasTrip,
+      hasStop,
+      carry,
+    );
+    expect(next.issues).toEqual([]);
+    expect(next.carry?.tripId).toBe("102");
+  });
+});
+
+describe("parseStrictGtfsTime", () => {
+  it("accepts HH:MM:SS with hours past 24", () => {
+    expect(parseStrictGtfsTime("8:05:00")).toBe(8 * 3600 + 300);
+    expect(parseStrictGtfsTime("25:00:00")).toBe(25 * 3600);
+    for (const bad of ["25:61:00", "08:00", "08:00:60", "8h05", " 08:00:00"]) {
+      expect(parseStrictGtfsTime(bad)).toBe(null);
+    }
+  });
+
+  it("parses blank and missing values to null", () => {
+    expect(parseStrictGtfsTime("")).toBe(null);
+    expect(parseStrictGtfsTime(undefined)).toBe(null);
+  });
+});
+
+describe("reports and thresholds", () => {
+  const issue = (
+    code: string,
+    severity: "error" | "warning",
+    count: number,
+    samples = ["x"],
+  ): ValidationIssue => ({
+    code,
+    severity,
+    file: "stop_times.txt",
+    count,
+    samples,
+  });
+
+  it("merges chunk issues and caps their samples", () => {
+    const merged = mergeValidationIssues(
+      [issue("time_travel", "error", 3, ["a", "b", "c"])],
+      [issue("time_travel", "error", 4, ["d", "e", "f"])],
+    );
+    expect(merged).toEqual([
+      issue("time_travel", "error", 7, ["a", "b", "c", "d", "e"]),
+    ]);
+  });
+
+  it("counts errors and warnings, errors first", () => {
+    const report = buildValidationReport([
+      issue("coordinates_out_of_bounds", "warning", 9),
+      issue("invalid_time", "error", 1),
+      issue("time_travel", "error", 2),
+    ]);
+    expect(report.error_count).toBe(3);
+    expect(report.warning_count).toBe(9);
+    expect(report.issues.map((i) => i.code)).toEqual([
+      "time_travel",
+      "invalid_time",
+      "coordinates_out_of_bounds",
+    ]);
+  });
+
+  it("blocks at or above the configured severity", () => {
+    const warnings = buildValidationReport([issue("w", "warning", 1)]);
+    const errors = buildValidationReport([issue("e", "error", 1)]);
+    expect(blocksActivation(warnings, "error")).toBe(false);
+    expect(blocksActivation(errors, "error")).toBe(true);
+    expect(blocksActivation(warnings, "warning")).toBe(true);
+    expect(blocksActivation(errors, "off")).toBe(false);
+    expect(blocksActivation(buildValidationReport([]), "warning")).toBe(false);
+  });
+
+  it("defaults unknown thresholds to errors", () => {
+    expect(parseValidationThreshold("warning")).toBe("warning");
+    expect(parseValidationThreshold("off")).toBe("off");
+    expect(parseValidationThreshold(undefined)).toBe("error");
+    expect(parseValidationThreshold("fatal")).toBe("error");
+  });
+});
+
+describe("parseBounds", () => {
+  it("reads a [west, south, east, north] box", () => {
+    expect(parseBounds("[-123.1,36.8,-121.2,38.6]")).toEqual([
+      -123.1, 36.8, -121.2, 38.6,
+    ]);
+    for (const raw of [null, "", "[1,2,3]", "[3,2,1,4]", "{}", "nope"]) {
+      expect(parseBounds(raw)).toBe(null);
+    }
+  });
+});
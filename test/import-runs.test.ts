@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_IMPORT_ERROR_LENGTH,
+  RECENT_FAILURES_QUERY,
+  SOURCE_STATUS_QUERY,
+  describeImportError,
+  serializeSourceStatus,
+  type SourceStatusRow,
+} from "../src/import-runs";
+
+describe("describeImportError", () => {
+  it("keeps the error name and message", () => {
+    expect(describeImportError(new Error("Failed to fetch: 503"))).toBe(
+      "Error: Failed to fetch: 503",
+    );
+    expect(describeImportError(new RangeError("Invalid string length"))).toBe(
+      "RangeError: Invalid string length",
+    );
+    expect(describeImportError("boom")).toBe("boom");
+  });
+
+  it("truncates long messages", () => {
+    const message = describeImportError(new Error("x".repeat(5000)));
+    expect(message).toHaveLength(MAX_IMPORT_ERROR_LENGTH);
+    expect(message.endsWith("…")).toBe(true);
+  });
+});
+
+describe("status queries", () => {
+  it("counts runs that found their zip already imported as successful", () => {
+    expect(SOURCE_STATUS_QUERY).toContain(
+      "status IN ('imported', 'unchanged')",
+    );
+  });
+
+  it("falls back to imported_at for sources without run history", () => {
+    expect(SOURCE_STATUS_QUERY).toContain("SELECT MAX(imported_at)");
+  });
+
+  it("lists only failed runs", () => {
+    expect(RECENT_FAILURES_QUERY).toContain("WHERE status = 'failed'");
+  });
+});
+
+describe("serializeSourceStatus", () => {
+  const row: SourceStatusRow = {
+    source_name: "BA",
+    source_desc: "Bay Area Rapid Transit",
+    active_version_id: 517,
+    active_version_label: "511-BA-3f2a",
+    feed_start_date: 1786258800,
+    feed_end_date: 1793534400,
+    last_success_at: 1786262400,
+    last_run_instance_id: "20261019-daily-BA-abcd",
+    last_run_status: "failed",
+    last_run_started_at: 1792400000,
+    last_run_last_step: "[Import511] Import trips for BA",
+    health_checked_at: 1792400100,
+    health_warnings:
+      '[{"kind":"expiring","date":"2026-11-01","message":"Scheduled service ends 2026-11-01 (13 days from today)"}]',
+  };
+
+  it("nests the active version and last run", () => {
+    expect(serializeSourceStatus(row)).toEqual({
+      source_name: "BA",
+      source_desc: "Bay Area Rapid Transit",
+      active_version: {
+        feed_version_id: 517,
+        version_label: "511-BA-3f2a",
+        feed_start_date: 1786258800,
+        feed_end_date: 1793534400,
+      },
+      last_success_at: 1786262400,
+      last_run: {
+        instance_id: "20261019-daily-BA-abcd",
+        status: "failed",
+        started_at: 1792400000,
+        last_step: "[Import511] Import trips for BA",
+      },
+      health: {
+        checked_at: 1792400100,
+        warnings: [
+          {
+            kind: "expiring",
+            date: "2026-11-01",
+            message: "Scheduled service ends 2026-11-01 (13 days from today)",
+          },
+        ],
+      },
+    });
+  });
+
+  it("reports a source that was never imported", () => {
+    const status = serializeSourceStatus({
+      ...row,
+      active_version_id: null,
+      last_success_at: null,
+      last_run_instance_id: null,
+      health_checked_at: null,
+    });
+    expect(status.active_version).toBe(null);
+    expect(status.last_success_at).toBe(null);
+    expect(status.last_run).toBe(null);
+    expect(status.health).toBe(null);
+  });
+});
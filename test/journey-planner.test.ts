@@ -0,0 +1,402 @@
+import { describe, expect, it } from "vitest";
+import type { RealtimeEntry } from "../src/db-queries";
+import {
+  MIN_TRANSFER_SECONDS,
+  TIMETABLE_ROW_LIMIT,
+  accessStops,
+  buildConnections,
+  buildFootpaths,
+  buildTimetableQuery,
+  parsePlace,
+  planItineraries,
+  planItinerary,
+  type PlannerStop,
+  type TimetableRow,
+} from "../src/journey-planner";
+
+// Tuesday 2026-03-03 00:00 in Los Angeles: the fixture's service day start.
+const DAY = 1772524800;
+
+const hm = (time: string) => {
+  const [h, m, s = 0] = time.split(":").map(Number);
+  return h * 3600 + m * 60 + s;
+};
+
+// A small two-agency fixture feed. Line 1 (agency AC) runs north A-B-C-E;
+// line 2 (agency BA) runs C2-D from a platform across the street from C.
+// Latitude steps of 0.01 degrees are about 1.1 km.
+const stop = (
+  stop_pk: number,
+  stop_id: string,
+  stop_lat: number,
+  agency_id: string,
+): PlannerStop => ({
+  stop_pk,
+  stop_id,
+  stop_name: stop_id,
+  stop_lat,
+  stop_lon: -122.27,
+  feed_version_id: agency_id === "AC" ? 1 : 2,
+  agency_id,
+  agency_timezone: "America/Los_Angeles",
+});
+
+const STOPS = [
+  stop(1, "A", 37.8, "AC"),
+  stop(2, "B", 37.81, "AC"),
+  stop(3, "C", 37.82, "AC"),
+  // About 56 m north of C: a 47 s walk.
+  stop(4, "C2", 37.8205, "BA"),
+  stop(5, "D", 37.85, "BA"),
+  stop(6, "E", 37.83, "AC"),
+];
+const C_TO_C2_WALK = 47;
+
+const trip = (
+  trip_pk: number,
+  trip_id: string,
+  stops: [number, string][],
+): TimetableRow[] =>
+  stops.map(([stop_pk, time], i) => ({
+    trip_pk,
+    trip_id,
+    // Line 1 (trips 1x) is agency AC's version, line 2 BA's.
+    feed_version_id: trip_pk < 20 ? 1 : 2,
+    stop_pk,
+    stop_sequence: i + 1,
+    arrival_time: hm(time),
+    departure_time: hm(time),
+  }));
+
+const ROWS = [
+  ...trip(10, "line1-0800", [
+    [1, "8:00"],
+    [2, "8:05"],
+    [3, "8:10"],
+    [6, "8:20"],
+  ]),
+  ...trip(11, "line1-0830", [
+    [1, "8:30"],
+    [2, "8:35"],
+    [3, "8:40"],
+    [6, "8:50"],
+  ]),
+  // Leaves before the walk from C can make it.
+  ...trip(20, "line2-0810", [
+    [4, "8:10:30"],
+    [5, "8:25"],
+  ]),
+  ...trip(21, "line2-0815", [
+    [4, "8:15"],
+    [5, "8:30"],
+  ]),
+  ...trip(22, "line2-0845", [
+    [4, "8:45"],
+    [5, "9:00"],
+  ]),
+];
+
+const STOP_IDS = new Map(STOPS.map((s) => [s.stop_pk, s.stop_id]));
+// Just south of A, and just north of D.
+const ORIGIN = { lat: 37.7995, lon: -122.27 };
+const DESTINATION = { lat: 37.8505, lon: -122.27 };
+
+function plan(
+  departAfter: string,
+  rt: Map<number, Map<string, RealtimeEntry>> = new Map(),
+  rows: TimetableRow[] = ROWS,
+) {
+  const connections = buildConnections(
+    [{ serviceDayStart: DAY, rows }],
+    STOP_IDS,
+    rt,
+  );
+  return planItinerary(
+    connections,
+    buildFootpaths(STOPS),
+    accessStops(STOPS, ORIGIN.lat, ORIGIN.lon),
+    accessStops(STOPS, DESTINATION.lat, DESTINATION.lon),
+    DAY + hm(departAfter),
+  );
+}
+
+describe("parsePlace", () => {
+  it("reads coordinates, stop references and search text", () => {
+    expect(parsePlace(" 37.8, -122.27 ")).toEqual({
+      kind: "point",
+      lat: 37.8,
+      lon: -122.27,
+    });
+    expect(parsePlace("stop:SF:SF:15001")).toEqual({
+      kind: "stop",
+      agencyId: "SF",
+      stopId: "SF:15001",
+    });
+    expect(parsePlace("Embarcadero")).toEqual({
+      kind: "text",
+      query: "Embarcadero",
+    });
+  });
+
+  it("rejects blank input, bad coordinates and bad stop references", () => {
+    expect(parsePlace("  ")).toBeNull();
+    expect(parsePlace(null)).toBeNull();
+    expect(parsePlace("95,10")).toBeNull();
+    expect(parsePlace("stop:SF")).toBeNull();
+    expect(parsePlace("stop::15001")).toBeNull();
+  });
+});
+
+describe("buildTimetableQuery", () => {
+  const box = { minLat: 37, maxLat: 38, minLon: -123, maxLon: -122 };
+  const filter = {
+    currentSeconds: 100,
+    endSeconds: 200,
+    todayNoon: DAY + 12 * 3600,
+    todayColumn: "tuesday",
+  };
+
+  it("binds every placeholder, ending with the row cap", () => {
+    const { sql, params } = buildTimetableQuery(box, filter);
+    expect((sql.match(/\?/g) || []).length).toBe(params.length);
+    expect(params.slice(0, 6)).toEqual([37, 38, -123, -122, 100, 200]);
+    expect(params[params.length - 1]).toBe(TIMETABLE_ROW_LIMIT);
+    expect(sql).toContain("c.tuesday = 1");
+    expect(sql).toContain("NOT EXISTS");
+  });
+
+  it("rejects an unknown day column", () => {
+    expect(() =>
+      buildTimetableQuery(box, { ...filter, todayColumn: "x; DROP" }),
+    ).toThrow();
+  });
+});
+
+describe("buildConnections", () => {
+  it("links consecutive timed stops of each trip, earliest first", () => {
+    const rows = trip(10, "t", [
+      [1, "8:00"],
+      [2, "8:05"],
+      [3, "8:10"],
+    ]);
+    rows[1].arrival_time = null;
+    rows[1].departure_time = null;
+    const connections = buildConnections(
+      [{ serviceDayStart: DAY, rows: [rows[2], rows[0], rows[1]] }],
+      STOP_IDS,
+    );
+    expect(connections).toEqual([
+      {
+        trip: `${DAY}:10`,
+        trip_pk: 10,
+        from_stop_pk: 1,
+        to_stop_pk: 3,
+        from_sequence: 1,
+        to_sequence: 3,
+        departure: DAY + hm("8:00"),
+        arrival: DAY + hm("8:10"),
+        scheduled_departure: DAY + hm("8:00"),
+        scheduled_arrival: DAY + hm("8:10"),
+      },
+    ]);
+  });
+
+  it("keeps the same trip on two service days apart", () => {
+    const rows = trip(10, "t", [
+      [1, "23:50"],
+      [2, "24:10"],
+    ]);
+    const connections = buildConnections(
+      [
+        { serviceDayStart: DAY, rows },
+        { serviceDayStart: DAY - 86400, rows },
+      ],
+      STOP_IDS,
+    );
+    expect(connections.map((c) => c.trip)).toEqual([
+      `${DAY - 86400}:10`,
+      `${DAY}:10`,
+    ]);
+  });
+
+  it("shifts times by realtime delays and drops skipped stops", () => {
+    const rows = trip(10, "t", [
+      [1, "8:00"],
+      [2, "8:05"],
+      [3, "8:10"],
+    ]);
+    const rt = new Map<string, RealtimeEntry>([
+      [
+        "t",
+        {
+          delay: 120,
+          status: "SCHEDULED",
+          stopTimeUpdates: [
+            {
+              stopSequence: 2,
+              stopId: null,
+              arrivalDelay: null,
+              departureDelay: null,
+              arrivalTime: null,
+              departureTime: null,
+              skipped: true,
+              noData: false,
+            },
+          ],
+        },
+      ],
+    ]);
+    const [c] = buildConnections(
+      [{ serviceDayStart: DAY, rows }],
+      STOP_IDS,
+      new Map([[1, rt]]),
+    );
+    expect(c.to_stop_pk).toBe(3);
+    expect(c.departure - c.scheduled_departure).toBe(120);
+    expect(c.arrival - c.scheduled_arrival).toBe(120);
+
+    // Another source's feed naming the same trip_id does not apply.
+    const [other] = buildConnections(
+      [{ serviceDayStart: DAY, rows }],
+      STOP_IDS,
+      new Map([[2, rt]]),
+    );
+    expect(other.departure).toBe(other.scheduled_departure);
+  });
+});
+
+describe("buildFootpaths", () => {
+  it("links stops of any agency within the radius, both ways", () => {
+    const paths = buildFootpaths(STOPS);
+    expect(paths.get(3)).toEqual([{ to_stop_pk: 4, seconds: C_TO_C2_WALK }]);
+    expect(paths.get(4)).toEqual([{ to_stop_pk: 3, seconds: C_TO_C2_WALK }]);
+    expect(paths.get(1)).toBeUndefined();
+  });
+
+  it("applies transfers.txt times and forbidden transfers", () => {
+    const paths = buildFootpaths(STOPS, [
+      {
+        from_stop_pk: 3,
+        to_stop_pk: 4,
+        transfer_type: 2,
+        min_transfer_time: 300,
+      },
+      {
+        from_stop_pk: 4,
+        to_stop_pk: 3,
+        transfer_type: 3,
+        min_transfer_time: null,
+      },
+      // Too far to walk by default, but the feed says it works.
+      {
+        from_stop_pk: 2,
+        to_stop_pk: 4,
+        transfer_type: 0,
+        min_transfer_time: null,
+      },
+    ]);
+    expect(paths.get(3)).toEqual([{ to_stop_pk: 4, seconds: 300 }]);
+    expect(paths.get(4)).toEqual([]);
+    expect(paths.get(2)?.[0].to_stop_pk).toBe(4);
+  });
+});
+
+describe("planItinerary", () => {
+  it("transfers between agencies at nearby stops", () => {
+    const itinerary = plan("7:50")!;
+    expect(itinerary.transfers).toBe(1);
+    expect(itinerary.legs.map((l) => l.mode)).toEqual([
+      "walk",
+      "transit",
+      "walk",
+      "transit",
+      "walk",
+    ]);
+
+    const [access, ride1, walk, ride2, egress] = itinerary.legs;
+    expect(access).toMatchObject({ from_stop_pk: null, to_stop_pk: 1 });
+    expect(access.arrival).toBe(DAY + hm("8:00"));
+    expect(ride1).toMatchObject({
+      trip_pk: 10,
+      from_stop_pk: 1,
+      to_stop_pk: 3,
+      wait_seconds: 0,
+    });
+    expect(walk).toMatchObject({ from_stop_pk: 3, to_stop_pk: 4 });
+    expect(walk.arrival - walk.departure).toBe(C_TO_C2_WALK);
+    // The 8:10:30 leaves before the walk is done.
+    expect(ride2).toMatchObject({
+      trip_pk: 21,
+      wait_seconds: hm("0:05") - C_TO_C2_WALK,
+    });
+    expect(egress).toMatchObject({ from_stop_pk: 5, to_stop_pk: null });
+
+    expect(itinerary.departure).toBe(access.departure);
+    expect(itinerary.arrival).toBe(egress.arrival);
+  });
+
+  it("needs transfer time to change vehicles at the same stop", () => {
+    const sameStop = (departs: string) => [
+      ...trip(10, "line1", [
+        [1, "8:00"],
+        [3, "8:10"],
+      ]),
+      ...trip(30, "shuttle", [
+        [3, departs],
+        [5, "8:40"],
+      ]),
+    ];
+    const tooSoon = plan("7:50", new Map(), sameStop("8:11"));
+    expect(tooSoon).toBeNull();
+
+    const minutes = MIN_TRANSFER_SECONDS / 60;
+    const inTime = plan("7:50", new Map(), sameStop(`8:${10 + minutes}`));
+    expect(inTime?.legs[2]).toMatchObject({
+      trip_pk: 30,
+      wait_seconds: MIN_TRANSFER_SECONDS,
+    });
+  });
+
+  it("routes on realtime predictions", () => {
+    // Line 1 running 6 minutes late misses the 8:15 and waits for 8:45.
+    const rt = new Map<string, RealtimeEntry>([
+      ["line1-0800", { delay: 360, status: "SCHEDULED", stopTimeUpdates: [] }],
+    ]);
+    const itinerary = plan("7:50", new Map([[1, rt]]))!;
+    const [, ride1, , ride2] = itinerary.legs;
+    expect(ride1).toMatchObject({
+      trip_pk: 10,
+      departure: DAY + hm("8:06"),
+      scheduled_departure: DAY + hm("8:00"),
+    });
+    expect(ride2).toMatchObject({ trip_pk: 22 });
+  });
+
+  it("returns null when nothing reaches the destination", () => {
+    expect(plan("9:00")).toBeNull();
+  });
+});
+
+describe("planItineraries", () => {
+  it("lists later departures one after another", () => {
+    const connections = buildConnections(
+      [{ serviceDayStart: DAY, rows: ROWS }],
+      STOP_IDS,
+    );
+    const itineraries = planItineraries(
+      connections,
+      buildFootpaths(STOPS),
+      accessStops(STOPS, ORIGIN.lat, ORIGIN.lon),
+      accessStops(STOPS, DESTINATION.lat, DESTINATION.lon),
+      DAY + hm("7:50"),
+    );
+    expect(
+      itineraries.map((it) =>
+        it.legs.flatMap((l) => (l.mode === "transit" ? [l.trip_pk] : [])),
+      ),
+    ).toEqual([
+      [10, 21],
+      [11, 22],
+    ]);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateLegacyFare,
+  describeLegacyTransfers,
+  matchLegacyFares,
+  summarizeRouteFares,
+  type FareAttribute,
+  type FareRule,
+  type LegacyFareLeg,
+} from "../src/legacy-fares";
+
+const fare = (
+  fare_id: string,
+  price: number,
+  fields: Partial<FareAttribute> = {},
+): FareAttribute => ({
+  fare_id,
+  price,
+  currency_type: "USD",
+  payment_method: 0,
+  transfers: null,
+  transfer_duration: null,
+  ...fields,
+});
+
+const rule = (fare_id: string, fields: Partial<FareRule>): FareRule => ({
+  fare_id,
+  route_id: null,
+  origin_id: null,
+  destination_id: null,
+  contains_id: null,
+  ...fields,
+});
+
+const leg = (fields: Partial<LegacyFareLeg> = {}): LegacyFareLeg => ({
+  route_id: "local",
+  zone_ids: ["1", "1"],
+  departure_time: 8 * 3600,
+  ...fields,
+});
+
+const ids = (fares: FareAttribute[]) => fares.map((f) => f.fare_id);
+
+describe("matchLegacyFares", () => {
+  it("matches route and origin/destination zones, cheapest first", () => {
+    const tables = {
+      attributes: [fare("express", 5), fare("zone12", 4), fare("local", 2.5)],
+      rules: [
+        rule("express", { route_id: "express" }),
+        rule("zone12", { origin_id: "1", destination_id: "2" }),
+        rule("local", { route_id: "local", origin_id: "1" }),
+      ],
+    };
+    expect(
+      ids(matchLegacyFares(leg({ zone_ids: ["1", "2"] }), tables)),
+    ).toEqual(["local", "zone12"]);
+    expect(
+      ids(
+        matchLegacyFares(
+          leg({ route_id: "express", zone_ids: ["2", "1"] }),
+          tables,
+        ),
+      ),
+    ).toEqual(["express"]);
+  });
+
+  it("needs contains_id groups to name exactly the zones passed", () => {
+    const tables = {
+      attributes: [fare("two_zones", 3)],
+      rules: [
+        rule("two_zones", { contains_id: "A" }),
+        rule("two_zones", { contains_id: "B" }),
+      ],
+    };
+    expect(
+      ids(matchLegacyFares(leg({ zone_ids: ["A", "B", "B"] }), tables)),
+    ).toEqual(["two_zones"]);
+    expect(matchLegacyFares(leg({ zone_ids: ["A", "A"] }), tables)).toEqual([]);
+    expect(
+      matchLegacyFares(leg({ zone_ids: ["A", "B", "C"] }), tables),
+    ).toEqual([]);
+  });
+
+  it("applies fares without rules everywhere", () => {
+    const tables = { attributes: [fare("flat", 2)], rules: [] };
+    expect(
+      ids(matchLegacyFares(leg({ zone_ids: [null, null] }), tables)),
+    ).toEqual(["flat"]);
+  });
+});
+
+describe("calculateLegacyFare", () => {
+  const flat = (fields: Partial<FareAttribute>) => ({
+    attributes: [fare("flat", 2.25, fields)],
+    rules: [],
+  });
+  const twoLegs = [leg(), leg({ departure_time: 8 * 3600 + 1800 })];
+
+  it("transfers free on the same fare within its limits", () => {
+    expect(
+      calculateLegacyFare(twoLegs, flat({ transfer_duration: 3600 })),
+    ).toEqual({
+      rider_category_id: null,
+      fare_media_id: null,
+      amount: 2.25,
+      currency: "USD",
+      fare_product_ids: ["flat"],
+    });
+    expect(
+      calculateLegacyFare(twoLegs, flat({ transfer_duration: 900 }))?.amount,
+    ).toBe(4.5);
+    expect(calculateLegacyFare(twoLegs, flat({ transfers: 0 }))?.amount).toBe(
+      4.5,
+    );
+    expect(
+      calculateLegacyFare(
+        [...twoLegs, leg({ departure_time: 9 * 3600 })],
+        flat({ transfers: 1 }),
+      )?.fare_product_ids,
+    ).toEqual(["flat", "flat"]);
+  });
+
+  it("pays again when the first fare does not cover the next leg", () => {
+    const tables = {
+      attributes: [fare("local", 2), fare("express", 5)],
+      rules: [
+        rule("local", { route_id: "local" }),
+        rule("express", { route_id: "express" }),
+      ],
+    };
+    expect(
+      calculateLegacyFare(
+        [leg(), leg({ route_id: "express", departure_time: 8 * 3600 + 600 })],
+        tables,
+      ),
+    ).toMatchObject({ amount: 7, fare_product_ids: ["local", "express"] });
+  });
+
+  it("returns null when a leg has no fare", () => {
+    const tables = {
+      attributes: [fare("local", 2)],
+      rules: [rule("local", { route_id: "local" })],
+    };
+    expect(calculateLegacyFare([leg({ route_id: "ferry" })], tables)).toBe(
+      null,
+    );
+    expect(calculateLegacyFare([], tables)).toBe(null);
+  });
+});
+
+describe("summarizeRouteFares", () => {
+  it("ranges over the route's fares and notes zone pricing", () => {
+    const tables = {
+      attributes: [
+        fare("z1", 2, { payment_method: 1, transfer_duration: 5400 }),
+        fare("z2", 3.5),
+        fare("other", 10),
+      ],
+      rules: [
+        rule("z1", { origin_id: "1", destination_id: "1" }),
+        rule("z2", { origin_id: "1", destination_id: "2" }),
+        rule("other", { route_id: "other" }),
+      ],
+    };
+    expect(summarizeRouteFares("local", tables)).toEqual({
+      currency: "USD",
+      min_price: 2,
+      max_price: 3.5,
+      zone_based: true,
+      payment_method: 1,
+      transfers: null,
+      transfer_duration: 5400,
+    });
+    expect(
+      summarizeRouteFares("local", { attributes: [], rules: [] }),
+    ).toBeNull();
+  });
+});
+
+describe("describeLegacyTransfers", () => {
+  it("words transfer counts and durations", () => {
+    expect(
+      describeLegacyTransfers({ transfers: null, transfer_duration: 5400 }),
+    ).toBe("Free transfers within 90 min");
+    expect(
+      describeLegacyTransfers({ transfers: 1, transfer_duration: null }),
+    ).toBe("1 free transfer");
+    expect(
+      describeLegacyTransfers({ transfers: 2, transfer_duration: 3600 }),
+    ).toBe("2 free transfers within 60 min");
+    expect(
+      describeLegacyTransfers({ transfers: 0, transfer_duration: 7200 }),
+    ).toBe("No transfers");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  NEARBY_CANDIDATE_LIMIT,
+  boundingBox,
+  buildNearbyStopsQuery,
+  haversineMeters,
+  rankNearbyStops,
+} from "../src/nearby-queries";
+
+// Downtown Oakland (12th St BART) and Embarcadero BART, about 11 km apart.
+const OAKLAND = { lat: 37.80377, lon: -122.27159 };
+const EMBARCADERO = { lat: 37.79293, lon: -122.39688 };
+
+describe("haversineMeters", () => {
+  it("is zero for the same point", () => {
+    expect(haversineMeters(37.8, -122.27, 37.8, -122.27)).toBe(0);
+  });
+
+  it("measures across the bay", () => {
+    const d = haversineMeters(
+      OAKLAND.lat,
+      OAKLAND.lon,
+      EMBARCADERO.lat,
+      EMBARCADERO.lon,
+    );
+    expect(d).toBeGreaterThan(11000);
+    expect(d).toBeLessThan(11200);
+  });
+});
+
+describe("boundingBox", () => {
+  it("encloses the radius in every direction", () => {
+    const box = boundingBox(OAKLAND.lat, OAKLAND.lon, 500);
+    for (const [lat, lon] of [
+      [box.minLat, OAKLAND.lon],
+      [box.maxLat, OAKLAND.lon],
+      [OAKLAND.lat, box.minLon],
+      [OAKLAND.lat, box.maxLon],
+    ]) {
+      expect(haversineMeters(OAKLAND.lat, OAKLAND.lon, lat, lon)).toBeCloseTo(
+        500,
+        -1,
+      );
+    }
+  });
+
+  it("widens in longitude away from the equator", () => {
+    const equator = boundingBox(0, 0, 1000);
+    const north = boundingBox(60, 0, 1000);
+    expect(north.maxLon - north.minLon).toBeGreaterThan(
+      1.9 * (equator.maxLon - equator.minLon),
+    );
+    expect(north.maxLat - north.minLat).toBeCloseTo(
+      equator.maxLat - equator.minLat,
+    );
+  });
+});
+
+describe("buildNearbyStopsQuery", () => {
+  it("binds the box and skips platforms and station parts", () => {
+    const box = boundingBox(OAKLAND.lat, OAKLAND.lon, 800);
+    const { sql, params } = buildNearbyStopsQuery(box);
+    expect(params).toEqual([box.minLat, box.maxLat, box.minLon, box.maxLon]);
+    expect((sql.match(/\?/g) || []).length).toBe(params.length);
+    expect(sql).toContain("s.parent_station IS NULL");
+    expect(sql).toContain("fv.is_active = 1");
+    expect(sql).toContain(`LIMIT ${NEARBY_CANDIDATE_LIMIT}`);
+  });
+});
+
+describe("rankNearbyStops", () => {
+  const stop = (stop_id: string, stop_lat: number, stop_lon: number) => ({
+    stop_id,
+    stop_lat,
+    stop_lon,
+  });
+
+  it("orders by distance, drops box corners outside the radius, and limits", () => {
+    const { lat, lon } = OAKLAND;
+    const box = boundingBox(lat, lon, 500);
+    const ranked = rankNearbyStops(
+      [
+        stop("far", lat + 0.004, lon),
+        stop("corner", box.maxLat, box.maxLon),
+        stop("near", lat + 0.001, lon),
+        stop("mid", lat, lon + 0.003),
+      ],
+      lat,
+      lon,
+      500,
+      2,
+    );
+    expect(ranked.map((s) => s.stop_id)).toEqual(["near", "mid"]);
+    expect(ranked[0].distance_m).toBe(111);
+  });
+});
@@ -1,20 +1,45 @@
 import { describe, expect, it } from "vitest";
 import {
   buildRealtimeMap,
+  buildVehiclePositions,
+  locateVehicleOnTrip,
   mergeDeparturesRealtime,
   mergeTripStopsRealtime,
+  placeVehiclesOnRoute,
+  predictStopTimes,
+  routeVehicleKey,
+  selectServiceAlerts,
+  tripsNeedingStopLists,
   type RealtimeEntry,
 } from "../src/db-queries";
+import type {
+  AlertEntity,
+  ServiceAlert,
+  StopTimeUpdateState,
+} from "../src/realtime-utils";
 
 describe("buildRealtimeMap", () => {
   it("keys entries by the prefix-stripped trip id", () => {
     const map = buildRealtimeMap([
       { id: "1", tripUpdate: { trip: { tripId: "RG:123" }, delay: 60 } },
     ]);
-    expect(map.get("123")).toEqual({ delay: 60, status: "SCHEDULED" });
+    expect(map.get("123")).toEqual({
+      delay: 60,
+      status: "SCHEDULED",
+      stopTimeUpdates: [],
+    });
     expect(map.has("RG:123")).toBe(false);
   });
 
+  it("keeps ids whole for feeds without agency prefixes", () => {
+    const map = buildRealtimeMap(
+      [{ id: "1", tripUpdate: { trip: { tripId: "RG:123" }, delay: 60 } }],
+      false,
+    );
+    expect(map.get("RG:123")?.delay).toBe(60);
+    expect(map.has("123")).toBe(false);
+  });
+
   it("skips entities without a usable trip update", () => {
     const map = buildRealtimeMap([
       { id: "1" },
@@ -32,49 +57,409 @@ describe("buildRealtimeMap", () => {
   });
 });
 
+// A stop_time_update with only the fields a test cares about.
+function stu(fields: Partial<StopTimeUpdateState>): StopTimeUpdateState {
+  return {
+    stopSequence: null,
+    stopId: null,
+    arrivalDelay: null,
+    departureDelay: null,
+    arrivalTime: null,
+    departureTime: null,
+    skipped: false,
+    noData: false,
+    ...fields,
+  };
+}
+
+// Five stops, A..E, two minutes apart with a one-minute dwell.
+const TRIP_ROWS = ["A", "B", "C", "D", "E"].map((stop_id, i) => ({
+  stop_id,
+  stop_sequence: i + 1,
+  arrival_time: 36000 + i * 120,
+  departure_time: 36000 + i * 120 + 60,
+}));
+
+describe("predictStopTimes", () => {
+  const entry = (
+    stopTimeUpdates: StopTimeUpdateState[],
+    delay: number | null = null,
+  ): RealtimeEntry => ({ delay, status: "SCHEDULED", stopTimeUpdates });
+  const departures = (entryOrNone: RealtimeEntry | undefined) =>
+    predictStopTimes(TRIP_ROWS, entryOrNone).map((p) => p.departureDelay);
+
+  it("predicts nothing without a realtime entry", () => {
+    expect(departures(undefined)).toEqual([null, null, null, null, null]);
+  });
+
+  it("applies the trip delay everywhere when there are no updates", () => {
+    expect(departures(entry([], 90))).toEqual([90, 90, 90, 90, 90]);
+  });
+
+  it("propagates each update's departure delay downstream", () => {
+    const predictions = predictStopTimes(
+      TRIP_ROWS,
+      entry(
+        [
+          stu({ stopSequence: 2, arrivalDelay: 60, departureDelay: 30 }),
+          stu({ stopId: "D", arrivalDelay: 180 }),
+        ],
+        60,
+      ),
+    );
+    expect(predictions.map((p) => [p.arrivalDelay, p.departureDelay])).toEqual([
+      [60, 60], // upstream of every update: trip delay
+      [60, 30],
+      [30, 30],
+      [180, 180], // arrival-only update: departure follows arrival
+      [180, 180],
+    ]);
+  });
+
+  it("flags skipped stops and passes the upstream delay through them", () => {
+    const predictions = predictStopTimes(
+      TRIP_ROWS,
+      entry([
+        stu({ stopSequence: 2, departureDelay: 120 }),
+        stu({ stopSequence: 3, skipped: true, departureDelay: 999 }),
+      ]),
+    );
+    expect(predictions.map((p) => p.skipped)).toEqual([
+      false,
+      false,
+      true,
+      false,
+      false,
+    ]);
+    expect(predictions[2].departureDelay).toBe(120);
+    expect(predictions[3].departureDelay).toBe(120);
+  });
+
+  it("stops propagation at NO_DATA until the next update", () => {
+    expect(
+      departures(
+        entry([
+          stu({ stopSequence: 1, departureDelay: 60 }),
+          stu({ stopSequence: 2, noData: true }),
+          stu({ stopSequence: 4, departureDelay: 0 }),
+        ]),
+      ),
+    ).toEqual([60, null, null, 0, 0]);
+  });
+
+  it("derives delays from absolute times when the service day is known", () => {
+    const serviceDayStart = 1_000_000;
+    const [, b] = predictStopTimes(
+      TRIP_ROWS,
+      entry([
+        stu({
+          stopSequence: 2,
+          departureTime: serviceDayStart + TRIP_ROWS[1].departure_time + 240,
+        }),
+      ]),
+      serviceDayStart,
+    );
+    expect(b.departureDelay).toBe(240);
+  });
+
+  // Ten stops, 1..10, four minutes apart with no dwell.
+  const TEN_STOPS = Array.from({ length: 10 }, (_, i) => ({
+    stop_id: `S${i + 1}`,
+    stop_sequence: i + 1,
+    arrival_time: 36000 + i * 240,
+    departure_time: 36000 + i * 240,
+  }));
+  const serviceDayStart = 1_000_000;
+  const midTripUpdate = stu({
+    stopSequence: 5,
+    arrivalTime: serviceDayStart + TEN_STOPS[4].arrival_time + 90,
+    departureTime: serviceDayStart + TEN_STOPS[4].departure_time + 120,
+  });
+
+  it("predicts nothing upstream of an absolute-time update without a trip delay", () => {
+    const predictions = predictStopTimes(
+      TEN_STOPS,
+      entry([midTripUpdate]),
+      serviceDayStart,
+    );
+    expect(predictions.slice(0, 4)).toEqual(
+      Array(4).fill({
+        arrivalDelay: null,
+        departureDelay: null,
+        skipped: false,
+      }),
+    );
+    expect(predictions[4]).toEqual({
+      arrivalDelay: 90,
+      departureDelay: 120,
+      skipped: false,
+    });
+    expect(predictions.slice(5).map((p) => p.departureDelay)).toEqual(
+      Array(5).fill(120),
+    );
+  });
+
+  it("uses the trip delay upstream of an absolute-time update when sent", () => {
+    const predictions = predictStopTimes(
+      TEN_STOPS,
+      entry([midTripUpdate], 30),
+      serviceDayStart,
+    );
+    expect(predictions.slice(0, 4).map((p) => p.departureDelay)).toEqual(
+      Array(4).fill(30),
+    );
+    expect(predictions[4].departureDelay).toBe(120);
+  });
+
+  it("places updates by stop_sequence even when the stop is not a row", () => {
+    const [row] = predictStopTimes(
+      [TRIP_ROWS[3]],
+      entry([stu({ stopSequence: 2, departureDelay: 300 })]),
+    );
+    expect(row.departureDelay).toBe(300);
+  });
+});
+
 describe("mergeDeparturesRealtime", () => {
   const rt = new Map<string, RealtimeEntry>([
-    ["123", { delay: 120, status: "SCHEDULED" }],
+    [
+      "123",
+      {
+        delay: 120,
+        status: "SCHEDULED",
+        stopTimeUpdates: [stu({ stopSequence: 5, skipped: true })],
+      },
+    ],
   ]);
+  const row = (trip_id: string, stop_sequence: number) => ({
+    trip_id,
+    stop_id: "S",
+    stop_sequence,
+    arrival_time: 90,
+    departure_time: 100,
+  });
 
-  it("attaches delay and status for matching trips, null otherwise", () => {
-    const rows = [
-      { trip_id: "123", departure_time: 100 },
-      { trip_id: "999", departure_time: 200 },
-    ];
-    const merged = mergeDeparturesRealtime(rows, rt);
+  it("attaches per-stop predictions and status, null otherwise", () => {
+    const merged = mergeDeparturesRealtime([row("123", 1), row("999", 1)], rt);
     expect(merged[0]).toMatchObject({
       trip_id: "123",
       delay: 120,
+      predicted_arrival_time: 210,
+      predicted_departure_time: 220,
+      skipped: false,
       realtime_status: "SCHEDULED",
     });
     expect(merged[1]).toMatchObject({
       trip_id: "999",
       delay: null,
+      predicted_departure_time: null,
+      skipped: false,
       realtime_status: null,
     });
   });
 
+  it("flags skipped stops", () => {
+    expect(mergeDeparturesRealtime([row("123", 5)], rt)[0].skipped).toBe(true);
+  });
+
   it("does not mutate the input rows", () => {
-    const rows = [{ trip_id: "123" }];
+    const rows = [row("123", 1)];
     mergeDeparturesRealtime(rows, rt);
     expect(rows[0]).not.toHaveProperty("delay");
   });
+
+  it("propagates stop_id-only updates upstream through the trip's stops", () => {
+    const byStopId = new Map<string, RealtimeEntry>([
+      [
+        "555",
+        {
+          delay: 0,
+          status: "SCHEDULED",
+          stopTimeUpdates: [stu({ stopId: "B", departureDelay: 300 })],
+        },
+      ],
+    ]);
+    const departure = { trip_id: "555", ...TRIP_ROWS[3] };
+    expect(tripsNeedingStopLists([departure], byStopId)).toEqual(["555"]);
+    expect(tripsNeedingStopLists([departure], rt)).toEqual([]);
+
+    // Alone, the row at D can't tell where B is and keeps the trip delay.
+    expect(mergeDeparturesRealtime([departure], byStopId)[0].delay).toBe(0);
+    const [merged] = mergeDeparturesRealtime(
+      [departure],
+      byStopId,
+      undefined,
+      new Map([["555", TRIP_ROWS]]),
+    );
+    expect(merged).toMatchObject({
+      stop_id: "D",
+      delay: 300,
+      predicted_departure_time: TRIP_ROWS[3].departure_time! + 300,
+    });
+  });
 });
 
 describe("mergeTripStopsRealtime", () => {
-  it("applies the trip's single delay to every stop row", () => {
+  it("falls back to the trip delay on every row without stop updates", () => {
     const rt = new Map<string, RealtimeEntry>([
-      ["555", { delay: -30, status: "SCHEDULED" }],
+      ["555", { delay: -30, status: "SCHEDULED", stopTimeUpdates: [] }],
     ]);
-    const rows = [{ stop_sequence: 1 }, { stop_sequence: 2 }];
-    const merged = mergeTripStopsRealtime(rows, "555", rt);
+    const merged = mergeTripStopsRealtime(TRIP_ROWS.slice(0, 2), "555", rt);
     expect(merged.map((r) => r.delay)).toEqual([-30, -30]);
+    expect(merged[0].predicted_arrival_time).toBe(36000 - 30);
+  });
+
+  it("gives each row its own propagated prediction", () => {
+    const rt = new Map<string, RealtimeEntry>([
+      [
+        "555",
+        {
+          delay: 0,
+          status: "SCHEDULED",
+          stopTimeUpdates: [stu({ stopSequence: 3, departureDelay: 240 })],
+        },
+      ],
+    ]);
+    const merged = mergeTripStopsRealtime(TRIP_ROWS, "555", rt);
+    expect(merged.map((r) => r.delay)).toEqual([0, 0, 240, 240, 240]);
   });
 
   it("uses null delay when the trip has no realtime entry", () => {
-    const rows = [{ stop_sequence: 1 }];
-    const merged = mergeTripStopsRealtime(rows, "555", new Map());
+    const merged = mergeTripStopsRealtime([TRIP_ROWS[0]], "555", new Map());
     expect(merged[0].delay).toBeNull();
+    expect(merged[0].predicted_departure_time).toBeNull();
+  });
+});
+
+describe("selectServiceAlerts", () => {
+  const alert = (
+    id: string,
+    informedEntities: Partial<AlertEntity>[],
+    activePeriods: ServiceAlert["activePeriods"] = [],
+  ): ServiceAlert => ({
+    id,
+    header: id,
+    description: null,
+    url: null,
+    cause: null,
+    effect: null,
+    severity: null,
+    activePeriods,
+    informedEntities: informedEntities.map((e) => ({
+      agencyId: null,
+      routeId: null,
+      stopId: null,
+      tripId: null,
+      ...e,
+    })),
+  });
+
+  const alerts = [
+    alert("agency", [{ agencyId: "SF" }]),
+    alert("route", [{ agencyId: "SF", routeId: "14" }]),
+    alert("stop-on-route", [{ agencyId: "SF", routeId: "14", stopId: "S1" }]),
+    alert("other-agency", [{ agencyId: "BA", routeId: "14" }]),
+    alert("trip", [{ tripId: "T1" }]),
+    alert("expired", [{ agencyId: "SF" }], [{ start: null, end: 50 }]),
+  ];
+  const ids = (selected: ServiceAlert[]) => selected.map((a) => a.id);
+
+  it("shows every alert naming the agency on the agency page", () => {
+    expect(ids(selectServiceAlerts(alerts, { agencyId: "SF" }, 100))).toEqual([
+      "agency",
+      "route",
+      "stop-on-route",
+    ]);
+  });
+
+  it("requires every selector field to be in scope", () => {
+    expect(
+      ids(
+        selectServiceAlerts(alerts, { agencyId: "SF", routeIds: ["14"] }, 100),
+      ),
+    ).toEqual(["agency", "route"]);
+    expect(
+      ids(
+        selectServiceAlerts(
+          alerts,
+          { agencyId: "SF", routeIds: ["14"], stopIds: ["S1"] },
+          100,
+        ),
+      ),
+    ).toEqual(["agency", "route", "stop-on-route"]);
+  });
+
+  it("matches agency-less selectors by id alone", () => {
+    expect(
+      ids(
+        selectServiceAlerts(alerts, { agencyId: "SF", tripIds: ["T1"] }, 100),
+      ),
+    ).toEqual(["agency", "trip"]);
+  });
+
+  it("only keeps alerts inside their active periods", () => {
+    const at = (now: number) =>
+      ids(selectServiceAlerts(alerts, { agencyId: "SF" }, now));
+    expect(at(10)).toContain("expired");
+    expect(at(100)).not.toContain("expired");
+  });
+});
+
+describe("vehicle positions", () => {
+  const positions = buildVehiclePositions([
+    {
+      id: "1",
+      vehicle: {
+        trip: { tripId: "SF:T1", routeId: "SF:14", directionId: 1 },
+        stopId: "SF:B",
+        currentStopSequence: 2,
+      },
+    },
+    { id: "2", vehicle: { trip: { routeId: "SF:14" }, stopId: "SF:A" } },
+    { id: "3", vehicle: { trip: { tripId: "T9" } } },
+  ]);
+
+  it("indexes vehicles by stripped trip and route id", () => {
+    expect(positions.byTrip.get("T1")?.stopId).toBe("B");
+    expect(positions.byTrip.has("T9")).toBe(true);
+    expect(positions.byRoute.get("14")).toHaveLength(2);
+  });
+
+  it("places route vehicles on their stop, preferring their direction", () => {
+    const stops = [
+      { stop_id: "A", direction_id: 0 },
+      { stop_id: "B", direction_id: 0 },
+      { stop_id: "B", direction_id: 1 },
+      { stop_id: "A", direction_id: 1 },
+    ];
+    const placed = placeVehiclesOnRoute(positions.byRoute.get("14")!, stops);
+    expect(placed.get(routeVehicleKey(1, "B"))).toHaveLength(1);
+    expect(placed.has(routeVehicleKey(0, "B"))).toBe(false);
+    // No direction in the feed: first direction listing the stop.
+    expect(placed.get(routeVehicleKey(0, "A"))).toHaveLength(1);
+  });
+
+  it("locates a trip vehicle by stop sequence, then stop id", () => {
+    const rows = [
+      { stop_id: "A", stop_sequence: 1 },
+      { stop_id: "B", stop_sequence: 2 },
+      { stop_id: "C", stop_sequence: 3 },
+    ];
+    const vehicle = positions.byTrip.get("T1")!;
+    expect(locateVehicleOnTrip(rows, vehicle)).toBe(1);
+    expect(
+      locateVehicleOnTrip(rows, {
+        ...vehicle,
+        currentStopSequence: null,
+        stopId: "C",
+      }),
+    ).toBe(2);
+    expect(
+      locateVehicleOnTrip(rows, {
+        ...vehicle,
+        currentStopSequence: 99,
+        stopId: null,
+      }),
+    ).toBe(-1);
   });
 });
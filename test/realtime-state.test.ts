@@ -1,6 +1,10 @@
 import { describe, expect, it } from "vitest";
 import {
+  extractServiceAlert,
   extractTripUpdateState,
+  extractVehicleState,
+  isAlertActive,
+  pickTranslation,
   stripAgencyPrefix,
 } from "../src/realtime-utils";
 
@@ -31,32 +35,73 @@ describe("extractTripUpdateState", () => {
       id: "1",
       tripUpdate: { trip: { tripId: "BA:123" }, delay: 120 },
     });
-    expect(state).toEqual({ tripId: "123", delay: 120, status: "SCHEDULED" });
+    expect(state).toEqual({
+      tripId: "123",
+      delay: 120,
+      status: "SCHEDULED",
+      stopTimeUpdates: [],
+    });
   });
 
-  it("falls back to the first stop time update's arrival delay", () => {
+  it("leaves the trip delay null when the feed omits it", () => {
     const state = extractTripUpdateState({
       id: "1",
       tripUpdate: {
         trip: { tripId: "123" },
         stopTimeUpdate: [
-          { arrival: { delay: 45 } },
-          { arrival: { delay: 99 } },
+          { stopSequence: 5, arrival: { delay: 45 } },
+          { stopSequence: 6, departure: { time: 1_700_000_000 } },
         ],
       },
     });
-    expect(state?.delay).toBe(45);
+    expect(state?.delay).toBeNull();
   });
 
-  it("falls back to the departure delay when arrival has none", () => {
+  it("keeps an explicit zero trip delay", () => {
+    const state = extractTripUpdateState({
+      id: "1",
+      tripUpdate: { trip: { tripId: "123" }, delay: 0 },
+    });
+    expect(state?.delay).toBe(0);
+  });
+
+  it("keeps every stop time update with prefix-stripped stop ids", () => {
     const state = extractTripUpdateState({
       id: "1",
       tripUpdate: {
         trip: { tripId: "123" },
-        stopTimeUpdate: [{ departure: { delay: -30 } }],
+        stopTimeUpdate: [
+          { stopSequence: 4, stopId: "BA:EMBR", arrival: { delay: 60 } },
+          { stopId: "MONT", departure: { time: 1_700_000_000 } },
+          { stopSequence: 6, scheduleRelationship: 1 },
+          { stopSequence: 7, scheduleRelationship: 2 },
+        ],
       },
     });
-    expect(state?.delay).toBe(-30);
+    expect(state?.stopTimeUpdates).toEqual([
+      {
+        stopSequence: 4,
+        stopId: "EMBR",
+        arrivalDelay: 60,
+        departureDelay: null,
+        arrivalTime: null,
+        departureTime: null,
+        skipped: false,
+        noData: false,
+      },
+      {
+        stopSequence: null,
+        stopId: "MONT",
+        arrivalDelay: null,
+        departureDelay: null,
+        arrivalTime: null,
+        departureTime: 1_700_000_000,
+        skipped: false,
+        noData: false,
+      },
+      expect.objectContaining({ stopSequence: 6, skipped: true }),
+      expect.objectContaining({ stopSequence: 7, noData: true }),
+    ]);
   });
 
   it("maps schedule relationships to statuses", () => {
@@ -71,3 +116,137 @@ describe("extractTripUpdateState", () => {
     expect(statusFor(3)).toBe("CANCELED");
   });
 });
+
+describe("pickTranslation", () => {
+  const text = {
+    translation: [
+      { text: "Detour", language: "en" },
+      { text: "Desvio", language: "es" },
+    ],
+  };
+
+  it("prefers the requested language, matching on the primary subtag", () => {
+    expect(pickTranslation(text, "es")).toBe("Desvio");
+    expect(pickTranslation(text, "es-MX")).toBe("Desvio");
+  });
+
+  it("falls back to an untagged translation, then the first one", () => {
+    expect(
+      pickTranslation(
+        { translation: [{ text: "x", language: "fr" }, { text: "y" }] },
+        "de",
+      ),
+    ).toBe("y");
+    expect(pickTranslation(text, "de")).toBe("Detour");
+  });
+
+  it("returns null when there is no text", () => {
+    expect(pickTranslation(undefined)).toBeNull();
+    expect(pickTranslation({ translation: [] })).toBeNull();
+  });
+});
+
+describe("extractServiceAlert", () => {
+  it("returns null for non-alert entities", () => {
+    expect(extractServiceAlert({ id: "1" })).toBeNull();
+  });
+
+  it("strips id prefixes and recovers the agency from them", () => {
+    const alert = extractServiceAlert({
+      id: "a1",
+      alert: {
+        informedEntity: [
+          { routeId: "SF:14" },
+          { agencyId: "BA", stopId: "BA:EMBR" },
+          { trip: { tripId: "SF:999" } },
+          {},
+        ],
+        headerText: { translation: [{ text: "Detour on 14" }] },
+        effect: 4,
+        severityLevel: 3,
+        activePeriod: [{ start: 100, end: 0 }],
+      },
+    });
+    expect(alert?.informedEntities).toEqual([
+      { agencyId: "SF", routeId: "14", stopId: null, tripId: null },
+      { agencyId: "BA", routeId: null, stopId: "EMBR", tripId: null },
+      { agencyId: "SF", routeId: null, stopId: null, tripId: "999" },
+    ]);
+    expect(alert?.header).toBe("Detour on 14");
+    expect(alert?.effect).toBe("DETOUR");
+    expect(alert?.severity).toBe("WARNING");
+    expect(alert?.activePeriods).toEqual([{ start: 100, end: null }]);
+  });
+});
+
+describe("isAlertActive", () => {
+  const alertWith = (
+    activePeriods: { start: number | null; end: number | null }[],
+  ) => ({
+    ...extractServiceAlert({ id: "1", alert: {} })!,
+    activePeriods,
+  });
+
+  it("treats alerts without periods as always active", () => {
+    expect(isAlertActive(alertWith([]), 500)).toBe(true);
+  });
+
+  it("requires now to fall inside some period, end exclusive", () => {
+    const alert = alertWith([
+      { start: 100, end: 200 },
+      { start: 300, end: null },
+    ]);
+    expect(isAlertActive(alert, 150)).toBe(true);
+    expect(isAlertActive(alert, 200)).toBe(false);
+    expect(isAlertActive(alert, 250)).toBe(false);
+    expect(isAlertActive(alert, 10_000)).toBe(true);
+  });
+});
+
+describe("extractVehicleState", () => {
+  it("returns null without a vehicle or a trip/route to key it by", () => {
+    expect(extractVehicleState({ id: "1" })).toBeNull();
+    expect(
+      extractVehicleState({ id: "1", vehicle: { vehicle: { id: "v" } } }),
+    ).toBeNull();
+  });
+
+  it("strips prefixes and maps status and occupancy names", () => {
+    const state = extractVehicleState({
+      id: "1",
+      vehicle: {
+        trip: { tripId: "SF:123", routeId: "SF:14", directionId: 0 },
+        vehicle: { id: "8001", label: "8001" },
+        position: { latitude: 37.7, longitude: -122.4 },
+        stopId: "SF:5000",
+        currentStopSequence: 7,
+        currentStatus: 1,
+        occupancyStatus: 2,
+      },
+    });
+    expect(state).toMatchObject({
+      agencyId: "SF",
+      tripId: "123",
+      routeId: "14",
+      directionId: 0,
+      stopId: "5000",
+      currentStopSequence: 7,
+      currentStatus: "STOPPED_AT",
+      occupancy: "FEW_SEATS_AVAILABLE",
+    });
+  });
+
+  it("defaults status to IN_TRANSIT_TO and leaves unsent fields null", () => {
+    const state = extractVehicleState({
+      id: "1",
+      vehicle: { trip: { tripId: "123" } },
+    });
+    expect(state).toMatchObject({
+      agencyId: null,
+      currentStatus: "IN_TRANSIT_TO",
+      currentStopSequence: null,
+      occupancy: null,
+      directionId: null,
+    });
+  });
+});
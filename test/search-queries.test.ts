@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_SEARCH_TOKENS,
+  SEARCH_SOURCE,
+  buildStopSearchQuery,
+  buildStopSearchRows,
+  normalizeSearchText,
+  searchTokens,
+  type SearchIndexStop,
+} from "../src/search-queries";
+
+describe("searchTokens", () => {
+  it("normalizes case, accents, apostrophes and punctuation", () => {
+    expect(normalizeSearchText("  O'Farrell St. / Café  ")).toBe(
+      "ofarrell st cafe",
+    );
+    expect(searchTokens("Market St & 4th St")).toEqual([
+      "market",
+      "street",
+      "and",
+      "4th",
+    ]);
+  });
+
+  it("spells out abbreviations so both forms match", () => {
+    expect(searchTokens("Telegraph Ave")).toEqual(
+      searchTokens("telegraph avenue"),
+    );
+    expect(searchTokens("MacArthur Blvd")).toEqual(["macarthur", "boulevard"]);
+  });
+
+  it("returns nothing for empty or punctuation-only input", () => {
+    expect(searchTokens(null)).toEqual([]);
+    expect(searchTokens(" -- ")).toEqual([]);
+  });
+});
+
+describe("buildStopSearchRows", () => {
+  const stop = (overrides: Partial<SearchIndexStop>): SearchIndexStop => ({
+    stop_pk: 1,
+    stop_id: "S1",
+    stop_code: null,
+    stop_name: null,
+    location_type: 0,
+    parent_station: null,
+    ...overrides,
+  });
+
+  const stops = [
+    stop({
+      stop_pk: 1,
+      stop_id: "EMBR",
+      stop_name: "Embarcadero",
+      location_type: 1,
+    }),
+    stop({
+      stop_pk: 2,
+      stop_id: "EMBR1",
+      stop_code: "90001",
+      stop_name: "Embarcadero Platform 1",
+      parent_station: 1,
+    }),
+    stop({
+      stop_pk: 3,
+      stop_id: "EMBR-E",
+      stop_name: "Main Entrance",
+      location_type: 2,
+      parent_station: 1,
+    }),
+    stop({ stop_pk: 4, stop_id: "SF:15001", stop_name: "Market St" }),
+  ];
+  const routes = [
+    { route_pk: 10, route_short_name: "N", route_long_name: "Judah" },
+  ];
+  const rows = buildStopSearchRows(stops, routes, [
+    { stop_pk: 2, route_pk: 10 },
+    { stop_pk: 4, route_pk: 10 },
+  ]);
+  const tokensOf = (stop_pk: number) =>
+    rows.filter((r) => r.stop_pk === stop_pk).map((r) => r.token);
+
+  it("indexes names on stations and standalone stops only", () => {
+    expect(tokensOf(1)).toContain("embarcadero");
+    expect(tokensOf(2)).not.toContain("embarcadero");
+    expect(tokensOf(2)).toEqual(["90001", "embr1"]);
+  });
+
+  it("skips entrances, nodes and boarding areas", () => {
+    expect(tokensOf(3)).toEqual([]);
+  });
+
+  it("indexes codes whole and by part", () => {
+    expect(tokensOf(4)).toEqual(
+      expect.arrayContaining(["sf", "15001", "sf15001"]),
+    );
+  });
+
+  it("credits a platform's routes to its station", () => {
+    expect(rows).toContainEqual({
+      stop_pk: 1,
+      token: "judah",
+      source: SEARCH_SOURCE.ROUTE,
+    });
+    expect(tokensOf(4)).toContain("judah");
+  });
+
+  it("keeps a token's best source", () => {
+    const [row] = buildStopSearchRows(
+      [stop({ stop_id: "market", stop_name: "Market" })],
+      [],
+      [],
+    );
+    expect(row).toEqual({
+      stop_pk: 1,
+      token: "market",
+      source: SEARCH_SOURCE.CODE,
+    });
+  });
+});
+
+describe("buildStopSearchQuery", () => {
+  it("binds a match and a prefix range per token, then the limit", () => {
+    const { sql, params } = buildStopSearchQuery(["market", "4th"], 5);
+    expect((sql.match(/\?/g) || []).length).toBe(params.length);
+    expect(params).toEqual([
+      "market",
+      "market",
+      "market{",
+      "4th",
+      "4th",
+      "4th{",
+      5,
+    ]);
+    expect(sql).toContain("HAVING COUNT(*) = 2");
+    expect(sql).toContain("fv.is_active = 1");
+  });
+
+  it("caps the number of tokens searched", () => {
+    const tokens = Array.from({ length: 10 }, (_, i) => `t${i}`);
+    const { sql, params } = buildStopSearchQuery(tokens);
+    expect(sql).toContain(`HAVING COUNT(*) = ${MAX_SEARCH_TOKENS}`);
+    expect(params.length).toBe(MAX_SEARCH_TOKENS * 3 + 1);
+  });
+
+  it("rejects an empty query", () => {
+    expect(() => buildStopSearchQuery([])).toThrow();
+  });
+});
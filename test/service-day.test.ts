@@ -0,0 +1,182 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import {
+  describeNextService,
+  mergeServiceDayDepartures,
+  nextServiceLookahead,
+  serviceDayOf,
+  serviceDayOfDate,
+  serviceDayWindows,
+  upcomingServiceDays,
+} from "../src/service-day";
+
+const TZ = "America/Los_Angeles";
+const DAY = 24 * 60 * 60;
+// Tuesday 2026-03-03 00:30 in Los Angeles, and that day's midnight.
+const TUESDAY_0030 = 1772526600;
+const TUESDAY_MIDNIGHT = 1772524800;
+
+const local = (iso: string) => DateTime.fromISO(iso, { zone: TZ });
+
+describe("serviceDayOf", () => {
+  it("starts at midnight on ordinary days", () => {
+    const day = serviceDayOf(local("2026-03-03T00:30"));
+    expect(day.start).toBe(TUESDAY_MIDNIGHT);
+    expect(day.noon).toBe(TUESDAY_MIDNIGHT + 12 * 3600);
+    expect(day.column).toBe("tuesday");
+    expect(day.date).toBe("2026-03-03");
+  });
+
+  it("starts at noon minus 12h when the clocks change", () => {
+    // Spring forward: 23:00 PST the evening before.
+    const spring = serviceDayOf(local("2026-03-08T15:00"));
+    expect(spring.start).toBe(local("2026-03-07T23:00").toSeconds());
+    expect(spring.start).not.toBe(local("2026-03-08T00:00").toSeconds());
+    expect(spring.column).toBe("sunday");
+
+    // Fall back: 01:00 PDT.
+    const fall = serviceDayOf(local("2026-11-01T15:00"));
+    expect(fall.start).toBe(local("2026-11-01T01:00").toSeconds());
+  });
+});
+
+describe("serviceDayOfDate", () => {
+  it("reads YYYY-MM-DD dates and rejects anything else", () => {
+    expect(serviceDayOfDate("2026-03-03", TZ)?.start).toBe(TUESDAY_MIDNIGHT);
+    for (const date of ["2026-3-3", "2026-02-30", "today", ""]) {
+      expect(serviceDayOfDate(date, TZ)).toBeNull();
+    }
+  });
+});
+
+describe("serviceDayWindows", () => {
+  it("covers the range on today's and yesterday's service day", () => {
+    const [today, yesterday] = serviceDayWindows(TUESDAY_0030, 3600, TZ);
+
+    expect(today.day.start).toBe(TUESDAY_MIDNIGHT);
+    expect(today.filter).toEqual({
+      currentSeconds: 1800,
+      endSeconds: 5400,
+      todayNoon: TUESDAY_MIDNIGHT + 12 * 3600,
+      todayColumn: "tuesday",
+    });
+
+    // Monday's trips still running at 00:30 are timed from 24:30 on.
+    expect(yesterday.day.start).toBe(TUESDAY_MIDNIGHT - DAY);
+    expect(yesterday.filter).toMatchObject({
+      currentSeconds: DAY + 1800,
+      endSeconds: DAY + 5400,
+      todayColumn: "monday",
+    });
+  });
+});
+
+describe("upcomingServiceDays", () => {
+  it("lists today and the following days", () => {
+    const days = upcomingServiceDays(TUESDAY_0030, TZ, 2);
+    expect(days.map((d) => d.date)).toEqual([
+      "2026-03-03",
+      "2026-03-04",
+      "2026-03-05",
+    ]);
+    expect(days[1].start).toBe(TUESDAY_MIDNIGHT + DAY);
+  });
+});
+
+describe("nextServiceLookahead", () => {
+  it("checks yesterday's late trips, then today from now, then later days", () => {
+    const days = nextServiceLookahead(TUESDAY_0030, TZ, 2);
+    expect(days.map(({ day }) => day.date)).toEqual([
+      "2026-03-02",
+      "2026-03-03",
+      "2026-03-04",
+      "2026-03-05",
+    ]);
+    // Monday's trips still running at 00:30 are timed from 24:30 on.
+    expect(days.map((d) => d.currentSeconds)).toEqual([DAY + 1800, 1800, 0, 0]);
+  });
+});
+
+describe("describeNextService", () => {
+  const today = serviceDayOf(local("2026-03-03T00:30"));
+  const friday = serviceDayOf(local("2026-03-06T12:00"));
+
+  it("gives the time alone later today", () => {
+    expect(
+      describeNextService(today, 5 * 3600 + 42 * 60, TZ, TUESDAY_0030),
+    ).toBe("5:42 AM");
+  });
+
+  it("prefixes the weekday on later days", () => {
+    expect(
+      describeNextService(friday, 5 * 3600 + 42 * 60, TZ, TUESDAY_0030),
+    ).toBe("Fri 5:42 AM");
+    expect(
+      describeNextService(friday, 17 * 3600, TZ, TUESDAY_0030, "HH:mm"),
+    ).toBe("Fri 17:00");
+  });
+});
+
+describe("mergeServiceDayDepartures", () => {
+  const today = serviceDayOf(local("2026-03-03T00:30"));
+  const monday = serviceDayOf(local("2026-03-02T12:00"));
+
+  it("rebases yesterday's rows onto today's scale and orders them", () => {
+    const merged = mergeServiceDayDepartures(
+      [
+        {
+          day: today,
+          rows: [
+            {
+              trip_id: "early",
+              departure_time: 5 * 3600,
+              predicted_departure_time: null,
+            },
+          ],
+        },
+        {
+          day: monday,
+          rows: [
+            {
+              trip_id: "owl",
+              departure_time: DAY + 600,
+              predicted_departure_time: DAY + 720,
+            },
+          ],
+        },
+      ],
+      today,
+    );
+
+    // Each row keeps the service date trip links need.
+    expect(merged).toEqual([
+      {
+        trip_id: "owl",
+        departure_time: 600,
+        predicted_departure_time: 720,
+        service_date: "2026-03-02",
+      },
+      {
+        trip_id: "early",
+        departure_time: 5 * 3600,
+        predicted_departure_time: null,
+        service_date: "2026-03-03",
+      },
+    ]);
+  });
+
+  it("applies the limit after merging", () => {
+    const merged = mergeServiceDayDepartures(
+      [
+        {
+          day: today,
+          rows: [{ departure_time: 300 }, { departure_time: 900 }],
+        },
+        { day: monday, rows: [{ departure_time: DAY + 600 }] },
+      ],
+      today,
+      2,
+    );
+    expect(merged.map((d) => d.departure_time)).toEqual([300, 600]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  SHAPE_MAP_HEIGHT,
+  SHAPE_MAP_WIDTH,
+  layoutShapeMap,
+  placeStopsOnShape,
+  simplifyShape,
+  type ShapePoint,
+} from "../src/shape-geometry";
+
+const pt = (lat: number, lon: number, dist: number | null = null) => ({
+  lat,
+  lon,
+  dist,
+});
+
+describe("simplifyShape", () => {
+  it("drops points within the tolerance of the line", () => {
+    // 0.0001 degrees of latitude is about 11 m; the middle points wobble by
+    // a meter or two.
+    const shape = [
+      pt(37.8, -122.27, 0),
+      pt(37.801, -122.27001, 1),
+      pt(37.802, -122.26999, 2),
+      pt(37.803, -122.27, 3),
+    ];
+    expect(simplifyShape(shape)).toEqual([shape[0], shape[3]]);
+  });
+
+  it("keeps corners, with their distances", () => {
+    const shape = [
+      pt(37.8, -122.27, 0),
+      pt(37.805, -122.27, 500),
+      pt(37.81, -122.27, 1000),
+      pt(37.81, -122.26, 1800),
+    ];
+    expect(simplifyShape(shape)).toEqual([shape[0], shape[2], shape[3]]);
+  });
+
+  it("simplifies long curves to a handful of points", () => {
+    // A quarter circle of about 5 km radius, one point every meter or so.
+    const arc: ShapePoint[] = Array.from({ length: 8000 }, (_, i) => {
+      const angle = (i / 7999) * (Math.PI / 2);
+      return pt(
+        37.8 + 0.045 * Math.sin(angle),
+        -122.27 + 0.057 * Math.cos(angle),
+      );
+    });
+    const simplified = simplifyShape(arc);
+    expect(simplified.length).toBeGreaterThan(2);
+    expect(simplified.length).toBeLessThan(100);
+    expect(simplified[0]).toBe(arc[0]);
+    expect(simplified[simplified.length - 1]).toBe(arc[arc.length - 1]);
+  });
+});
+
+describe("placeStopsOnShape", () => {
+  const shape = [pt(37.8, -122.27, 0), pt(37.81, -122.27, 1000)];
+
+  it("interpolates shape_dist_traveled along the line", () => {
+    const [stop] = placeStopsOnShape(shape, [
+      { stop_lat: 37.9, stop_lon: -122.3, shape_dist_traveled: 250 },
+    ]);
+    expect(stop.lon).toBe(-122.27);
+    expect(stop.lat).toBeCloseTo(37.8025, 6);
+  });
+
+  it("clamps to the ends and falls back to the stop's coordinates", () => {
+    expect(
+      placeStopsOnShape(shape, [
+        { stop_lat: 0, stop_lon: 0, shape_dist_traveled: -5 },
+        { stop_lat: 0, stop_lon: 0, shape_dist_traveled: 2000 },
+        { stop_lat: 37.9, stop_lon: -122.3, shape_dist_traveled: null },
+      ]),
+    ).toEqual([
+      { lat: 37.8, lon: -122.27 },
+      { lat: 37.81, lon: -122.27 },
+      { lat: 37.9, lon: -122.3 },
+    ]);
+    expect(
+      placeStopsOnShape(
+        [pt(37.8, -122.27)],
+        [{ stop_lat: 37.9, stop_lon: -122.3, shape_dist_traveled: 10 }],
+      ),
+    ).toEqual([{ lat: 37.9, lon: -122.3 }]);
+  });
+});
+
+describe("layoutShapeMap", () => {
+  it("fits the line into the viewBox, north up", () => {
+    const layout = layoutShapeMap(
+      [[pt(37.8, -122.27), pt(37.81, -122.27)]],
+      [{ lat: 37.8, lon: -122.27 }],
+    );
+    // A north-south line is centered horizontally and spans the height.
+    expect(layout.paths).toEqual([
+      `M${SHAPE_MAP_WIDTH / 2} ${SHAPE_MAP_HEIGHT - 16} L${SHAPE_MAP_WIDTH / 2} 16`,
+    ]);
+    expect(layout.markers).toEqual([
+      { x: SHAPE_MAP_WIDTH / 2, y: SHAPE_MAP_HEIGHT - 16 },
+    ]);
+  });
+
+  it("centers a lone marker and skips one-point lines", () => {
+    const layout = layoutShapeMap([[pt(37.8, -122.27)]], [pt(37.8, -122.27)]);
+    expect(layout.paths).toEqual([]);
+    expect(layout.markers).toEqual([
+      { x: SHAPE_MAP_WIDTH / 2, y: SHAPE_MAP_HEIGHT / 2 },
+    ]);
+  });
+});
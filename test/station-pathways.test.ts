@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import {
+  LOCATION_BOARDING_AREA,
+  LOCATION_ENTRANCE,
+  LOCATION_GENERIC_NODE,
+  LOCATION_PLATFORM,
+  buildStationLevelsQuery,
+  buildStationNodesQuery,
+  buildStationPathwaysQuery,
+  groupStationLevels,
+  pathwaySeconds,
+  planStepFreeRoutes,
+  type Pathway,
+  type StationNode,
+} from "../src/station-pathways";
+
+const node = (
+  stop_pk: number,
+  location_type: number,
+  fields: Partial<StationNode> = {},
+): StationNode => ({
+  stop_pk,
+  stop_id: `S${stop_pk}`,
+  stop_name: `Node ${stop_pk}`,
+  location_type,
+  parent_station: 100,
+  level_id: null,
+  platform_code: null,
+  wheelchair_boarding: null,
+  ...fields,
+});
+
+const pathway = (
+  from_stop_pk: number,
+  to_stop_pk: number,
+  pathway_mode: number,
+  fields: Partial<Pathway> = {},
+): Pathway => ({
+  pathway_id: `${from_stop_pk}-${to_stop_pk}`,
+  from_stop_pk,
+  to_stop_pk,
+  pathway_mode,
+  is_bidirectional: 1,
+  length: null,
+  traversal_time: 60,
+  stair_count: null,
+  signposted_as: null,
+  reversed_signposted_as: null,
+  ...fields,
+});
+
+describe("groupStationLevels", () => {
+  it("groups by level, top first, entrances before platforms", () => {
+    const levels = groupStationLevels(
+      [
+        node(1, LOCATION_PLATFORM, { level_id: "L-1", stop_name: "B" }),
+        node(2, LOCATION_ENTRANCE, { level_id: "L0" }),
+        node(3, LOCATION_PLATFORM, { level_id: "L-1", stop_name: "A" }),
+        node(4, LOCATION_BOARDING_AREA, { level_id: "L-1" }),
+        node(5, LOCATION_GENERIC_NODE, { level_id: "L0" }),
+        node(6, LOCATION_ENTRANCE, { level_id: "unknown" }),
+      ],
+      [
+        { level_id: "L-1", level_index: -1, level_name: "Platform" },
+        { level_id: "L0", level_index: 0, level_name: "Street" },
+      ],
+    );
+    expect(
+      levels.map(({ level, nodes }) => [
+        level?.level_id ?? null,
+        nodes.map((n) => n.stop_pk),
+      ]),
+    ).toEqual([
+      ["L0", [2]],
+      ["L-1", [3, 1, 4]],
+      [null, [6]],
+    ]);
+  });
+});
+
+describe("planStepFreeRoutes", () => {
+  // Entrance 1 reaches platform 10 by stairs only; entrance 2 reaches it
+  // by walkway and elevator. Platform 20 is only reached by escalator.
+  const nodes = [
+    node(1, LOCATION_ENTRANCE),
+    node(2, LOCATION_ENTRANCE),
+    node(3, LOCATION_GENERIC_NODE),
+    node(10, LOCATION_PLATFORM),
+    node(11, LOCATION_BOARDING_AREA, { parent_station: 10 }),
+    node(20, LOCATION_PLATFORM),
+  ];
+  const pathways = [
+    pathway(1, 10, 2, { stair_count: 40 }),
+    pathway(2, 3, 1, { traversal_time: 90, signposted_as: "Elevator" }),
+    pathway(3, 11, 5, { traversal_time: 45, signposted_as: "Trains" }),
+    pathway(1, 20, 4),
+  ];
+
+  it("finds the quickest route avoiding stairs and escalators", () => {
+    const [toTen, toTwenty] = planStepFreeRoutes(nodes, pathways);
+    expect(toTen).toMatchObject({
+      platform_pk: 10,
+      entrance_pk: 2,
+      seconds: 135,
+    });
+    expect(toTen.steps.map((s) => [s.pathway_mode, s.signposted_as])).toEqual([
+      [1, "Elevator"],
+      [5, "Trains"],
+    ]);
+    expect(toTwenty).toEqual({
+      platform_pk: 20,
+      entrance_pk: null,
+      seconds: null,
+      steps: [],
+    });
+  });
+
+  it("walks one-way pathways only forwards", () => {
+    const [toTen] = planStepFreeRoutes(nodes, [
+      pathway(2, 3, 1),
+      pathway(11, 3, 5, { is_bidirectional: 0 }),
+    ]);
+    expect(toTen.entrance_pk).toBeNull();
+  });
+
+  it("signs reversed pathways with reversed_signposted_as", () => {
+    const [toTen] = planStepFreeRoutes(nodes, [
+      pathway(10, 2, 1, {
+        signposted_as: "Exit",
+        reversed_signposted_as: "Platform",
+      }),
+    ]);
+    expect(toTen.steps.map((s) => s.signposted_as)).toEqual(["Platform"]);
+  });
+});
+
+describe("pathwaySeconds", () => {
+  it("estimates from length, then by mode", () => {
+    expect(pathwaySeconds(pathway(1, 2, 1, { traversal_time: null }))).toBe(30);
+    expect(
+      pathwaySeconds(pathway(1, 2, 1, { traversal_time: null, length: 120 })),
+    ).toBe(100);
+    expect(pathwaySeconds(pathway(1, 2, 5, { traversal_time: null }))).toBe(60);
+  });
+});
+
+describe("station queries", () => {
+  const placeholders = (sql: string) => (sql.match(/\?/g) || []).length;
+
+  it("binds every placeholder", () => {
+    for (const { sql, params } of [
+      buildStationNodesQuery(7, 100),
+      buildStationLevelsQuery(7, ["L0", "L-1"]),
+      buildStationPathwaysQuery(7, 100),
+    ]) {
+      expect(placeholders(sql)).toBe(params.length);
+    }
+  });
+});
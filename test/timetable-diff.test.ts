@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import type { CsvRow } from "../src/csv-reader";
+import {
+  type LiveTimetable,
+  type RowDigests,
+  digestHash,
+  digestShapePoints,
+  digestStopTimes,
+  mergeRowDigests,
+  planShapePoints,
+  planSharedTimetables,
+  shapePointsToWrite,
+  stopTimesToWrite,
+} from "../src/timetable-diff";
+
+const stopTime = (
+  trip_id: string,
+  stop_sequence: number,
+  stop_id: string,
+  time: string,
+): CsvRow => ({
+  trip_id,
+  stop_id,
+  stop_sequence: String(stop_sequence),
+  arrival_time: time,
+  departure_time: time,
+});
+
+const stopTimes: CsvRow[] = [
+  stopTime("T1", 1, "A", "08:00:00"),
+  stopTime("T1", 2, "B", "08:10:00"),
+  stopTime("T2", 1, "B", "09:00:00"),
+  stopTime("T2", 2, "C", "09:10:00"),
+];
+
+const knownStop = (stopId: string) => ["A", "B", "C"].includes(stopId);
+
+async function tripHashes(rows: CsvRow[]): Promise<Record<string, string>> {
+  const digests = await digestStopTimes(rows, knownStop);
+  return Object.fromEntries(
+    Object.keys(digests).map((id) => [id, digestHash(digests[id]) ?? ""]),
+  );
+}
+
+// The live version as an import leaves it: every trip owns its timetable.
+async function liveVersion(
+  rows: CsvRow[],
+): Promise<Record<string, LiveTimetable>> {
+  const hashes = await tripHashes(rows);
+  return Object.fromEntries(
+    Object.entries(hashes).map(([id, hash], i) => [
+      id,
+      { hash, timetablePk: 100 + i },
+    ]),
+  );
+}
+
+describe("shared timetables", () => {
+  it("writes no stop_times rows when only the calendar changed", async () => {
+    // The next zip carries the same stop_times.txt: every trip digests as
+    // it did, shares the live version's rows, and nothing is written.
+    const live = await liveVersion(stopTimes);
+    const shared = planSharedTimetables(await tripHashes(stopTimes), live);
+    expect(shared).toEqual({ T1: 100, T2: 101 });
+    expect(stopTimesToWrite(stopTimes, shared)).toEqual([]);
+  });
+
+  it("rewrites only the trip whose times changed", async () => {
+    const live = await liveVersion(stopTimes);
+    const next = stopTimes.map((row) =>
+      row.trip_id === "T2" && row.stop_sequence === "2"
+        ? stopTime("T2", 2, "C", "09:12:00")
+        : row,
+    );
+    const shared = planSharedTimetables(await tripHashes(next), live);
+    expect(shared).toEqual({ T1: 100 });
+    expect(stopTimesToWrite(next, shared).map((row) => row.trip_id)).toEqual([
+      "T2",
+      "T2",
+    ]);
+  });
+
+  it("writes new trips and shares nothing without a live version", async () => {
+    const hashes = await tripHashes(stopTimes);
+    expect(planSharedTimetables(hashes, {})).toEqual({});
+    const live = await liveVersion(stopTimes.slice(0, 2));
+    expect(planSharedTimetables(hashes, live)).toEqual({ T1: 100 });
+  });
+});
+
+describe("digestStopTimes", () => {
+  it("digests the same whatever the row order or chunking", async () => {
+    const whole = await digestStopTimes(stopTimes, knownStop);
+    const chunked: RowDigests = {};
+    mergeRowDigests(
+      chunked,
+      await digestStopTimes([stopTimes[3], stopTimes[0]], knownStop),
+    );
+    mergeRowDigests(
+      chunked,
+      await digestStopTimes([stopTimes[2], stopTimes[1]], knownStop),
+    );
+    expect(digestHash(chunked.T1)).toBe(digestHash(whole.T1));
+    expect(digestHash(chunked.T2)).toBe(digestHash(whole.T2));
+    expect(digestHash(whole.T1)).not.toBe(digestHash(whole.T2));
+  });
+
+  it("leaves out rows naming unknown stops but keeps their trip", async () => {
+    const digests = await digestStopTimes(
+      [...stopTimes, stopTime("T1", 3, "Z", "08:20:00")],
+      knownStop,
+    );
+    const known = await digestStopTimes(stopTimes, knownStop);
+    expect(digestHash(digests.T1)).toBe(digestHash(known.T1));
+
+    const orphan = await digestStopTimes(
+      [stopTime("T9", 1, "Z", "08:00:00")],
+      knownStop,
+    );
+    expect(digestHash(orphan.T9)).toBe(digestHash(undefined));
+  });
+
+  it("never shares a trip with location group rows", async () => {
+    const digests = await digestStopTimes(
+      [
+        stopTime("T1", 1, "A", "08:00:00"),
+        { trip_id: "T1", stop_sequence: "2", location_group_id: "G1" },
+        stopTime("T1", 3, "Z", "08:20:00"),
+      ],
+      knownStop,
+    );
+    expect(digests.T1).toBeNull();
+    expect(digestHash(digests.T1)).toBeNull();
+    expect(
+      planSharedTimetables(
+        { T1: null },
+        { T1: { hash: null, timetablePk: 1 } },
+      ),
+    ).toEqual({});
+  });
+});
+
+describe("shape points", () => {
+  const point = (shape_id: string, seq: number, lat: string): CsvRow => ({
+    shape_id,
+    shape_pt_sequence: String(seq),
+    shape_pt_lat: lat,
+    shape_pt_lon: "-122.4",
+  });
+  const points = [
+    point("S1", 1, "37.70"),
+    point("S1", 2, "37.71"),
+    point("S2", 1, "37.80"),
+  ];
+
+  it("writes only the points of changed shapes", async () => {
+    const liveDigests = await digestShapePoints(points);
+    const live = {
+      S1: { hash: digestHash(liveDigests.S1) ?? "", pointsVersionId: 3 },
+      S2: { hash: digestHash(liveDigests.S2) ?? "", pointsVersionId: 7 },
+    };
+    const next = [...points.slice(0, 2), point("S2", 1, "37.81")];
+    const digests = await digestShapePoints(next);
+    const plan = planShapePoints(
+      {
+        S1: digestHash(digests.S1) ?? "",
+        S2: digestHash(digests.S2) ?? "",
+      },
+      live,
+      8,
+    );
+    expect(plan.S1.pointsVersionId).toBe(3);
+    expect(plan.S2.pointsVersionId).toBe(8);
+    expect(shapePointsToWrite(next, plan, 8)).toEqual([next[2]]);
+  });
+});
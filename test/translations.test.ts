@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  UNTRANSLATED,
+  buildTranslationLanguagesQuery,
+  buildTranslationsQuery,
+  chooseTranslationLanguage,
+  createTranslator,
+  parseLanguagePreferences,
+  translateTrip,
+  type TranslationRow,
+} from "../src/translations";
+
+const row = (fields: Partial<TranslationRow>): TranslationRow => ({
+  table_name: "stops",
+  field_name: "stop_name",
+  translation: "",
+  record_id: null,
+  record_sub_id: null,
+  field_value: null,
+  ...fields,
+});
+
+describe("parseLanguagePreferences", () => {
+  it("ranks Accept-Language by quality", () => {
+    expect(
+      parseLanguagePreferences(null, "en-US,en;q=0.8,es;q=0.9,*;q=0.5"),
+    ).toEqual(["en-us", "es", "en"]);
+  });
+
+  it("takes an explicit lang list alone, ignoring the header", () => {
+    expect(parseLanguagePreferences("FR,es , fr", "de")).toEqual(["fr", "es"]);
+    expect(parseLanguagePreferences("", "de")).toEqual([]);
+  });
+
+  it("drops refused and malformed tags", () => {
+    expect(parseLanguagePreferences(null, "de;q=0, it, <x>")).toEqual(["it"]);
+    expect(parseLanguagePreferences("<x>,it", null)).toEqual(["it"]);
+  });
+});
+
+describe("chooseTranslationLanguage", () => {
+  it("picks the first translated preference, matching primary subtags", () => {
+    expect(chooseTranslationLanguage(["de", "fr-CA"], "en", ["fr"])).toBe("fr");
+    expect(chooseTranslationLanguage(["fr"], "en", ["fr-CA", "fr"])).toBe("fr");
+  });
+
+  it("keeps the feed's own text when its language comes first", () => {
+    expect(chooseTranslationLanguage(["en-GB", "fr"], "en", ["fr"])).toBe(null);
+    expect(chooseTranslationLanguage(["en", "fr"], "mul", ["fr", "en"])).toBe(
+      "en",
+    );
+    expect(chooseTranslationLanguage([], "en", ["fr"])).toBe(null);
+  });
+});
+
+describe("createTranslator", () => {
+  const t = createTranslator("fr", [
+    row({ record_id: "S1", translation: "Gare Centrale" }),
+    row({ field_value: "Central Station", translation: "Gare du Centre" }),
+    row({
+      table_name: "trips",
+      field_name: "trip_headsign",
+      field_value: "Downtown",
+      translation: "Centre-ville",
+    }),
+  ]);
+
+  it("prefers record translations over field_value ones", () => {
+    expect(t.text("stops", "stop_name", "S1", "Central Station")).toBe(
+      "Gare Centrale",
+    );
+    expect(t.text("stops", "stop_name", "S2", "Central Station")).toBe(
+      "Gare du Centre",
+    );
+    expect(t.text("stops", "stop_name", "S3", "Elm St")).toBe("Elm St");
+    expect(t.text("stops", "stop_name", "S3", null)).toBe(null);
+  });
+
+  it("translates trip rows", () => {
+    expect(
+      translateTrip(t, {
+        route_id: "R1",
+        trip_id: "T1",
+        route_short_name: "1",
+        route_long_name: null,
+        trip_headsign: "Downtown",
+      }),
+    ).toMatchObject({ route_short_name: "1", trip_headsign: "Centre-ville" });
+  });
+
+  it("leaves text untranslated without a language", () => {
+    expect(createTranslator(null, [row({ record_id: "S1" })])).toBe(
+      UNTRANSLATED,
+    );
+  });
+});
+
+describe("translation queries", () => {
+  const placeholders = (sql: string) => (sql.match(/\?/g) || []).length;
+
+  it("binds every placeholder", () => {
+    for (const { sql, params } of [
+      buildTranslationLanguagesQuery(7),
+      buildTranslationsQuery(7, "fr"),
+    ]) {
+      expect(placeholders(sql)).toBe(params.length);
+    }
+  });
+});
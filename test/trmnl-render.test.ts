@@ -30,6 +30,8 @@ function makeData(
     agencyName: "Test Agency",
     departures,
     departureCount: departures.length,
+    alerts: [],
+    nextService: null,
     lastUpdated: "2026-01-01T00:00:00.000Z",
     ...overrides,
   };
@@ -98,6 +100,28 @@ describe("TRMNL render - header", () => {
   });
 });
 
+describe("TRMNL render - service alerts", () => {
+  it("omits the alert strip when there are no alerts", () => {
+    expect(renderFull(makeData(1))).not.toContain('class="bt-alert"');
+  });
+
+  it("shows the first headline and how many more there are", () => {
+    const html = renderFull(
+      makeData(30, { alerts: ["Elevator <out>", "Detour", "Delays"] }),
+    );
+    expect(html).toContain('class="bt-alert">! Elevator &lt;out&gt; (+2 more)');
+  });
+
+  it("gives up tile rows rather than overflowing", () => {
+    for (const renderFn of [renderFull, renderQuadrant]) {
+      const plain = countTiles(renderFn(makeData(30)));
+      const alerted = countTiles(renderFn(makeData(30, { alerts: ["x"] })));
+      expect(alerted).toBeLessThanOrEqual(plain);
+      expect(alerted).toBeGreaterThan(0);
+    }
+  });
+});
+
 describe("TRMNL render - departure content", () => {
   it("renders route name, headsign, and time for full layout", () => {
     const html = renderFull(makeData(1));
@@ -140,6 +164,12 @@ describe("TRMNL render - empty state", () => {
     expect(countTiles(html)).toBe(0);
   });
 
+  it("says when service resumes on an empty board", () => {
+    const html = renderFull(makeData(0, { nextService: "Mon 05:42" }));
+    expect(html).toContain("Next service Mon 05:42");
+    expect(renderFull(makeData(0))).not.toContain("Next service");
+  });
+
   it("renders empty state on every layout", () => {
     for (const renderFn of [
       renderFull,
@@ -4,6 +4,8 @@ import {
   PAGE_TTL_SECONDS,
   STATIC_TTL_SECONDS,
   cacheRuleFor,
+  isCacheableUrl,
+  languageRedirect,
   shouldBypassCache,
   withCacheHeaders,
   withPrivateHeaders,
@@ -11,19 +13,18 @@ import {
 
 describe("cacheRuleFor", () => {
   it("caches pages briefly and metadata routes for an hour", () => {
-    expect(cacheRuleFor("/")).toEqual({ ttlSeconds: PAGE_TTL_SECONDS });
-    expect(cacheRuleFor("/a/BA")).toEqual({ ttlSeconds: PAGE_TTL_SECONDS });
-    expect(cacheRuleFor("/a/BA/s/STOP1")).toEqual({
-      ttlSeconds: PAGE_TTL_SECONDS,
-    });
-    expect(cacheRuleFor("/a/BA/r/ROUTE1")).toEqual({
-      ttlSeconds: PAGE_TTL_SECONDS,
-    });
+    const page = { ttlSeconds: PAGE_TTL_SECONDS, perLanguage: true };
+    expect(cacheRuleFor("/")).toEqual(page);
+    expect(cacheRuleFor("/a/BA")).toEqual(page);
+    expect(cacheRuleFor("/a/BA/s/STOP1")).toEqual(page);
+    expect(cacheRuleFor("/a/BA/r/ROUTE1")).toEqual(page);
     expect(cacheRuleFor("/sitemap.xml")).toEqual({
       ttlSeconds: STATIC_TTL_SECONDS,
+      perLanguage: false,
     });
     expect(cacheRuleFor("/robots.txt")).toEqual({
       ttlSeconds: STATIC_TTL_SECONDS,
+      perLanguage: false,
     });
   });
 
@@ -39,6 +40,76 @@ describe("cacheRuleFor", () => {
   });
 });
 
+describe("languageRedirect", () => {
+  const request = (url: string, acceptLanguage?: string) =>
+    new Request(url, {
+      headers: acceptLanguage ? { "accept-language": acceptLanguage } : {},
+    });
+
+  it("sends header-negotiated page requests to their ?lang= URL", () => {
+    expect(
+      languageRedirect(
+        request(
+          "https://transit.directory/a/BA/s/STOP1?accessible=1",
+          "fr-CA,fr;q=0.9,en;q=0.8,de;q=0.7",
+        ),
+      ),
+    ).toBe(
+      "https://transit.directory/a/BA/s/STOP1?accessible=1&lang=fr-ca%2Cfr%2Cen",
+    );
+    expect(languageRedirect(request("https://transit.directory/", "es"))).toBe(
+      "https://transit.directory/?lang=es",
+    );
+  });
+
+  it("leaves requests that name their language or send none", () => {
+    expect(
+      languageRedirect(request("https://transit.directory/a/BA?lang=es", "fr")),
+    ).toBeNull();
+    expect(
+      languageRedirect(request("https://transit.directory/a/BA")),
+    ).toBeNull();
+    expect(
+      languageRedirect(request("https://transit.directory/a/BA", "*;q=0.5")),
+    ).toBeNull();
+  });
+
+  it("never redirects routes rendered without translations", () => {
+    expect(
+      languageRedirect(request("https://transit.directory/sitemap.xml", "fr")),
+    ).toBeNull();
+    expect(
+      languageRedirect(
+        request("https://transit.directory/api/v1/agencies", "fr"),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("isCacheableUrl", () => {
+  const page = cacheRuleFor("/a/BA")!;
+
+  it("caches pages only under a ?lang= URL", () => {
+    // A bare page URL cached for one rider would be served to every other
+    // rider, whatever their Accept-Language.
+    expect(
+      isCacheableUrl(new URL("https://transit.directory/a/BA"), page),
+    ).toBe(false);
+    expect(
+      isCacheableUrl(new URL("https://transit.directory/a/BA?lang=fr"), page),
+    ).toBe(true);
+  });
+
+  it("caches language-independent routes under any URL", () => {
+    expect(
+      isCacheableUrl(
+        new URL("https://transit.directory/sitemap.xml"),
+        cacheRuleFor("/sitemap.xml")!,
+      ),
+    ).toBe(true);
+  });
+});
+
 describe("shouldBypassCache", () => {
   const url = "https://transit.directory/a/BA";
 
@@ -95,6 +166,15 @@ describe("withCacheHeaders", () => {
     expect(vary).toContain("next-router-prefetch");
   });
 
+  it("adds extra Vary headers", () => {
+    const result = withCacheHeaders(new Response("ok"), 60, [
+      "Accept-Language",
+    ]);
+    const vary = (result.headers.get("vary") || "").toLowerCase();
+    expect(vary).toContain("accept-language");
+    expect(vary).toContain("rsc");
+  });
+
   it("keeps a Vary the framework already set", () => {
     const result = withCacheHeaders(
       new Response("ok", { headers: { Vary: "Accept-Encoding" } }),
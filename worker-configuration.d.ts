@@ -8,6 +8,9 @@ declare namespace Cloudflare {
 	interface Env {
 		SESSION: KVNamespace;
 		API_KEY_511: string;
+		ADMIN_API_TOKEN: string;
+		HEALTH_WEBHOOK_URL: string;
+		VALIDATION_BLOCK_SEVERITY: string;
 		gtfs_processing: R2Bucket;
 		gtfs_data: D1Database;
 		ASSETS: Fetcher;
@@ -20,7 +23,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "API_KEY_511">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "API_KEY_511" | "ADMIN_API_TOKEN" | "HEALTH_WEBHOOK_URL" | "VALIDATION_BLOCK_SEVERITY">> {}
 }
 
 // Begin runtime types
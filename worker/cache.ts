@@ -11,6 +11,8 @@
 // every ~15-60s, so a short shared cache shields D1 from page and bot traffic
 // at negligible freshness cost.
 
+import { parseLanguagePreferences } from "../src/translations";
+
 // Tunable TTLs.
 export const PAGE_TTL_SECONDS = 60;
 export const STATIC_TTL_SECONDS = 3600;
@@ -19,19 +21,55 @@ export const BROWSER_TTL_SECONDS = 15;
 
 export interface CacheRule {
   ttlSeconds: number;
+  // Rendered in the rider's language (see languageRedirect).
+  perLanguage: boolean;
 }
 
 // Allowlist; anything not matched here (notably all /api/* routes, which
 // TRMNL devices poll for fresh data) is served uncached.
 export function cacheRuleFor(pathname: string): CacheRule | null {
-  if (pathname === "/") return { ttlSeconds: PAGE_TTL_SECONDS };
+  if (pathname === "/" || pathname.startsWith("/a/")) {
+    return { ttlSeconds: PAGE_TTL_SECONDS, perLanguage: true };
+  }
   if (pathname === "/sitemap.xml" || pathname === "/robots.txt") {
-    return { ttlSeconds: STATIC_TTL_SECONDS };
+    return { ttlSeconds: STATIC_TTL_SECONDS, perLanguage: false };
   }
-  if (pathname.startsWith("/a/")) return { ttlSeconds: PAGE_TTL_SECONDS };
   return null;
 }
 
+// Preferences carried into the `?lang=` URL; more only splits the cache.
+const REDIRECT_LANGUAGES = 3;
+
+/**
+ * Pages render names in the language negotiated from `?lang=`, else from
+ * Accept-Language (src/translations.ts). The edge cache keys on the URL
+ * alone and ignores `Vary: Accept-Language`, so a page is only cached under
+ * a `?lang=` URL, where the header plays no part. This is that URL for a
+ * page request that would negotiate from the header, or null when the
+ * request already names its languages or sends none.
+ */
+export function languageRedirect(request: Request): string | null {
+  const url = new URL(request.url);
+  if (!cacheRuleFor(url.pathname)?.perLanguage) return null;
+  if (url.searchParams.has("lang")) return null;
+  const preferences = parseLanguagePreferences(
+    null,
+    request.headers.get("accept-language"),
+  ).slice(0, REDIRECT_LANGUAGES);
+  if (preferences.length === 0) return null;
+  url.searchParams.set("lang", preferences.join(","));
+  return url.toString();
+}
+
+/**
+ * Whether a page response may go in the shared cache: a bare page URL is
+ * also requested by riders whose header asks for another language, and the
+ * cache would hand them this copy before the worker could redirect them.
+ */
+export function isCacheableUrl(url: URL, rule: CacheRule): boolean {
+  return !rule.perLanguage || url.searchParams.has("lang");
+}
+
 // Headers used by React Server Component / Next router negotiation; those
 // responses must never be cached under the page's HTML URL.
 const RSC_NEGOTIATION_HEADERS = [
@@ -70,17 +108,18 @@ function appendVary(headers: Headers, fields: string[]): void {
 
 // Mark a response cacheable in the shared edge cache for `ttlSeconds`. Varying
 // on the RSC negotiation headers keeps a cached HTML page from ever being
-// served in place of a flight payload for the same URL.
+// served in place of a flight payload for the same URL; `vary` adds more.
 export function withCacheHeaders(
   response: Response,
   ttlSeconds: number,
+  vary: string[] = [],
 ): Response {
   const result = new Response(response.body, response);
   result.headers.set(
     "Cache-Control",
     `public, max-age=${BROWSER_TTL_SECONDS}, s-maxage=${ttlSeconds}`,
   );
-  appendVary(result.headers, RSC_NEGOTIATION_HEADERS);
+  appendVary(result.headers, [...RSC_NEGOTIATION_HEADERS, ...vary]);
   return result;
 }
 
@@ -1,7 +1,11 @@
 import handler from "vinext/server/app-router-entry";
 import { Import511Workflow } from "../src/Import511Workflow";
+import { checkFeedHealth } from "../src/feed-health";
+import { makeWorkflowInstanceId } from "../src/feed-sources";
 import {
   cacheRuleFor,
+  isCacheableUrl,
+  languageRedirect,
   shouldBypassCache,
   withCacheHeaders,
   withPrivateHeaders,
@@ -15,19 +19,6 @@ const appFetch = handler.fetch as unknown as (
   ctx: ExecutionContext,
 ) => Promise<Response>;
 
-// Workflow instance ids are padded to the maximum length so concurrent
-// triggers can never collide.
-function makeWorkflowInstanceId(prefix: string): string {
-  const maxLen = 64;
-  const remaining = Math.max(0, maxLen - prefix.length);
-  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
-  let randomStr = "";
-  for (let i = 0; i < remaining; i++) {
-    randomStr += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return prefix + randomStr;
-}
-
 const pad = (n: number) => n.toString().padStart(2, "0");
 
 async function triggerStaticFeedUpdates(env: Env) {
@@ -35,41 +26,73 @@ async function triggerStaticFeedUpdates(env: Env) {
     .prepare("SELECT source_name FROM feed_source")
     .all<{ source_name: string }>();
 
-  const agencies = result.results || [];
+  const sources = result.results || [];
 
-  if (agencies.length === 0) {
+  if (sources.length === 0) {
     console.log("[cron] No feed sources found, skipping static feed updates.");
     return;
   }
 
   console.log(
-    `[cron] Triggering static feed updates for ${agencies.length} agencies.`,
+    `[cron] Triggering static feed updates for ${sources.length} feed sources.`,
   );
 
   const now = new Date();
   const yyyymmdd = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`;
 
-  for (const agency of agencies) {
-    const operatorId = agency.source_name;
-
+  // The workflow resolves each source's provider and URL itself
+  // (src/feed-sources.ts).
+  for (const { source_name: sourceName } of sources) {
     try {
       await env.IMPORT_511_WORKFLOW.create({
-        id: makeWorkflowInstanceId(`${yyyymmdd}-daily-511-${operatorId}-`),
-        params: { id: operatorId },
+        id: makeWorkflowInstanceId(`${yyyymmdd}-daily-${sourceName}-`),
+        params: { id: sourceName },
       });
-      console.log(`[cron] Triggered static feed update for ${operatorId}.`);
+      console.log(`[cron] Triggered static feed update for ${sourceName}.`);
     } catch (err) {
       console.error(
-        `[cron] Failed to trigger static feed update for ${operatorId}:`,
+        `[cron] Failed to trigger static feed update for ${sourceName}:`,
         err,
       );
     }
   }
 }
 
+// Runs alongside the imports, so a source whose import keeps failing is still
+// checked against the versions it already has. Each import checks its source
+// too; checkFeedHealth lets only one of two overlapping checks post.
+async function checkAllFeedHealth(env: Env) {
+  const result = await env.gtfs_data
+    .prepare("SELECT feed_source_id, source_name FROM feed_source")
+    .all<{ feed_source_id: number; source_name: string }>();
+
+  for (const { feed_source_id, source_name } of result.results || []) {
+    try {
+      const warnings = await checkFeedHealth(
+        env.gtfs_data,
+        feed_source_id,
+        env.HEALTH_WEBHOOK_URL,
+      );
+      console.log(
+        `[cron] Feed health for ${source_name}: ${warnings.length} warning(s).`,
+      );
+    } catch (err) {
+      console.error(`[cron] Feed health check failed for ${source_name}:`, err);
+    }
+  }
+}
+
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext) {
     const url = new URL(request.url);
+
+    // Pages are cached per `?lang=` URL, so a page request negotiating its
+    // language from Accept-Language is sent to that URL first.
+    if (!shouldBypassCache(request)) {
+      const target = languageRedirect(request);
+      if (target) return withPrivateHeaders(Response.redirect(target, 302));
+    }
+
     const response = await appFetch(request, env, ctx);
 
     // Workers Caching (wrangler.jsonc `cache.enabled`) serves cached responses
@@ -83,10 +106,13 @@ export default {
       return withPrivateHeaders(response);
     }
 
-    // Allowlisted pages get a short shared TTL.
+    // Allowlisted pages get a short shared TTL; a bare page URL without a
+    // language is rendered in the feeds' own text but never stored.
     const rule = cacheRuleFor(url.pathname);
     if (rule && response.status === 200) {
-      return withCacheHeaders(response, rule.ttlSeconds);
+      return isCacheableUrl(url, rule)
+        ? withCacheHeaders(response, rule.ttlSeconds)
+        : withPrivateHeaders(response);
     }
 
     // /api/* is polled by TRMNL devices for fresh data; keep it uncached.
@@ -103,6 +129,7 @@ export default {
 
     if (event.cron === "0 8 * * *") {
       ctx.waitUntil(triggerStaticFeedUpdates(env));
+      ctx.waitUntil(checkAllFeedHealth(env));
     }
   },
 } satisfies ExportedHandler<Env>;